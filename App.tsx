@@ -12,6 +12,10 @@ import UserManagementPage from './components/UserManagementPage';
 import SuperadminPage from './components/SuperadminPage';
 import ProfilePage from './components/ProfilePage';
 import BillingPage from './components/BillingPage';
+import PeriodsPage from './components/PeriodsPage';
+import InvitationsPage from './components/InvitationsPage';
+import AuditLogPage from './components/AuditLogPage';
+import TrashPage from './components/TrashPage';
 import CreateOKRModal from './components/CreateOKRModal';
 import OKRDetailModal from './components/OKRDetailModal';
 import LoginPage from './components/LoginPage';
@@ -239,6 +243,14 @@ const AppContent: React.FC = () => {
         return <ProfilePage />;
       case 'billing':
         return <BillingPage />;
+      case 'periods':
+        return <PeriodsPage />;
+      case 'invitations':
+        return <InvitationsPage />;
+      case 'audit':
+        return <AuditLogPage />;
+      case 'trash':
+        return <TrashPage />;
       default:
         return <Dashboard currentUser={currentUser} />;
     }
@@ -3,6 +3,75 @@
  * Handles communication with the backend server
  */
 
+import type {
+  AcceptInvitationResult,
+  ApiTokenList,
+  ApprovalHistoryItem,
+  ApprovalStatus,
+  BulkInvitationResult,
+  BulkInvitePreview,
+  BulkInviteResult,
+  CheckInDue,
+  ClosePeriodData,
+  ClosePeriodResult,
+  CommentData,
+  CompanyInvitations,
+  Contributor,
+  ContributorRole,
+  CreateApiTokenData,
+  CreateCheckInData,
+  CreatedApiToken,
+  CreateInvitationData,
+  CreateObjectiveData,
+  InvitationDetails,
+  InvitationRegistration,
+  InvitationSettings,
+  InvitationSettingsData,
+  InvitationStatus,
+  KeyResult,
+  KeyResultCheckIn,
+  KeyResultInput,
+  KeyResultUpdate,
+  LevelCompletion,
+  OKRComment,
+  OKRLevel,
+  OKRTemplate,
+  Objective,
+  ObjectiveNode,
+  ObjectiveWithAncestors,
+  ParentKeyResult,
+  Period,
+  PeriodData,
+  ProgressTrendPoint,
+  RegisterFromInvitationData,
+  ResendInvitationResult,
+  RolloverCandidate,
+  SearchUser,
+  Stats,
+  StatusDistributionPoint,
+  SuccessResult,
+  Team,
+  TeamDashboard,
+  TeamData,
+  TeamInvitation,
+  TeamMember,
+  TeamRisk,
+  TeamRole,
+  TeamTreeNode,
+  TemplateData,
+  TemplateFromObjectiveData,
+  TrashItem,
+  TrashItemType,
+  TrashSettings,
+  TrashSettingsData,
+  UpdateCommentData,
+  UpdateObjectiveData,
+  UpdatePeriodData,
+  UpdateTeamData,
+  UpdateTemplateData,
+  UserBasic,
+} from './contract.generated';
+
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3002/api';
 
 // Token management
@@ -225,75 +294,62 @@ export const authAPI = {
 
 // === OKR API ===
 
-export interface HealthMetrics {
-  paceRatio: number;          // actual progress / expected progress (1.0 = on pace)
-  expectedProgress: number;   // where we should be based on time elapsed
-  progressGap: number;        // expected - actual (positive = behind)
-  daysRemaining: number | null;
-  daysElapsed: number;
-  totalDays: number;
-  percentTimeElapsed: number;
-  isOnPace: boolean;
-  riskLevel: 'low' | 'medium' | 'high' | 'critical';
-  recommendation: string | null;
-}
-
-export interface KeyResult {
-  id: string;
-  description: string;
-  metricType: 'percentage' | 'number' | 'currency' | 'boolean';
-  startValue: number;
-  targetValue: number;
-  currentValue: number;
-  unit?: string;
-  status: 'on-track' | 'at-risk' | 'off-track' | 'completed' | 'draft';
-  confidence: 'high' | 'medium' | 'low';
-}
-
-export type OKRLevel = 'company' | 'department' | 'team' | 'individual';
-export type ApprovalStatus = 'draft' | 'pending_review' | 'approved' | 'active' | 'paused' | 'stopped' | 'archived' | 'closed' | 'failed';
-
-export interface Objective {
-  id: string;
-  title: string;
-  description: string;
-  ownerId: string;
-  ownerName?: string;
-  level: OKRLevel;
-  period: string;
-  status: 'on-track' | 'at-risk' | 'off-track' | 'completed' | 'draft' | 'approved';
-  progress: number;
-  keyResults: KeyResult[];
-  dueDate: string;
-  createdAt?: string;
-  updatedAt?: string;
-  healthMetrics?: HealthMetrics;
-  // Hierarchy fields
-  parentObjectiveId?: string | null;
-  parentObjectiveTitle?: string | null;
-  parentKeyResultId?: string | null;
-  parentKeyResultDescription?: string | null;
-  teamId?: string | null;
-  teamName?: string | null;
-  childrenCount?: number;
-  children?: Objective[];
-  ancestors?: { id: string; title: string; level: OKRLevel }[];
-  // Approval workflow
-  approvalStatus?: ApprovalStatus;
-  approvedBy?: string | null;
-  approvedByName?: string | null;
-  approvedAt?: string | null;
-}
-
-export interface ParentKeyResult {
-  id: string;
-  description: string;
-  objectiveId: string;
-  objectiveTitle: string;
-  objectiveLevel: OKRLevel;
-  period: string;
-  ownerName: string;
-}
+// Shapes of the routes covered by the API contract (server/contract/contract.js)
+export type {
+  HealthMetrics,
+  KeyResultDirection,
+  MilestoneStep,
+  KeyResult,
+  KeyResultInput,
+  KeyResultUpdate,
+  OKRLevel,
+  ProgressStatus,
+  ApprovalStatus,
+  ApprovalAction,
+  ContributorRole,
+  Objective,
+  ObjectiveAncestor,
+  ApprovalHistoryItem,
+  Contributor,
+  CreateObjectiveData,
+  UpdateObjectiveData,
+  KeyResultCheckIn,
+  CreateCheckInData,
+  PeriodStatus,
+  Period,
+  PeriodData,
+  UpdatePeriodData,
+  OKRComment,
+  CommentData,
+  UpdateCommentData,
+  ApiTokenScope,
+  ApiToken,
+  CreatedApiToken,
+  ApiTokenList,
+  CreateApiTokenData,
+  CheckInDue,
+  RolloverCandidate,
+  ClosePeriodData,
+  ClosePeriodResult,
+  UserBasic,
+  ParentKeyResult,
+  ObjectiveNode,
+  ObjectiveWithAncestors,
+  TemplateKeyResult,
+  OKRTemplate,
+  TemplateData,
+  UpdateTemplateData,
+  TemplateFromObjectiveData,
+  TrashItemType,
+  TrashItem,
+  TrashSettings,
+  TrashSettingsData,
+  Stats,
+  ProgressTrendPoint,
+  LevelCompletion,
+  StatusDistributionPoint,
+  TeamRisk,
+} from './contract.generated';
 
 // Legacy - kept for backward compatibility
 export interface ParentObjective {
@@ -306,60 +362,28 @@ export interface ParentObjective {
   ownerName: string;
 }
 
-export interface ApprovalHistoryItem {
-  id: string;
-  objectiveId: string;
-  action: 'submitted' | 'approved' | 'rejected' | 'activated';
-  performedBy: string;
-  performedByName: string;
-  comment: string | null;
-  createdAt: string;
-}
-
-export interface Contributor {
-  id: string;
-  userId: string;
-  name: string;
-  email: string;
-  profilePicture?: string | null;
-  role: 'contributor' | 'reviewer' | 'supporter';
-  addedAt: string;
-}
-
 export interface ObjectiveFilters {
   level?: string;
   period?: string;
+  periodId?: string;
   status?: string;
   mine?: boolean;
   parentObjectiveId?: string;
   approvalStatus?: ApprovalStatus;
 }
 
-export interface CreateObjectiveData {
-  title: string;
-  description?: string;
-  level: OKRLevel;
-  period: string;
-  dueDate?: string;
-  ownerId?: string;
-  status?: 'on-track' | 'at-risk' | 'off-track' | 'completed' | 'draft';
-  keyResults?: Omit<KeyResult, 'id' | 'status' | 'confidence'>[];
-  // Hierarchy fields - now links to parent KR instead of parent OKR
-  parentKeyResultId?: string | null;
-  teamId?: string | null;
-}
-
-export interface UserBasic {
-  id: string;
-  name: string;
-  email: string;
+export interface HierarchyFilters {
+  period?: string;
+  periodId?: string;
+  teamId?: string;
 }
 
-export interface Stats {
-  totalObjectives: number;
-  avgProgress: number;
-  atRiskCount: number;
-  completedCount: number;
+export interface CloneObjectiveData {
+  title?: string;
+  periodId?: string;
+  ownerId?: string;
+  teamId?: string | null;
+  includeChildren?: boolean;  // also copy objectives aligned to its key results
 }
 
 export const okrAPI = {
@@ -368,6 +392,7 @@ export const okrAPI = {
     const params = new URLSearchParams();
     if (filters.level) params.set('level', filters.level);
     if (filters.period) params.set('period', filters.period);
+    if (filters.periodId) params.set('periodId', filters.periodId);
     if (filters.status) params.set('status', filters.status);
     if (filters.mine) params.set('mine', 'true');
 
@@ -386,7 +411,7 @@ export const okrAPI = {
     });
   },
 
-  async updateObjective(id: string, data: Partial<CreateObjectiveData>): Promise<Objective> {
+  async updateObjective(id: string, data: UpdateObjectiveData): Promise<Objective> {
     return fetchAPI<Objective>(`/okr/objectives/${id}`, {
       method: 'PUT',
       body: JSON.stringify(data),
@@ -399,15 +424,23 @@ export const okrAPI = {
     });
   },
 
+  // Duplicate an objective as a draft (optionally with its aligned children)
+  async cloneObjective(id: string, data: CloneObjectiveData = {}): Promise<{ objective: Objective; clonedCount: number }> {
+    return fetchAPI<{ objective: Objective; clonedCount: number }>(`/okr/objectives/${id}/clone`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
   // Key Results
-  async addKeyResult(objectiveId: string, data: Omit<KeyResult, 'id' | 'status' | 'confidence'>): Promise<KeyResult> {
+  async addKeyResult(objectiveId: string, data: KeyResultInput): Promise<KeyResult> {
     return fetchAPI<KeyResult>(`/okr/objectives/${objectiveId}/key-results`, {
       method: 'POST',
       body: JSON.stringify(data),
     });
   },
 
-  async updateKeyResult(id: string, data: Partial<KeyResult>): Promise<KeyResult> {
+  async updateKeyResult(id: string, data: KeyResultUpdate): Promise<KeyResult> {
     return fetchAPI<KeyResult>(`/okr/key-results/${id}`, {
       method: 'PUT',
       body: JSON.stringify(data),
@@ -420,6 +453,31 @@ export const okrAPI = {
     });
   },
 
+  // === CHECK-INS ===
+
+  // Record a check-in (value, confidence and context) on a key result
+  async createCheckIn(keyResultId: string, data: CreateCheckInData): Promise<KeyResultCheckIn> {
+    return fetchAPI<KeyResultCheckIn>(`/okr/key-results/${keyResultId}/check-ins`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Get check-ins for a key result
+  async getCheckIns(keyResultId: string): Promise<KeyResultCheckIn[]> {
+    return fetchAPI<KeyResultCheckIn[]>(`/okr/key-results/${keyResultId}/check-ins`);
+  },
+
+  // Get check-in timeline for all key results of an objective
+  async getObjectiveCheckIns(objectiveId: string): Promise<KeyResultCheckIn[]> {
+    return fetchAPI<KeyResultCheckIn[]>(`/okr/objectives/${objectiveId}/check-ins`);
+  },
+
+  // Get key results the current user still has to check in this week
+  async getCheckInsDue(): Promise<CheckInDue[]> {
+    return fetchAPI<CheckInDue[]>('/okr/check-ins/due');
+  },
+
   // Stats
   async getStats(): Promise<Stats> {
     return fetchAPI<Stats>('/okr/stats');
@@ -430,23 +488,211 @@ export const okrAPI = {
     return fetchAPI(`/okr/objectives/${objectiveId}/history`);
   },
 
+  // === ANALYTICS ===
+
+  // Get weekly progress trend per period
+  async getProgressTrend(period?: string): Promise<ProgressTrendPoint[]> {
+    const params = period ? `?period=${encodeURIComponent(period)}` : '';
+    return fetchAPI<ProgressTrendPoint[]>(`/okr/analytics/progress-trend${params}`);
+  },
+
+  // Get completion rate by OKR level
+  async getCompletionByLevel(period?: string): Promise<LevelCompletion[]> {
+    const params = period ? `?period=${encodeURIComponent(period)}` : '';
+    return fetchAPI<LevelCompletion[]>(`/okr/analytics/completion-by-level${params}`);
+  },
+
+  // Get approval status distribution over the last weeks
+  async getStatusDistribution(period?: string, weeks?: number): Promise<StatusDistributionPoint[]> {
+    const params = new URLSearchParams();
+    if (period) params.set('period', period);
+    if (weeks) params.set('weeks', String(weeks));
+    const query = params.toString() ? `?${params}` : '';
+    return fetchAPI<StatusDistributionPoint[]>(`/okr/analytics/status-distribution${query}`);
+  },
+
+  // Get at-risk ratio per team
+  async getTeamRisk(period?: string): Promise<TeamRisk[]> {
+    const params = period ? `?period=${encodeURIComponent(period)}` : '';
+    return fetchAPI<TeamRisk[]>(`/okr/analytics/team-risk${params}`);
+  },
+
+  // Periods
+  async getPeriods(): Promise<Period[]> {
+    return fetchAPI<Period[]>('/okr/periods');
+  },
+
+  // Create period (admin only)
+  async createPeriod(data: PeriodData): Promise<Period> {
+    return fetchAPI<Period>('/okr/periods', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Update period name or dates (admin only)
+  async updatePeriod(id: string, data: UpdatePeriodData): Promise<Period> {
+    return fetchAPI<Period>(`/okr/periods/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Delete an empty period (admin only)
+  async deletePeriod(id: string): Promise<void> {
+    return fetchAPI<void>(`/okr/periods/${id}`, {
+      method: 'DELETE',
+    });
+  },
+
+  // Unfinished objectives that can be carried over when closing a period
+  async getRolloverCandidates(id: string): Promise<RolloverCandidate[]> {
+    return fetchAPI<RolloverCandidate[]>(`/okr/periods/${id}/rollover-candidates`);
+  },
+
+  // Close period, optionally rolling unfinished objectives into another period
+  async closePeriod(id: string, data: ClosePeriodData = {}): Promise<ClosePeriodResult> {
+    return fetchAPI<ClosePeriodResult>(`/okr/periods/${id}/close`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Reopen a closed period
+  async reopenPeriod(id: string): Promise<Period> {
+    return fetchAPI<Period>(`/okr/periods/${id}/reopen`, {
+      method: 'POST',
+    });
+  },
+
+  // Comments
+  async getComments(objectiveId: string, keyResultId?: string | null): Promise<OKRComment[]> {
+    const params = keyResultId ? `?keyResultId=${encodeURIComponent(keyResultId)}` : '';
+    return fetchAPI<OKRComment[]>(`/okr/objectives/${objectiveId}/comments${params}`);
+  },
+
+  // Post a comment or reply
+  async createComment(objectiveId: string, data: CommentData): Promise<OKRComment> {
+    return fetchAPI<OKRComment>(`/okr/objectives/${objectiveId}/comments`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Edit own comment
+  async updateComment(id: string, data: UpdateCommentData): Promise<OKRComment> {
+    return fetchAPI<OKRComment>(`/okr/comments/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Delete comment (author or admin)
+  async deleteComment(id: string): Promise<void> {
+    return fetchAPI<void>(`/okr/comments/${id}`, {
+      method: 'DELETE',
+    });
+  },
+
+  // Users of the company that can be @mentioned
+  async getMentionableUsers(): Promise<UserBasic[]> {
+    return fetchAPI<UserBasic[]>('/okr/mentionable-users');
+  },
+
+  // Templates
+  async getTemplates(): Promise<OKRTemplate[]> {
+    return fetchAPI<OKRTemplate[]>('/okr/templates');
+  },
+
+  // Create template (admin only)
+  async createTemplate(data: TemplateData): Promise<OKRTemplate> {
+    return fetchAPI<OKRTemplate>('/okr/templates', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Save an existing objective as template (admin only)
+  async createTemplateFromObjective(objectiveId: string, data: TemplateFromObjectiveData = {}): Promise<OKRTemplate> {
+    return fetchAPI<OKRTemplate>(`/okr/objectives/${objectiveId}/template`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Update template (admin only)
+  async updateTemplate(id: string, data: UpdateTemplateData): Promise<OKRTemplate> {
+    return fetchAPI<OKRTemplate>(`/okr/templates/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Delete template (admin only)
+  async deleteTemplate(id: string): Promise<void> {
+    return fetchAPI<void>(`/okr/templates/${id}`, {
+      method: 'DELETE',
+    });
+  },
+
   // Get users for assignment (accessible to lead and admin)
   async getUsers(): Promise<UserBasic[]> {
     return fetchAPI<UserBasic[]>('/okr/assignable-users');
   },
 
+  // === TRASH ===
+
+  // Deleted objectives and key results (admins see the whole company)
+  async getTrash(): Promise<TrashItem[]> {
+    return fetchAPI<TrashItem[]>('/okr/trash');
+  },
+
+  // Restore a deleted objective or key result with what was deleted along with it
+  async restoreTrashItem(type: TrashItemType, id: string): Promise<Objective | KeyResult> {
+    const path = type === 'objective' ? 'objectives' : 'key-results';
+    return fetchAPI<Objective | KeyResult>(`/okr/trash/${path}/${id}/restore`, {
+      method: 'POST',
+    });
+  },
+
+  // Permanently delete a trash item (admin only)
+  async purgeTrashItem(type: TrashItemType, id: string): Promise<void> {
+    const path = type === 'objective' ? 'objectives' : 'key-results';
+    return fetchAPI<void>(`/okr/trash/${path}/${id}`, {
+      method: 'DELETE',
+    });
+  },
+
+  // Trash retention of the company (admin only)
+  async getTrashSettings(): Promise<TrashSettings> {
+    return fetchAPI<TrashSettings>('/okr/trash/settings');
+  },
+
+  async updateTrashSettings(data: TrashSettingsData): Promise<TrashSettings> {
+    return fetchAPI<TrashSettings>('/okr/trash/settings', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
   // === HIERARCHY ===
 
   // Get full hierarchy tree
-  async getHierarchy(period?: string): Promise<Objective[]> {
-    const params = period ? `?period=${encodeURIComponent(period)}` : '';
-    return fetchAPI<Objective[]>(`/okr/hierarchy${params}`);
+  async getHierarchy(filters: HierarchyFilters = {}): Promise<ObjectiveNode[]> {
+    const params = new URLSearchParams();
+    if (filters.period) params.set('period', filters.period);
+    if (filters.periodId) params.set('periodId', filters.periodId);
+    if (filters.teamId) params.set('teamId', filters.teamId);
+
+    const query = params.toString() ? `?${params}` : '';
+    return fetchAPI<ObjectiveNode[]>(`/okr/hierarchy${query}`);
   },
 
-  // Get available parent Key Results for a given level
-  async getAvailableParents(level: OKRLevel, excludeId?: string): Promise<ParentKeyResult[]> {
+  // Get available parent Key Results for a given level (with teamId, also the KRs of its departments)
+  async getAvailableParents(level: OKRLevel, excludeId?: string, teamId?: string): Promise<ParentKeyResult[]> {
     const params = new URLSearchParams({ level });
     if (excludeId) params.set('excludeId', excludeId);
+    if (teamId) params.set('teamId', teamId);
     return fetchAPI<ParentKeyResult[]>(`/okr/available-parents?${params}`);
   },
 
@@ -456,8 +702,8 @@ export const okrAPI = {
   },
 
   // Get objective with ancestors (breadcrumb)
-  async getObjectiveWithAncestors(objectiveId: string): Promise<Objective & { ancestors: { id: string; title: string; level: OKRLevel }[] }> {
-    return fetchAPI(`/okr/objectives/${objectiveId}/ancestors`);
+  async getObjectiveWithAncestors(objectiveId: string): Promise<ObjectiveWithAncestors> {
+    return fetchAPI<ObjectiveWithAncestors>(`/okr/objectives/${objectiveId}/ancestors`);
   },
 
   // === APPROVAL WORKFLOW ===
@@ -562,7 +808,7 @@ export const okrAPI = {
   },
 
   // Add contributor to objective
-  async addContributor(objectiveId: string, userId: string, role: string = 'contributor'): Promise<Contributor> {
+  async addContributor(objectiveId: string, userId: string, role: ContributorRole = 'contributor'): Promise<Contributor> {
     return fetchAPI<Contributor>(`/okr/objectives/${objectiveId}/contributors`, {
       method: 'POST',
       body: JSON.stringify({ userId, role }),
@@ -577,7 +823,7 @@ export const okrAPI = {
   },
 
   // Update contributor role
-  async updateContributorRole(contributorId: string, role: string): Promise<Contributor> {
+  async updateContributorRole(contributorId: string, role: ContributorRole): Promise<Contributor> {
     return fetchAPI<Contributor>(`/okr/contributors/${contributorId}`, {
       method: 'PUT',
       body: JSON.stringify({ role }),
@@ -587,49 +833,28 @@ export const okrAPI = {
 
 // === TEAM API ===
 
-export interface Team {
-  id: string;
-  name: string;
-  description?: string;
-  ownerId: string;
-  ownerName?: string;
-  ownerEmail?: string;
-  memberCount: number;
-  createdAt: string;
-  updatedAt: string;
-}
-
-export interface TeamMember {
-  id: string;
-  odIduser: string;  // user_id from backend (legacy name)
-  userId?: string;   // alias for odIduser
-  name: string;
-  email: string;
-  role: 'owner' | 'admin' | 'member';
-  joinedAt: string;
-  avatar: string;
-}
-
-export interface SearchUser {
-  id: string;
-  name: string;
-  email: string;
-  avatar: string;
-}
-
-export interface TeamInvitation {
-  id: string;
-  teamId: string;
-  teamName?: string;
-  email: string;
-  role: 'admin' | 'member';
-  status: 'pending' | 'accepted' | 'declined' | 'expired';
-  invitedBy: string;
-  invitedByName?: string;
-  expiresAt: string;
-  createdAt: string;
-  inviteLink?: string;
-}
+export type {
+  TeamType,
+  Team,
+  TeamTreeNode,
+  TeamDashboard,
+  TeamData,
+  UpdateTeamData,
+  TeamMemberRole,
+  TeamRole,
+  TeamMember,
+  SearchUser,
+  TeamInvitation,
+  InvitationStatus,
+  CompanyInvitations,
+  BulkInviteRowStatus,
+  BulkInvitePreviewRow,
+  BulkInvitePreview,
+  BulkInviteResult,
+  BulkInvitationResult,
+  InvitationSettings,
+  InvitationDetails,
+} from './contract.generated';
 
 export const teamAPI = {
   // Teams
@@ -641,14 +866,24 @@ export const teamAPI = {
     return fetchAPI<Team>(`/teams/${id}`);
   },
 
-  async createTeam(data: { name: string; description?: string; leadId?: string }): Promise<Team> {
+  // Org tree of the company (departments and the teams they contain)
+  async getTeamTree(): Promise<TeamTreeNode[]> {
+    return fetchAPI<TeamTreeNode[]>('/teams/tree');
+  },
+
+  // Objectives, member contributions, at-risk KRs, check-in cadence and trend of one team
+  async getTeamDashboard(teamId: string): Promise<TeamDashboard> {
+    return fetchAPI<TeamDashboard>(`/teams/${teamId}/dashboard`);
+  },
+
+  async createTeam(data: TeamData): Promise<Team> {
     return fetchAPI<Team>('/teams', {
       method: 'POST',
       body: JSON.stringify(data),
     });
   },
 
-  async updateTeam(id: string, data: { name?: string; description?: string }): Promise<Team> {
+  async updateTeam(id: string, data: UpdateTeamData): Promise<Team> {
     return fetchAPI<Team>(`/teams/${id}`, {
       method: 'PUT',
       body: JSON.stringify(data),
@@ -666,8 +901,8 @@ export const teamAPI = {
     return fetchAPI<TeamMember[]>(`/teams/${teamId}/members`);
   },
 
-  async updateMemberRole(teamId: string, memberId: string, role: 'admin' | 'member'): Promise<void> {
-    return fetchAPI<void>(`/teams/${teamId}/members/${memberId}`, {
+  async updateMemberRole(teamId: string, memberId: string, role: TeamRole): Promise<SuccessResult> {
+    return fetchAPI<SuccessResult>(`/teams/${teamId}/members/${memberId}`, {
       method: 'PUT',
       body: JSON.stringify({ role }),
     });
@@ -683,7 +918,7 @@ export const teamAPI = {
     return fetchAPI<SearchUser[]>(`/teams/${teamId}/users/search?q=${encodeURIComponent(query)}`);
   },
 
-  async addMember(teamId: string, userId: string, role: 'admin' | 'member' = 'member'): Promise<TeamMember> {
+  async addMember(teamId: string, userId: string, role: TeamRole = 'member'): Promise<TeamMember> {
     return fetchAPI<TeamMember>(`/teams/${teamId}/members`, {
       method: 'POST',
       body: JSON.stringify({ userId, role }),
@@ -695,22 +930,72 @@ export const teamAPI = {
     return fetchAPI<TeamInvitation[]>(`/teams/${teamId}/invitations`);
   },
 
-  async createInvitation(teamId: string, data: { email: string; role?: 'admin' | 'member' }): Promise<TeamInvitation> {
+  async createInvitation(teamId: string, data: CreateInvitationData): Promise<TeamInvitation> {
     return fetchAPI<TeamInvitation>(`/teams/${teamId}/invitations`, {
       method: 'POST',
       body: JSON.stringify(data),
     });
   },
 
+  // Validate a CSV (email, role, name) before sending the invitations
+  async previewBulkInvitations(teamId: string, csv: string): Promise<BulkInvitePreview> {
+    return fetchAPI<BulkInvitePreview>(`/teams/${teamId}/invitations/bulk/preview`, {
+      method: 'POST',
+      body: JSON.stringify({ csv }),
+    });
+  },
+
+  // Send the valid invitations of a CSV
+  async createBulkInvitations(teamId: string, csv: string): Promise<BulkInviteResult> {
+    return fetchAPI<BulkInviteResult>(`/teams/${teamId}/invitations/bulk`, {
+      method: 'POST',
+      body: JSON.stringify({ csv }),
+    });
+  },
+
   async cancelInvitation(invitationId: string): Promise<void> {
     return fetchAPI<void>(`/teams/invitations/${invitationId}`, {
       method: 'DELETE',
     });
   },
 
-  async resendInvitation(invitationId: string): Promise<{ success: boolean; email: string }> {
-    return fetchAPI<{ success: boolean; email: string }>(`/teams/invitations/${invitationId}/resend`, {
+  async resendInvitation(invitationId: string): Promise<ResendInvitationResult> {
+    return fetchAPI<ResendInvitationResult>(`/teams/invitations/${invitationId}/resend`, {
+      method: 'POST',
+    });
+  },
+
+  // Company-wide invitations (admin only)
+  async getCompanyInvitations(status?: InvitationStatus): Promise<CompanyInvitations> {
+    const query = status ? `?status=${status}` : '';
+    return fetchAPI<CompanyInvitations>(`/teams/invitations/company${query}`);
+  },
+
+  // Resend several invitations at once, reviving expired ones
+  async bulkResendInvitations(ids: string[]): Promise<BulkInvitationResult> {
+    return fetchAPI<BulkInvitationResult>('/teams/invitations/bulk-resend', {
+      method: 'POST',
+      body: JSON.stringify({ ids }),
+    });
+  },
+
+  // Cancel several invitations at once
+  async bulkCancelInvitations(ids: string[]): Promise<BulkInvitationResult> {
+    return fetchAPI<BulkInvitationResult>('/teams/invitations/bulk-cancel', {
       method: 'POST',
+      body: JSON.stringify({ ids }),
+    });
+  },
+
+  // Invitation expiry configured by the company
+  async getInvitationSettings(): Promise<InvitationSettings> {
+    return fetchAPI<InvitationSettings>('/teams/invitations/settings');
+  },
+
+  async updateInvitationSettings(data: InvitationSettingsData): Promise<InvitationSettings> {
+    return fetchAPI<InvitationSettings>('/teams/invitations/settings', {
+      method: 'PUT',
+      body: JSON.stringify(data),
     });
   },
 
@@ -718,38 +1003,24 @@ export const teamAPI = {
     return fetchAPI<TeamInvitation[]>('/teams/invitations/pending');
   },
 
-  async acceptInvitation(token: string): Promise<{ success: boolean; teamId: string }> {
-    return fetchAPI<{ success: boolean; teamId: string }>(`/teams/invitations/${token}/accept`, {
+  async acceptInvitation(token: string): Promise<AcceptInvitationResult> {
+    return fetchAPI<AcceptInvitationResult>(`/teams/invitations/${token}/accept`, {
       method: 'POST',
     });
   },
 
-  async declineInvitation(token: string): Promise<{ success: boolean }> {
-    return fetchAPI<{ success: boolean }>(`/teams/invitations/${token}/decline`, {
+  async declineInvitation(token: string): Promise<SuccessResult> {
+    return fetchAPI<SuccessResult>(`/teams/invitations/${token}/decline`, {
       method: 'POST',
     });
   },
 
   // Public endpoints (no auth required)
-  async getInvitationDetails(token: string): Promise<{
-    id: string;
-    email: string;
-    teamName: string;
-    teamId: string;
-    inviterName: string;
-    role: string;
-    expiresAt: string;
-  }> {
+  async getInvitationDetails(token: string): Promise<InvitationDetails> {
     return fetchAPI(`/teams/invitations/${token}/details`);
   },
 
-  async registerFromInvitation(token: string, data: { name: string; password: string }): Promise<{
-    success: boolean;
-    token: string;
-    user: { id: string; email: string; name: string; role: string };
-    teamId: string;
-    teamName: string;
-  }> {
+  async registerFromInvitation(token: string, data: RegisterFromInvitationData): Promise<InvitationRegistration> {
     return fetchAPI(`/teams/invitations/${token}/register`, {
       method: 'POST',
       body: JSON.stringify(data),
@@ -757,6 +1028,173 @@ export const teamAPI = {
   },
 };
 
+// === NOTIFICATIONS API ===
+
+export type NotificationType =
+  | 'okr_rejected'
+  | 'okr_approved'
+  | 'okr_submitted'
+  | 'okr_activated'
+  | 'okr_updated'
+  | 'okr_deleted'
+  | 'comment_mention';
+
+export interface InboxNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  message: string | null;
+  objectiveId: string | null;
+  data: Record<string, unknown>;
+  readAt: string | null;
+  archivedAt: string | null;
+  createdAt: string;
+}
+
+export interface NotificationInbox {
+  notifications: InboxNotification[];
+  unreadCount: number;
+}
+
+export type NotificationChannel = 'in_app' | 'email' | 'daily_digest' | 'weekly_digest' | 'off';
+
+export type NotificationPreferences = Record<NotificationType, NotificationChannel>;
+
+export interface NotificationFilters {
+  archived?: boolean;
+  unread?: boolean;
+  limit?: number;
+}
+
+export const notificationsAPI = {
+  // Get the notification inbox of the current user
+  async getNotifications(filters?: NotificationFilters): Promise<NotificationInbox> {
+    const params = new URLSearchParams();
+    if (filters?.archived) params.append('archived', 'true');
+    if (filters?.unread) params.append('unread', 'true');
+    if (filters?.limit) params.append('limit', String(filters.limit));
+    const query = params.toString();
+    return fetchAPI<NotificationInbox>(`/notifications${query ? `?${query}` : ''}`);
+  },
+
+  // Mark a notification as read
+  async markAsRead(id: string): Promise<InboxNotification> {
+    return fetchAPI<InboxNotification>(`/notifications/${id}/read`, {
+      method: 'POST',
+    });
+  },
+
+  // Mark all notifications as read
+  async markAllAsRead(): Promise<{ updated: number }> {
+    return fetchAPI<{ updated: number }>('/notifications/read-all', {
+      method: 'POST',
+    });
+  },
+
+  // Archive a notification
+  async archive(id: string): Promise<InboxNotification> {
+    return fetchAPI<InboxNotification>(`/notifications/${id}/archive`, {
+      method: 'POST',
+    });
+  },
+
+  // Get notification preferences (channel per event type)
+  async getPreferences(): Promise<NotificationPreferences> {
+    return fetchAPI<NotificationPreferences>('/notifications/preferences');
+  },
+
+  // Update notification preferences
+  async updatePreferences(preferences: Partial<NotificationPreferences>): Promise<NotificationPreferences> {
+    return fetchAPI<NotificationPreferences>('/notifications/preferences', {
+      method: 'PUT',
+      body: JSON.stringify({ preferences }),
+    });
+  },
+};
+
+// === AUDIT API ===
+
+export interface AuditFieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  actorId: string | null;
+  actorName: string | null;
+  action: string;             // '<entity>.<verb>', e.g. 'objective.update'
+  entityType: string;
+  entityId: string | null;
+  entityLabel: string | null;
+  changes: Record<string, AuditFieldChange> | null;
+  metadata: Record<string, unknown> | null;
+  ipAddress: string | null;
+  createdAt: string;
+}
+
+export interface AuditLogFilters {
+  q?: string;
+  entityType?: string;
+  action?: string;
+  actorId?: string;
+  from?: string;              // YYYY-MM-DD, inclusive
+  to?: string;                // YYYY-MM-DD, inclusive
+  limit?: number;
+  offset?: number;
+}
+
+function buildAuditQuery(filters: AuditLogFilters): string {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+export const auditAPI = {
+  // Search the company audit log (admin only)
+  async getAuditLog(filters: AuditLogFilters = {}): Promise<{ entries: AuditEntry[]; total: number }> {
+    return fetchAPI<{ entries: AuditEntry[]; total: number }>(`/audit${buildAuditQuery(filters)}`);
+  },
+
+  // Download the filtered audit log as CSV
+  async exportAuditLog(filters: AuditLogFilters = {}): Promise<Blob> {
+    const response = await fetch(`${API_BASE_URL}/audit/export${buildAuditQuery(filters)}`, {
+      headers: authToken ? { Authorization: `Bearer ${authToken}` } : {},
+      credentials: 'include',
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Request failed' }));
+      throw new Error(error.error || error.message || 'Request failed');
+    }
+    return response.blob();
+  },
+};
+
+// === API TOKENS ===
+
+export const tokensAPI = {
+  // Active personal API tokens of the current user
+  async getTokens(): Promise<ApiTokenList> {
+    return fetchAPI<ApiTokenList>('/tokens');
+  },
+
+  async createToken(data: CreateApiTokenData): Promise<CreatedApiToken> {
+    return fetchAPI<CreatedApiToken>('/tokens', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  async revokeToken(id: string): Promise<void> {
+    return fetchAPI<void>(`/tokens/${id}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
 // === HEALTH CHECK ===
 
 export async function healthCheck(): Promise<{ status: string; timestamp: string }> {
@@ -914,12 +1352,33 @@ export interface CreateAziendaData {
   subscriptionTier?: 'free' | 'premium';
 }
 
+export interface JobStatus {
+  name: string;
+  description: string;
+  intervalSeconds: number;
+  running: boolean;
+  lastStartedAt: string | null;
+  lastFinishedAt: string | null;
+  lastStatus: 'running' | 'success' | 'failed' | null;
+  lastError: string | null;
+  lastDurationMs: number | null;
+  lastResult: Record<string, unknown> | null;
+  runCount: number;
+  failureCount: number;
+  nextRunAt: string | null;
+}
+
 export const superadminAPI = {
   // Get platform stats
   async getStats(): Promise<SuperadminStats> {
     return fetchAPI<SuperadminStats>('/superadmin/stats');
   },
 
+  // Background job status
+  async getJobs(): Promise<JobStatus[]> {
+    return fetchAPI<JobStatus[]>('/jobs');
+  },
+
   // List all aziende
   async getAziende(): Promise<Azienda[]> {
     return fetchAPI<Azienda[]>('/superadmin/aziende');
@@ -0,0 +1,801 @@
+// Generated by server/contract/generate.js from server/contract/contract.js.
+// Do not edit: change the contract and run `npm run contract`.
+
+export type OKRLevel = 'company' | 'department' | 'team' | 'individual';
+
+export type ProgressStatus = 'on-track' | 'at-risk' | 'off-track' | 'completed' | 'draft';
+
+export type Confidence = 'high' | 'medium' | 'low';
+
+export type MetricType = 'percentage' | 'number' | 'currency' | 'boolean' | 'milestone';
+
+export type KeyResultDirection = 'increase' | 'decrease' | 'range';
+
+export type ApprovalStatus = 'draft' | 'pending_review' | 'approved' | 'active' | 'paused' | 'stopped' | 'archived' | 'closed' | 'failed';
+
+export type ApprovalAction = 'submitted' | 'approved' | 'rejected' | 'returned' | 'activated' | 'paused' | 'resumed' | 'stopped' | 'archived' | 'reverted_to_draft' | 'closed' | 'failed' | 'reopened';
+
+export type ContributorRole = 'contributor' | 'reviewer';
+
+export type PeriodStatus = 'open' | 'closed';
+
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+export interface HealthMetrics {
+  /** actual progress / expected progress (1.0 = on pace) */
+  paceRatio: number;
+  /** where we should be based on time elapsed */
+  expectedProgress: number;
+  /** expected - actual (positive = behind) */
+  progressGap: number;
+  daysRemaining: number | null;
+  daysElapsed: number;
+  totalDays: number;
+  percentTimeElapsed: number;
+  isOnPace: boolean;
+  riskLevel: RiskLevel;
+  recommendation: string | null;
+}
+
+export interface MilestoneStep {
+  id: string;
+  title: string;
+  completed: boolean;
+  completedAt: string | null;
+}
+
+export interface KeyResult {
+  id: string;
+  objectiveId: string;
+  description: string;
+  metricType: MetricType;
+  direction: KeyResultDirection;
+  startValue: number;
+  /** lower bound when direction is 'range' */
+  targetValue: number;
+  /** upper bound when direction is 'range' */
+  targetMaxValue: number | null;
+  currentValue: number;
+  unit?: string | null;
+  /** relative weight in the objective progress (default 1) */
+  weight: number;
+  /** ordered checklist for milestone KRs */
+  steps: MilestoneStep[];
+  status: ProgressStatus;
+  confidence: Confidence;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ObjectiveAncestor {
+  id: string;
+  title: string;
+  level: OKRLevel;
+}
+
+export interface Objective {
+  id: string;
+  title: string;
+  description: string | null;
+  ownerId: string;
+  ownerName: string;
+  level: OKRLevel;
+  period: string;
+  periodId: string | null;
+  /** objective this one was carried over from */
+  rolledOverFromId: string | null;
+  status: ProgressStatus;
+  progress: number;
+  keyResults: KeyResult[];
+  dueDate: string | null;
+  createdAt: string;
+  updatedAt: string;
+  healthMetrics: HealthMetrics;
+  parentObjectiveId: string | null;
+  parentObjectiveTitle: string | null;
+  parentKeyResultId: string | null;
+  parentKeyResultDescription: string | null;
+  teamId: string | null;
+  teamName: string | null;
+  /** relative weight in the parent KR roll-up (default 1) */
+  weight: number;
+  childrenCount: number;
+  approvalStatus: ApprovalStatus;
+  approvedBy: string | null;
+  approvedByName: string | null;
+  approvedAt: string | null;
+  children?: Objective[];
+  ancestors?: ObjectiveAncestor[];
+  /** role of the current user (my contributions only) */
+  contributorRole?: ContributorRole;
+}
+
+export interface KeyResultInput {
+  description: string;
+  metricType: MetricType;
+  direction?: KeyResultDirection;
+  startValue: number;
+  targetValue: number;
+  targetMaxValue?: number | null;
+  currentValue: number;
+  unit?: string | null;
+  weight?: number;
+  /** step ids are assigned by the server */
+  steps?: {
+    title: string;
+  }[];
+}
+
+export interface KeyResultUpdate {
+  description?: string;
+  metricType?: MetricType;
+  direction?: KeyResultDirection;
+  startValue?: number;
+  targetValue?: number;
+  targetMaxValue?: number | null;
+  /** milestone KRs: derived from the steps, other values are rejected */
+  currentValue?: number;
+  unit?: string | null;
+  weight?: number;
+  steps?: ({
+    id?: string;
+    title: string;
+    completed?: boolean;
+    completedAt?: string | null;
+  })[];
+  status?: ProgressStatus;
+  confidence?: Confidence;
+}
+
+export interface CreateObjectiveData {
+  title: string;
+  description?: string;
+  level: OKRLevel;
+  /** legacy: period name, resolved server-side */
+  period?: string;
+  periodId?: string;
+  dueDate?: string;
+  ownerId?: string;
+  status?: ProgressStatus;
+  keyResults?: KeyResultInput[];
+  parentKeyResultId?: string | null;
+  teamId?: string | null;
+  weight?: number;
+  /** template the objective was started from */
+  templateId?: string;
+}
+
+export interface UpdateObjectiveData {
+  title?: string;
+  description?: string;
+  level?: OKRLevel;
+  period?: string;
+  periodId?: string;
+  dueDate?: string;
+  /** empty string keeps the current owner */
+  ownerId?: string;
+  status?: ProgressStatus;
+  parentObjectiveId?: string | null;
+  parentKeyResultId?: string | null;
+  teamId?: string | null;
+  weight?: number;
+}
+
+export interface ApprovalCommentData {
+  comment?: string;
+}
+
+export interface RejectObjectiveData {
+  comment: string;
+}
+
+export interface ApprovalHistoryItem {
+  id: string;
+  objectiveId: string;
+  action: ApprovalAction;
+  performedBy: string;
+  performedByName: string;
+  comment: string | null;
+  createdAt: string;
+}
+
+export interface Contributor {
+  id: string;
+  userId: string;
+  name: string;
+  email: string;
+  profilePicture: string | null;
+  role: ContributorRole;
+  addedAt: string;
+}
+
+export interface AddContributorData {
+  userId: string;
+  role?: ContributorRole;
+}
+
+export interface UpdateContributorData {
+  role: ContributorRole;
+}
+
+export interface KeyResultCheckIn {
+  id: string;
+  keyResultId: string;
+  keyResultDescription: string | null;
+  previousValue: number | null;
+  newValue: number;
+  confidence: Confidence;
+  note: string | null;
+  blockers: string | null;
+  nextSteps: string | null;
+  createdBy: string;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+export interface CreateCheckInData {
+  /** ignored for milestone KRs */
+  newValue?: number;
+  /** milestone KRs: ids of the steps completed so far */
+  completedStepIds?: string[];
+  confidence: Confidence;
+  note?: string;
+  blockers?: string;
+  nextSteps?: string;
+}
+
+export interface CheckInDue extends KeyResult {
+  objectiveTitle: string;
+  lastCheckInAt: string | null;
+}
+
+export interface Period {
+  id: string;
+  companyId: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  status: PeriodStatus;
+  closedAt: string | null;
+  closedBy: string | null;
+  closedByName: string | null;
+  objectivesCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PeriodData {
+  name: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface UpdatePeriodData {
+  name?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface RolloverCandidate {
+  id: string;
+  title: string;
+  level: OKRLevel;
+  progress: number;
+  status: ProgressStatus;
+  approvalStatus: ApprovalStatus;
+  ownerId: string;
+  ownerName: string;
+  keyResultsCount: number;
+}
+
+export interface ClosePeriodData {
+  /** open period receiving the carried-over objectives */
+  targetPeriodId?: string;
+  /** rollover candidates to carry over as drafts */
+  objectiveIds?: string[];
+}
+
+export interface ClosePeriodResult {
+  period: Period;
+  rolledOver: number;
+}
+
+export interface OKRComment {
+  id: string;
+  objectiveId: string;
+  keyResultId: string | null;
+  /** set on replies */
+  parentCommentId: string | null;
+  authorId: string;
+  authorName: string;
+  body: string;
+  /** ids of @mentioned users */
+  mentions: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CommentData {
+  body: string;
+  keyResultId?: string | null;
+  parentCommentId?: string | null;
+  mentionIds?: string[];
+}
+
+export interface UpdateCommentData {
+  body: string;
+  mentionIds?: string[];
+}
+
+export interface UserBasic {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface ParentKeyResult {
+  id: string;
+  description: string;
+  objectiveId: string;
+  objectiveTitle: string;
+  objectiveLevel: OKRLevel;
+  period: string;
+  ownerName: string;
+}
+
+export interface ObjectiveNode extends Objective {
+  /** non-company objective not aligned to any parent KR */
+  isOrphan: boolean;
+  children: ObjectiveNode[];
+}
+
+export interface ObjectiveWithAncestors extends Objective {
+  /** from the root down to the parent */
+  ancestors: ObjectiveAncestor[];
+}
+
+export interface TemplateKeyResult {
+  description: string;
+  metricType: MetricType;
+  direction?: KeyResultDirection;
+  startValue: number;
+  targetValue: number;
+  targetMaxValue?: number | null;
+  unit?: string | null;
+  weight?: number;
+  steps?: {
+    title: string;
+  }[];
+}
+
+export interface OKRTemplate {
+  id: string;
+  title: string;
+  description: string | null;
+  level: OKRLevel;
+  keyResults: TemplateKeyResult[];
+  /** objective the template was saved from */
+  sourceObjectiveId: string | null;
+  usageCount: number;
+  createdBy: string | null;
+  createdByName: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TemplateData {
+  title: string;
+  description?: string | null;
+  /** default 'individual' */
+  level?: OKRLevel;
+  keyResults: TemplateKeyResult[];
+}
+
+export interface UpdateTemplateData {
+  title?: string;
+  description?: string | null;
+  level?: OKRLevel;
+  keyResults?: TemplateKeyResult[];
+}
+
+export interface TemplateFromObjectiveData {
+  title?: string;
+  description?: string | null;
+}
+
+export type TrashItemType = 'objective' | 'key_result';
+
+export interface TrashItem {
+  id: string;
+  type: TrashItemType;
+  /** description of key results */
+  title: string;
+  level: OKRLevel | null;
+  /** objective of key results */
+  objectiveId: string | null;
+  objectiveTitle: string | null;
+  ownerId: string;
+  ownerName: string;
+  deletedAt: string;
+  deletedBy: string | null;
+  deletedByName: string | null;
+  /** objectives deleted along with it, itself included */
+  objectivesCount: number;
+  /** key results deleted along with it, itself included */
+  keyResultsCount: number;
+  purgeAt: string;
+}
+
+export interface TrashSettings {
+  retentionDays: number;
+  maxRetentionDays: number;
+}
+
+export interface TrashSettingsData {
+  retentionDays: number;
+}
+
+export interface Stats {
+  totalObjectives: number;
+  avgProgress: number;
+  atRiskCount: number;
+  completedCount: number;
+}
+
+export interface ProgressTrendPoint {
+  period: string;
+  /** start of the week */
+  week: string;
+  avgProgress: number;
+  /** key results updated in the week */
+  updates: number;
+}
+
+export interface LevelCompletion {
+  level: OKRLevel;
+  total: number;
+  completed: number;
+  /** percentage of completed objectives */
+  completionRate: number;
+  avgProgress: number;
+}
+
+export interface StatusDistributionPoint {
+  /** start of the week */
+  week: string;
+  /** objectives by approval status at the end of the week */
+  counts: Partial<Record<ApprovalStatus, number>>;
+}
+
+export interface TeamRisk {
+  teamId: string;
+  teamName: string;
+  total: number;
+  atRisk: number;
+  /** percentage of at-risk and off-track objectives */
+  atRiskRatio: number;
+}
+
+export type TeamType = 'department' | 'team';
+
+export type TeamMemberRole = 'owner' | 'admin' | 'member';
+
+export type TeamRole = 'admin' | 'member';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'declined' | 'expired';
+
+export interface Team {
+  id: string;
+  name: string;
+  description: string | null;
+  type: TeamType;
+  /** department containing the team */
+  parentTeamId: string | null;
+  ownerId: string;
+  ownerName: string;
+  ownerEmail: string;
+  memberCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TeamTreeNode {
+  id: string;
+  name: string;
+  description: string | null;
+  type: TeamType;
+  parentTeamId: string | null;
+  ownerId: string;
+  ownerName: string;
+  memberCount: number;
+  objectiveCount: number;
+  /** objectives of the team and of every team beneath it */
+  rollupObjectiveCount: number;
+  /** weighted progress of the team's own objectives */
+  progress: number | null;
+  /** weighted progress including the teams beneath it */
+  rollupProgress: number | null;
+  children: TeamTreeNode[];
+}
+
+export interface TeamDashboard {
+  team: Team;
+  /** weeks covered by the member cadence and the trend */
+  weeks: number;
+  summary: {
+    totalObjectives: number;
+    activeObjectives: number;
+    avgProgress: number;
+    atRiskCount: number;
+    completedCount: number;
+  };
+  objectives: ({
+    id: string;
+    title: string;
+    level: OKRLevel;
+    status: ProgressStatus;
+    approvalStatus: ApprovalStatus;
+    progress: number;
+    weight: number;
+    dueDate: string | null;
+    ownerId: string;
+    ownerName: string;
+    keyResultCount: number;
+  })[];
+  members: ({
+    userId: string;
+    name: string;
+    email: string;
+    role: TeamMemberRole;
+    ownedObjectives: number;
+    contributedObjectives: number;
+    checkInCount: number;
+    activeWeeks: number;
+    lastCheckInAt: string | null;
+  })[];
+  atRiskKeyResults: ({
+    id: string;
+    description: string;
+    status: ProgressStatus;
+    confidence: Confidence;
+    metricType: MetricType;
+    startValue: number;
+    targetValue: number;
+    currentValue: number;
+    unit: string | null;
+    objectiveId: string;
+    objectiveTitle: string;
+    ownerName: string;
+    lastCheckInAt: string | null;
+  })[];
+  trend: {
+    week: string;
+    avgProgress: number;
+    updates: number;
+  }[];
+}
+
+export interface TeamData {
+  name: string;
+  description?: string;
+  /** required for admins; leads always lead the teams they create */
+  leadId?: string;
+  type?: TeamType;
+  parentTeamId?: string | null;
+}
+
+export interface UpdateTeamData {
+  name?: string;
+  description?: string;
+  type?: TeamType;
+  /** null detaches the team from its department */
+  parentTeamId?: string | null;
+}
+
+export interface TeamMember {
+  id: string;
+  /** legacy name of userId */
+  odIduser?: string;
+  userId: string;
+  name: string;
+  email: string;
+  role: TeamMemberRole;
+  joinedAt: string;
+  avatar: string;
+}
+
+export interface AddTeamMemberData {
+  userId: string;
+  role?: TeamRole;
+}
+
+export interface UpdateTeamMemberData {
+  role: TeamRole;
+}
+
+export interface SearchUser {
+  id: string;
+  name: string;
+  email: string;
+  avatar: string;
+}
+
+export interface SuccessResult {
+  success: boolean;
+}
+
+export interface TeamInvitation {
+  id: string;
+  teamId: string;
+  teamName: string;
+  email: string;
+  name: string | null;
+  role: TeamRole;
+  status: InvitationStatus;
+  invitedBy: string;
+  invitedByName?: string;
+  expiresAt: string;
+  createdAt: string;
+  acceptedAt: string | null;
+  /** returned on creation only */
+  inviteLink?: string;
+}
+
+export interface CreateInvitationData {
+  email: string;
+  role?: TeamRole;
+  name?: string | null;
+}
+
+export interface CompanyInvitations {
+  invitations: TeamInvitation[];
+  counts: {
+    pending: number;
+    accepted: number;
+    declined: number;
+    expired: number;
+  };
+}
+
+export type BulkInviteRowStatus = 'valid' | 'invalid' | 'duplicate' | 'member' | 'pending';
+
+export interface BulkInvitePreviewRow {
+  /** line of the row in the CSV file */
+  line: number;
+  email: string;
+  role: string;
+  name: string | null;
+  isNewUser: boolean;
+  status: BulkInviteRowStatus;
+  reason: string | null;
+}
+
+export interface BulkInviteCsvData {
+  /** rows of email, role, name (header optional) */
+  csv: string;
+}
+
+export interface BulkInvitePreview {
+  rows: BulkInvitePreviewRow[];
+  summary: {
+    total: number;
+    valid: number;
+    skipped: number;
+    newUsers: number;
+  };
+  /** set when the new users would exceed the subscription */
+  limitError: string | null;
+}
+
+export interface BulkInviteResult {
+  results: ({
+    line: number;
+    email: string;
+    status: 'sent' | 'skipped' | 'failed';
+    reason: string | null;
+  })[];
+  summary: {
+    sent: number;
+    skipped: number;
+    failed: number;
+  };
+}
+
+export interface BulkInvitationIdsData {
+  ids: string[];
+}
+
+export interface BulkInvitationResult {
+  succeeded: string[];
+  failed: {
+    id: string;
+    error: string;
+  }[];
+}
+
+export interface InvitationSettings {
+  expiryDays: number;
+  maxExpiryDays: number;
+}
+
+export interface InvitationSettingsData {
+  expiryDays: number;
+}
+
+export interface ResendInvitationResult {
+  success: boolean;
+  email: string;
+}
+
+export interface AcceptInvitationResult {
+  success: boolean;
+  teamId: string;
+}
+
+export interface InvitationDetails {
+  id: string;
+  email: string;
+  name: string | null;
+  teamName: string;
+  teamId: string;
+  inviterName: string;
+  role: TeamRole;
+  expiresAt: string;
+}
+
+export interface RegisterFromInvitationData {
+  name: string;
+  password: string;
+}
+
+export interface InvitationRegistration {
+  success: boolean;
+  /** session JWT of the registered user */
+  token: string;
+  user: {
+    id: string;
+    email: string;
+    name: string;
+    role: string;
+  };
+  teamId: string;
+  teamName: string;
+}
+
+export type ApiTokenScope = 'okr:read' | 'okr:write' | 'key_results:update';
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  /** first characters of the token, to tell tokens apart */
+  prefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+export interface CreatedApiToken {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+  /** returned on creation only: the plain token cannot be read again */
+  token: string;
+}
+
+export interface ApiTokenList {
+  tokens: ApiToken[];
+  /** scopes a new token can be given */
+  scopes: ApiTokenScope[];
+}
+
+export interface CreateApiTokenData {
+  name: string;
+  scopes: ApiTokenScope[];
+  /** days until the token expires (no expiry when null) */
+  expiresInDays?: number | null;
+}
@@ -0,0 +1,292 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Badge, ProgressBar } from './UIComponents';
+import { STATUS_COLORS, STATUS_LABELS } from '../constants';
+import { okrAPI, teamAPI, ObjectiveNode, OKRLevel, Team } from '../api/client';
+import { Loader2, ZoomIn, ZoomOut, Maximize2, ChevronDown, ChevronRight, AlertTriangle, GitBranch } from 'lucide-react';
+
+interface AlignmentTreeProps {
+  periodId: string;
+  onSelectOKR: (id: string) => void;
+}
+
+const LEVEL_ORDER: Record<OKRLevel, number> = {
+  company: 0,
+  department: 1,
+  team: 2,
+  individual: 3
+};
+
+const LEVEL_LABELS: Record<OKRLevel, string> = {
+  company: 'Azienda',
+  department: 'Dipartimento',
+  team: 'Team',
+  individual: 'Individuale'
+};
+
+const LEVEL_ACCENTS: Record<OKRLevel, string> = {
+  company: 'border-t-purple-500',
+  department: 'border-t-indigo-500',
+  team: 'border-t-blue-500',
+  individual: 'border-t-emerald-500'
+};
+
+const MIN_ZOOM = 0.4;
+const MAX_ZOOM = 1.6;
+const ZOOM_STEP = 0.2;
+
+const progressColor = (progress: number) =>
+  progress >= 70 ? 'bg-green-500' : progress >= 40 ? 'bg-amber-500' : 'bg-slate-400';
+
+const collectIds = (nodes: ObjectiveNode[]): string[] =>
+  nodes.flatMap(node => [node.id, ...collectIds(node.children)]);
+
+const countOrphans = (nodes: ObjectiveNode[]): number =>
+  nodes.reduce((total, node) => total + (node.isOrphan ? 1 : 0) + countOrphans(node.children), 0);
+
+interface AlignmentNodeProps {
+  node: ObjectiveNode;
+  collapsed: Set<string>;
+  onToggle: (id: string) => void;
+  onSelectOKR: (id: string) => void;
+}
+
+const AlignmentNode: React.FC<AlignmentNodeProps> = ({ node, collapsed, onToggle, onSelectOKR }) => {
+  const isCollapsed = collapsed.has(node.id);
+  const children = [...node.children].sort((a, b) => LEVEL_ORDER[a.level] - LEVEL_ORDER[b.level]);
+  const status = node.approvalStatus || 'draft';
+
+  return (
+    <div className="flex flex-col items-center">
+      <div
+        onClick={() => onSelectOKR(node.id)}
+        className={`w-60 bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 border-t-4 ${LEVEL_ACCENTS[node.level]} p-3 cursor-pointer hover:shadow-md transition-shadow ${
+          node.isOrphan ? 'ring-2 ring-red-400 dark:ring-red-500' : ''
+        }`}
+      >
+        <div className="flex items-center justify-between gap-2 mb-1.5">
+          <span className="text-[10px] font-semibold uppercase text-slate-400 dark:text-slate-500">
+            {LEVEL_LABELS[node.level]}{node.teamName ? ` · ${node.teamName}` : ''}
+          </span>
+          <Badge className={STATUS_COLORS[status] || STATUS_COLORS['draft']}>
+            {STATUS_LABELS[status] || 'Bozza'}
+          </Badge>
+        </div>
+        <p className="text-sm font-bold text-slate-900 dark:text-slate-100 line-clamp-2 mb-1">{node.title}</p>
+        <p className="text-xs text-slate-500 dark:text-slate-400 mb-2 truncate">{node.ownerName}</p>
+        <div className="flex items-center gap-2">
+          <ProgressBar value={node.progress} color={progressColor(node.progress)} height="h-1.5" />
+          <span className="text-xs font-bold text-slate-700 dark:text-slate-300">{node.progress}%</span>
+        </div>
+        {node.isOrphan && (
+          <p className="flex items-center gap-1 text-[10px] font-medium text-red-600 dark:text-red-400 mt-2">
+            <AlertTriangle className="w-3 h-3" />
+            Non allineato a un Key Result
+          </p>
+        )}
+        {children.length > 0 && (
+          <button
+            onClick={e => {
+              e.stopPropagation();
+              onToggle(node.id);
+            }}
+            className="mt-2 flex items-center gap-1 text-[11px] font-medium text-blue-600 dark:text-blue-400 hover:text-blue-700"
+          >
+            {isCollapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+            {isCollapsed ? `Mostra ${children.length} collegati` : 'Nascondi collegati'}
+          </button>
+        )}
+      </div>
+
+      {children.length > 0 && !isCollapsed && (
+        <>
+          <div className="w-px h-5 bg-slate-300 dark:bg-slate-600" />
+          <div className="flex gap-6">
+            {children.map((child, index) => (
+              <div key={child.id} className="relative flex flex-col items-center">
+                {/* Horizontal connector between siblings */}
+                {children.length > 1 && (
+                  <div
+                    className={`absolute top-0 h-px bg-slate-300 dark:bg-slate-600 ${
+                      index === 0 ? 'left-1/2 -right-3' : index === children.length - 1 ? '-left-3 right-1/2' : '-left-3 -right-3'
+                    }`}
+                  />
+                )}
+                <div className="w-px h-4 bg-slate-300 dark:bg-slate-600" />
+                {/* Edge label: the parent key result the child contributes to */}
+                {child.parentKeyResultDescription && (
+                  <span
+                    className="max-w-[15rem] truncate text-[10px] text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/40 border border-blue-200 dark:border-blue-800 rounded-full px-2 py-0.5"
+                    title={child.parentKeyResultDescription}
+                  >
+                    KR: {child.parentKeyResultDescription}
+                  </span>
+                )}
+                <div className="w-px h-3 bg-slate-300 dark:bg-slate-600" />
+                <AlignmentNode node={child} collapsed={collapsed} onToggle={onToggle} onSelectOKR={onSelectOKR} />
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const AlignmentTree: React.FC<AlignmentTreeProps> = ({ periodId, onSelectOKR }) => {
+  const [roots, setRoots] = useState<ObjectiveNode[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [teamId, setTeamId] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [zoom, setZoom] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHierarchy = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await okrAPI.getHierarchy({ periodId: periodId || undefined, teamId: teamId || undefined });
+      setRoots(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Errore nel caricamento della gerarchia');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [periodId, teamId]);
+
+  useEffect(() => {
+    fetchHierarchy();
+  }, [fetchHierarchy]);
+
+  useEffect(() => {
+    teamAPI.getTeams()
+      .then(setTeams)
+      .catch(err => console.error('Failed to load teams:', err));
+  }, []);
+
+  const toggleNode = (id: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const sortedRoots = [...roots].sort((a, b) => LEVEL_ORDER[a.level] - LEVEL_ORDER[b.level]);
+  const alignedRoots = sortedRoots.filter(node => !node.isOrphan);
+  const orphanRoots = sortedRoots.filter(node => node.isOrphan);
+  const orphanCount = countOrphans(roots);
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <select
+            className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-sm text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-blue-500 outline-none"
+            value={teamId}
+            onChange={e => setTeamId(e.target.value)}
+            title="Filtra per team"
+          >
+            <option value="">Tutti i team</option>
+            {teams.map(team => (
+              <option key={team.id} value={team.id}>{team.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setCollapsed(new Set())}
+            className="text-sm text-slate-600 dark:text-slate-300 hover:text-slate-900 dark:hover:text-slate-100"
+          >
+            Espandi tutto
+          </button>
+          <button
+            onClick={() => setCollapsed(new Set(collectIds(roots)))}
+            className="text-sm text-slate-600 dark:text-slate-300 hover:text-slate-900 dark:hover:text-slate-100"
+          >
+            Comprimi tutto
+          </button>
+        </div>
+        <div className="flex items-center gap-1">
+          {orphanCount > 0 && (
+            <span className="flex items-center gap-1 text-xs font-medium text-red-600 dark:text-red-400 mr-3">
+              <AlertTriangle className="w-3.5 h-3.5" />
+              {orphanCount} {orphanCount === 1 ? 'obiettivo non allineato' : 'obiettivi non allineati'}
+            </span>
+          )}
+          <button
+            onClick={() => setZoom(z => Math.max(MIN_ZOOM, +(z - ZOOM_STEP).toFixed(1)))}
+            disabled={zoom <= MIN_ZOOM}
+            className="p-2 text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg disabled:opacity-40"
+            title="Riduci"
+          >
+            <ZoomOut className="w-4 h-4" />
+          </button>
+          <span className="w-12 text-center text-xs text-slate-500 dark:text-slate-400">{Math.round(zoom * 100)}%</span>
+          <button
+            onClick={() => setZoom(z => Math.min(MAX_ZOOM, +(z + ZOOM_STEP).toFixed(1)))}
+            disabled={zoom >= MAX_ZOOM}
+            className="p-2 text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg disabled:opacity-40"
+            title="Ingrandisci"
+          >
+            <ZoomIn className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setZoom(1)}
+            className="p-2 text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg"
+            title="Ripristina zoom"
+          >
+            <Maximize2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/30 border border-red-100 dark:border-red-800 rounded-xl p-4 text-red-600 dark:text-red-400 text-sm">
+          {error}
+          <button onClick={fetchHierarchy} className="ml-2 underline">Riprova</button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+        </div>
+      ) : roots.length === 0 ? (
+        <div className="text-center py-14 bg-white dark:bg-slate-800 rounded-2xl border-2 border-dashed border-slate-200 dark:border-slate-700">
+          <GitBranch className="w-10 h-10 text-slate-300 dark:text-slate-600 mx-auto mb-3" />
+          <p className="text-gray-500 dark:text-slate-400 font-medium text-sm">Nessun obiettivo da allineare per questi filtri.</p>
+        </div>
+      ) : (
+        <div className="bg-slate-50 dark:bg-slate-900/40 border border-slate-200 dark:border-slate-700 rounded-2xl overflow-auto max-h-[70vh]">
+          <div
+            className="inline-block min-w-full p-6 origin-top-left transition-transform"
+            style={{ transform: `scale(${zoom})` }}
+          >
+            <div className="flex gap-10 items-start">
+              {alignedRoots.map(node => (
+                <AlignmentNode key={node.id} node={node} collapsed={collapsed} onToggle={toggleNode} onSelectOKR={onSelectOKR} />
+              ))}
+            </div>
+
+            {orphanRoots.length > 0 && (
+              <div className="mt-10 pt-6 border-t border-dashed border-red-300 dark:border-red-800">
+                <h4 className="text-xs font-bold uppercase text-red-600 dark:text-red-400 mb-4">Obiettivi non allineati</h4>
+                <div className="flex gap-10 items-start">
+                  {orphanRoots.map(node => (
+                    <AlignmentNode key={node.id} node={node} collapsed={collapsed} onToggle={toggleNode} onSelectOKR={onSelectOKR} />
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlignmentTree;
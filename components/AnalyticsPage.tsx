@@ -1,23 +1,263 @@
-import React from 'react';
-import { BarChart3, Construction } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card, ProgressBar } from './UIComponents';
+import { STATUS_LABELS } from '../constants';
+import {
+  okrAPI, OKRLevel, ApprovalStatus, Period,
+  ProgressTrendPoint, LevelCompletion, StatusDistributionPoint, TeamRisk
+} from '../api/client';
+import {
+  LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid,
+  ResponsiveContainer, Tooltip as RechartsTooltip, Legend
+} from 'recharts';
+import { Loader2, BarChart3 } from 'lucide-react';
+
+const LEVEL_LABELS: Record<OKRLevel, string> = {
+  company: 'Azienda',
+  department: 'Dipartimento',
+  team: 'Team',
+  individual: 'Individuale'
+};
+
+// Same palette used by the Dashboard status chart
+const STATUS_CHART_COLORS: Record<ApprovalStatus, string> = {
+  draft: '#9CA3AF',
+  pending_review: '#F59E0B',
+  approved: '#8B5CF6',
+  active: '#10B981',
+  paused: '#F97316',
+  stopped: '#EF4444',
+  archived: '#6B7280',
+  closed: '#3B82F6',
+  failed: '#B91C1C'
+};
+
+const PERIOD_LINE_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#8B5CF6', '#EF4444', '#06B6D4'];
+
+const formatWeek = (week: string) =>
+  new Date(week).toLocaleDateString('it-IT', { day: '2-digit', month: 'short' });
 
 const AnalyticsPage: React.FC = () => {
+  const [period, setPeriod] = useState('');
+  const [periods, setPeriods] = useState<Period[]>([]);
+  const [trend, setTrend] = useState<ProgressTrendPoint[]>([]);
+  const [completion, setCompletion] = useState<LevelCompletion[]>([]);
+  const [distribution, setDistribution] = useState<StatusDistributionPoint[]>([]);
+  const [teamRisk, setTeamRisk] = useState<TeamRisk[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [period]);
+
+  useEffect(() => {
+    okrAPI.getPeriods()
+      .then(setPeriods)
+      .catch(err => console.error('Failed to load periods:', err));
+  }, []);
+
+  const loadAnalytics = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const selectedPeriod = period || undefined;
+      const [trendData, completionData, distributionData, teamRiskData] = await Promise.all([
+        okrAPI.getProgressTrend(selectedPeriod),
+        okrAPI.getCompletionByLevel(selectedPeriod),
+        okrAPI.getStatusDistribution(selectedPeriod),
+        okrAPI.getTeamRisk(selectedPeriod)
+      ]);
+      setTrend(trendData);
+      setCompletion(completionData);
+      setDistribution(distributionData);
+      setTeamRisk(teamRiskData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Errore nel caricamento delle analytics');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Pivot trend points into one row per week with a column per period
+  const { trendRows, trendPeriods } = useMemo(() => {
+    const periods = Array.from(new Set(trend.map(point => point.period)));
+    const rows = new Map<string, Record<string, string | number>>();
+    trend.forEach(point => {
+      const key = formatWeek(point.week);
+      if (!rows.has(key)) rows.set(key, { week: key });
+      rows.get(key)![point.period] = point.avgProgress;
+    });
+    return { trendRows: Array.from(rows.values()), trendPeriods: periods };
+  }, [trend]);
+
+  const distributionRows = useMemo(() =>
+    distribution.map(point => ({ week: formatWeek(point.week), ...point.counts })),
+  [distribution]);
+
+  // Only plot statuses that appear at least once
+  const distributionStatuses = useMemo(() => {
+    const present = new Set<ApprovalStatus>();
+    distribution.forEach(point => {
+      (Object.keys(point.counts) as ApprovalStatus[]).forEach(status => present.add(status));
+    });
+    return (Object.keys(STATUS_CHART_COLORS) as ApprovalStatus[]).filter(status => present.has(status));
+  }, [distribution]);
+
+  const getRiskColor = (ratio: number) => {
+    if (ratio >= 50) return 'bg-red-500';
+    if (ratio >= 25) return 'bg-yellow-500';
+    return 'bg-green-500';
+  };
+
+  const emptyState = (message: string) => (
+    <div className="flex items-center justify-center h-full text-sm text-slate-400 dark:text-slate-500">
+      {message}
+    </div>
+  );
+
   return (
-    <div className="flex flex-col items-center justify-center py-20">
-      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm dark:shadow-none dark:ring-1 dark:ring-slate-700 p-12 text-center max-w-md">
-        <div className="w-16 h-16 bg-slate-100 dark:bg-slate-700 rounded-full flex items-center justify-center mx-auto mb-6">
-          <BarChart3 className="w-8 h-8 text-slate-400 dark:text-slate-500" />
-        </div>
-        <h2 className="text-xl font-bold text-slate-900 dark:text-slate-100 mb-2">Analytics & Report</h2>
-        <div className="flex items-center justify-center gap-2 text-slate-500 dark:text-slate-400 mb-4">
-          <Construction className="w-4 h-4" />
-          <span className="text-sm">In arrivo</span>
+    <div className="flex flex-col gap-4 min-h-full">
+      {/* Header */}
+      <div className="flex items-center justify-between flex-shrink-0">
+        <div>
+          <h2 className="text-xl font-bold text-slate-900 dark:text-slate-100 flex items-center gap-2">
+            <BarChart3 className="w-5 h-5 text-blue-600" />
+            Analytics & Report
+          </h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+            Andamento, completamento e rischio degli OKR della tua azienda
+          </p>
         </div>
-        <p className="text-slate-500 dark:text-slate-400 text-sm">
-          Questa sezione sarà disponibile presto con grafici avanzati,
-          report di performance, trend storici e analisi predittive.
-        </p>
+        <select
+          className="bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-blue-500 outline-none"
+          value={period}
+          onChange={e => setPeriod(e.target.value)}
+        >
+          <option value="">Tutti i periodi</option>
+          {periods.map(option => (
+            <option key={option.id} value={option.name}>{option.name}</option>
+          ))}
+        </select>
       </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+        </div>
+      ) : error ? (
+        <div className="text-center py-20 text-red-500">
+          {error}
+          <button onClick={loadAnalytics} className="ml-2 underline">Riprova</button>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {/* Progress trend per period */}
+          <Card title="Andamento Progresso per Periodo" className="flex flex-col">
+            <div className="h-64">
+              {trendRows.length === 0 ? emptyState('Nessun aggiornamento registrato') : (
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={trendRows}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                    <XAxis dataKey="week" tick={{ fontSize: 11 }} />
+                    <YAxis domain={[0, 100]} unit="%" tick={{ fontSize: 11 }} />
+                    <RechartsTooltip formatter={(value) => `${value}%`} />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    {trendPeriods.map((trendPeriod, index) => (
+                      <Line
+                        key={trendPeriod}
+                        type="monotone"
+                        dataKey={trendPeriod}
+                        stroke={PERIOD_LINE_COLORS[index % PERIOD_LINE_COLORS.length]}
+                        strokeWidth={2}
+                        connectNulls
+                        dot={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              )}
+            </div>
+          </Card>
+
+          {/* Completion rate by level */}
+          <Card title="Tasso di Completamento per Livello">
+            <div className="space-y-4">
+              {completion.map(item => (
+                <div key={item.level}>
+                  <div className="flex items-center justify-between text-sm mb-1.5">
+                    <span className="text-slate-700 dark:text-slate-300 font-medium">{LEVEL_LABELS[item.level]}</span>
+                    <span className="text-slate-500 dark:text-slate-400 text-xs">
+                      {item.completed}/{item.total} completati · progresso medio {item.avgProgress}%
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <div className="flex-1">
+                      <ProgressBar value={item.completionRate} />
+                    </div>
+                    <span className="text-sm font-semibold text-slate-900 dark:text-slate-100 w-10 text-right">
+                      {item.completionRate}%
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+
+          {/* Status distribution over time */}
+          <Card title="Distribuzione per Stato nel Tempo" className="flex flex-col">
+            <div className="h-64">
+              {distributionRows.length === 0 ? emptyState('Nessun OKR nel periodo selezionato') : (
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={distributionRows}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                    <XAxis dataKey="week" tick={{ fontSize: 11 }} />
+                    <YAxis allowDecimals={false} tick={{ fontSize: 11 }} />
+                    <RechartsTooltip />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    {distributionStatuses.map(status => (
+                      <Bar
+                        key={status}
+                        dataKey={status}
+                        name={STATUS_LABELS[status]}
+                        stackId="status"
+                        fill={STATUS_CHART_COLORS[status]}
+                      />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              )}
+            </div>
+          </Card>
+
+          {/* At-risk ratio per team */}
+          <Card title="Rischio per Team">
+            {teamRisk.length === 0 ? (
+              <p className="text-sm text-slate-400 dark:text-slate-500 text-center py-8">Nessun OKR assegnato ai team</p>
+            ) : (
+              <div className="space-y-4">
+                {teamRisk.map(team => (
+                  <div key={team.teamId}>
+                    <div className="flex items-center justify-between text-sm mb-1.5">
+                      <span className="text-slate-700 dark:text-slate-300 font-medium truncate">{team.teamName}</span>
+                      <span className="text-slate-500 dark:text-slate-400 text-xs">
+                        {team.atRisk}/{team.total} a rischio
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <div className="flex-1">
+                        <ProgressBar value={team.atRiskRatio} color={getRiskColor(team.atRiskRatio)} />
+                      </div>
+                      <span className="text-sm font-semibold text-slate-900 dark:text-slate-100 w-10 text-right">
+                        {team.atRiskRatio}%
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+        </div>
+      )}
     </div>
   );
 };
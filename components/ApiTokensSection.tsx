@@ -0,0 +1,258 @@
+import React, { useState, useEffect } from 'react';
+import { KeyRound, Plus, Trash2, Loader2, Copy, Check, AlertTriangle } from 'lucide-react';
+import { tokensAPI, ApiToken, ApiTokenScope, CreatedApiToken } from '../api/client';
+
+const SCOPE_LABELS: Record<ApiTokenScope, { label: string; description: string }> = {
+  'okr:read': { label: 'Lettura OKR', description: 'Legge obiettivi, key result, check-in e commenti' },
+  'okr:write': { label: 'Lettura e modifica OKR', description: 'Tutte le operazioni sugli OKR consentite al tuo ruolo' },
+  'key_results:update': { label: 'Aggiornamento key result', description: 'Aggiorna i valori dei key result e registra check-in' }
+};
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 giorni' },
+  { value: '90', label: '90 giorni' },
+  { value: '365', label: '1 anno' },
+  { value: '', label: 'Nessuna scadenza' }
+];
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString('it-IT', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const inputClass = 'w-full px-3 py-2 border border-slate-200 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm';
+
+// Personal API tokens for scripts and integrations (profile page)
+const ApiTokensSection: React.FC = () => {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Create form
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['okr:read']);
+  const [expiry, setExpiry] = useState('90');
+  const [creating, setCreating] = useState(false);
+
+  // Token just created, shown once
+  const [createdToken, setCreatedToken] = useState<CreatedApiToken | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    tokensAPI.getTokens()
+      .then(data => setTokens(data.tokens))
+      .catch(err => setError(err.message || 'Errore nel caricamento dei token'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]);
+  };
+
+  const resetForm = () => {
+    setShowForm(false);
+    setName('');
+    setScopes(['okr:read']);
+    setExpiry('90');
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    setError(null);
+
+    try {
+      const token = await tokensAPI.createToken({
+        name,
+        scopes,
+        expiresInDays: expiry ? parseInt(expiry, 10) : null
+      });
+      setTokens(prev => [token, ...prev]);
+      setCreatedToken(token);
+      resetForm();
+    } catch (err: any) {
+      setError(err.message || 'Errore nella creazione del token');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!confirm(`Revocare il token "${token.name}"? Gli script che lo usano smetteranno di funzionare.`)) return;
+    setError(null);
+
+    try {
+      await tokensAPI.revokeToken(token.id);
+      setTokens(prev => prev.filter(t => t.id !== token.id));
+      if (createdToken?.id === token.id) setCreatedToken(null);
+    } catch (err: any) {
+      setError(err.message || 'Errore nella revoca del token');
+    }
+  };
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm dark:shadow-none dark:ring-1 dark:ring-slate-700 p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Token API</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+            Token personali per script e integrazioni. Si usano nell'header <code className="font-mono text-xs">Authorization: Bearer</code> e agiscono a tuo nome, solo con i permessi scelti.
+          </p>
+        </div>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-black text-white rounded-lg hover:bg-gray-800 text-sm flex-shrink-0"
+          >
+            <Plus className="w-4 h-4" />
+            Nuovo token
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg p-3 text-sm text-red-700 dark:text-red-400 flex items-center gap-2 mb-4">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {createdToken && (
+        <div className="p-4 bg-green-50 dark:bg-green-900/30 rounded-xl mb-4">
+          <p className="text-sm text-green-800 dark:text-green-300 mb-2">
+            Token «{createdToken.name}» creato. Copialo ora: non sarà più visibile.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 bg-white dark:bg-slate-700 px-3 py-2 rounded-lg border border-green-200 dark:border-green-800 font-mono text-sm text-slate-900 dark:text-slate-100 break-all">
+              {createdToken.token}
+            </code>
+            <button
+              onClick={() => copyToClipboard(createdToken.token)}
+              className="p-2 text-green-600 dark:text-green-400 hover:bg-green-100 dark:hover:bg-green-900/50 rounded-lg"
+            >
+              {copied ? <Check className="w-5 h-5" /> : <Copy className="w-5 h-5" />}
+            </button>
+          </div>
+          <button
+            onClick={() => setCreatedToken(null)}
+            className="mt-3 text-sm text-green-700 dark:text-green-400 hover:underline"
+          >
+            Ho copiato il token
+          </button>
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="space-y-4 p-4 border border-slate-200 dark:border-slate-700 rounded-xl mb-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Nome</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClass}
+              placeholder="Es. Report BI settimanale"
+              maxLength={100}
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Permessi</label>
+            <div className="space-y-2">
+              {(Object.keys(SCOPE_LABELS) as ApiTokenScope[]).map(scope => (
+                <label key={scope} className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="block text-sm text-slate-900 dark:text-slate-100">{SCOPE_LABELS[scope].label}</span>
+                    <span className="block text-xs text-slate-500 dark:text-slate-400">{SCOPE_LABELS[scope].description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Scadenza</label>
+            <select value={expiry} onChange={(e) => setExpiry(e.target.value)} className={inputClass}>
+              {EXPIRY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 border border-slate-200 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-100 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-600 text-sm"
+            >
+              Annulla
+            </button>
+            <button
+              type="submit"
+              disabled={creating || !name.trim() || scopes.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-black text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 text-sm"
+            >
+              {creating && <Loader2 className="w-4 h-4 animate-spin" />}
+              Crea token
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+        </div>
+      ) : tokens.length === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">Nessun token attivo.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+          {tokens.map(token => (
+            <li key={token.id} className="flex items-center justify-between gap-4 py-3">
+              <div className="flex items-start gap-3 min-w-0">
+                <KeyRound className="w-5 h-5 text-slate-400 dark:text-slate-500 mt-0.5 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-slate-900 dark:text-slate-100 truncate">
+                    {token.name} <span className="font-mono text-xs text-slate-400 dark:text-slate-500">{token.prefix}…</span>
+                  </p>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {token.scopes.map(scope => (
+                      <span key={scope} className="px-2 py-0.5 text-xs bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 rounded-full">
+                        {SCOPE_LABELS[scope]?.label || scope}
+                      </span>
+                    ))}
+                  </div>
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                    {token.lastUsedAt ? `Ultimo uso ${formatDate(token.lastUsedAt)}` : 'Mai usato'}
+                    {' • '}
+                    {token.expiresAt ? `Scade il ${formatDate(token.expiresAt)}` : 'Nessuna scadenza'}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={() => handleRevoke(token)}
+                className="flex items-center gap-2 px-3 py-1.5 border border-slate-200 dark:border-slate-600 text-red-600 dark:text-red-400 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30 text-sm flex-shrink-0"
+              >
+                <Trash2 className="w-4 h-4" />
+                Revoca
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ApiTokensSection;
@@ -0,0 +1,349 @@
+import React, { useState, useEffect } from 'react';
+import {
+  History,
+  Search,
+  Download,
+  Shield,
+  Loader2,
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight
+} from 'lucide-react';
+import { auditAPI, AuditEntry, AuditFieldChange, AuditLogFilters } from '../api/client';
+import { useAuth } from '../context/AuthContext';
+
+const PAGE_SIZE = 50;
+
+const ENTITY_LABELS: Record<string, string> = {
+  objective: 'Obiettivo',
+  key_result: 'Key Result',
+  comment: 'Commento',
+  contributor: 'Contributore',
+  period: 'Periodo',
+  template: 'Template',
+  team: 'Team',
+  team_member: 'Membro del team',
+  invitation: 'Invito',
+  invitation_settings: 'Impostazioni inviti',
+  trash_settings: 'Impostazioni cestino',
+  api_token: 'Token API',
+  user: 'Utente'
+};
+
+const VERB_LABELS: Record<string, string> = {
+  create: 'creato',
+  update: 'modificato',
+  delete: 'eliminato',
+  restore: 'ripristinato',
+  purge: 'eliminato definitivamente',
+  clone: 'duplicato',
+  check_in: 'check-in',
+  submit_for_review: 'inviato in revisione',
+  approve: 'approvato',
+  reject: 'rifiutato',
+  activate: 'attivato',
+  pause: 'messo in pausa',
+  resume: 'ripreso',
+  stop: 'fermato',
+  reopen: 'riaperto',
+  archive: 'archiviato',
+  revert_to_draft: 'riportato in bozza',
+  close: 'chiuso',
+  create_from_objective: 'creato da obiettivo',
+  add: 'aggiunto',
+  remove: 'rimosso',
+  resend: 'reinviato',
+  cancel: 'annullato',
+  accept: 'accettato',
+  decline: 'rifiutato',
+  register: 'registrazione da invito',
+  bulk_create: 'invio da CSV',
+  bulk_resend: 'reinvio multiplo',
+  bulk_cancel: 'annullamento multiplo',
+  reset_password: 'password reimpostata',
+  toggle_subscription: 'abbonamento cambiato',
+  reassign_okrs: 'OKR riassegnati',
+  revoke: 'revocato'
+};
+
+const formatAction = (action: string) => {
+  const [entity, verb] = action.split('.');
+  return `${ENTITY_LABELS[entity] || entity} ${VERB_LABELS[verb] || verb}`;
+};
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString('it-IT', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const AuditLogPage: React.FC = () => {
+  const { user: currentUser } = useAuth();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [search, setSearch] = useState('');
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const isAdmin = currentUser?.role === 'admin' || currentUser?.role === 'azienda';
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchEntries();
+    }
+  }, [isAdmin, filters]);
+
+  // Debounce the free-text search
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setFilters(prev => (prev.q || '') === search.trim() ? prev : { ...prev, q: search.trim() || undefined });
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const fetchEntries = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await auditAPI.getAuditLog({ ...filters, limit: PAGE_SIZE });
+      setEntries(result.entries);
+      setTotal(result.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Errore nel caricamento del registro attività');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+    try {
+      const result = await auditAPI.getAuditLog({ ...filters, limit: PAGE_SIZE, offset: entries.length });
+      setEntries([...entries, ...result.entries]);
+      setTotal(result.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Errore nel caricamento del registro attività');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const blob = await auditAPI.exportAuditLog(filters);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `registro-attivita-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Errore nell'esportazione del registro attività");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const updateFilter = (key: keyof AuditLogFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20">
+        <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm p-12 text-center max-w-md">
+          <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-6">
+            <Shield className="w-8 h-8 text-red-500" />
+          </div>
+          <h2 className="text-xl font-bold text-slate-900 dark:text-slate-100 mb-2">Accesso Negato</h2>
+          <p className="text-slate-500 dark:text-slate-400 text-sm">
+            Solo gli amministratori possono consultare il registro attività.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const inputClass = 'px-3 py-2 border border-slate-200 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-sm text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900 dark:text-slate-100">Registro attività</h1>
+          <p className="text-slate-500 dark:text-slate-400 text-sm mt-1">
+            Chi ha modificato cosa, quando e da dove
+          </p>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={exporting || total === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-black text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 text-sm"
+        >
+          {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          Esporta CSV
+        </button>
+      </div>
+
+      {/* Error */}
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-xl p-4 flex items-center gap-3 text-red-700 dark:text-red-400">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm p-4 flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Cerca per utente, elemento o azione..."
+            className={`${inputClass} w-full pl-9`}
+          />
+        </div>
+        <select
+          value={filters.entityType || ''}
+          onChange={(e) => updateFilter('entityType', e.target.value)}
+          className={inputClass}
+        >
+          <option value="">Tutti gli elementi</option>
+          {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
+          Dal
+          <input
+            type="date"
+            value={filters.from || ''}
+            onChange={(e) => updateFilter('from', e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
+          Al
+          <input
+            type="date"
+            value={filters.to || ''}
+            onChange={(e) => updateFilter('to', e.target.value)}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      {/* Entries */}
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm">
+        {loading ? (
+          <div className="p-12 text-center">
+            <Loader2 className="w-8 h-8 text-slate-400 dark:text-slate-500 animate-spin mx-auto mb-2" />
+            <p className="text-slate-500 dark:text-slate-400">Caricamento registro...</p>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="p-12 text-center">
+            <History className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-slate-500 dark:text-slate-400">Nessuna attività registrata</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-slate-50 dark:bg-slate-700 border-b border-slate-100 dark:border-slate-700">
+                <tr>
+                  <th className="px-4 py-4 w-8" />
+                  <th className="text-left px-4 py-4 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase">Data</th>
+                  <th className="text-left px-4 py-4 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase">Utente</th>
+                  <th className="text-left px-4 py-4 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase">Azione</th>
+                  <th className="text-left px-4 py-4 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase">Elemento</th>
+                  <th className="text-left px-4 py-4 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase">IP</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                {entries.map((entry) => {
+                  const hasDetails = !!entry.changes || !!entry.metadata;
+                  const isExpanded = expandedId === entry.id;
+                  return (
+                    <React.Fragment key={entry.id}>
+                      <tr
+                        className={`hover:bg-slate-50 dark:hover:bg-slate-700/50 ${hasDetails ? 'cursor-pointer' : ''}`}
+                        onClick={() => hasDetails && setExpandedId(isExpanded ? null : entry.id)}
+                      >
+                        <td className="px-4 py-3 text-slate-400">
+                          {hasDetails && (isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />)}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-slate-600 dark:text-slate-400 whitespace-nowrap">{formatDateTime(entry.createdAt)}</td>
+                        <td className="px-4 py-3 text-sm text-slate-900 dark:text-slate-100">{entry.actorName || 'Utente non autenticato'}</td>
+                        <td className="px-4 py-3 text-sm text-slate-900 dark:text-slate-100">{formatAction(entry.action)}</td>
+                        <td className="px-4 py-3 text-sm text-slate-600 dark:text-slate-400 max-w-xs truncate">{entry.entityLabel || '—'}</td>
+                        <td className="px-4 py-3 text-xs text-slate-500 dark:text-slate-400 font-mono">{entry.ipAddress || '—'}</td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="bg-slate-50 dark:bg-slate-900/40">
+                          <td />
+                          <td colSpan={5} className="px-4 py-3">
+                            {entry.changes && (
+                              <table className="text-sm w-full">
+                                <thead className="text-xs text-slate-500 dark:text-slate-400">
+                                  <tr>
+                                    <th className="text-left py-1 pr-4 font-medium">Campo</th>
+                                    <th className="text-left py-1 pr-4 font-medium">Prima</th>
+                                    <th className="text-left py-1 font-medium">Dopo</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {(Object.entries(entry.changes) as [string, AuditFieldChange][]).map(([field, change]) => (
+                                    <tr key={field}>
+                                      <td className="py-1 pr-4 font-mono text-xs text-slate-500 dark:text-slate-400">{field}</td>
+                                      <td className="py-1 pr-4 text-red-600 dark:text-red-400 break-all">{formatValue(change.before)}</td>
+                                      <td className="py-1 text-green-600 dark:text-green-400 break-all">{formatValue(change.after)}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            )}
+                            {entry.metadata && (
+                              <pre className="mt-2 text-xs text-slate-500 dark:text-slate-400 whitespace-pre-wrap break-all">
+                                {JSON.stringify(entry.metadata, null, 2)}
+                              </pre>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {!loading && entries.length < total && (
+        <div className="text-center">
+          <button
+            onClick={handleLoadMore}
+            disabled={loadingMore}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-600 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50"
+          >
+            {loadingMore && <Loader2 className="w-4 h-4 animate-spin" />}
+            Carica altri ({entries.length} di {total})
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogPage;
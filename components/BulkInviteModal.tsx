@@ -0,0 +1,271 @@
+import React, { useState } from 'react';
+import { X, Upload, Loader2, AlertCircle, FileText, Send, CheckCircle, XCircle, MinusCircle } from 'lucide-react';
+import { teamAPI, BulkInvitePreview, BulkInviteResult, BulkInviteRowStatus } from '../api/client';
+
+interface BulkInviteModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onComplete: () => void;
+  teamId: string;
+  teamName: string;
+}
+
+type Step = 'input' | 'preview' | 'results';
+
+const ROW_STATUS_LABELS: Record<BulkInviteRowStatus, string> = {
+  valid: 'Da invitare',
+  invalid: 'Non valida',
+  duplicate: 'Duplicata',
+  member: 'Già membro',
+  pending: 'Invito in attesa',
+};
+
+const CSV_EXAMPLE = 'email,ruolo,nome\nmario.rossi@azienda.it,member,Mario Rossi\nanna.bianchi@azienda.it,admin,Anna Bianchi';
+
+const BulkInviteModal: React.FC<BulkInviteModalProps> = ({
+  isOpen,
+  onClose,
+  onComplete,
+  teamId,
+  teamName
+}) => {
+  const [step, setStep] = useState<Step>('input');
+  const [csv, setCsv] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<BulkInvitePreview | null>(null);
+  const [result, setResult] = useState<BulkInviteResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    setStep('input');
+    setCsv('');
+    setFileName(null);
+    setPreview(null);
+    setResult(null);
+    setError(null);
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setCsv(await file.text());
+    setFileName(file.name);
+    e.target.value = '';
+  };
+
+  const handlePreview = async () => {
+    setError(null);
+    setIsLoading(true);
+    try {
+      setPreview(await teamAPI.previewBulkInvitations(teamId, csv));
+      setStep('preview');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Errore nella lettura del CSV');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSend = async () => {
+    setError(null);
+    setIsLoading(true);
+    try {
+      setResult(await teamAPI.createBulkInvitations(teamId, csv));
+      setStep('results');
+      onComplete();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Errore nell'invio degli inviti");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/50" onClick={handleClose} />
+      <div className="relative bg-white dark:bg-slate-800 rounded-3xl shadow-xl w-full max-w-2xl mx-4 p-6 max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900 dark:text-slate-100">Importa inviti da CSV</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400">Invita più persone in {teamName}</p>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 hover:bg-slate-100 dark:bg-slate-700 rounded-xl transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-500 dark:text-slate-400" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 mb-4 bg-red-50 dark:bg-red-900/30 border border-red-100 dark:border-red-800 rounded-xl text-red-600 dark:text-red-400 text-sm">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="flex-1 min-h-0 overflow-y-auto">
+          {step === 'input' && (
+            <div className="space-y-4">
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                Una riga per persona con email, ruolo (<code>member</code> o <code>admin</code>, predefinito member) e nome facoltativo.
+                La riga di intestazione è facoltativa.
+              </p>
+              <label className="flex items-center justify-center gap-2 w-full py-4 border-2 border-dashed border-slate-200 dark:border-slate-600 rounded-xl cursor-pointer hover:border-blue-400 text-slate-600 dark:text-slate-400 transition-colors">
+                <Upload className="w-5 h-5" />
+                {fileName ? fileName : 'Carica un file CSV'}
+                <input type="file" accept=".csv,text/csv,text/plain" onChange={handleFileChange} className="hidden" />
+              </label>
+              <textarea
+                value={csv}
+                onChange={(e) => { setCsv(e.target.value); setFileName(null); }}
+                placeholder={CSV_EXAMPLE}
+                rows={8}
+                className="w-full px-4 py-3 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          )}
+
+          {step === 'preview' && preview && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <span className="px-3 py-1 rounded-full bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-400">
+                  {preview.summary.valid} da invitare
+                </span>
+                <span className="px-3 py-1 rounded-full bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300">
+                  {preview.summary.skipped} saltate
+                </span>
+                <span className="px-3 py-1 rounded-full bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400">
+                  {preview.summary.newUsers} nuovi utenti
+                </span>
+              </div>
+              {preview.limitError && (
+                <div className="flex items-center gap-2 p-3 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-800 rounded-xl text-amber-700 dark:text-amber-400 text-sm">
+                  <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                  <span>{preview.limitError}</span>
+                </div>
+              )}
+              <table className="w-full text-sm">
+                <thead className="text-xs text-slate-500 dark:text-slate-400 uppercase border-b border-slate-100 dark:border-slate-700">
+                  <tr>
+                    <th className="text-left py-2 pr-2">Riga</th>
+                    <th className="text-left py-2 pr-2">Email</th>
+                    <th className="text-left py-2 pr-2">Ruolo</th>
+                    <th className="text-left py-2">Stato</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                  {preview.rows.map(row => (
+                    <tr key={row.line}>
+                      <td className="py-2 pr-2 text-slate-400">{row.line}</td>
+                      <td className="py-2 pr-2">
+                        <p className="text-slate-900 dark:text-slate-100 break-all">{row.email || '—'}</p>
+                        {row.name && <p className="text-xs text-slate-500 dark:text-slate-400">{row.name}</p>}
+                      </td>
+                      <td className="py-2 pr-2 text-slate-600 dark:text-slate-400">{row.role}</td>
+                      <td className="py-2">
+                        <span className={`text-xs font-medium ${row.status === 'valid' ? 'text-green-600 dark:text-green-400' : row.status === 'invalid' ? 'text-red-600 dark:text-red-400' : 'text-slate-500 dark:text-slate-400'}`}>
+                          {ROW_STATUS_LABELS[row.status]}
+                          {row.status === 'valid' && row.isNewUser && ' · nuovo utente'}
+                        </span>
+                        {row.reason && row.status === 'invalid' && (
+                          <p className="text-xs text-slate-500 dark:text-slate-400">{row.reason}</p>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {step === 'results' && result && (
+            <div className="space-y-4">
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                {result.summary.sent} inviti inviati, {result.summary.skipped} saltati, {result.summary.failed} non riusciti.
+              </p>
+              <ul className="divide-y divide-slate-100 dark:divide-slate-700 text-sm">
+                {result.results.map(row => (
+                  <li key={row.line} className="py-2 flex items-start gap-2">
+                    {row.status === 'sent' ? (
+                      <CheckCircle className="w-4 h-4 text-green-500 mt-0.5 flex-shrink-0" />
+                    ) : row.status === 'failed' ? (
+                      <XCircle className="w-4 h-4 text-red-500 mt-0.5 flex-shrink-0" />
+                    ) : (
+                      <MinusCircle className="w-4 h-4 text-slate-400 mt-0.5 flex-shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="text-slate-900 dark:text-slate-100 break-all">{row.email || `Riga ${row.line}`}</p>
+                      {row.reason && <p className="text-xs text-slate-500 dark:text-slate-400">{row.reason}</p>}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-3 pt-4">
+          {step === 'input' && (
+            <>
+              <button
+                type="button"
+                onClick={handleClose}
+                className="flex-1 px-4 py-3 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 font-medium rounded-xl hover:bg-gray-200 transition-colors"
+              >
+                Annulla
+              </button>
+              <button
+                type="button"
+                onClick={handlePreview}
+                disabled={isLoading || !csv.trim()}
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-blue-600 text-white font-medium rounded-xl hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {isLoading ? <Loader2 className="w-5 h-5 animate-spin" /> : <FileText className="w-5 h-5" />}
+                Anteprima
+              </button>
+            </>
+          )}
+          {step === 'preview' && preview && (
+            <>
+              <button
+                type="button"
+                onClick={() => { setStep('input'); setError(null); }}
+                disabled={isLoading}
+                className="flex-1 px-4 py-3 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 font-medium rounded-xl hover:bg-gray-200 transition-colors"
+              >
+                Indietro
+              </button>
+              <button
+                type="button"
+                onClick={handleSend}
+                disabled={isLoading || preview.summary.valid === 0 || !!preview.limitError}
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-blue-600 text-white font-medium rounded-xl hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {isLoading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Send className="w-5 h-5" />}
+                Invia {preview.summary.valid} inviti
+              </button>
+            </>
+          )}
+          {step === 'results' && (
+            <button
+              type="button"
+              onClick={handleClose}
+              className="flex-1 px-4 py-3 bg-blue-600 text-white font-medium rounded-xl hover:bg-blue-700 transition-colors"
+            >
+              Chiudi
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkInviteModal;
@@ -0,0 +1,359 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { okrAPI, OKRComment, UserBasic } from '../api/client';
+import { useAuth } from '../context/AuthContext';
+import { Loader2, Send, Reply, Edit2, Trash2, MessageSquare } from 'lucide-react';
+
+interface CommentThreadProps {
+  objectiveId: string;
+  keyResultId?: string | null;
+  users: UserBasic[];       // mentionable users of the company
+}
+
+interface CommentNode extends OKRComment {
+  replies: CommentNode[];
+}
+
+// Build the reply tree from the flat, chronological list
+const buildThreads = (comments: OKRComment[]): CommentNode[] => {
+  const nodes = new Map<string, CommentNode>();
+  comments.forEach(comment => nodes.set(comment.id, { ...comment, replies: [] }));
+  const roots: CommentNode[] = [];
+  nodes.forEach(node => {
+    const parent = node.parentCommentId ? nodes.get(node.parentCommentId) : undefined;
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+  return roots;
+};
+
+const formatTimestamp = (value: string) =>
+  new Date(value).toLocaleString('it-IT', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Highlight "@Name" for the users actually mentioned in the comment
+const renderBody = (comment: OKRComment, users: UserBasic[]) => {
+  const names = users
+    .filter(u => comment.mentions.includes(u.id))
+    .map(u => u.name)
+    .sort((a, b) => b.length - a.length);
+  if (names.length === 0) return comment.body;
+
+  const escaped = names.map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const parts = comment.body.split(new RegExp(`(@(?:${escaped.join('|')}))`, 'g'));
+  return parts.map((part, index) =>
+    part.startsWith('@') && names.includes(part.slice(1))
+      ? <span key={index} className="font-medium text-blue-600 dark:text-blue-400">{part}</span>
+      : <React.Fragment key={index}>{part}</React.Fragment>
+  );
+};
+
+interface MentionInputProps {
+  users: UserBasic[];
+  initialValue?: string;
+  placeholder: string;
+  submitLabel: string;
+  isSubmitting: boolean;
+  onSubmit: (body: string, mentionIds: string[]) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+const MentionInput: React.FC<MentionInputProps> = ({ users, initialValue = '', placeholder, submitLabel, isSubmitting, onSubmit, onCancel }) => {
+  const [value, setValue] = useState(initialValue);
+  const [query, setQuery] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const suggestions = query !== null
+    ? users.filter(u => u.name.toLowerCase().includes(query.toLowerCase())).slice(0, 5)
+    : [];
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const text = e.target.value;
+    setValue(text);
+    // Open suggestions while typing right after an "@"
+    const beforeCursor = text.slice(0, e.target.selectionStart);
+    const match = /(^|\s)@([^\s@]*)$/.exec(beforeCursor);
+    setQuery(match ? match[2] : null);
+  };
+
+  const insertMention = (user: UserBasic) => {
+    const textarea = textareaRef.current;
+    const cursor = textarea ? textarea.selectionStart : value.length;
+    const before = value.slice(0, cursor).replace(/@([^\s@]*)$/, `@${user.name} `);
+    setValue(before + value.slice(cursor));
+    setQuery(null);
+    textarea?.focus();
+  };
+
+  const handleSubmit = async () => {
+    if (!value.trim() || isSubmitting) return;
+    // Only users whose "@Name" is still in the text are notified
+    const mentionIds = users.filter(u => value.includes(`@${u.name}`)).map(u => u.id);
+    const ok = await onSubmit(value, mentionIds);
+    if (ok) {
+      setValue('');
+      setQuery(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        className="w-full bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl text-sm text-slate-900 dark:text-slate-100 px-3 py-2 focus:ring-2 focus:ring-blue-500 outline-none resize-none"
+        rows={2}
+        placeholder={placeholder}
+        value={value}
+        onChange={handleChange}
+        onKeyDown={e => {
+          if (e.key === 'Escape') setQuery(null);
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSubmit();
+        }}
+        disabled={isSubmitting}
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute z-10 left-0 right-0 bottom-full mb-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl shadow-lg overflow-hidden">
+          {suggestions.map(user => (
+            <button
+              key={user.id}
+              type="button"
+              onMouseDown={e => {
+                e.preventDefault();
+                insertMention(user);
+              }}
+              className="w-full text-left px-3 py-2 text-sm hover:bg-slate-50 dark:hover:bg-slate-700"
+            >
+              <span className="font-medium text-slate-900 dark:text-slate-100">{user.name}</span>
+              <span className="ml-2 text-xs text-slate-500 dark:text-slate-400">{user.email}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-end gap-2 mt-1.5">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1.5 text-xs text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+            disabled={isSubmitting}
+          >
+            Annulla
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={isSubmitting || !value.trim()}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium bg-black text-white rounded-lg hover:bg-gray-800 disabled:opacity-50"
+        >
+          {isSubmitting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Send className="w-3 h-3" />}
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const CommentThread: React.FC<CommentThreadProps> = ({ objectiveId, keyResultId = null, users }) => {
+  const { user: currentUser } = useAuth();
+  const [comments, setComments] = useState<OKRComment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const isMounted = useRef(true);
+
+  useEffect(() => {
+    isMounted.current = true;
+    return () => {
+      isMounted.current = false;
+    };
+  }, []);
+
+  const loadComments = useCallback(async () => {
+    try {
+      const data = await okrAPI.getComments(objectiveId, keyResultId);
+      if (isMounted.current) {
+        setComments(data);
+      }
+    } catch (err) {
+      if (isMounted.current) {
+        setError(err instanceof Error ? err.message : 'Errore nel caricamento dei commenti');
+      }
+    } finally {
+      if (isMounted.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [objectiveId, keyResultId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadComments();
+  }, [loadComments]);
+
+  // Refresh when someone mentions the current user in this discussion
+  useEffect(() => {
+    const handleSSE = (event: Event) => {
+      const { type, data } = (event as CustomEvent).detail || {};
+      if (type === 'comment_mention' && data?.objectiveId === objectiveId) {
+        loadComments();
+      }
+    };
+    window.addEventListener('sse-notification', handleSSE);
+    return () => window.removeEventListener('sse-notification', handleSSE);
+  }, [objectiveId, loadComments]);
+
+  const runAction = async (action: () => Promise<unknown>, fallback: string) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await action();
+      await loadComments();
+      return true;
+    } catch (err) {
+      if (isMounted.current) {
+        setError(err instanceof Error ? err.message : fallback);
+      }
+      return false;
+    } finally {
+      if (isMounted.current) {
+        setIsSubmitting(false);
+      }
+    }
+  };
+
+  const handleCreate = (parentCommentId: string | null) => async (body: string, mentionIds: string[]) => {
+    const ok = await runAction(
+      () => okrAPI.createComment(objectiveId, { body, keyResultId, parentCommentId, mentionIds }),
+      'Errore nella pubblicazione del commento'
+    );
+    if (ok) setReplyTo(null);
+    return ok;
+  };
+
+  const handleUpdate = (id: string) => async (body: string, mentionIds: string[]) => {
+    const ok = await runAction(
+      () => okrAPI.updateComment(id, { body, mentionIds }),
+      'Errore nella modifica del commento'
+    );
+    if (ok) setEditingId(null);
+    return ok;
+  };
+
+  const handleDelete = (id: string) => {
+    runAction(() => okrAPI.deleteComment(id), 'Errore nell\'eliminazione del commento');
+  };
+
+  const renderComment = (comment: CommentNode, depth: number): React.ReactNode => {
+    const isAuthor = comment.authorId === currentUser?.id;
+    const canDelete = isAuthor || currentUser?.role === 'admin';
+
+    return (
+      <div key={comment.id} className={depth > 0 ? 'pl-4 border-l-2 border-slate-100 dark:border-slate-700' : ''}>
+        <div className="py-2">
+          <div className="flex items-center gap-2 text-xs">
+            <span className="font-semibold text-slate-900 dark:text-slate-100">{comment.authorName}</span>
+            <span className="text-slate-400 dark:text-slate-500">{formatTimestamp(comment.createdAt)}</span>
+            {comment.updatedAt !== comment.createdAt && (
+              <span className="text-slate-400 dark:text-slate-500 italic">(modificato)</span>
+            )}
+          </div>
+          {editingId === comment.id ? (
+            <div className="mt-1">
+              <MentionInput
+                users={users}
+                initialValue={comment.body}
+                placeholder="Modifica il commento..."
+                submitLabel="Salva"
+                isSubmitting={isSubmitting}
+                onSubmit={handleUpdate(comment.id)}
+                onCancel={() => setEditingId(null)}
+              />
+            </div>
+          ) : (
+            <p className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap mt-0.5">
+              {renderBody(comment, users)}
+            </p>
+          )}
+          {editingId !== comment.id && (
+            <div className="flex items-center gap-3 mt-1">
+              <button
+                onClick={() => setReplyTo(replyTo === comment.id ? null : comment.id)}
+                className="flex items-center gap-1 text-[11px] text-slate-500 dark:text-slate-400 hover:text-blue-600"
+              >
+                <Reply className="w-3 h-3" /> Rispondi
+              </button>
+              {isAuthor && (
+                <button
+                  onClick={() => setEditingId(comment.id)}
+                  className="flex items-center gap-1 text-[11px] text-slate-500 dark:text-slate-400 hover:text-blue-600"
+                >
+                  <Edit2 className="w-3 h-3" /> Modifica
+                </button>
+              )}
+              {canDelete && (
+                <button
+                  onClick={() => handleDelete(comment.id)}
+                  disabled={isSubmitting}
+                  className="flex items-center gap-1 text-[11px] text-slate-500 dark:text-slate-400 hover:text-red-600"
+                >
+                  <Trash2 className="w-3 h-3" /> Elimina
+                </button>
+              )}
+            </div>
+          )}
+          {replyTo === comment.id && (
+            <div className="mt-2">
+              <MentionInput
+                users={users}
+                initialValue={isAuthor ? '' : `@${comment.authorName} `}
+                placeholder="Scrivi una risposta..."
+                submitLabel="Rispondi"
+                isSubmitting={isSubmitting}
+                onSubmit={handleCreate(comment.id)}
+                onCancel={() => setReplyTo(null)}
+              />
+            </div>
+          )}
+        </div>
+        {comment.replies.map(reply => renderComment(reply, depth + 1))}
+      </div>
+    );
+  };
+
+  const threads = buildThreads(comments);
+
+  return (
+    <div className="space-y-2">
+      {error && (
+        <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+      {isLoading ? (
+        <div className="flex justify-center py-3">
+          <Loader2 className="w-4 h-4 text-slate-400 animate-spin" />
+        </div>
+      ) : threads.length === 0 ? (
+        <p className="flex items-center gap-1.5 text-xs text-slate-400 dark:text-slate-500 italic">
+          <MessageSquare className="w-3.5 h-3.5" />
+          Nessun commento. Avvia la discussione, usa @ per menzionare un collega.
+        </p>
+      ) : (
+        <div className="divide-y divide-slate-100 dark:divide-slate-700">
+          {threads.map(thread => renderComment(thread, 0))}
+        </div>
+      )}
+      <MentionInput
+        users={users}
+        placeholder="Scrivi un commento... (@ per menzionare)"
+        submitLabel="Commenta"
+        isSubmitting={isSubmitting}
+        onSubmit={handleCreate(null)}
+      />
+    </div>
+  );
+};
+
+export default CommentThread;
@@ -1,8 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from './UIComponents';
 import { ICONS } from '../constants';
-import { okrAPI, CreateObjectiveData, UserBasic, ParentKeyResult, OKRLevel, subscriptionAPI, SubscriptionInfo, CanCreateOKRResult, teamAPI, Team } from '../api/client';
-import { Loader2, AlertCircle, Trash2, User, GitBranch, Crown, Users } from 'lucide-react';
+import { okrAPI, CreateObjectiveData, UserBasic, ParentKeyResult, OKRLevel, subscriptionAPI, SubscriptionInfo, CanCreateOKRResult, teamAPI, Team, Period, KeyResult, KeyResultDirection, OKRTemplate } from '../api/client';
+import { Loader2, AlertCircle, Trash2, User, GitBranch, Crown, Users, LayoutTemplate } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 
 interface CreateOKRModalProps {
@@ -13,11 +13,16 @@ interface CreateOKRModalProps {
 
 interface KeyResultFormData {
   description: string;
-  metricType: 'percentage' | 'number' | 'currency' | 'boolean';
+  metricType: KeyResult['metricType'];
   startValue: number;
   targetValue: number;
   currentValue: number;
   unit: string;
+  weight: number;
+  // Carried over from templates, not editable in this form
+  direction?: KeyResultDirection;
+  targetMaxValue?: number | null;
+  steps?: { title: string }[];
 }
 
 const emptyKeyResult: KeyResultFormData = {
@@ -26,7 +31,8 @@ const emptyKeyResult: KeyResultFormData = {
   startValue: 0,
   targetValue: 100,
   currentValue: 0,
-  unit: ''
+  unit: '',
+  weight: 1
 };
 
 // Allowed levels based on user role
@@ -43,6 +49,16 @@ const LEVEL_LABELS: Record<OKRLevel, string> = {
   individual: 'Individuale'
 };
 
+// Default to the shortest open period that contains today (a quarter over the annual cycle)
+const pickDefaultPeriod = (periods: Period[]): Period | undefined => {
+  const today = new Date().toISOString().slice(0, 10);
+  const open = periods.filter(period => period.status === 'open');
+  const current = open
+    .filter(period => period.startDate <= today && period.endDate >= today)
+    .sort((a, b) => (Date.parse(a.endDate) - Date.parse(a.startDate)) - (Date.parse(b.endDate) - Date.parse(b.startDate)));
+  return current[0] || open.find(period => period.endDate >= today) || open[0];
+};
+
 const CreateOKRModal: React.FC<CreateOKRModalProps> = ({ isOpen, onClose, onSave }) => {
   const { user: currentUser } = useAuth();
   const userRole = currentUser?.role || 'user';
@@ -56,6 +72,10 @@ const CreateOKRModal: React.FC<CreateOKRModalProps> = ({ isOpen, onClose, onSave
   const [isLoadingUsers, setIsLoadingUsers] = useState(false);
   const [teams, setTeams] = useState<Team[]>([]);
   const [isLoadingTeams, setIsLoadingTeams] = useState(false);
+  const [periods, setPeriods] = useState<Period[]>([]);
+  const [templates, setTemplates] = useState<OKRTemplate[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [templateNotice, setTemplateNotice] = useState<string | null>(null);
   const [availableParents, setAvailableParents] = useState<ParentKeyResult[]>([]);
   const [isLoadingParents, setIsLoadingParents] = useState(false);
   const [subscriptionInfo, setSubscriptionInfo] = useState<SubscriptionInfo | null>(null);
@@ -64,7 +84,7 @@ const CreateOKRModal: React.FC<CreateOKRModalProps> = ({ isOpen, onClose, onSave
     title: '',
     description: '',
     level: defaultLevel,
-    period: 'Q1 2026',
+    periodId: '' as string,
     dueDate: '',
     ownerId: '',
     teamId: '' as string,
@@ -77,6 +97,8 @@ const CreateOKRModal: React.FC<CreateOKRModalProps> = ({ isOpen, onClose, onSave
     if (isOpen) {
       loadUsers();
       loadTeams();
+      loadPeriods();
+      loadTemplates();
       // Load subscription info for KR limits
       subscriptionAPI.getInfo()
         .then(info => setSubscriptionInfo(info))
@@ -93,15 +115,15 @@ const CreateOKRModal: React.FC<CreateOKRModalProps> = ({ isOpen, onClose, onSave
     }
   }, [isOpen]);
 
-  // Load available parents when level changes
+  // Load available parents when level or team changes (team OKRs may align to their department)
   useEffect(() => {
     if (isOpen && formData.level !== 'company') {
-      loadAvailableParents(formData.level);
+      loadAvailableParents(formData.level, formData.teamId);
     } else {
       setAvailableParents([]);
       setFormData(prev => ({ ...prev, parentKeyResultId: '' }));
     }
-  }, [isOpen, formData.level]);
+  }, [isOpen, formData.level, formData.teamId]);
 
   const loadUsers = async () => {
     setIsLoadingUsers(true);
@@ -135,11 +157,35 @@ const CreateOKRModal: React.FC<CreateOKRModalProps> = ({ isOpen, onClose, onSave
     }
   };
 
-  const loadAvailableParents = async (level: OKRLevel) => {
+  const loadPeriods = async () => {
+    try {
+      const periodList = await okrAPI.getPeriods();
+      setPeriods(periodList);
+      const defaultPeriod = pickDefaultPeriod(periodList);
+      if (defaultPeriod) {
+        setFormData(prev => prev.periodId ? prev : { ...prev, periodId: defaultPeriod.id });
+      }
+    } catch (err) {
+      console.error('Failed to load periods:', err);
+    }
+  };
+
+  const loadTemplates = async () => {
+    try {
+      const templateList = await okrAPI.getTemplates();
+      setTemplates(templateList);
+    } catch (err) {
+      console.error('Failed to load templates:', err);
+    }
+  };
+
+  const loadAvailableParents = async (level: OKRLevel, teamId: string) => {
     setIsLoadingParents(true);
     try {
-      const parents = await okrAPI.getAvailableParents(level);
+      const parents = await okrAPI.getAvailableParents(level, undefined, level === 'team' ? teamId || undefined : undefined);
       setAvailableParents(parents);
+      // Drop a selected parent that is no longer available for the chosen team
+      setFormData(prev => parents.some(p => p.id === prev.parentKeyResultId) ? prev : { ...prev, parentKeyResultId: '' });
     } catch (err) {
       console.error('Failed to load available parents:', err);
       setAvailableParents([]);
@@ -172,6 +218,59 @@ const CreateOKRModal: React.FC<CreateOKRModalProps> = ({ isOpen, onClose, onSave
     }));
   };
 
+  // Prefill objective and key results from a template, within the plan limits
+  const handleApplyTemplate = (id: string) => {
+    setTemplateId(id);
+    setTemplateNotice(null);
+    const template = templates.find(t => t.id === id);
+    if (!template) return;
+
+    const maxKRs = isPremium ? Infinity : (subscriptionInfo?.limits?.krsPerOkr ?? 2);
+    const keyResults = template.keyResults.slice(0, maxKRs).map(kr => ({
+      description: kr.description,
+      metricType: kr.metricType,
+      startValue: kr.startValue,
+      targetValue: kr.targetValue,
+      currentValue: kr.startValue,
+      unit: kr.unit || '',
+      weight: kr.weight || 1,
+      direction: kr.direction,
+      targetMaxValue: kr.targetMaxValue,
+      steps: kr.steps
+    }));
+    const level = allowedLevels.includes(template.level) ? template.level : formData.level;
+
+    const notices: string[] = [];
+    if (template.keyResults.length > keyResults.length) {
+      notices.push(`Il template contiene ${template.keyResults.length} Key Results: nel piano Free ne sono stati importati ${keyResults.length}.`);
+    }
+    if (level !== template.level) {
+      notices.push(`Il livello ${LEVEL_LABELS[template.level]} del template non è disponibile per il tuo ruolo.`);
+    }
+    setTemplateNotice(notices.length > 0 ? notices.join(' ') : null);
+
+    setFormData(prev => ({
+      ...prev,
+      title: template.title,
+      description: template.description || '',
+      level,
+      parentKeyResultId: level === prev.level ? prev.parentKeyResultId : '',
+      keyResults: keyResults.length > 0 ? keyResults : [{ ...emptyKeyResult }]
+    }));
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!templateId) return;
+    try {
+      await okrAPI.deleteTemplate(templateId);
+      setTemplates(prev => prev.filter(t => t.id !== templateId));
+      setTemplateId('');
+      setTemplateNotice(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Errore nell\'eliminazione del template');
+    }
+  };
+
   const handleRemoveKR = (index: number) => {
     if (formData.keyResults.length > 1) {
       const newKRs = formData.keyResults.filter((_, i) => i !== index);
@@ -182,13 +281,13 @@ const CreateOKRModal: React.FC<CreateOKRModalProps> = ({ isOpen, onClose, onSave
   const handleKRChange = (index: number, field: keyof KeyResultFormData, value: string | number) => {
     const newKRs = [...formData.keyResults];
     // Parse numeric fields to remove leading zeros
-    const numericFields = ['startValue', 'targetValue', 'currentValue'];
+    const numericFields = ['startValue', 'targetValue', 'currentValue', 'weight'];
     if (numericFields.includes(field)) {
       const numValue = value === '' ? 0 : parseFloat(String(value)) || 0;
       newKRs[index] = { ...newKRs[index], [field]: numValue };
     } else if (field === 'metricType' && value === 'boolean') {
       // When switching to boolean, set default values
-      newKRs[index] = { ...newKRs[index], metricType: 'boolean', startValue: 0, targetValue: 1, currentValue: 0, unit: '' };
+      newKRs[index] = { ...newKRs[index], metricType: 'boolean', startValue: 0, targetValue: 1, currentValue: 0, unit: '', direction: 'increase', targetMaxValue: null };
     } else {
       newKRs[index] = { ...newKRs[index], [field]: value };
     }
@@ -200,11 +299,13 @@ const CreateOKRModal: React.FC<CreateOKRModalProps> = ({ isOpen, onClose, onSave
     setError(null);
     setAvailableParents([]);
     setCanCreateOKRResult(null);
+    setTemplateId('');
+    setTemplateNotice(null);
     setFormData({
       title: '',
       description: '',
       level: defaultLevel,
-      period: 'Q1 2026',
+      periodId: pickDefaultPeriod(periods)?.id || '',
       dueDate: '',
       ownerId: currentUser?.id || '',
       teamId: teams.length === 1 ? teams[0].id : '',
@@ -234,6 +335,11 @@ const CreateOKRModal: React.FC<CreateOKRModalProps> = ({ isOpen, onClose, onSave
       return;
     }
 
+    if (!formData.periodId) {
+      setError('Seleziona un periodo aperto per questo OKR');
+      return;
+    }
+
     // Team is required for team and individual levels
     if ((formData.level === 'team' || formData.level === 'individual') && !formData.teamId) {
       setError('Seleziona un team per questo OKR');
@@ -269,7 +375,7 @@ const CreateOKRModal: React.FC<CreateOKRModalProps> = ({ isOpen, onClose, onSave
         title: formData.title,
         description: formData.description || undefined,
         level: formData.level,
-        period: formData.period,
+        periodId: formData.periodId,
         dueDate: formData.dueDate || undefined,
         ownerId: formData.ownerId || undefined,
         teamId: formData.teamId || undefined,
@@ -279,8 +385,14 @@ const CreateOKRModal: React.FC<CreateOKRModalProps> = ({ isOpen, onClose, onSave
           metricType: kr.metricType,
           startValue: Number(kr.startValue),
           targetValue: Number(kr.targetValue),
-          currentValue: Number(kr.currentValue)
-        }))
+          currentValue: Number(kr.currentValue),
+          unit: kr.unit || undefined,
+          weight: Number(kr.weight) > 0 ? Number(kr.weight) : 1,
+          direction: kr.direction,
+          targetMaxValue: kr.targetMaxValue,
+          steps: kr.metricType === 'milestone' ? kr.steps : undefined
+        })),
+        templateId: templateId || undefined
       };
 
       await okrAPI.createObjective(objectiveData);
@@ -316,6 +428,45 @@ const CreateOKRModal: React.FC<CreateOKRModalProps> = ({ isOpen, onClose, onSave
 
           {step === 1 && (
             <div className="space-y-3">
+              {/* Start from template */}
+              {templates.length > 0 && (
+                <div className="bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-lg p-3">
+                  <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">
+                    <LayoutTemplate className="w-3.5 h-3.5 inline mr-1 -mt-0.5" />
+                    Parti da un template
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <select
+                      className="flex-1 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-blue-500 outline-none"
+                      value={templateId}
+                      onChange={e => handleApplyTemplate(e.target.value)}
+                      disabled={isSubmitting}
+                    >
+                      <option value="">Nessun template</option>
+                      {templates.map(template => (
+                        <option key={template.id} value={template.id}>
+                          {template.title} ({template.keyResults.length} KR)
+                        </option>
+                      ))}
+                    </select>
+                    {userRole === 'admin' && templateId && (
+                      <button
+                        type="button"
+                        onClick={handleDeleteTemplate}
+                        className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                        title="Elimina template"
+                        disabled={isSubmitting}
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
+                  {templateNotice && (
+                    <p className="text-[10px] text-amber-600 dark:text-amber-400 mt-1">{templateNotice}</p>
+                  )}
+                </div>
+              )}
+
               <div>
                 <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">Titolo Obiettivo *</label>
                 <input
@@ -359,15 +510,24 @@ const CreateOKRModal: React.FC<CreateOKRModalProps> = ({ isOpen, onClose, onSave
                    <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">Periodo</label>
                    <select
                       className="w-full bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg pl-3 pr-8 py-2 text-sm text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-blue-500 outline-none appearance-none bg-no-repeat bg-[length:12px_12px] bg-[position:right_10px_center] bg-[url('data:image/svg+xml;charset=UTF-8,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%20width%3D%2224%22%20height%3D%2224%22%20viewBox%3D%220%200%2024%2024%22%20fill%3D%22none%22%20stroke%3D%22%236b7280%22%20stroke-width%3D%222%22%20stroke-linecap%3D%22round%22%20stroke-linejoin%3D%22round%22%3E%3Cpolyline%20points%3D%226%209%2012%2015%2018%209%22%3E%3C%2Fpolyline%3E%3C%2Fsvg%3E')]"
-                      value={formData.period}
-                      onChange={e => setFormData({...formData, period: e.target.value})}
+                      value={formData.periodId}
+                      onChange={e => {
+                        const selected = periods.find(period => period.id === e.target.value);
+                        // Prefill the deadline with the end of the period
+                        setFormData({
+                          ...formData,
+                          periodId: e.target.value,
+                          dueDate: formData.dueDate || selected?.endDate || ''
+                        });
+                      }}
                       disabled={isSubmitting}
                    >
-                     <option value="Q1 2026">Q1 2026</option>
-                     <option value="Q2 2026">Q2 2026</option>
-                     <option value="Q3 2026">Q3 2026</option>
-                     <option value="Q4 2026">Q4 2026</option>
-                     <option value="Annual 2026">Annuale 2026</option>
+                     {periods.filter(period => period.status === 'open').length === 0 && (
+                       <option value="">Nessun periodo aperto</option>
+                     )}
+                     {periods.filter(period => period.status === 'open').map(period => (
+                       <option key={period.id} value={period.id}>{period.name}</option>
+                     ))}
                    </select>
                 </div>
               </div>
@@ -378,7 +538,7 @@ const CreateOKRModal: React.FC<CreateOKRModalProps> = ({ isOpen, onClose, onSave
                   <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">
                     Key Result Parent *
                     <span className="font-normal text-slate-500 dark:text-slate-400 ml-1">
-                      (da OKR {formData.level === 'team' ? 'Azienda' : 'Team'})
+                      (da OKR {formData.level === 'team' ? 'Azienda o del dipartimento' : 'Team'})
                     </span>
                   </label>
                   <div className="relative">
@@ -550,7 +710,7 @@ const CreateOKRModal: React.FC<CreateOKRModalProps> = ({ isOpen, onClose, onSave
                      )}
                    </div>
 
-                   <div className="grid grid-cols-2 gap-2">
+                   <div className="grid grid-cols-3 gap-2">
                      <div>
                        <label className="block text-[10px] font-medium text-slate-500 dark:text-slate-400 mb-1">Tipo Metrica</label>
                        <select
@@ -563,6 +723,9 @@ const CreateOKRModal: React.FC<CreateOKRModalProps> = ({ isOpen, onClose, onSave
                          <option value="percentage">Percentuale (%)</option>
                          <option value="currency">Valuta</option>
                          <option value="boolean">Si/No</option>
+                         {kr.metricType === 'milestone' && (
+                           <option value="milestone">Milestone</option>
+                         )}
                        </select>
                      </div>
                      <div>
@@ -576,8 +739,29 @@ const CreateOKRModal: React.FC<CreateOKRModalProps> = ({ isOpen, onClose, onSave
                          disabled={isSubmitting || kr.metricType === 'boolean'}
                        />
                      </div>
+                     <div>
+                       <label className="block text-[10px] font-medium text-slate-500 dark:text-slate-400 mb-1">Peso</label>
+                       <input
+                         type="text"
+                         inputMode="decimal"
+                         className="w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-lg text-slate-900 dark:text-slate-100 px-2.5 py-1.5 text-xs focus:ring-1 focus:ring-blue-500 outline-none"
+                         value={kr.weight}
+                         onChange={e => handleKRChange(idx, 'weight', e.target.value.replace(/^0+(?=\d)/, ''))}
+                         disabled={isSubmitting}
+                       />
+                     </div>
                    </div>
 
+                   {kr.metricType === 'milestone' ? (
+                     <div>
+                       <label className="block text-[10px] font-medium text-slate-500 dark:text-slate-400 mb-1">Step ({kr.steps?.length || 0})</label>
+                       <ol className="list-decimal list-inside text-xs text-slate-700 dark:text-slate-300 space-y-0.5">
+                         {(kr.steps || []).map((milestoneStep, stepIdx) => (
+                           <li key={stepIdx}>{milestoneStep.title}</li>
+                         ))}
+                       </ol>
+                     </div>
+                   ) : (
                    <div className="grid grid-cols-3 gap-2">
                      <div>
                        <label className="block text-[10px] font-medium text-slate-500 dark:text-slate-400 mb-1">Iniziale</label>
@@ -637,6 +821,7 @@ const CreateOKRModal: React.FC<CreateOKRModalProps> = ({ isOpen, onClose, onSave
                        )}
                      </div>
                    </div>
+                   )}
                 </div>
               ))}
             </div>
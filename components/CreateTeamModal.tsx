@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { X, Users, Loader2, AlertCircle } from 'lucide-react';
-import { okrAPI } from '../api/client';
+import { okrAPI, TeamData, TeamType } from '../api/client';
 
 interface LeadUser {
   id: string;
@@ -11,20 +11,24 @@ interface LeadUser {
 interface CreateTeamModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onCreate: (data: { name: string; description?: string; leadId?: string }) => Promise<void>;
+  onCreate: (data: TeamData) => Promise<void>;
   userRole?: string;
+  departments?: { id: string; name: string }[];
 }
 
 const CreateTeamModal: React.FC<CreateTeamModalProps> = ({
   isOpen,
   onClose,
   onCreate,
-  userRole
+  userRole,
+  departments = []
 }) => {
   const isAdmin = userRole === 'admin';
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
   const [leadId, setLeadId] = useState('');
+  const [type, setType] = useState<TeamType>('team');
+  const [parentTeamId, setParentTeamId] = useState('');
   const [availableLeads, setAvailableLeads] = useState<LeadUser[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingLeads, setIsLoadingLeads] = useState(false);
@@ -71,9 +75,11 @@ const CreateTeamModal: React.FC<CreateTeamModalProps> = ({
 
     setIsLoading(true);
     try {
-      const data: { name: string; description?: string; leadId?: string } = {
+      const data: TeamData = {
         name: name.trim(),
-        description: description.trim() || undefined
+        description: description.trim() || undefined,
+        type,
+        parentTeamId: parentTeamId || undefined
       };
       if (isAdmin && leadId) {
         data.leadId = leadId;
@@ -82,6 +88,8 @@ const CreateTeamModal: React.FC<CreateTeamModalProps> = ({
       setName('');
       setDescription('');
       setLeadId('');
+      setType('team');
+      setParentTeamId('');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Errore nella creazione del team');
     } finally {
@@ -93,6 +101,8 @@ const CreateTeamModal: React.FC<CreateTeamModalProps> = ({
     setName('');
     setDescription('');
     setLeadId('');
+    setType('team');
+    setParentTeamId('');
     setError(null);
     onClose();
   };
@@ -145,6 +155,40 @@ const CreateTeamModal: React.FC<CreateTeamModalProps> = ({
             />
           </div>
 
+          {/* Type and parent department */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                Tipo
+              </label>
+              <select
+                value={type}
+                onChange={(e) => setType(e.target.value as TeamType)}
+                className="w-full px-4 py-3 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-slate-900 dark:text-slate-100"
+                disabled={isLoading}
+              >
+                <option value="team">Team</option>
+                <option value="department">Dipartimento</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                Dipartimento
+              </label>
+              <select
+                value={parentTeamId}
+                onChange={(e) => setParentTeamId(e.target.value)}
+                className="w-full px-4 py-3 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-slate-900 dark:text-slate-100"
+                disabled={isLoading}
+              >
+                <option value="">Nessuno</option>
+                {departments.map(dept => (
+                  <option key={dept.id} value={dept.id}>{dept.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
           {/* Lead Selection - only for admin */}
           {isAdmin && (
             <div>
@@ -1,21 +1,40 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Card, ProgressBar, Tooltip as UITooltip } from './UIComponents';
 import { ICONS, STATUS_COLORS, STATUS_LABELS } from '../constants';
-import { okrAPI, Objective, KeyResult, HealthMetrics } from '../api/client';
+import { okrAPI, Objective, KeyResult, HealthMetrics, CheckInDue } from '../api/client';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip as RechartsTooltip } from 'recharts';
 import { User } from '../types';
 import {
   Loader2, Target, TrendingUp, AlertTriangle, CheckCircle2,
   Clock, Calendar, ArrowRight, Users, Building2, User as UserIcon,
-  Gauge, TrendingDown, Zap
+  Gauge, TrendingDown, Zap, MessageSquare
 } from 'lucide-react';
 
 interface DashboardProps {
   currentUser: User;
 }
 
+// Same rules as calculateKeyResultProgress on the server (decrease and range KRs included)
+const calculateKRProgress = (kr: KeyResult) => {
+  const clamp = (value: number) => Math.min(Math.max(value, 0), 100);
+  if (kr.direction === 'range') {
+    const min = kr.targetValue;
+    const max = kr.targetMaxValue ?? kr.targetValue;
+    if (kr.currentValue >= min && kr.currentValue <= max) return 100;
+    const distance = kr.currentValue < min ? min - kr.currentValue : kr.currentValue - max;
+    const startDistance = kr.startValue < min ? min - kr.startValue : (kr.startValue > max ? kr.startValue - max : 0);
+    return startDistance === 0 ? 0 : clamp((1 - distance / startDistance) * 100);
+  }
+  if (kr.targetValue === kr.startValue) {
+    const reached = kr.direction === 'decrease' ? kr.currentValue <= kr.targetValue : kr.currentValue >= kr.targetValue;
+    return reached ? 100 : 0;
+  }
+  return clamp(((kr.currentValue - kr.startValue) / (kr.targetValue - kr.startValue)) * 100);
+};
+
 const Dashboard: React.FC<DashboardProps> = ({ currentUser }) => {
   const [objectives, setObjectives] = useState<Objective[]>([]);
+  const [checkInsDue, setCheckInsDue] = useState<CheckInDue[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const loadObjectivesRef = useRef<() => void>(() => {});
@@ -38,6 +57,10 @@ const Dashboard: React.FC<DashboardProps> = ({ currentUser }) => {
     try {
       const data = await okrAPI.getObjectives();
       setObjectives(data);
+      // Check-ins due are secondary: a failure here should not block the dashboard
+      okrAPI.getCheckInsDue()
+        .then(due => setCheckInsDue(due))
+        .catch(err => console.error('Failed to load check-ins due:', err));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Errore nel caricamento');
     } finally {
@@ -116,9 +139,7 @@ const Dashboard: React.FC<DashboardProps> = ({ currentUser }) => {
       if (obj.progress >= 100) return;
 
       obj.keyResults.forEach(kr => {
-        const progress = kr.targetValue > kr.startValue
-          ? ((kr.currentValue - kr.startValue) / (kr.targetValue - kr.startValue)) * 100
-          : 0;
+        const progress = calculateKRProgress(kr);
 
         // KR is critical if progress < 30%
         if (progress < 30) {
@@ -198,10 +219,7 @@ const Dashboard: React.FC<DashboardProps> = ({ currentUser }) => {
     });
   };
 
-  const getKRProgress = (kr: KeyResult) => {
-    if (kr.targetValue === kr.startValue) return kr.currentValue >= kr.targetValue ? 100 : 0;
-    return Math.min(Math.max(((kr.currentValue - kr.startValue) / (kr.targetValue - kr.startValue)) * 100, 0), 100);
-  };
+  const getKRProgress = (kr: KeyResult) => calculateKRProgress(kr);
 
   const getProgressColor = (progress: number) => {
     if (progress >= 70) return 'bg-green-500';
@@ -520,6 +538,37 @@ const Dashboard: React.FC<DashboardProps> = ({ currentUser }) => {
             </div>
           )}
         </Card>
+
+        {/* Check-in della Settimana */}
+        <Card title="Check-in della Settimana" className="flex flex-col overflow-hidden" action={
+          <span className="text-xs text-slate-400">
+            {checkInsDue.length > 0 ? `${checkInsDue.length} da fare` : ''}
+          </span>
+        }>
+          {checkInsDue.length === 0 ? (
+            <div className="flex-1 flex flex-col items-center justify-center text-slate-400 text-sm">
+              <CheckCircle2 className="w-8 h-8 mb-2 text-green-400" />
+              Nessun check-in in sospeso
+            </div>
+          ) : (
+            <div className="flex-1 overflow-y-auto space-y-2">
+              {checkInsDue.map((kr) => (
+                <div key={kr.id} className="flex items-center gap-3 p-2.5 bg-gray-50 dark:bg-slate-700/50 rounded-xl">
+                  <div className="p-2 rounded-lg flex-shrink-0 bg-blue-100 dark:bg-blue-900/30">
+                    <MessageSquare className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-slate-900 dark:text-slate-100 truncate">{kr.description}</p>
+                    <p className="text-xs text-slate-400 dark:text-slate-500 truncate">{kr.objectiveTitle}</p>
+                  </div>
+                  <div className="text-xs text-slate-400 dark:text-slate-500 flex-shrink-0 text-right">
+                    {kr.lastCheckInAt ? `Ultimo: ${formatDate(kr.lastCheckInAt)}` : 'Mai'}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
       </div>
 
     </div>
@@ -1,12 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { X, Edit, Loader2, AlertCircle } from 'lucide-react';
+import { TeamData, TeamType } from '../api/client';
 
 interface EditTeamModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onUpdate: (data: { name: string; description?: string }) => Promise<void>;
+    onUpdate: (data: Partial<TeamData>) => Promise<void>;
     currentName: string;
     currentDescription?: string;
+    teamId?: string;
+    currentType?: TeamType;
+    currentParentTeamId?: string | null;
+    departments?: { id: string; name: string }[];
 }
 
 const EditTeamModal: React.FC<EditTeamModalProps> = ({
@@ -14,10 +19,16 @@ const EditTeamModal: React.FC<EditTeamModalProps> = ({
     onClose,
     onUpdate,
     currentName,
-    currentDescription
+    currentDescription,
+    teamId,
+    currentType = 'team',
+    currentParentTeamId,
+    departments = []
 }) => {
     const [name, setName] = useState(currentName);
     const [description, setDescription] = useState(currentDescription || '');
+    const [type, setType] = useState<TeamType>(currentType);
+    const [parentTeamId, setParentTeamId] = useState(currentParentTeamId || '');
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
@@ -26,9 +37,11 @@ const EditTeamModal: React.FC<EditTeamModalProps> = ({
         if (isOpen) {
             setName(currentName);
             setDescription(currentDescription || '');
+            setType(currentType);
+            setParentTeamId(currentParentTeamId || '');
             setError(null);
         }
-    }, [isOpen, currentName, currentDescription]);
+    }, [isOpen, currentName, currentDescription, currentType, currentParentTeamId]);
 
     if (!isOpen) return null;
 
@@ -43,7 +56,12 @@ const EditTeamModal: React.FC<EditTeamModalProps> = ({
 
         setIsLoading(true);
         try {
-            await onUpdate({ name: name.trim(), description: description.trim() || undefined });
+            await onUpdate({
+                name: name.trim(),
+                description: description.trim() || undefined,
+                type,
+                parentTeamId: parentTeamId || null
+            });
             onClose();
         } catch (err) {
             setError(err instanceof Error ? err.message : 'Failed to update team');
@@ -55,6 +73,8 @@ const EditTeamModal: React.FC<EditTeamModalProps> = ({
     const handleClose = () => {
         setName(currentName);
         setDescription(currentDescription || '');
+        setType(currentType);
+        setParentTeamId(currentParentTeamId || '');
         setError(null);
         onClose();
     };
@@ -105,6 +125,40 @@ const EditTeamModal: React.FC<EditTeamModalProps> = ({
                         />
                     </div>
 
+                    {/* Type and parent department */}
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                                Type
+                            </label>
+                            <select
+                                value={type}
+                                onChange={(e) => setType(e.target.value as TeamType)}
+                                className="w-full px-4 py-3 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                disabled={isLoading}
+                            >
+                                <option value="team">Team</option>
+                                <option value="department">Department</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                                Parent department
+                            </label>
+                            <select
+                                value={parentTeamId}
+                                onChange={(e) => setParentTeamId(e.target.value)}
+                                className="w-full px-4 py-3 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                disabled={isLoading}
+                            >
+                                <option value="">None</option>
+                                {departments.filter(dept => dept.id !== teamId).map(dept => (
+                                    <option key={dept.id} value={dept.id}>{dept.name}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
                     {/* Description */}
                     <div>
                         <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
@@ -0,0 +1,361 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Mail,
+  Send,
+  Trash2,
+  Shield,
+  X,
+  Loader2,
+  AlertTriangle,
+  CheckCircle2,
+  Clock
+} from 'lucide-react';
+import {
+  teamAPI,
+  TeamInvitation,
+  InvitationStatus,
+  BulkInvitationResult
+} from '../api/client';
+import { useAuth } from '../context/AuthContext';
+
+const STATUS_TABS: { status: InvitationStatus; label: string }[] = [
+  { status: 'pending', label: 'In attesa' },
+  { status: 'accepted', label: 'Accettati' },
+  { status: 'declined', label: 'Rifiutati' },
+  { status: 'expired', label: 'Scaduti' },
+];
+
+const EMPTY_COUNTS: Record<InvitationStatus, number> = { pending: 0, accepted: 0, declined: 0, expired: 0 };
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString('it-IT');
+
+// Bulk actions only make sense on invitations that can still be accepted or revived
+const isActionable = (invitation: TeamInvitation) =>
+  invitation.status === 'pending' || invitation.status === 'expired';
+
+const InvitationsPage: React.FC = () => {
+  const { user: currentUser } = useAuth();
+  const [activeStatus, setActiveStatus] = useState<InvitationStatus>('pending');
+  const [invitations, setInvitations] = useState<TeamInvitation[]>([]);
+  const [counts, setCounts] = useState<Record<InvitationStatus, number>>(EMPTY_COUNTS);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkLoading, setBulkLoading] = useState(false);
+
+  // Expiry settings
+  const [expiryDays, setExpiryDays] = useState('');
+  const [maxExpiryDays, setMaxExpiryDays] = useState(90);
+  const [savedExpiryDays, setSavedExpiryDays] = useState<number | null>(null);
+  const [settingsLoading, setSettingsLoading] = useState(false);
+
+  const isAdmin = currentUser?.role === 'admin';
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchSettings();
+    }
+  }, [isAdmin]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchInvitations();
+    }
+  }, [activeStatus, isAdmin]);
+
+  const fetchInvitations = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await teamAPI.getCompanyInvitations(activeStatus);
+      setInvitations(data.invitations);
+      setCounts(data.counts);
+      setSelectedIds(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Errore nel caricamento degli inviti');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchSettings = async () => {
+    try {
+      const settings = await teamAPI.getInvitationSettings();
+      setExpiryDays(String(settings.expiryDays));
+      setSavedExpiryDays(settings.expiryDays);
+      setMaxExpiryDays(settings.maxExpiryDays);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Errore nel caricamento delle impostazioni');
+    }
+  };
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSettingsLoading(true);
+    setError(null);
+    try {
+      const settings = await teamAPI.updateInvitationSettings({ expiryDays: Number(expiryDays) });
+      setExpiryDays(String(settings.expiryDays));
+      setSavedExpiryDays(settings.expiryDays);
+      setNotice(`I nuovi inviti scadranno dopo ${settings.expiryDays} giorni`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Errore nel salvataggio delle impostazioni');
+    } finally {
+      setSettingsLoading(false);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const actionableInvitations = invitations.filter(isActionable);
+  const allSelected = actionableInvitations.length > 0 && selectedIds.size === actionableInvitations.length;
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(actionableInvitations.map(i => i.id)));
+  };
+
+  const describeResult = (result: BulkInvitationResult, action: string) => {
+    const done = `${result.succeeded.length} inviti ${action}`;
+    return result.failed.length > 0 ? `${done}, ${result.failed.length} non riusciti` : done;
+  };
+
+  const handleBulkResend = async () => {
+    setBulkLoading(true);
+    setError(null);
+    try {
+      const result = await teamAPI.bulkResendInvitations(Array.from(selectedIds));
+      setNotice(describeResult(result, 'reinviati'));
+      fetchInvitations();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Errore nel reinvio degli inviti');
+    } finally {
+      setBulkLoading(false);
+    }
+  };
+
+  const handleBulkCancel = async () => {
+    if (!confirm(`Annullare ${selectedIds.size} inviti? I link inviati smetteranno di funzionare.`)) return;
+    setBulkLoading(true);
+    setError(null);
+    try {
+      const result = await teamAPI.bulkCancelInvitations(Array.from(selectedIds));
+      setNotice(describeResult(result, 'annullati'));
+      fetchInvitations();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Errore nell'annullamento degli inviti");
+    } finally {
+      setBulkLoading(false);
+    }
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20">
+        <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm p-12 text-center max-w-md">
+          <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-6">
+            <Shield className="w-8 h-8 text-red-500" />
+          </div>
+          <h2 className="text-xl font-bold text-slate-900 dark:text-slate-100 mb-2">Accesso Negato</h2>
+          <p className="text-slate-500 dark:text-slate-400 text-sm">
+            Solo gli amministratori possono gestire gli inviti.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const canSelect = activeStatus === 'pending' || activeStatus === 'expired';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-slate-900 dark:text-slate-100">Inviti</h1>
+        <p className="text-slate-500 dark:text-slate-400 text-sm mt-1">Tutti gli inviti ai team dell'azienda</p>
+      </div>
+
+      {/* Error */}
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-xl p-4 flex items-center gap-3 text-red-700 dark:text-red-400">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      {/* Notice */}
+      {notice && (
+        <div className="bg-green-50 dark:bg-green-900/30 border border-green-200 dark:border-green-800 rounded-xl p-4 flex items-center gap-3 text-green-700 dark:text-green-400">
+          <CheckCircle2 className="w-5 h-5 flex-shrink-0" />
+          <p className="flex-1">{notice}</p>
+          <button onClick={() => setNotice(null)} className="p-1 rounded-lg hover:bg-green-100 dark:hover:bg-green-900/50">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Expiry settings */}
+      <form
+        onSubmit={handleSaveSettings}
+        className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm p-6 flex flex-col sm:flex-row sm:items-end gap-4"
+      >
+        <div className="flex-1">
+          <div className="flex items-center gap-2 mb-1">
+            <Clock className="w-4 h-4 text-slate-500 dark:text-slate-400" />
+            <h2 className="font-semibold text-slate-900 dark:text-slate-100">Scadenza inviti</h2>
+          </div>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Giorni di validità dei nuovi inviti e di quelli reinviati. Gli inviti scaduti vengono chiusi automaticamente.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            required
+            min={1}
+            max={maxExpiryDays}
+            value={expiryDays}
+            onChange={(e) => setExpiryDays(e.target.value)}
+            className="w-24 px-3 py-2 border border-slate-200 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <span className="text-sm text-slate-500 dark:text-slate-400">giorni</span>
+          <button
+            type="submit"
+            disabled={settingsLoading || Number(expiryDays) === savedExpiryDays}
+            className="px-4 py-2 bg-black text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 flex items-center gap-2"
+          >
+            {settingsLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+            Salva
+          </button>
+        </div>
+      </form>
+
+      {/* Status tabs */}
+      <div className="flex gap-2 border-b border-slate-200 dark:border-slate-700">
+        {STATUS_TABS.map(tab => (
+          <button
+            key={tab.status}
+            onClick={() => setActiveStatus(tab.status)}
+            className={`flex items-center gap-2 px-4 py-2 font-medium transition-colors border-b-2 -mb-px ${
+              activeStatus === tab.status
+                ? 'text-blue-600 dark:text-blue-400 border-blue-600 dark:border-blue-400'
+                : 'text-slate-500 dark:text-slate-400 border-transparent hover:text-slate-700 dark:hover:text-slate-300'
+            }`}
+          >
+            {tab.label}
+            <span className="px-2 py-0.5 text-xs rounded-full bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300">
+              {counts[tab.status]}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {/* Bulk actions */}
+      {canSelect && selectedIds.size > 0 && (
+        <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-xl px-4 py-3 flex items-center justify-between gap-4">
+          <p className="text-sm text-blue-700 dark:text-blue-300">{selectedIds.size} inviti selezionati</p>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleBulkResend}
+              disabled={bulkLoading}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded-lg disabled:opacity-50"
+            >
+              {bulkLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              Reinvia
+            </button>
+            <button
+              onClick={handleBulkCancel}
+              disabled={bulkLoading}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4" />
+              Annulla inviti
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Invitations Table */}
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm">
+        {loading ? (
+          <div className="p-12 text-center">
+            <Loader2 className="w-8 h-8 text-slate-400 dark:text-slate-500 animate-spin mx-auto mb-2" />
+            <p className="text-slate-500 dark:text-slate-400">Caricamento inviti...</p>
+          </div>
+        ) : invitations.length === 0 ? (
+          <div className="p-12 text-center">
+            <Mail className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-slate-500 dark:text-slate-400">Nessun invito</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-slate-50 dark:bg-slate-700 border-b border-slate-100 dark:border-slate-700">
+                <tr>
+                  {canSelect && (
+                    <th className="px-6 py-4 w-10">
+                      <input
+                        type="checkbox"
+                        checked={allSelected}
+                        onChange={toggleAll}
+                        className="rounded border-slate-300"
+                      />
+                    </th>
+                  )}
+                  <th className="text-left px-6 py-4 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase">Email</th>
+                  <th className="text-left px-6 py-4 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase">Team</th>
+                  <th className="text-left px-6 py-4 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase">Invitato da</th>
+                  <th className="text-left px-6 py-4 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase">Inviato</th>
+                  <th className="text-left px-6 py-4 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase">
+                    {activeStatus === 'accepted' ? 'Accettato' : 'Scadenza'}
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                {invitations.map((invitation) => (
+                  <tr key={invitation.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                    {canSelect && (
+                      <td className="px-6 py-4">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(invitation.id)}
+                          onChange={() => toggleSelected(invitation.id)}
+                          disabled={!isActionable(invitation)}
+                          className="rounded border-slate-300"
+                        />
+                      </td>
+                    )}
+                    <td className="px-6 py-4">
+                      <p className="font-medium text-slate-900 dark:text-slate-100">{invitation.email}</p>
+                      <p className="text-xs text-slate-500 dark:text-slate-400">{invitation.role === 'admin' ? 'Admin' : 'Membro'}</p>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-400">{invitation.teamName}</td>
+                    <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-400">{invitation.invitedByName}</td>
+                    <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-400">{formatDate(invitation.createdAt)}</td>
+                    <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-400">
+                      {activeStatus === 'accepted'
+                        ? (invitation.acceptedAt ? formatDate(invitation.acceptedAt) : '—')
+                        : formatDate(invitation.expiresAt)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InvitationsPage;
@@ -10,6 +10,7 @@ interface InvitePageProps {
 interface InvitationDetails {
   id: string;
   email: string;
+  name: string | null;
   teamName: string;
   teamId: string;
   inviterName: string;
@@ -35,6 +36,10 @@ const InvitePage: React.FC<InvitePageProps> = ({ token, onComplete }) => {
       try {
         const details = await teamAPI.getInvitationDetails(token);
         setInvitation(details);
+        // Bulk invitations may carry the invitee's name
+        if (details.name) {
+          setName(details.name);
+        }
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Invalid or expired invitation');
       } finally {
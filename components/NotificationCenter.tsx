@@ -1,15 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Bell, AlertTriangle, AlertCircle, Clock, X, ChevronRight } from 'lucide-react';
-import { okrAPI, Objective } from '../api/client';
-
-interface Notification {
-  id: string;
-  type: 'critical' | 'warning' | 'info';
-  title: string;
-  message: string;
-  objectiveId: string;
-  timestamp: Date;
-}
+import { Bell, AlertTriangle, CheckCircle, XCircle, Clock, X, ChevronRight, AtSign, CheckCheck, Archive } from 'lucide-react';
+import { notificationsAPI, InboxNotification } from '../api/client';
 
 interface NotificationCenterProps {
   onSelectOKR?: (id: string) => void;
@@ -17,26 +8,38 @@ interface NotificationCenterProps {
 
 const NotificationCenter: React.FC<NotificationCenterProps> = ({ onSelectOKR }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [dismissedIds, setDismissedIds] = useState<Set<string>>(() => {
-    const saved = localStorage.getItem('dismissedNotifications');
-    return saved ? new Set(JSON.parse(saved)) : new Set();
-  });
+  const [notifications, setNotifications] = useState<InboxNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
   const [loading, setLoading] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const fetchNotificationsRef = useRef<() => void>(() => {});
 
-  // Dismiss a single notification
-  const dismissNotification = (e: React.MouseEvent, notificationId: string) => {
+  // Archive a single notification (removes it from the inbox on every device)
+  const archiveNotification = async (e: React.MouseEvent, notification: InboxNotification) => {
     e.stopPropagation();
-    const newDismissed = new Set(dismissedIds);
-    newDismissed.add(notificationId);
-    setDismissedIds(newDismissed);
-    localStorage.setItem('dismissedNotifications', JSON.stringify([...newDismissed]));
+    setNotifications(prev => prev.filter(n => n.id !== notification.id));
+    if (!notification.readAt) {
+      setUnreadCount(prev => Math.max(0, prev - 1));
+    }
+    try {
+      await notificationsAPI.archive(notification.id);
+    } catch (error) {
+      console.error('Error archiving notification:', error);
+      fetchNotificationsRef.current();
+    }
   };
 
-  // Filter out dismissed notifications
-  const visibleNotifications = notifications.filter(n => !dismissedIds.has(n.id));
+  const markAllAsRead = async () => {
+    const now = new Date().toISOString();
+    setNotifications(prev => prev.map(n => (n.readAt ? n : { ...n, readAt: now })));
+    setUnreadCount(0);
+    try {
+      await notificationsAPI.markAllAsRead();
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      fetchNotificationsRef.current();
+    }
+  };
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -50,78 +53,13 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ onSelectOKR })
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  // Fetch notifications function
+  // Fetch notifications from the server-side inbox
   const fetchNotifications = async () => {
     setLoading(true);
     try {
-      const [objectives, pendingApprovals] = await Promise.all([
-        okrAPI.getObjectives(),
-        okrAPI.getPendingApprovals().catch(() => []) // Gracefully handle if user can't access
-      ]);
-      const generatedNotifications: Notification[] = [];
-
-      // Add pending approval notifications
-      pendingApprovals.forEach((obj: Objective) => {
-        generatedNotifications.push({
-          id: `${obj.id}-approval`,
-          type: 'warning',
-          title: 'Richiesta Approvazione',
-          message: `"${obj.title}" richiede la tua approvazione`,
-          objectiveId: obj.id,
-          timestamp: new Date(),
-        });
-      });
-
-      objectives.forEach((obj: Objective) => {
-        // Check for critical OKRs (based on healthMetrics)
-        if (obj.healthMetrics?.riskLevel === 'critical') {
-          generatedNotifications.push({
-            id: `${obj.id}-critical`,
-            type: 'critical',
-            title: 'OKR Critico',
-            message: `"${obj.title}" richiede attenzione urgente`,
-            objectiveId: obj.id,
-            timestamp: new Date(),
-          });
-        }
-        // Check for at-risk OKRs (based on healthMetrics)
-        else if (obj.healthMetrics?.riskLevel === 'high' || obj.healthMetrics?.riskLevel === 'medium') {
-          generatedNotifications.push({
-            id: `${obj.id}-warning`,
-            type: 'warning',
-            title: 'OKR a Rischio',
-            message: `"${obj.title}" potrebbe non raggiungere l'obiettivo`,
-            objectiveId: obj.id,
-            timestamp: new Date(),
-          });
-        }
-
-        // Check for OKRs with upcoming deadlines (within 7 days)
-        if (obj.dueDate && obj.progress < 100) {
-          const dueDate = new Date(obj.dueDate);
-          const now = new Date();
-          const daysRemaining = Math.ceil((dueDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-
-          if (daysRemaining > 0 && daysRemaining <= 7 && obj.progress < 80) {
-            generatedNotifications.push({
-              id: `${obj.id}-deadline`,
-              type: 'info',
-              title: 'Scadenza Vicina',
-              message: `"${obj.title}" scade tra ${daysRemaining} giorn${daysRemaining === 1 ? 'o' : 'i'}`,
-              objectiveId: obj.id,
-              timestamp: new Date(),
-            });
-          }
-        }
-      });
-
-      // Sort by type priority: critical > warning > info
-      generatedNotifications.sort((a, b) => {
-        const priority = { critical: 0, warning: 1, info: 2 };
-        return priority[a.type] - priority[b.type];
-      });
-
-      setNotifications(generatedNotifications);
+      const inbox = await notificationsAPI.getNotifications();
+      setNotifications(inbox.notifications);
+      setUnreadCount(inbox.unreadCount);
     } catch (error) {
       console.error('Error fetching notifications:', error);
     } finally {
@@ -137,55 +75,74 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ onSelectOKR })
     fetchNotifications();
   }, []);
 
-  // Listen for SSE real-time notifications
+  // Reload when the server has stored new notifications for this user
   useEffect(() => {
-    const handleSSE = () => {
+    const handleRefresh = () => {
       fetchNotificationsRef.current();
     };
-    window.addEventListener('sse-notification', handleSSE);
-    return () => window.removeEventListener('sse-notification', handleSSE);
+    window.addEventListener('notifications-refresh', handleRefresh);
+    return () => window.removeEventListener('notifications-refresh', handleRefresh);
   }, []);
 
-  // Listen for OKR updates to refresh notifications
-  useEffect(() => {
-    const handleOkrUpdate = () => {
-      fetchNotifications();
-    };
-    window.addEventListener('okr-updated', handleOkrUpdate);
-    return () => window.removeEventListener('okr-updated', handleOkrUpdate);
-  }, []);
-
-  const getNotificationIcon = (type: Notification['type']) => {
+  const getNotificationIcon = (type: InboxNotification['type']) => {
     switch (type) {
-      case 'critical':
-        return <AlertCircle className="w-5 h-5 text-red-500" />;
-      case 'warning':
+      case 'okr_rejected':
+        return <XCircle className="w-5 h-5 text-red-500" />;
+      case 'okr_submitted':
         return <AlertTriangle className="w-5 h-5 text-amber-500" />;
-      case 'info':
+      case 'okr_approved':
+      case 'okr_activated':
+        return <CheckCircle className="w-5 h-5 text-green-500" />;
+      case 'comment_mention':
+        return <AtSign className="w-5 h-5 text-purple-500" />;
+      default:
         return <Clock className="w-5 h-5 text-blue-500" />;
     }
   };
 
-  const getNotificationBg = (type: Notification['type']) => {
+  const getNotificationBg = (type: InboxNotification['type']) => {
     switch (type) {
-      case 'critical':
+      case 'okr_rejected':
         return 'bg-red-50 dark:bg-red-900/30 border-red-100 dark:border-red-800';
-      case 'warning':
+      case 'okr_submitted':
         return 'bg-amber-50 dark:bg-amber-900/30 border-amber-100 dark:border-amber-800';
-      case 'info':
+      case 'okr_approved':
+      case 'okr_activated':
+        return 'bg-green-50 dark:bg-green-900/30 border-green-100 dark:border-green-800';
+      case 'comment_mention':
+        return 'bg-purple-50 dark:bg-purple-900/30 border-purple-100 dark:border-purple-800';
+      default:
         return 'bg-blue-50 dark:bg-blue-900/30 border-blue-100 dark:border-blue-800';
     }
   };
 
-  const handleNotificationClick = (notification: Notification) => {
-    if (onSelectOKR) {
+  const formatTimestamp = (value: string) => {
+    const date = new Date(value);
+    const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+    if (minutes < 1) return 'Adesso';
+    if (minutes < 60) return `${minutes} min fa`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours} ${hours === 1 ? 'ora' : 'ore'} fa`;
+    return date.toLocaleDateString('it-IT', { day: 'numeric', month: 'short' });
+  };
+
+  const handleNotificationClick = async (notification: InboxNotification) => {
+    if (!notification.readAt) {
+      setNotifications(prev => prev.map(n => (
+        n.id === notification.id ? { ...n, readAt: new Date().toISOString() } : n
+      )));
+      setUnreadCount(prev => Math.max(0, prev - 1));
+      notificationsAPI.markAsRead(notification.id).catch(error => {
+        console.error('Error marking notification as read:', error);
+      });
+    }
+    if (onSelectOKR && notification.objectiveId && notification.type !== 'okr_deleted') {
       onSelectOKR(notification.objectiveId);
     }
     setIsOpen(false);
   };
 
-  const criticalCount = visibleNotifications.filter(n => n.type === 'critical').length;
-  const totalCount = visibleNotifications.length;
+  const hasRejected = notifications.some(n => n.type === 'okr_rejected' && !n.readAt);
 
   return (
     <div className="relative" ref={dropdownRef}>
@@ -195,11 +152,11 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ onSelectOKR })
         className="relative bg-white dark:bg-gray-800 p-3 rounded-xl shadow-sm dark:shadow-gray-900/20 text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
       >
         <Bell className="w-5 h-5" />
-        {totalCount > 0 && (
+        {unreadCount > 0 && (
           <span className={`absolute -top-1 -right-1 min-w-[20px] h-5 flex items-center justify-center text-xs font-bold text-white rounded-full px-1 ${
-            criticalCount > 0 ? 'bg-red-500' : 'bg-amber-500'
+            hasRejected ? 'bg-red-500' : 'bg-amber-500'
           }`}>
-            {totalCount > 99 ? '99+' : totalCount}
+            {unreadCount > 99 ? '99+' : unreadCount}
           </span>
         )}
       </button>
@@ -210,53 +167,74 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ onSelectOKR })
           {/* Header */}
           <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100 dark:border-slate-700">
             <h3 className="font-semibold text-gray-900 dark:text-white">Notifiche</h3>
-            <button
-              onClick={() => setIsOpen(false)}
-              className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700"
-            >
-              <X className="w-4 h-4" />
-            </button>
+            <div className="flex items-center gap-1">
+              {unreadCount > 0 && (
+                <button
+                  onClick={markAllAsRead}
+                  className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-blue-600 dark:text-blue-400 rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/30"
+                  title="Segna tutte come lette"
+                >
+                  <CheckCheck className="w-4 h-4" />
+                  Segna tutte come lette
+                </button>
+              )}
+              <button
+                onClick={() => setIsOpen(false)}
+                className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
           </div>
 
           {/* Notifications List */}
           <div className="max-h-96 overflow-y-auto">
-            {loading ? (
+            {loading && notifications.length === 0 ? (
               <div className="py-8 text-center text-gray-500 dark:text-slate-400 dark:text-slate-500">
                 <div className="animate-spin w-6 h-6 border-2 border-gray-300 dark:border-gray-600 border-t-blue-500 rounded-full mx-auto mb-2" />
                 Caricamento...
               </div>
-            ) : visibleNotifications.length === 0 ? (
+            ) : notifications.length === 0 ? (
               <div className="py-8 text-center text-gray-500 dark:text-slate-400 dark:text-slate-500">
                 <Bell className="w-8 h-8 mx-auto mb-2 text-gray-300 dark:text-slate-600 dark:text-slate-400" />
                 <p>Nessuna notifica</p>
-                <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">Tutti gli OKR sono in linea!</p>
+                <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">Sei in pari con tutto!</p>
               </div>
             ) : (
               <div className="divide-y divide-gray-100 dark:divide-gray-700">
-                {visibleNotifications.map((notification) => (
+                {notifications.map((notification) => (
                   <div
                     key={notification.id}
-                    className={`w-full px-4 py-3 flex items-start gap-3 hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors text-left ${getNotificationBg(notification.type)} border-l-4`}
+                    className={`w-full px-4 py-3 flex items-start gap-3 hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors text-left border-l-4 ${
+                      notification.readAt ? 'border-transparent opacity-70' : getNotificationBg(notification.type)
+                    }`}
                   >
                     <button
                       onClick={() => handleNotificationClick(notification)}
-                      className="flex-1 flex items-start gap-3 min-w-0"
+                      className="flex-1 flex items-start gap-3 min-w-0 text-left"
                     >
                       <div className="flex-shrink-0 mt-0.5">
                         {getNotificationIcon(notification.type)}
                       </div>
                       <div className="flex-1 min-w-0">
-                        <p className="font-medium text-sm text-gray-900 dark:text-white">{notification.title}</p>
-                        <p className="text-sm text-gray-600 dark:text-gray-400 truncate">{notification.message}</p>
+                        <p className={`text-sm text-gray-900 dark:text-white ${notification.readAt ? 'font-normal' : 'font-semibold'}`}>
+                          {notification.title}
+                        </p>
+                        {notification.message && (
+                          <p className="text-sm text-gray-600 dark:text-gray-400 line-clamp-2">{notification.message}</p>
+                        )}
+                        <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">{formatTimestamp(notification.createdAt)}</p>
                       </div>
-                      <ChevronRight className="w-4 h-4 text-gray-400 flex-shrink-0 mt-1" />
+                      {notification.objectiveId && notification.type !== 'okr_deleted' && (
+                        <ChevronRight className="w-4 h-4 text-gray-400 flex-shrink-0 mt-1" />
+                      )}
                     </button>
                     <button
-                      onClick={(e) => dismissNotification(e, notification.id)}
+                      onClick={(e) => archiveNotification(e, notification)}
                       className="flex-shrink-0 p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 rounded transition-colors"
-                      title="Rimuovi notifica"
+                      title="Archivia notifica"
                     >
-                      <X className="w-4 h-4" />
+                      <Archive className="w-4 h-4" />
                     </button>
                   </div>
                 ))}
@@ -265,17 +243,15 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ onSelectOKR })
           </div>
 
           {/* Footer */}
-          {visibleNotifications.length > 0 && (
+          {notifications.length > 0 && (
             <div className="px-4 py-3 border-t border-slate-100 dark:border-slate-700 bg-slate-50 dark:bg-slate-700/50">
               <p className="text-xs text-gray-500 dark:text-gray-400 text-center">
-                {criticalCount > 0 && (
-                  <span className="text-red-600 font-medium">{criticalCount} critici</span>
-                )}
-                {criticalCount > 0 && visibleNotifications.filter(n => n.type === 'warning').length > 0 && ' · '}
-                {visibleNotifications.filter(n => n.type === 'warning').length > 0 && (
-                  <span className="text-amber-600 font-medium">
-                    {visibleNotifications.filter(n => n.type === 'warning').length} a rischio
+                {unreadCount > 0 ? (
+                  <span className="text-blue-600 dark:text-blue-400 font-medium">
+                    {unreadCount} non lett{unreadCount === 1 ? 'a' : 'e'}
                   </span>
+                ) : (
+                  'Tutte le notifiche sono state lette'
                 )}
               </p>
             </div>
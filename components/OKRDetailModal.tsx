@@ -1,14 +1,16 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Button } from './UIComponents';
-import { okrAPI, Objective, KeyResult, UserBasic, ApprovalHistoryItem, Contributor } from '../api/client';
+import { okrAPI, teamAPI, Objective, KeyResult, UserBasic, ApprovalHistoryItem, ApprovalAction, Contributor, KeyResultCheckIn, KeyResultDirection, MilestoneStep, Period, Team } from '../api/client';
 import {
   Loader2, AlertCircle, X, Edit2, Save, Trash2,
   Target, Calendar, User, TrendingUp, ChevronDown, ChevronUp, Plus,
   GitBranch, ChevronRight, ExternalLink, Send, CheckCircle, XCircle, Play, Clock, History,
-  Users, UserPlus, UserMinus, Search, Pause, Square, Archive, RotateCcw
+  Users, UserPlus, UserMinus, Search, Pause, Square, Archive, RotateCcw, MessageSquare,
+  ArrowUp, ArrowDown, LayoutTemplate, Copy
 } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { STATUS_COLORS } from '../constants';
+import CommentThread from './CommentThread';
 
 // Allowed OKR levels based on user role
 type OKRLevel = 'company' | 'team' | 'individual';
@@ -33,6 +35,92 @@ interface OKRDetailModalProps {
   onSelectOKR?: (id: string) => void; // Navigate to child/parent OKR
 }
 
+const DIRECTION_LABELS: Record<KeyResultDirection, string> = {
+  increase: 'Aumentare',
+  decrease: 'Diminuire',
+  range: 'Restare nell\'intervallo'
+};
+
+interface MilestoneStepsEditorProps {
+  steps: MilestoneStep[];
+  onChange: (steps: MilestoneStep[]) => void;
+  disabled?: boolean;
+}
+
+// Ordered checklist editor for milestone KRs (new steps get their id from the server)
+const MilestoneStepsEditor: React.FC<MilestoneStepsEditorProps> = ({ steps, onChange, disabled }) => {
+  const updateStep = (index: number, title: string) => {
+    onChange(steps.map((step, i) => i === index ? { ...step, title } : step));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= steps.length) return;
+    const reordered = [...steps];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+        Step della Milestone *
+      </label>
+      <div className="space-y-2">
+        {steps.map((step, index) => (
+          <div key={step.id || `new-${index}`} className="flex items-center gap-2">
+            <span className="text-xs font-semibold text-slate-400 dark:text-slate-500 w-5 text-right">{index + 1}.</span>
+            <input
+              type="text"
+              placeholder="Es: Rilascio fase 1"
+              className="flex-1 bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+              value={step.title}
+              onChange={e => updateStep(index, e.target.value)}
+              disabled={disabled}
+            />
+            <button
+              type="button"
+              onClick={() => moveStep(index, -1)}
+              className="p-1 text-slate-400 dark:text-slate-500 hover:text-blue-600 disabled:opacity-30"
+              disabled={disabled || index === 0}
+              title="Sposta su"
+            >
+              <ArrowUp className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => moveStep(index, 1)}
+              className="p-1 text-slate-400 dark:text-slate-500 hover:text-blue-600 disabled:opacity-30"
+              disabled={disabled || index === steps.length - 1}
+              title="Sposta giù"
+            >
+              <ArrowDown className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange(steps.filter((_, i) => i !== index))}
+              className="p-1 text-slate-400 dark:text-slate-500 hover:text-red-600"
+              disabled={disabled}
+              title="Rimuovi step"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => onChange([...steps, { id: '', title: '', completed: false, completedAt: null }])}
+        className="mt-2 text-sm text-blue-600 hover:text-blue-700 flex items-center gap-1"
+        disabled={disabled}
+      >
+        <Plus className="w-4 h-4" />
+        Aggiungi step
+      </button>
+    </div>
+  );
+};
+
 const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
   isOpen,
   objectiveId,
@@ -49,6 +137,7 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
   const [isSaving, setIsSaving] = useState(false);
   const [expandedKR, setExpandedKR] = useState<string | null>(null);
   const [users, setUsers] = useState<UserBasic[]>([]);
+  const [periods, setPeriods] = useState<Period[]>([]);
   const [childrenOKRs, setChildrenOKRs] = useState<Objective[]>([]);
   const [isLoadingChildren, setIsLoadingChildren] = useState(false);
   const [approvalHistory, setApprovalHistory] = useState<ApprovalHistoryItem[]>([]);
@@ -59,12 +148,17 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [showDeleteKRModal, setShowDeleteKRModal] = useState<string | null>(null);
   const [editingKR, setEditingKR] = useState<string | null>(null);
-  const [editKRForm, setEditKRForm] = useState({ description: '', metricType: 'number' as string, targetValue: 0, startValue: 0, unit: '' });
+  const [editKRForm, setEditKRForm] = useState({ description: '', metricType: 'number' as string, direction: 'increase' as KeyResultDirection, targetValue: 0, targetMaxValue: 0, startValue: 0, unit: '', weight: 1, steps: [] as MilestoneStep[] });
   const [showRemoveContributorModal, setShowRemoveContributorModal] = useState<string | null>(null);
   const [contributors, setContributors] = useState<Contributor[]>([]);
   const [isLoadingContributors, setIsLoadingContributors] = useState(false);
   const [showAddContributor, setShowAddContributor] = useState(false);
   const [contributorSearch, setContributorSearch] = useState('');
+  const [templateSaved, setTemplateSaved] = useState(false);
+  const [showCloneModal, setShowCloneModal] = useState(false);
+  const [cloneForm, setCloneForm] = useState({ title: '', periodId: '', ownerId: '', teamId: '', includeChildren: false });
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [mentionableUsers, setMentionableUsers] = useState<UserBasic[]>([]);
   const isMounted = useRef(true);
 
   // Track mounted state
@@ -94,18 +188,24 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
       setShowDeleteModal(false);
       setShowDeleteKRModal(null);
       setEditingKR(null);
-      setEditKRForm({ description: '', metricType: 'number', targetValue: 0, startValue: 0, unit: '' });
+      setEditKRForm({ description: '', metricType: 'number', direction: 'increase', targetValue: 0, targetMaxValue: 0, startValue: 0, unit: '', weight: 1, steps: [] });
       setShowRemoveContributorModal(null);
       setContributors([]);
       setShowAddContributor(false);
       setContributorSearch('');
+      setTemplateSaved(false);
+      setShowCloneModal(false);
       setNewKR({
         description: '',
         metricType: 'number',
+        direction: 'increase',
         startValue: 0,
         targetValue: 100,
+        targetMaxValue: 0,
         currentValue: 0,
-        unit: ''
+        unit: '',
+        weight: 1,
+        steps: []
       });
     }
   }, [isOpen]);
@@ -116,34 +216,66 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
     description: '',
     level: 'team' as 'company' | 'department' | 'team' | 'individual',
     period: '',
+    periodId: '',
     dueDate: '',
     ownerId: '',
-    status: 'draft' as 'on-track' | 'at-risk' | 'off-track' | 'completed' | 'draft'
+    status: 'draft' as 'on-track' | 'at-risk' | 'off-track' | 'completed' | 'draft',
+    weight: 1
   });
 
   // KR update state
   const [krUpdates, setKrUpdates] = useState<Record<string, number>>({});
 
+  // Check-in state (one form at a time, for the expanded KR)
+  const [checkIns, setCheckIns] = useState<KeyResultCheckIn[]>([]);
+  const [checkInForm, setCheckInForm] = useState({
+    confidence: 'medium' as 'high' | 'medium' | 'low',
+    note: '',
+    blockers: '',
+    nextSteps: '',
+    completedStepIds: [] as string[]
+  });
+
   // New KR form state
   const [isAddingKR, setIsAddingKR] = useState(false);
   const [newKR, setNewKR] = useState({
     description: '',
-    metricType: 'number' as 'percentage' | 'number' | 'currency' | 'boolean',
+    metricType: 'number' as 'percentage' | 'number' | 'currency' | 'boolean' | 'milestone',
+    direction: 'increase' as KeyResultDirection,
     startValue: 0,
     targetValue: 100,
+    targetMaxValue: 0,
     currentValue: 0,
-    unit: ''
+    unit: '',
+    weight: 1,
+    steps: [] as MilestoneStep[]
   });
 
   useEffect(() => {
     if (isOpen && objectiveId) {
       loadObjective();
       loadUsers();
+      loadPeriods();
       loadChildren();
       loadContributors();
+      loadCheckIns();
+      loadMentionableUsers();
+      setTemplateSaved(false);
     }
   }, [isOpen, objectiveId]);
 
+  const loadCheckIns = async () => {
+    if (!objectiveId) return;
+    try {
+      const data = await okrAPI.getObjectiveCheckIns(objectiveId);
+      if (isMounted.current) {
+        setCheckIns(data);
+      }
+    } catch (err) {
+      console.error('Failed to load check-ins:', err);
+    }
+  };
+
   const loadChildren = async () => {
     if (!objectiveId) return;
     setIsLoadingChildren(true);
@@ -176,9 +308,11 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
         description: data.description || '',
         level: data.level,
         period: data.period,
+        periodId: data.periodId || '',
         dueDate: data.dueDate ? data.dueDate.split('T')[0] : '',
         ownerId: data.ownerId,
-        status: data.status
+        status: data.status,
+        weight: data.weight ?? 1
       });
       // Initialize KR values
       const updates: Record<string, number> = {};
@@ -208,6 +342,28 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
     }
   };
 
+  const loadMentionableUsers = async () => {
+    try {
+      const userList = await okrAPI.getMentionableUsers();
+      if (isMounted.current) {
+        setMentionableUsers(userList);
+      }
+    } catch (err) {
+      console.error('Failed to load mentionable users:', err);
+    }
+  };
+
+  const loadPeriods = async () => {
+    try {
+      const periodList = await okrAPI.getPeriods();
+      if (isMounted.current) {
+        setPeriods(periodList);
+      }
+    } catch (err) {
+      console.error('Failed to load periods:', err);
+    }
+  };
+
   const loadApprovalHistory = async () => {
     if (!objectiveId) return;
     setIsLoadingApproval(true);
@@ -413,6 +569,81 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
     }
   };
 
+  const handleSaveAsTemplate = async () => {
+    if (!objectiveId || isSaving) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await okrAPI.createTemplateFromObjective(objectiveId);
+      if (isMounted.current) {
+        setTemplateSaved(true);
+      }
+    } catch (err) {
+      if (isMounted.current) {
+        setError(err instanceof Error ? err.message : 'Errore nel salvataggio del template');
+      }
+    } finally {
+      if (isMounted.current) {
+        setIsSaving(false);
+      }
+    }
+  };
+
+  const openCloneModal = async () => {
+    if (!objective) return;
+    const currentPeriodOpen = periods.some(p => p.id === objective.periodId && p.status === 'open');
+    setCloneForm({
+      title: objective.title,
+      periodId: currentPeriodOpen ? objective.periodId || '' : '',
+      ownerId: objective.ownerId,
+      teamId: objective.teamId || '',
+      includeChildren: false
+    });
+    setShowCloneModal(true);
+    try {
+      const teamList = await teamAPI.getTeams();
+      if (isMounted.current) {
+        setTeams(teamList);
+      }
+    } catch (err) {
+      console.error('Failed to load teams:', err);
+    }
+  };
+
+  const handleClone = async () => {
+    if (!objectiveId || isSaving) return;
+    if (!cloneForm.periodId) {
+      setError('Seleziona un periodo aperto per la copia');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const result = await okrAPI.cloneObjective(objectiveId, {
+        title: cloneForm.title.trim() || undefined,
+        periodId: cloneForm.periodId,
+        ownerId: cloneForm.ownerId || undefined,
+        teamId: cloneForm.teamId || null,
+        includeChildren: cloneForm.includeChildren
+      });
+      if (isMounted.current) {
+        setShowCloneModal(false);
+      }
+      onUpdate();
+      window.dispatchEvent(new CustomEvent('okr-updated'));
+      // Open the new draft
+      onSelectOKR?.(result.objective.id);
+    } catch (err) {
+      if (isMounted.current) {
+        setError(err instanceof Error ? err.message : 'Errore nella duplicazione');
+      }
+    } finally {
+      if (isMounted.current) {
+        setIsSaving(false);
+      }
+    }
+  };
+
   const handleArchive = async () => {
     if (!objectiveId || isSaving) return;
     setIsSaving(true);
@@ -544,9 +775,11 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
         title: editForm.title,
         description: editForm.description || undefined,
         level: editForm.level,
-        period: editForm.period,
+        periodId: editForm.periodId || undefined,
+        period: editForm.periodId ? undefined : editForm.period,
         dueDate: editForm.dueDate || undefined,
-        ownerId: editForm.ownerId
+        ownerId: editForm.ownerId,
+        weight: objective?.parentKeyResultId ? editForm.weight : undefined
       };
       await okrAPI.updateObjective(objectiveId, updateData);
       if (isMounted.current) {
@@ -565,16 +798,40 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
     }
   };
 
-  const handleUpdateKR = async (krId: string) => {
-    const newValue = krUpdates[krId];
-    if (newValue === undefined || isSaving) return;
+  const handleExpandKR = (kr: KeyResult) => {
+    if (expandedKR === kr.id) {
+      setExpandedKR(null);
+      return;
+    }
+    setExpandedKR(kr.id);
+    setCheckInForm({
+      confidence: kr.confidence,
+      note: '',
+      blockers: '',
+      nextSteps: '',
+      completedStepIds: (kr.steps || []).filter(step => step.completed).map(step => step.id)
+    });
+  };
+
+  const handleUpdateKR = async (kr: KeyResult) => {
+    const isMilestone = kr.metricType === 'milestone';
+    const newValue = krUpdates[kr.id];
+    if ((!isMilestone && newValue === undefined) || isSaving) return;
 
     setIsSaving(true);
     setError(null);
     try {
-      await okrAPI.updateKeyResult(krId, { currentValue: newValue });
+      await okrAPI.createCheckIn(kr.id, {
+        newValue: isMilestone ? undefined : Number(newValue),
+        completedStepIds: isMilestone ? checkInForm.completedStepIds : undefined,
+        confidence: checkInForm.confidence,
+        note: checkInForm.note.trim() || undefined,
+        blockers: checkInForm.blockers.trim() || undefined,
+        nextSteps: checkInForm.nextSteps.trim() || undefined
+      });
       if (isMounted.current) {
-        await loadObjective();
+        setCheckInForm({ ...checkInForm, note: '', blockers: '', nextSteps: '' });
+        await Promise.all([loadObjective(), loadCheckIns()]);
       }
       onUpdate();
     } catch (err) {
@@ -621,15 +878,19 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
     setEditKRForm({
       description: kr.description,
       metricType: kr.metricType,
+      direction: kr.direction || 'increase',
       targetValue: kr.targetValue,
+      targetMaxValue: kr.targetMaxValue ?? kr.targetValue,
       startValue: kr.startValue,
-      unit: kr.unit
+      unit: kr.unit || '',
+      weight: kr.weight ?? 1,
+      steps: kr.steps || []
     });
   };
 
   const handleCancelEditKR = () => {
     setEditingKR(null);
-    setEditKRForm({ description: '', metricType: 'number', targetValue: 0, startValue: 0, unit: '' });
+    setEditKRForm({ description: '', metricType: 'number', direction: 'increase', targetValue: 0, targetMaxValue: 0, startValue: 0, unit: '', weight: 1, steps: [] });
   };
 
   const handleSaveEditKR = async () => {
@@ -640,14 +901,18 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
     try {
       await okrAPI.updateKeyResult(editingKR, {
         description: editKRForm.description,
-        metricType: editKRForm.metricType,
+        metricType: editKRForm.metricType as KeyResult['metricType'],
+        direction: editKRForm.direction,
         targetValue: editKRForm.targetValue,
+        targetMaxValue: editKRForm.direction === 'range' ? editKRForm.targetMaxValue : null,
         startValue: editKRForm.startValue,
-        unit: editKRForm.unit
+        unit: editKRForm.unit,
+        weight: editKRForm.weight,
+        steps: editKRForm.metricType === 'milestone' ? editKRForm.steps : undefined
       });
       if (isMounted.current) {
         setEditingKR(null);
-        setEditKRForm({ description: '', metricType: 'number', targetValue: 0, startValue: 0, unit: '' });
+        setEditKRForm({ description: '', metricType: 'number', direction: 'increase', targetValue: 0, targetMaxValue: 0, startValue: 0, unit: '', weight: 1, steps: [] });
         await loadObjective();
       }
       onUpdate();
@@ -674,17 +939,25 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
         startValue: newKR.startValue,
         targetValue: newKR.targetValue,
         currentValue: newKR.currentValue || newKR.startValue,
-        unit: newKR.unit
+        unit: newKR.unit,
+        weight: newKR.weight,
+        direction: newKR.direction,
+        targetMaxValue: newKR.direction === 'range' ? newKR.targetMaxValue : null,
+        steps: newKR.metricType === 'milestone' ? newKR.steps : undefined
       });
       if (isMounted.current) {
         setIsAddingKR(false);
         setNewKR({
           description: '',
           metricType: 'number',
+          direction: 'increase',
           startValue: 0,
           targetValue: 100,
+          targetMaxValue: 0,
           currentValue: 0,
-          unit: ''
+          unit: '',
+          weight: 1,
+          steps: []
         });
         await loadObjective();
       }
@@ -781,16 +1054,20 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
     failed: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
   };
 
-  const approvalActionLabels: Record<string, string> = {
+  const approvalActionLabels: Record<ApprovalAction, string> = {
     submitted: 'Inviato per revisione',
     approved: 'Approvato',
     rejected: 'Rifiutato',
+    returned: 'Restituito',
     activated: 'Attivato',
     paused: 'Messo in pausa',
     resumed: 'Ripreso',
     stopped: 'Fermato',
     archived: 'Archiviato',
-    reverted_to_draft: 'Rimesso in bozza'
+    reverted_to_draft: 'Rimesso in bozza',
+    closed: 'Chiuso',
+    failed: 'Fallito',
+    reopened: 'Riaperto'
   };
 
   const isOwner = currentUser?.id === objective?.ownerId;
@@ -806,14 +1083,48 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
   const isArchived = objective?.approvalStatus === 'archived';
   const isDraft = objective?.approvalStatus === 'draft';
   const canDelete = (isOwner || isAdmin) && (isDraft || isArchived);
+  const canClone = objective ? (ALLOWED_LEVELS[currentUser?.role || 'user'] || ALLOWED_LEVELS.user).includes(objective.level as OKRLevel) : false;
   // Can update KR currentValue only when active (not paused/stopped/archived)
   const valueUpdateStates = ['active'];
   const canUpdateValue = hasPermission && objective ? valueUpdateStates.includes(objective.approvalStatus || '') : false;
 
+  const confidenceLabels: Record<string, string> = {
+    high: 'Alta',
+    medium: 'Media',
+    low: 'Bassa'
+  };
+
+  const confidenceColors: Record<string, string> = {
+    high: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+    medium: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+    low: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+  };
+
+  // Mirrors calculateKeyResultProgress on the server
   const calculateKRProgress = (kr: KeyResult) => {
+    const clamp = (value: number) => Math.min(Math.max(value, 0), 100);
+    if (kr.direction === 'range') {
+      const min = kr.targetValue;
+      const max = kr.targetMaxValue ?? kr.targetValue;
+      if (kr.currentValue >= min && kr.currentValue <= max) return 100;
+      const distance = kr.currentValue < min ? min - kr.currentValue : kr.currentValue - max;
+      const startDistance = kr.startValue < min ? min - kr.startValue : (kr.startValue > max ? kr.startValue - max : 0);
+      if (startDistance === 0) return 0;
+      return clamp((1 - distance / startDistance) * 100);
+    }
     const range = kr.targetValue - kr.startValue;
-    if (range === 0) return kr.currentValue >= kr.targetValue ? 100 : 0;
-    return Math.min(Math.max(((kr.currentValue - kr.startValue) / range) * 100, 0), 100);
+    if (range === 0) {
+      const reached = kr.direction === 'decrease' ? kr.currentValue <= kr.targetValue : kr.currentValue >= kr.targetValue;
+      return reached ? 100 : 0;
+    }
+    return clamp(((kr.currentValue - kr.startValue) / range) * 100);
+  };
+
+  const formatKRTarget = (kr: KeyResult) => {
+    if (kr.metricType === 'boolean') return kr.targetValue === 1 ? 'Sì' : 'No';
+    if (kr.metricType === 'milestone') return `${kr.targetValue} step`;
+    if (kr.direction === 'range') return `${kr.targetValue}–${kr.targetMaxValue ?? kr.targetValue} ${kr.unit || ''}`;
+    return `${kr.targetValue} ${kr.unit || ''}`;
   };
 
   return (
@@ -834,6 +1145,16 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
                 <Edit2 className="w-5 h-5" />
               </button>
             )}
+            {!isEditing && objective && canClone && (
+              <button
+                onClick={openCloneModal}
+                className="p-2 text-slate-400 dark:text-slate-500 hover:text-blue-600 transition-colors"
+                title="Duplica"
+                disabled={isSaving}
+              >
+                <Copy className="w-5 h-5" />
+              </button>
+            )}
             {!isEditing && objective && canDelete && (
               <button
                 onClick={handleDeleteObjective}
@@ -941,15 +1262,18 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
                       <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Periodo</label>
                       <select
                         className="w-full bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl text-slate-900 dark:text-slate-100 pl-4 pr-12 py-2.5 outline-none appearance-none bg-no-repeat bg-[length:16px_16px] bg-[position:right_16px_center] bg-[url('data:image/svg+xml;charset=UTF-8,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%20width%3D%2224%22%20height%3D%2224%22%20viewBox%3D%220%200%2024%2024%22%20fill%3D%22none%22%20stroke%3D%22%236b7280%22%20stroke-width%3D%222%22%20stroke-linecap%3D%22round%22%20stroke-linejoin%3D%22round%22%3E%3Cpolyline%20points%3D%226%209%2012%2015%2018%209%22%3E%3C%2Fpolyline%3E%3C%2Fsvg%3E')]"
-                        value={editForm.period}
-                        onChange={e => setEditForm({...editForm, period: e.target.value})}
+                        value={editForm.periodId}
+                        onChange={e => setEditForm({...editForm, periodId: e.target.value})}
                         disabled={isSaving}
                       >
-                        <option value="Q1 2026">Q1 2026</option>
-                        <option value="Q2 2026">Q2 2026</option>
-                        <option value="Q3 2026">Q3 2026</option>
-                        <option value="Q4 2026">Q4 2026</option>
-                        <option value="Annual 2026">Annuale 2026</option>
+                        {!editForm.periodId && <option value="">{editForm.period}</option>}
+                        {periods
+                          .filter(period => period.status === 'open' || period.id === objective?.periodId)
+                          .map(period => (
+                            <option key={period.id} value={period.id}>
+                              {period.name}{period.status === 'closed' ? ' (chiuso)' : ''}
+                            </option>
+                          ))}
                       </select>
                     </div>
                     <div>
@@ -964,6 +1288,26 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
                     </div>
                   </div>
 
+                  {/* Weight in the parent KR roll-up - only meaningful for linked OKRs */}
+                  {objective?.parentKeyResultId && (
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                        Peso nel Key Result parent
+                      </label>
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        className="w-full bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2.5 outline-none"
+                        value={editForm.weight}
+                        onChange={e => setEditForm({...editForm, weight: parseFloat(e.target.value.replace(/^0+(?=\d)/, '')) || 0})}
+                        disabled={isSaving}
+                      />
+                      <p className="text-xs text-slate-400 dark:text-slate-500 mt-1">
+                        Quanto conta questo OKR nel progresso del Key Result a cui è collegato (default 1)
+                      </p>
+                    </div>
+                  )}
+
                   <div className="flex justify-end gap-3 pt-4">
                     <Button variant="ghost" onClick={() => setIsEditing(false)} disabled={isSaving}>
                       Annulla
@@ -1232,6 +1576,19 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
                         </Button>
                       )}
 
+                      {/* Admin can curate company templates from any objective */}
+                      {isAdmin && (
+                        <Button
+                          size="sm"
+                          variant="secondary"
+                          onClick={handleSaveAsTemplate}
+                          disabled={isSaving || templateSaved}
+                        >
+                          {templateSaved ? <CheckCircle className="w-4 h-4 mr-1" /> : <LayoutTemplate className="w-4 h-4 mr-1" />}
+                          {templateSaved ? 'Template salvato' : 'Salva come template'}
+                        </Button>
+                      )}
+
                       {/* Status info for pending */}
                       {objective.approvalStatus === 'pending_review' && !isAdmin && (
                         <div className="flex items-center gap-2 text-sm text-amber-600 dark:text-amber-400">
@@ -1271,7 +1628,7 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
                                 }`} />
                                 <div className="flex-1">
                                   <span className="font-medium text-slate-900 dark:text-slate-100">{item.performedByName}</span>
-                                  <span className="text-slate-500 dark:text-slate-400"> {approvalActionLabels[item.action] || item.action}</span>
+                                  <span className="text-slate-500 dark:text-slate-400"> {approvalActionLabels[item.action]}</span>
                                   {item.comment && (
                                     <p className="text-slate-500 dark:text-slate-400 italic mt-0.5">"{item.comment}"</p>
                                   )}
@@ -1323,6 +1680,107 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
                 </div>
               )}
 
+              {/* Clone Objective Modal */}
+              {showCloneModal && (
+                <div className="fixed inset-0 z-60 flex items-center justify-center p-4 bg-black/50">
+                  <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 w-full max-w-md shadow-xl">
+                    <div className="flex items-center gap-3 mb-4">
+                      <div className="w-10 h-10 rounded-full bg-blue-100 dark:bg-blue-900/30 flex items-center justify-center">
+                        <Copy className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+                      </div>
+                      <h3 className="text-lg font-bold text-slate-900 dark:text-slate-100">
+                        Duplica Obiettivo
+                      </h3>
+                    </div>
+                    <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+                      La copia viene creata in bozza con gli stessi Key Results, riportati al valore iniziale.
+                    </p>
+                    <div className="space-y-3">
+                      <div>
+                        <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">Titolo</label>
+                        <input
+                          type="text"
+                          className="w-full bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl text-slate-900 dark:text-slate-100 px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                          value={cloneForm.title}
+                          onChange={e => setCloneForm({ ...cloneForm, title: e.target.value })}
+                          disabled={isSaving}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">Periodo</label>
+                        <select
+                          className="w-full bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl text-slate-900 dark:text-slate-100 px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                          value={cloneForm.periodId}
+                          onChange={e => setCloneForm({ ...cloneForm, periodId: e.target.value })}
+                          disabled={isSaving}
+                        >
+                          <option value="">Seleziona periodo...</option>
+                          {periods.filter(p => p.status === 'open').map(p => (
+                            <option key={p.id} value={p.id}>{p.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                      {currentUser?.role !== 'user' && (
+                        <div>
+                          <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">Assegnato a</label>
+                          <select
+                            className="w-full bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl text-slate-900 dark:text-slate-100 px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                            value={cloneForm.ownerId}
+                            onChange={e => setCloneForm({ ...cloneForm, ownerId: e.target.value })}
+                            disabled={isSaving}
+                          >
+                            {!users.some(u => u.id === cloneForm.ownerId) && (
+                              <option value={cloneForm.ownerId}>{objective?.ownerName || 'Proprietario attuale'}</option>
+                            )}
+                            {users.map(u => (
+                              <option key={u.id} value={u.id}>{u.name}</option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                      {objective?.level !== 'company' && (
+                        <div>
+                          <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">Team</label>
+                          <select
+                            className="w-full bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl text-slate-900 dark:text-slate-100 px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                            value={cloneForm.teamId}
+                            onChange={e => setCloneForm({ ...cloneForm, teamId: e.target.value })}
+                            disabled={isSaving}
+                          >
+                            {!teams.some(t => t.id === cloneForm.teamId) && (
+                              <option value={cloneForm.teamId}>{objective?.teamName || 'Nessun team'}</option>
+                            )}
+                            {teams.map(t => (
+                              <option key={t.id} value={t.id}>{t.name}</option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                      {childrenOKRs.length > 0 && (
+                        <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={cloneForm.includeChildren}
+                            onChange={e => setCloneForm({ ...cloneForm, includeChildren: e.target.checked })}
+                            disabled={isSaving}
+                            className="rounded border-slate-300"
+                          />
+                          Copia anche gli OKR collegati ({childrenOKRs.length})
+                        </label>
+                      )}
+                    </div>
+                    <div className="flex justify-end gap-3 mt-6">
+                      <Button variant="ghost" onClick={() => setShowCloneModal(false)} disabled={isSaving}>
+                        Annulla
+                      </Button>
+                      <Button onClick={handleClone} disabled={isSaving || !cloneForm.periodId}>
+                        {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Duplica'}
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {/* Delete Objective Confirmation Modal */}
               {showDeleteModal && (
                 <div className="fixed inset-0 z-60 flex items-center justify-center p-4 bg-black/50">
@@ -1336,7 +1794,7 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
                       </h3>
                     </div>
                     <p className="text-sm text-slate-600 dark:text-slate-400 mb-6">
-                      Sei sicuro di voler eliminare questo obiettivo? Questa azione non può essere annullata e tutti i Key Results associati verranno eliminati.
+                      Sei sicuro di voler eliminare questo obiettivo? Verrà spostato nel cestino insieme ai suoi Key Results e agli OKR collegati, da cui potrai ripristinarlo.
                     </p>
                     <div className="flex justify-end gap-3">
                       <Button variant="ghost" onClick={() => setShowDeleteModal(false)} disabled={isSaving}>
@@ -1377,7 +1835,7 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
                       </h3>
                     </div>
                     <p className="text-sm text-slate-600 dark:text-slate-400 mb-6">
-                      Sei sicuro di voler eliminare questo Key Result? Questa azione non può essere annullata.
+                      Sei sicuro di voler eliminare questo Key Result? Verrà spostato nel cestino, da cui potrai ripristinarlo.
                     </p>
                     <div className="flex justify-end gap-3">
                       <Button variant="ghost" onClick={() => setShowDeleteKRModal(null)} disabled={isSaving}>
@@ -1497,7 +1955,12 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
                             onChange={e => {
                               const newType = e.target.value as typeof newKR.metricType;
                               if (newType === 'boolean') {
-                                setNewKR({...newKR, metricType: newType, startValue: 0, targetValue: 1, currentValue: 0, unit: ''});
+                                setNewKR({...newKR, metricType: newType, direction: 'increase', startValue: 0, targetValue: 1, currentValue: 0, unit: ''});
+                              } else if (newType === 'milestone') {
+                                setNewKR({
+                                  ...newKR, metricType: newType, direction: 'increase', startValue: 0, currentValue: 0, unit: '',
+                                  steps: newKR.steps.length > 0 ? newKR.steps : [{ id: '', title: '', completed: false, completedAt: null }]
+                                });
                               } else {
                                 setNewKR({...newKR, metricType: newType});
                               }
@@ -1508,6 +1971,7 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
                             <option value="percentage">Percentuale</option>
                             <option value="currency">Valuta</option>
                             <option value="boolean">Sì/No</option>
+                            <option value="milestone">Milestone</option>
                           </select>
                         </div>
                         <div>
@@ -1516,78 +1980,134 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
                           </label>
                           <input
                             type="text"
-                            placeholder={newKR.metricType === 'boolean' ? '-' : 'Es: €, %, unità'}
-                            className={`w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none ${newKR.metricType === 'boolean' ? 'opacity-50 cursor-not-allowed' : ''}`}
-                            value={newKR.metricType === 'boolean' ? '' : newKR.unit}
+                            placeholder={newKR.metricType === 'boolean' || newKR.metricType === 'milestone' ? '-' : 'Es: €, %, unità'}
+                            className={`w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none ${newKR.metricType === 'boolean' || newKR.metricType === 'milestone' ? 'opacity-50 cursor-not-allowed' : ''}`}
+                            value={newKR.metricType === 'boolean' || newKR.metricType === 'milestone' ? '' : newKR.unit}
                             onChange={e => setNewKR({...newKR, unit: e.target.value})}
-                            disabled={isSaving || newKR.metricType === 'boolean'}
+                            disabled={isSaving || newKR.metricType === 'boolean' || newKR.metricType === 'milestone'}
                           />
                         </div>
                       </div>
 
-                      <div className="grid grid-cols-3 gap-4">
-                        <div>
-                          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
-                            Valore Iniziale
-                          </label>
-                          {newKR.metricType === 'boolean' ? (
-                            <div className="w-full bg-slate-100 dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-700 dark:text-slate-300 px-4 py-2">
-                              No
-                            </div>
-                          ) : (
-                            <input
-                              type="text"
-                              inputMode="decimal"
-                              className="w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
-                              value={newKR.startValue}
-                              onChange={e => setNewKR({...newKR, startValue: parseFloat(e.target.value.replace(/^0+(?=\d)/, '')) || 0})}
-                              disabled={isSaving}
-                            />
-                          )}
-                        </div>
-                        <div>
-                          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
-                            Valore Target *
-                          </label>
-                          {newKR.metricType === 'boolean' ? (
-                            <div className="w-full bg-slate-100 dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-700 dark:text-slate-300 px-4 py-2">
-                              Sì
-                            </div>
-                          ) : (
-                            <input
-                              type="text"
-                              inputMode="decimal"
-                              className="w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
-                              value={newKR.targetValue}
-                              onChange={e => setNewKR({...newKR, targetValue: parseFloat(e.target.value.replace(/^0+(?=\d)/, '')) || 0})}
-                              disabled={isSaving}
-                            />
-                          )}
+                      {newKR.metricType === 'milestone' ? (
+                        <MilestoneStepsEditor
+                          steps={newKR.steps}
+                          onChange={steps => setNewKR({...newKR, steps})}
+                          disabled={isSaving}
+                        />
+                      ) : (
+                        <div className="grid grid-cols-3 gap-4">
+                          <div>
+                            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                              Valore Iniziale
+                            </label>
+                            {newKR.metricType === 'boolean' ? (
+                              <div className="w-full bg-slate-100 dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-700 dark:text-slate-300 px-4 py-2">
+                                No
+                              </div>
+                            ) : (
+                              <input
+                                type="text"
+                                inputMode="decimal"
+                                className="w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                                value={newKR.startValue}
+                                onChange={e => setNewKR({...newKR, startValue: parseFloat(e.target.value.replace(/^0+(?=\d)/, '')) || 0})}
+                                disabled={isSaving}
+                              />
+                            )}
+                          </div>
+                          <div>
+                            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                              {newKR.direction === 'range' ? 'Target Minimo *' : 'Valore Target *'}
+                            </label>
+                            {newKR.metricType === 'boolean' ? (
+                              <div className="w-full bg-slate-100 dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-700 dark:text-slate-300 px-4 py-2">
+                                Sì
+                              </div>
+                            ) : (
+                              <input
+                                type="text"
+                                inputMode="decimal"
+                                className="w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                                value={newKR.targetValue}
+                                onChange={e => setNewKR({...newKR, targetValue: parseFloat(e.target.value.replace(/^0+(?=\d)/, '')) || 0})}
+                                disabled={isSaving}
+                              />
+                            )}
+                          </div>
+                          <div>
+                            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                              Valore Attuale
+                            </label>
+                            {newKR.metricType === 'boolean' ? (
+                              <select
+                                className="w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                                value={newKR.currentValue}
+                                onChange={e => setNewKR({...newKR, currentValue: parseFloat(e.target.value) || 0})}
+                                disabled={isSaving}
+                              >
+                                <option value={0}>No</option>
+                                <option value={1}>Sì</option>
+                              </select>
+                            ) : (
+                              <input
+                                type="text"
+                                inputMode="decimal"
+                                className="w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                                value={newKR.currentValue}
+                                onChange={e => setNewKR({...newKR, currentValue: parseFloat(e.target.value.replace(/^0+(?=\d)/, '')) || 0})}
+                                disabled={isSaving}
+                              />
+                            )}
+                          </div>
                         </div>
-                        <div>
-                          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
-                            Valore Attuale
-                          </label>
-                          {newKR.metricType === 'boolean' ? (
+                      )}
+
+                      <div className="grid grid-cols-3 gap-4">
+                        {newKR.metricType !== 'boolean' && newKR.metricType !== 'milestone' && (
+                          <div>
+                            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                              Direzione
+                            </label>
                             <select
                               className="w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
-                              value={newKR.currentValue}
-                              onChange={e => setNewKR({...newKR, currentValue: parseFloat(e.target.value) || 0})}
+                              value={newKR.direction}
+                              onChange={e => setNewKR({...newKR, direction: e.target.value as KeyResultDirection})}
                               disabled={isSaving}
                             >
-                              <option value={0}>No</option>
-                              <option value={1}>Sì</option>
+                              {(Object.keys(DIRECTION_LABELS) as KeyResultDirection[]).map(direction => (
+                                <option key={direction} value={direction}>{DIRECTION_LABELS[direction]}</option>
+                              ))}
                             </select>
-                          ) : (
+                          </div>
+                        )}
+                        {newKR.direction === 'range' && newKR.metricType !== 'boolean' && newKR.metricType !== 'milestone' && (
+                          <div>
+                            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                              Target Massimo *
+                            </label>
                             <input
                               type="text"
                               inputMode="decimal"
                               className="w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
-                              value={newKR.currentValue}
-                              onChange={e => setNewKR({...newKR, currentValue: parseFloat(e.target.value.replace(/^0+(?=\d)/, '')) || 0})}
+                              value={newKR.targetMaxValue}
+                              onChange={e => setNewKR({...newKR, targetMaxValue: parseFloat(e.target.value.replace(/^0+(?=\d)/, '')) || 0})}
                               disabled={isSaving}
                             />
-                          )}
+                          </div>
+                        )}
+                        <div>
+                          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                            Peso
+                          </label>
+                          <input
+                            type="text"
+                            inputMode="decimal"
+                            className="w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                            value={newKR.weight}
+                            onChange={e => setNewKR({...newKR, weight: parseFloat(e.target.value.replace(/^0+(?=\d)/, '')) || 0})}
+                            disabled={isSaving}
+                          />
                         </div>
                       </div>
 
@@ -1600,10 +2120,14 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
                             setNewKR({
                               description: '',
                               metricType: 'number',
+                              direction: 'increase',
                               startValue: 0,
                               targetValue: 100,
+                              targetMaxValue: 0,
                               currentValue: 0,
-                              unit: ''
+                              unit: '',
+                              weight: 1,
+                              steps: []
                             });
                           }}
                           disabled={isSaving}
@@ -1652,7 +2176,7 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
                           <div key={kr.id} className="bg-slate-50 dark:bg-slate-700/50 rounded-2xl overflow-hidden">
                             <button
                               className="group w-full p-4 text-left flex items-center justify-between hover:bg-slate-100 dark:hover:bg-slate-600/80 transition-colors"
-                              onClick={() => setExpandedKR(isExpanded ? null : kr.id)}
+                              onClick={() => handleExpandKR(kr)}
                             >
                               <div className="flex-1">
                                 <p className="font-medium text-slate-900 dark:text-slate-100">{kr.description}</p>
@@ -1670,7 +2194,9 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
                                   <span className="text-sm text-slate-600 dark:text-slate-400 whitespace-nowrap">
                                     {kr.metricType === 'boolean'
                                       ? (kr.currentValue === 1 ? 'Sì' : 'No')
-                                      : `${kr.currentValue} / ${kr.targetValue} ${kr.unit || ''}`}
+                                      : kr.metricType === 'milestone'
+                                        ? `${kr.currentValue} / ${kr.targetValue} step`
+                                        : `${kr.currentValue} / ${formatKRTarget(kr)}`}
                                   </span>
                                 </div>
                               </div>
@@ -1705,7 +2231,12 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
                                           onChange={e => {
                                             const newType = e.target.value;
                                             if (newType === 'boolean') {
-                                              setEditKRForm({...editKRForm, metricType: newType, startValue: 0, targetValue: 1, unit: ''});
+                                              setEditKRForm({...editKRForm, metricType: newType, direction: 'increase', startValue: 0, targetValue: 1, unit: ''});
+                                            } else if (newType === 'milestone') {
+                                              setEditKRForm({
+                                                ...editKRForm, metricType: newType, direction: 'increase', startValue: 0, unit: '',
+                                                steps: editKRForm.steps.length > 0 ? editKRForm.steps : [{ id: '', title: '', completed: false, completedAt: null }]
+                                              });
                                             } else {
                                               setEditKRForm({...editKRForm, metricType: newType});
                                             }
@@ -1716,54 +2247,106 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
                                           <option value="percentage">Percentuale</option>
                                           <option value="currency">Valuta</option>
                                           <option value="boolean">Sì/No</option>
+                                          <option value="milestone">Milestone</option>
                                         </select>
                                       </div>
                                       <div>
                                         <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Unità</label>
                                         <input
                                           type="text"
-                                          placeholder={editKRForm.metricType === 'boolean' ? '-' : ''}
-                                          className={`w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none ${editKRForm.metricType === 'boolean' ? 'opacity-50 cursor-not-allowed' : ''}`}
-                                          value={editKRForm.metricType === 'boolean' ? '' : editKRForm.unit}
+                                          placeholder={editKRForm.metricType === 'boolean' || editKRForm.metricType === 'milestone' ? '-' : ''}
+                                          className={`w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none ${editKRForm.metricType === 'boolean' || editKRForm.metricType === 'milestone' ? 'opacity-50 cursor-not-allowed' : ''}`}
+                                          value={editKRForm.metricType === 'boolean' || editKRForm.metricType === 'milestone' ? '' : editKRForm.unit}
                                           onChange={e => setEditKRForm({...editKRForm, unit: e.target.value})}
-                                          disabled={isSaving || editKRForm.metricType === 'boolean'}
+                                          disabled={isSaving || editKRForm.metricType === 'boolean' || editKRForm.metricType === 'milestone'}
                                         />
                                       </div>
                                     </div>
-                                    <div className="grid grid-cols-2 gap-4">
-                                      <div>
-                                        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Valore Iniziale</label>
-                                        {editKRForm.metricType === 'boolean' ? (
-                                          <div className="w-full bg-slate-100 dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-700 dark:text-slate-300 px-4 py-2">
-                                            No
-                                          </div>
-                                        ) : (
-                                          <input
-                                            type="text"
-                                            inputMode="decimal"
+                                    {editKRForm.metricType === 'milestone' ? (
+                                      <MilestoneStepsEditor
+                                        steps={editKRForm.steps}
+                                        onChange={steps => setEditKRForm({...editKRForm, steps})}
+                                        disabled={isSaving}
+                                      />
+                                    ) : (
+                                      <div className="grid grid-cols-2 gap-4">
+                                        <div>
+                                          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Valore Iniziale</label>
+                                          {editKRForm.metricType === 'boolean' ? (
+                                            <div className="w-full bg-slate-100 dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-700 dark:text-slate-300 px-4 py-2">
+                                              No
+                                            </div>
+                                          ) : (
+                                            <input
+                                              type="text"
+                                              inputMode="decimal"
+                                              className="w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                                              value={editKRForm.startValue}
+                                              onChange={e => setEditKRForm({...editKRForm, startValue: parseFloat(e.target.value.replace(/^0+(?=\d)/, '')) || 0})}
+                                              disabled={isSaving}
+                                            />
+                                          )}
+                                        </div>
+                                        <div>
+                                          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                            {editKRForm.direction === 'range' ? 'Target Minimo' : 'Valore Target'}
+                                          </label>
+                                          {editKRForm.metricType === 'boolean' ? (
+                                            <div className="w-full bg-slate-100 dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-700 dark:text-slate-300 px-4 py-2">
+                                              Sì
+                                            </div>
+                                          ) : (
+                                            <input
+                                              type="text"
+                                              inputMode="decimal"
+                                              className="w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                                              value={editKRForm.targetValue}
+                                              onChange={e => setEditKRForm({...editKRForm, targetValue: parseFloat(e.target.value.replace(/^0+(?=\d)/, '')) || 0})}
+                                              disabled={isSaving}
+                                            />
+                                          )}
+                                        </div>
+                                      </div>
+                                    )}
+                                    <div className="grid grid-cols-3 gap-4">
+                                      {editKRForm.metricType !== 'boolean' && editKRForm.metricType !== 'milestone' && (
+                                        <div>
+                                          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Direzione</label>
+                                          <select
                                             className="w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
-                                            value={editKRForm.startValue}
-                                            onChange={e => setEditKRForm({...editKRForm, startValue: parseFloat(e.target.value.replace(/^0+(?=\d)/, '')) || 0})}
+                                            value={editKRForm.direction}
+                                            onChange={e => setEditKRForm({...editKRForm, direction: e.target.value as KeyResultDirection})}
                                             disabled={isSaving}
-                                          />
-                                        )}
-                                      </div>
-                                      <div>
-                                        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Valore Target</label>
-                                        {editKRForm.metricType === 'boolean' ? (
-                                          <div className="w-full bg-slate-100 dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-700 dark:text-slate-300 px-4 py-2">
-                                            Sì
-                                          </div>
-                                        ) : (
+                                          >
+                                            {(Object.keys(DIRECTION_LABELS) as KeyResultDirection[]).map(direction => (
+                                              <option key={direction} value={direction}>{DIRECTION_LABELS[direction]}</option>
+                                            ))}
+                                          </select>
+                                        </div>
+                                      )}
+                                      {editKRForm.direction === 'range' && editKRForm.metricType !== 'boolean' && editKRForm.metricType !== 'milestone' && (
+                                        <div>
+                                          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Target Massimo</label>
                                           <input
                                             type="text"
                                             inputMode="decimal"
                                             className="w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
-                                            value={editKRForm.targetValue}
-                                            onChange={e => setEditKRForm({...editKRForm, targetValue: parseFloat(e.target.value.replace(/^0+(?=\d)/, '')) || 0})}
+                                            value={editKRForm.targetMaxValue}
+                                            onChange={e => setEditKRForm({...editKRForm, targetMaxValue: parseFloat(e.target.value.replace(/^0+(?=\d)/, '')) || 0})}
                                             disabled={isSaving}
                                           />
-                                        )}
+                                        </div>
+                                      )}
+                                      <div>
+                                        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Peso</label>
+                                        <input
+                                          type="text"
+                                          inputMode="decimal"
+                                          className="w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                                          value={editKRForm.weight}
+                                          onChange={e => setEditKRForm({...editKRForm, weight: parseFloat(e.target.value.replace(/^0+(?=\d)/, '')) || 0})}
+                                          disabled={isSaving}
+                                        />
                                       </div>
                                     </div>
                                     <div className="flex justify-end gap-2">
@@ -1778,7 +2361,7 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
                                 ) : (
                                   /* Display KR */
                                   <>
-                                    <div className="grid grid-cols-3 gap-4 mb-4 text-sm">
+                                    <div className="grid grid-cols-4 gap-4 mb-4 text-sm">
                                       <div>
                                         <span className="text-slate-500 dark:text-slate-400">Valore Iniziale</span>
                                         <p className="font-medium text-slate-900 dark:text-slate-100">
@@ -1786,9 +2369,11 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
                                         </p>
                                       </div>
                                       <div>
-                                        <span className="text-slate-500 dark:text-slate-400">Valore Target</span>
+                                        <span className="text-slate-500 dark:text-slate-400">
+                                          {kr.direction === 'range' ? 'Intervallo Target' : 'Valore Target'}
+                                        </span>
                                         <p className="font-medium text-slate-900 dark:text-slate-100">
-                                          {kr.metricType === 'boolean' ? (kr.targetValue === 1 ? 'Sì' : 'No') : `${kr.targetValue} ${kr.unit || ''}`}
+                                          {formatKRTarget(kr)}
                                         </p>
                                       </div>
                                       <div>
@@ -1796,64 +2381,224 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
                                         <p className="font-medium text-slate-900 dark:text-slate-100 capitalize">
                                           {kr.metricType === 'boolean' ? 'Sì/No' : kr.metricType}
                                         </p>
+                                        {kr.metricType !== 'boolean' && kr.metricType !== 'milestone' && (
+                                          <p className="text-xs text-slate-500 dark:text-slate-400">{DIRECTION_LABELS[kr.direction || 'increase']}</p>
+                                        )}
+                                      </div>
+                                      <div>
+                                        <span className="text-slate-500 dark:text-slate-400">Peso</span>
+                                        <p className="font-medium text-slate-900 dark:text-slate-100">{kr.weight ?? 1}</p>
                                       </div>
                                     </div>
 
+                                    {kr.metricType === 'milestone' && (
+                                      <ol className="space-y-1.5 mb-4">
+                                        {(kr.steps || []).map((step, index) => (
+                                          <li key={step.id} className="flex items-center gap-2 text-sm">
+                                            {step.completed ? (
+                                              <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />
+                                            ) : (
+                                              <span className="w-4 h-4 rounded-full border-2 border-slate-300 dark:border-slate-500 flex-shrink-0" />
+                                            )}
+                                            <span className={step.completed ? 'text-slate-500 dark:text-slate-400 line-through' : 'text-slate-900 dark:text-slate-100'}>
+                                              {index + 1}. {step.title}
+                                            </span>
+                                            {step.completedAt && (
+                                              <span className="text-xs text-slate-400 dark:text-slate-500 ml-auto">
+                                                {new Date(step.completedAt).toLocaleDateString('it-IT', { day: '2-digit', month: 'short' })}
+                                              </span>
+                                            )}
+                                          </li>
+                                        ))}
+                                      </ol>
+                                    )}
+
                                     {canUpdateValue && (
-                                      <div className="flex items-end gap-3">
-                                        <div className="flex-1">
-                                          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
-                                            Aggiorna Valore Attuale
-                                          </label>
-                                          {kr.metricType === 'boolean' ? (
+                                      <div className="space-y-3 bg-white dark:bg-slate-800/60 rounded-xl p-4 border border-slate-200 dark:border-slate-600">
+                                        <h5 className="text-sm font-semibold text-slate-900 dark:text-slate-100 flex items-center gap-2">
+                                          <MessageSquare className="w-4 h-4" />
+                                          Nuovo Check-in
+                                        </h5>
+                                        <div className="grid grid-cols-2 gap-3">
+                                          <div>
+                                            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                              {kr.metricType === 'milestone' ? 'Step Completati' : 'Valore Attuale'}
+                                            </label>
+                                            {kr.metricType === 'milestone' ? (
+                                              <div className="space-y-1.5">
+                                                {(kr.steps || []).map(step => (
+                                                  <label key={step.id} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+                                                    <input
+                                                      type="checkbox"
+                                                      className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                                                      checked={checkInForm.completedStepIds.includes(step.id)}
+                                                      onChange={e => setCheckInForm({
+                                                        ...checkInForm,
+                                                        completedStepIds: e.target.checked
+                                                          ? [...checkInForm.completedStepIds, step.id]
+                                                          : checkInForm.completedStepIds.filter(id => id !== step.id)
+                                                      })}
+                                                      disabled={isSaving}
+                                                    />
+                                                    {step.title}
+                                                  </label>
+                                                ))}
+                                              </div>
+                                            ) : kr.metricType === 'boolean' ? (
+                                              <select
+                                                className="w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                                                value={krUpdates[kr.id] !== undefined ? krUpdates[kr.id] : kr.currentValue}
+                                                onChange={e => setKrUpdates({ ...krUpdates, [kr.id]: parseFloat(e.target.value) })}
+                                                disabled={isSaving}
+                                              >
+                                                <option value={0}>No</option>
+                                                <option value={1}>Sì</option>
+                                              </select>
+                                            ) : (
+                                              <input
+                                                type="text"
+                                                inputMode="decimal"
+                                                className="w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                                                value={krUpdates[kr.id] !== undefined ? krUpdates[kr.id] : kr.currentValue}
+                                                onChange={e => {
+                                                  const val = e.target.value;
+                                                  if (val === '' || val === '-') {
+                                                    setKrUpdates({ ...krUpdates, [kr.id]: val as any });
+                                                  } else {
+                                                    const num = parseFloat(val);
+                                                    if (!isNaN(num)) {
+                                                      setKrUpdates({ ...krUpdates, [kr.id]: num });
+                                                    }
+                                                  }
+                                                }}
+                                                onBlur={e => {
+                                                  const val = e.target.value;
+                                                  if (val === '' || val === '-') {
+                                                    setKrUpdates({ ...krUpdates, [kr.id]: 0 });
+                                                  }
+                                                }}
+                                                disabled={isSaving}
+                                              />
+                                            )}
+                                          </div>
+                                          <div>
+                                            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                              Fiducia
+                                            </label>
                                             <select
                                               className="w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
-                                              value={krUpdates[kr.id] !== undefined ? krUpdates[kr.id] : kr.currentValue}
-                                              onChange={e => setKrUpdates({ ...krUpdates, [kr.id]: parseFloat(e.target.value) })}
+                                              value={checkInForm.confidence}
+                                              onChange={e => setCheckInForm({ ...checkInForm, confidence: e.target.value as 'high' | 'medium' | 'low' })}
                                               disabled={isSaving}
                                             >
-                                              <option value={0}>No</option>
-                                              <option value={1}>Sì</option>
+                                              <option value="high">Alta</option>
+                                              <option value="medium">Media</option>
+                                              <option value="low">Bassa</option>
                                             </select>
-                                          ) : (
-                                            <input
-                                              type="text"
-                                              inputMode="decimal"
-                                              className="w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
-                                              value={krUpdates[kr.id] !== undefined ? krUpdates[kr.id] : kr.currentValue}
-                                              onChange={e => {
-                                                const val = e.target.value;
-                                                if (val === '' || val === '-') {
-                                                  setKrUpdates({ ...krUpdates, [kr.id]: val as any });
-                                                } else {
-                                                  const num = parseFloat(val);
-                                                  if (!isNaN(num)) {
-                                                    setKrUpdates({ ...krUpdates, [kr.id]: num });
-                                                  }
-                                                }
-                                              }}
-                                              onBlur={e => {
-                                                const val = e.target.value;
-                                                if (val === '' || val === '-') {
-                                                  setKrUpdates({ ...krUpdates, [kr.id]: 0 });
-                                                }
-                                              }}
+                                          </div>
+                                        </div>
+                                        <div>
+                                          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Nota</label>
+                                          <textarea
+                                            className="w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none resize-none"
+                                            rows={2}
+                                            placeholder="Cosa è cambiato da questo aggiornamento?"
+                                            value={checkInForm.note}
+                                            onChange={e => setCheckInForm({ ...checkInForm, note: e.target.value })}
+                                            disabled={isSaving}
+                                          />
+                                        </div>
+                                        <div className="grid grid-cols-2 gap-3">
+                                          <div>
+                                            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Blocchi</label>
+                                            <textarea
+                                              className="w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none resize-none"
+                                              rows={2}
+                                              placeholder="Cosa ti sta rallentando?"
+                                              value={checkInForm.blockers}
+                                              onChange={e => setCheckInForm({ ...checkInForm, blockers: e.target.value })}
                                               disabled={isSaving}
                                             />
-                                          )}
+                                          </div>
+                                          <div>
+                                            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Prossimi Passi</label>
+                                            <textarea
+                                              className="w-full bg-white dark:bg-slate-600 border border-slate-200 dark:border-slate-500 rounded-xl text-slate-900 dark:text-slate-100 px-4 py-2 focus:ring-2 focus:ring-blue-500 outline-none resize-none"
+                                              rows={2}
+                                              placeholder="Cosa farai la prossima settimana?"
+                                              value={checkInForm.nextSteps}
+                                              onChange={e => setCheckInForm({ ...checkInForm, nextSteps: e.target.value })}
+                                              disabled={isSaving}
+                                            />
+                                          </div>
+                                        </div>
+                                        <div className="flex justify-end">
+                                          <Button
+                                            onClick={() => handleUpdateKR(kr)}
+                                            disabled={isSaving || (kr.metricType !== 'milestone' && krUpdates[kr.id] === kr.currentValue && !checkInForm.note.trim())}
+                                          >
+                                            {isSaving ? (
+                                              <Loader2 className="w-4 h-4 animate-spin" />
+                                            ) : (
+                                              'Registra Check-in'
+                                            )}
+                                          </Button>
+                                        </div>
+                                      </div>
+                                    )}
+
+                                    {/* Check-in Timeline */}
+                                    {checkIns.some(c => c.keyResultId === kr.id) && (
+                                      <div className="mt-4">
+                                        <h5 className="text-sm font-semibold text-slate-900 dark:text-slate-100 mb-3 flex items-center gap-2">
+                                          <History className="w-4 h-4" />
+                                          Storico Check-in
+                                        </h5>
+                                        <div className="space-y-3 border-l-2 border-slate-200 dark:border-slate-600 pl-4">
+                                          {checkIns.filter(c => c.keyResultId === kr.id).map(checkIn => (
+                                            <div key={checkIn.id} className="relative">
+                                              <span className="absolute -left-[21px] top-1.5 w-2.5 h-2.5 rounded-full bg-blue-500" />
+                                              <div className="flex items-center justify-between text-xs text-slate-500 dark:text-slate-400">
+                                                <span>
+                                                  {checkIn.createdByName || 'Utente'} · {new Date(checkIn.createdAt).toLocaleDateString('it-IT', { day: '2-digit', month: 'short', year: 'numeric' })}
+                                                </span>
+                                                <span className={`px-2 py-0.5 rounded-full font-medium ${confidenceColors[checkIn.confidence]}`}>
+                                                  Fiducia {confidenceLabels[checkIn.confidence]}
+                                                </span>
+                                              </div>
+                                              <p className="text-sm font-medium text-slate-900 dark:text-slate-100 mt-1">
+                                                {kr.metricType === 'boolean'
+                                                  ? (checkIn.newValue === 1 ? 'Sì' : 'No')
+                                                  : kr.metricType === 'milestone'
+                                                    ? `${checkIn.previousValue ?? '-'} → ${checkIn.newValue} step su ${kr.targetValue}`
+                                                    : `${checkIn.previousValue ?? '-'} → ${checkIn.newValue} ${kr.unit || ''}`}
+                                              </p>
+                                              {checkIn.note && (
+                                                <p className="text-sm text-slate-600 dark:text-slate-300 mt-1 whitespace-pre-line">{checkIn.note}</p>
+                                              )}
+                                              {checkIn.blockers && (
+                                                <p className="text-xs text-amber-700 dark:text-amber-400 mt-1 whitespace-pre-line">
+                                                  <span className="font-semibold">Blocchi:</span> {checkIn.blockers}
+                                                </p>
+                                              )}
+                                              {checkIn.nextSteps && (
+                                                <p className="text-xs text-blue-700 dark:text-blue-400 mt-1 whitespace-pre-line">
+                                                  <span className="font-semibold">Prossimi passi:</span> {checkIn.nextSteps}
+                                                </p>
+                                              )}
+                                            </div>
+                                          ))}
                                         </div>
-                                        <Button
-                                          onClick={() => handleUpdateKR(kr.id)}
-                                          disabled={isSaving || krUpdates[kr.id] === kr.currentValue}
-                                        >
-                                          {isSaving ? (
-                                            <Loader2 className="w-4 h-4 animate-spin" />
-                                          ) : (
-                                            'Aggiorna'
-                                          )}
-                                        </Button>
                                       </div>
                                     )}
+                                    {/* Key Result discussion */}
+                                    <div className="mt-4">
+                                      <h5 className="text-sm font-semibold text-slate-900 dark:text-slate-100 mb-2 flex items-center gap-2">
+                                        <MessageSquare className="w-4 h-4" />
+                                        Commenti
+                                      </h5>
+                                      <CommentThread objectiveId={objective.id} keyResultId={kr.id} users={mentionableUsers} />
+                                    </div>
                                     {isEditable && (
                                       <div className="flex justify-end mt-3 gap-2">
                                         <button
@@ -2066,6 +2811,17 @@ const OKRDetailModal: React.FC<OKRDetailModalProps> = ({
                   )}
                 </div>
               )}
+
+              {/* Discussion Section */}
+              {!isEditing && (
+                <div className="space-y-4 mt-6 pt-6 border-t border-slate-200 dark:border-slate-700">
+                  <h4 className="text-lg font-bold text-slate-900 dark:text-slate-100 flex items-center gap-2">
+                    <MessageSquare className="w-5 h-5" />
+                    Discussione
+                  </h4>
+                  <CommentThread objectiveId={objective.id} users={mentionableUsers} />
+                </div>
+              )}
             </div>
           ) : (
             <div className="text-center py-12 text-slate-500 dark:text-slate-400">
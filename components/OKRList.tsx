@@ -2,8 +2,9 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Card, Button, Badge, ProgressBar } from './UIComponents';
 import { User } from '../types';
 import { ICONS, STATUS_COLORS, PROGRESS_COLORS, STATUS_LABELS } from '../constants';
-import { okrAPI, Objective } from '../api/client';
+import { okrAPI, Objective, ObjectiveFilters, Period } from '../api/client';
 import { Loader2, RefreshCw } from 'lucide-react';
+import AlignmentTree from './AlignmentTree';
 
 interface OKRListProps {
   onCreateClick: () => void;
@@ -13,18 +14,26 @@ interface OKRListProps {
 }
 
 const OKRList: React.FC<OKRListProps> = ({ onCreateClick, onSelectOKR, currentUser, refreshTrigger }) => {
-  const [activeTab, setActiveTab] = useState<'all' | 'company' | 'team' | 'individual' | 'archived'>('all');
+  const [activeTab, setActiveTab] = useState<'all' | 'company' | 'team' | 'individual' | 'archived' | 'alignment'>('all');
   const [objectives, setObjectives] = useState<Objective[]>([]);
+  const [periods, setPeriods] = useState<Period[]>([]);
+  const [periodId, setPeriodId] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const fetchObjectivesRef = useRef<() => void>(() => {});
 
   const fetchObjectives = useCallback(async () => {
+    // The alignment tab loads its own hierarchy
+    if (activeTab === 'alignment') {
+      setIsLoading(false);
+      return;
+    }
     try {
       setIsLoading(true);
       setError(null);
       // 'archived' tab fetches all and filters client-side, level tabs filter by level
-      const filters = (activeTab !== 'all' && activeTab !== 'archived') ? { level: activeTab } : {};
+      const filters: ObjectiveFilters = (activeTab !== 'all' && activeTab !== 'archived') ? { level: activeTab } : {};
+      if (periodId) filters.periodId = periodId;
       const data = await okrAPI.getObjectives(filters);
       setObjectives(data);
     } catch (err) {
@@ -32,7 +41,7 @@ const OKRList: React.FC<OKRListProps> = ({ onCreateClick, onSelectOKR, currentUs
     } finally {
       setIsLoading(false);
     }
-  }, [activeTab]);
+  }, [activeTab, periodId]);
 
   // Update ref so SSE callback can call fetchObjectives
   fetchObjectivesRef.current = fetchObjectives;
@@ -41,7 +50,13 @@ const OKRList: React.FC<OKRListProps> = ({ onCreateClick, onSelectOKR, currentUs
   useEffect(() => {
     setObjectives([]);
     setIsLoading(true);
-  }, [activeTab]);
+  }, [activeTab, periodId]);
+
+  useEffect(() => {
+    okrAPI.getPeriods()
+      .then(setPeriods)
+      .catch(err => console.error('Failed to load periods:', err));
+  }, []);
 
   // Listen for SSE real-time notifications
   useEffect(() => {
@@ -74,13 +89,14 @@ const OKRList: React.FC<OKRListProps> = ({ onCreateClick, onSelectOKR, currentUs
     company: 'Azienda',
     team: 'Team',
     individual: 'Individuali',
-    archived: 'Archiviati'
+    archived: 'Archiviati',
+    alignment: 'Allineamento'
   };
 
   // Only admin can see company tab
   const visibleTabs = currentUser.role === 'admin'
-    ? ['all', 'company', 'team', 'individual', 'archived'] as const
-    : ['all', 'team', 'individual', 'archived'] as const;
+    ? ['all', 'company', 'team', 'individual', 'archived', 'alignment'] as const
+    : ['all', 'team', 'individual', 'archived', 'alignment'] as const;
 
   // Group objectives by team for the Team tab
   const groupedByTeam = activeTab === 'team'
@@ -106,6 +122,19 @@ const OKRList: React.FC<OKRListProps> = ({ onCreateClick, onSelectOKR, currentUs
           </p>
         </div>
         <div className="flex items-center gap-3">
+          <select
+            className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2.5 text-sm text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-blue-500 outline-none"
+            value={periodId}
+            onChange={e => setPeriodId(e.target.value)}
+            title="Filtra per periodo"
+          >
+            <option value="">Tutti i periodi</option>
+            {periods.map(period => (
+              <option key={period.id} value={period.id}>
+                {period.name}{period.status === 'closed' ? ' (chiuso)' : ''}
+              </option>
+            ))}
+          </select>
           <button
             onClick={fetchObjectives}
             disabled={isLoading}
@@ -147,13 +176,17 @@ const OKRList: React.FC<OKRListProps> = ({ onCreateClick, onSelectOKR, currentUs
       )}
 
       {/* Loading state */}
-      {isLoading && (
+      {isLoading && activeTab !== 'alignment' && (
         <div className="flex items-center justify-center py-12">
           <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
         </div>
       )}
 
-      {!isLoading && (
+      {activeTab === 'alignment' && (
+        <AlignmentTree periodId={periodId} onSelectOKR={onSelectOKR} />
+      )}
+
+      {!isLoading && activeTab !== 'alignment' && (
         <div className="space-y-4">
           {filteredObjectives.length === 0 ? (
             <div className="text-center py-14 bg-white dark:bg-slate-800 rounded-2xl border-2 border-dashed border-slate-200 dark:border-slate-700">
@@ -0,0 +1,508 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Calendar,
+  Plus,
+  Edit2,
+  Trash2,
+  Shield,
+  X,
+  Loader2,
+  AlertTriangle,
+  Lock,
+  Unlock,
+  CheckCircle2
+} from 'lucide-react';
+import { okrAPI, Period, PeriodData, RolloverCandidate } from '../api/client';
+import { useAuth } from '../context/AuthContext';
+
+interface ModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  children: React.ReactNode;
+  title: string;
+}
+
+const Modal: React.FC<ModalProps> = ({ isOpen, onClose, children, title }) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b border-slate-100 dark:border-slate-700">
+          <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">{title}</h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 dark:text-slate-500 hover:text-slate-600 dark:text-slate-400 rounded-lg hover:bg-slate-100 dark:bg-slate-700"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="p-4">{children}</div>
+      </div>
+    </div>
+  );
+};
+
+const EMPTY_FORM: PeriodData = { name: '', startDate: '', endDate: '' };
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('it-IT');
+
+const PeriodsPage: React.FC = () => {
+  const { user: currentUser } = useAuth();
+  const [periods, setPeriods] = useState<Period[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Create / edit modal
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [editingPeriod, setEditingPeriod] = useState<Period | null>(null);
+  const [form, setForm] = useState<PeriodData>(EMPTY_FORM);
+  const [formLoading, setFormLoading] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Close period modal
+  const [closingPeriod, setClosingPeriod] = useState<Period | null>(null);
+  const [candidates, setCandidates] = useState<RolloverCandidate[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [targetPeriodId, setTargetPeriodId] = useState('');
+  const [candidatesLoading, setCandidatesLoading] = useState(false);
+
+  useEffect(() => {
+    fetchPeriods();
+  }, []);
+
+  const fetchPeriods = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await okrAPI.getPeriods();
+      setPeriods(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Errore nel caricamento dei periodi');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreateModal = () => {
+    setEditingPeriod(null);
+    setForm(EMPTY_FORM);
+    setFormError(null);
+    setShowFormModal(true);
+  };
+
+  const openEditModal = (period: Period) => {
+    setEditingPeriod(period);
+    setForm({ name: period.name, startDate: period.startDate, endDate: period.endDate });
+    setFormError(null);
+    setShowFormModal(true);
+  };
+
+  const handleSavePeriod = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (form.endDate < form.startDate) {
+      setFormError('La data di fine deve essere successiva alla data di inizio');
+      return;
+    }
+
+    setFormLoading(true);
+    setFormError(null);
+    try {
+      if (editingPeriod) {
+        await okrAPI.updatePeriod(editingPeriod.id, form);
+      } else {
+        await okrAPI.createPeriod(form);
+      }
+      setShowFormModal(false);
+      fetchPeriods();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Errore nel salvataggio del periodo');
+    } finally {
+      setFormLoading(false);
+    }
+  };
+
+  const handleDeletePeriod = async (period: Period) => {
+    if (!confirm(`Eliminare il periodo "${period.name}"?`)) return;
+    try {
+      setError(null);
+      await okrAPI.deletePeriod(period.id);
+      fetchPeriods();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Errore nell\'eliminazione del periodo');
+    }
+  };
+
+  const handleReopenPeriod = async (period: Period) => {
+    try {
+      setError(null);
+      await okrAPI.reopenPeriod(period.id);
+      setNotice(`Periodo ${period.name} riaperto`);
+      fetchPeriods();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Errore nella riapertura del periodo');
+    }
+  };
+
+  const openCloseModal = async (period: Period) => {
+    setClosingPeriod(period);
+    setCandidates([]);
+    setSelectedIds(new Set());
+    setFormError(null);
+
+    // Default target: the first open period starting after the one being closed
+    const nextPeriod = periods
+      .filter(p => p.status === 'open' && p.id !== period.id && p.startDate > period.startDate)
+      .sort((a, b) => a.startDate.localeCompare(b.startDate))[0];
+    setTargetPeriodId(nextPeriod?.id || '');
+
+    setCandidatesLoading(true);
+    try {
+      const data = await okrAPI.getRolloverCandidates(period.id);
+      setCandidates(data);
+      setSelectedIds(new Set(data.map(c => c.id)));
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Errore nel caricamento degli obiettivi');
+    } finally {
+      setCandidatesLoading(false);
+    }
+  };
+
+  const toggleCandidate = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleClosePeriod = async () => {
+    if (!closingPeriod) return;
+    if (selectedIds.size > 0 && !targetPeriodId) {
+      setFormError('Seleziona il periodo in cui riportare gli obiettivi');
+      return;
+    }
+
+    setFormLoading(true);
+    setFormError(null);
+    try {
+      const result = await okrAPI.closePeriod(closingPeriod.id, selectedIds.size > 0
+        ? { targetPeriodId, objectiveIds: Array.from(selectedIds) }
+        : {});
+      setNotice(result.rolledOver > 0
+        ? `Periodo ${closingPeriod.name} chiuso: ${result.rolledOver} obiettivi riportati come bozza`
+        : `Periodo ${closingPeriod.name} chiuso`);
+      setClosingPeriod(null);
+      fetchPeriods();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Errore nella chiusura del periodo');
+    } finally {
+      setFormLoading(false);
+    }
+  };
+
+  if (currentUser?.role !== 'admin') {
+    return (
+      <div className="flex flex-col items-center justify-center py-20">
+        <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm p-12 text-center max-w-md">
+          <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-6">
+            <Shield className="w-8 h-8 text-red-500" />
+          </div>
+          <h2 className="text-xl font-bold text-slate-900 dark:text-slate-100 mb-2">Accesso Negato</h2>
+          <p className="text-slate-500 dark:text-slate-400 text-sm">
+            Solo gli amministratori possono gestire i periodi.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const targetOptions = periods.filter(p => p.status === 'open' && p.id !== closingPeriod?.id);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900 dark:text-slate-100">Periodi</h1>
+          <p className="text-slate-500 dark:text-slate-400 text-sm mt-1">Gestisci i cicli di pianificazione degli OKR</p>
+        </div>
+        <button
+          onClick={openCreateModal}
+          className="flex items-center gap-2 bg-black text-white px-4 py-2.5 rounded-xl hover:bg-gray-800 transition-colors"
+        >
+          <Plus className="w-5 h-5" />
+          Nuovo Periodo
+        </button>
+      </div>
+
+      {/* Error */}
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-xl p-4 flex items-center gap-3 text-red-700 dark:text-red-400">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      {/* Notice */}
+      {notice && (
+        <div className="bg-green-50 dark:bg-green-900/30 border border-green-200 dark:border-green-800 rounded-xl p-4 flex items-center gap-3 text-green-700 dark:text-green-400">
+          <CheckCircle2 className="w-5 h-5 flex-shrink-0" />
+          <p className="flex-1">{notice}</p>
+          <button onClick={() => setNotice(null)} className="p-1 rounded-lg hover:bg-green-100 dark:hover:bg-green-900/50">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Periods Table */}
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm">
+        {loading ? (
+          <div className="p-12 text-center">
+            <Loader2 className="w-8 h-8 text-slate-400 dark:text-slate-500 animate-spin mx-auto mb-2" />
+            <p className="text-slate-500 dark:text-slate-400">Caricamento periodi...</p>
+          </div>
+        ) : periods.length === 0 ? (
+          <div className="p-12 text-center">
+            <Calendar className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-slate-500 dark:text-slate-400">Nessun periodo definito</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-slate-50 dark:bg-slate-700 border-b border-slate-100 dark:border-slate-700">
+                <tr>
+                  <th className="text-left px-6 py-4 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase">Periodo</th>
+                  <th className="text-left px-6 py-4 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase">Date</th>
+                  <th className="text-left px-6 py-4 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase">Stato</th>
+                  <th className="text-left px-6 py-4 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase">Obiettivi</th>
+                  <th className="text-right px-6 py-4 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase">Azioni</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                {periods.map((period) => (
+                  <tr key={period.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                    <td className="px-6 py-4 font-medium text-slate-900 dark:text-slate-100">{period.name}</td>
+                    <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-400">
+                      {formatDate(period.startDate)} – {formatDate(period.endDate)}
+                    </td>
+                    <td className="px-6 py-4">
+                      {period.status === 'open' ? (
+                        <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium border border-green-300 dark:border-green-700 text-green-700 dark:text-green-300 bg-green-50 dark:bg-green-900/40">
+                          Aperto
+                        </span>
+                      ) : (
+                        <span
+                          className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 bg-slate-50 dark:bg-slate-700"
+                          title={period.closedAt ? `Chiuso il ${new Date(period.closedAt).toLocaleDateString('it-IT')}${period.closedByName ? ` da ${period.closedByName}` : ''}` : undefined}
+                        >
+                          Chiuso
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-400">{period.objectivesCount}</td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center justify-end gap-1">
+                        {period.status === 'open' ? (
+                          <button
+                            onClick={() => openCloseModal(period)}
+                            className="p-2 text-slate-400 dark:text-slate-500 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors"
+                            title="Chiudi periodo"
+                          >
+                            <Lock className="w-5 h-5" />
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => handleReopenPeriod(period)}
+                            className="p-2 text-slate-400 dark:text-slate-500 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                            title="Riapri periodo"
+                          >
+                            <Unlock className="w-5 h-5" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => openEditModal(period)}
+                          className="p-2 text-slate-400 dark:text-slate-500 hover:text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:bg-slate-700 rounded-lg transition-colors"
+                          title="Modifica"
+                        >
+                          <Edit2 className="w-5 h-5" />
+                        </button>
+                        <button
+                          onClick={() => handleDeletePeriod(period)}
+                          disabled={period.objectivesCount > 0}
+                          className="p-2 text-slate-400 dark:text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-400"
+                          title={period.objectivesCount > 0 ? 'Il periodo contiene obiettivi' : 'Elimina'}
+                        >
+                          <Trash2 className="w-5 h-5" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Create / Edit Period Modal */}
+      <Modal
+        isOpen={showFormModal}
+        onClose={() => setShowFormModal(false)}
+        title={editingPeriod ? 'Modifica Periodo' : 'Nuovo Periodo'}
+      >
+        <form onSubmit={handleSavePeriod} className="space-y-4">
+          {formError && (
+            <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg p-3 text-sm text-red-700 dark:text-red-400">
+              {formError}
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Nome</label>
+            <input
+              type="text"
+              required
+              maxLength={50}
+              placeholder="es. Q1 2026"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className="w-full px-3 py-2 border border-slate-200 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Inizio</label>
+              <input
+                type="date"
+                required
+                value={form.startDate}
+                onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                className="w-full px-3 py-2 border border-slate-200 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Fine</label>
+              <input
+                type="date"
+                required
+                value={form.endDate}
+                onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                className="w-full px-3 py-2 border border-slate-200 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={() => setShowFormModal(false)}
+              className="flex-1 px-4 py-2 border border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700"
+            >
+              Annulla
+            </button>
+            <button
+              type="submit"
+              disabled={formLoading}
+              className="flex-1 px-4 py-2 bg-black text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {formLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+              {editingPeriod ? 'Salva' : 'Crea Periodo'}
+            </button>
+          </div>
+        </form>
+      </Modal>
+
+      {/* Close Period Modal */}
+      <Modal
+        isOpen={!!closingPeriod}
+        onClose={() => setClosingPeriod(null)}
+        title={`Chiudi ${closingPeriod?.name || 'periodo'}`}
+      >
+        <div className="space-y-4">
+          {formError && (
+            <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg p-3 text-sm text-red-700 dark:text-red-400">
+              {formError}
+            </div>
+          )}
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Una volta chiuso, il periodo non accetterà nuovi obiettivi. Gli obiettivi non completati selezionati
+            verranno riportati come bozza nel periodo di destinazione, con i Key Result ancora da raggiungere.
+          </p>
+
+          {candidatesLoading ? (
+            <div className="py-6 text-center">
+              <Loader2 className="w-6 h-6 text-slate-400 animate-spin mx-auto" />
+            </div>
+          ) : candidates.length === 0 ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400 bg-slate-50 dark:bg-slate-700 rounded-lg p-3">
+              Tutti gli obiettivi del periodo sono completati: nulla da riportare.
+            </p>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Riporta in</label>
+                <select
+                  value={targetPeriodId}
+                  onChange={(e) => setTargetPeriodId(e.target.value)}
+                  className="w-full px-3 py-2 border border-slate-200 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Seleziona periodo...</option>
+                  {targetOptions.map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="border border-slate-200 dark:border-slate-600 rounded-lg divide-y divide-slate-100 dark:divide-slate-700 max-h-64 overflow-y-auto">
+                {candidates.map(candidate => (
+                  <label key={candidate.id} className="flex items-center gap-3 p-3 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(candidate.id)}
+                      onChange={() => toggleCandidate(candidate.id)}
+                      className="rounded border-slate-300"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-slate-900 dark:text-slate-100 truncate">{candidate.title}</p>
+                      <p className="text-xs text-slate-500 dark:text-slate-400">
+                        {candidate.ownerName} · {candidate.keyResultsCount} KR
+                      </p>
+                    </div>
+                    <span className="text-sm font-semibold text-slate-600 dark:text-slate-300">{candidate.progress}%</span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {selectedIds.size} di {candidates.length} obiettivi selezionati
+              </p>
+            </>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={() => setClosingPeriod(null)}
+              className="flex-1 px-4 py-2 border border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700"
+            >
+              Annulla
+            </button>
+            <button
+              type="button"
+              onClick={handleClosePeriod}
+              disabled={formLoading || candidatesLoading}
+              className="flex-1 px-4 py-2 bg-black text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {formLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+              Chiudi Periodo
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default PeriodsPage;
@@ -17,6 +17,7 @@ import {
 } from 'lucide-react';
 import { authAPI, subscriptionAPI, SubscriptionInfo } from '../api/client';
 import { useAuth } from '../context/AuthContext';
+import ApiTokensSection from './ApiTokensSection';
 
 interface ModalProps {
   isOpen: boolean;
@@ -513,6 +514,9 @@ const ProfilePage: React.FC = () => {
         </form>
       </div>
 
+      {/* Personal API Tokens */}
+      <ApiTokensSection />
+
       {/* Danger Zone */}
       <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm dark:shadow-none dark:ring-1 dark:ring-slate-700 p-6 border border-red-200">
         <h2 className="text-lg font-semibold text-red-600 mb-2">Zona Pericolosa</h2>
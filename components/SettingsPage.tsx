@@ -1,7 +1,94 @@
-import React from 'react';
-import { Settings } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Bell, Loader2, Check, AlertTriangle } from 'lucide-react';
+import {
+  notificationsAPI,
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationType
+} from '../api/client';
+import { useAuth } from '../context/AuthContext';
+
+const CHANNEL_OPTIONS: { value: NotificationChannel; label: string }[] = [
+  { value: 'in_app', label: 'Solo in app' },
+  { value: 'email', label: 'In app + email' },
+  { value: 'daily_digest', label: 'Riepilogo giornaliero' },
+  { value: 'weekly_digest', label: 'Riepilogo settimanale' },
+  { value: 'off', label: 'Disattivata' },
+];
+
+const EVENT_TYPES: { type: NotificationType; label: string; description: string; adminOnly?: boolean }[] = [
+  { type: 'okr_submitted', label: 'Richieste di approvazione', description: 'Un OKR è stato inviato per approvazione', adminOnly: true },
+  { type: 'okr_approved', label: 'OKR approvati', description: 'Un tuo OKR è stato approvato' },
+  { type: 'okr_rejected', label: 'OKR rifiutati', description: 'Un tuo OKR è stato rifiutato, con la motivazione' },
+  { type: 'okr_activated', label: 'OKR attivati', description: 'Un tuo OKR è stato attivato' },
+  { type: 'okr_updated', label: 'Aggiornamenti OKR', description: "Progressi e cambi di stato degli OKR dell'azienda" },
+  { type: 'okr_deleted', label: 'OKR eliminati', description: 'Un OKR è stato eliminato' },
+  { type: 'comment_mention', label: 'Menzioni', description: 'Qualcuno ti ha menzionato in un commento' },
+];
 
 const SettingsPage: React.FC = () => {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [savingType, setSavingType] = useState<NotificationType | null>(null);
+  const [savedType, setSavedType] = useState<NotificationType | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const isMounted = useRef(true);
+
+  useEffect(() => {
+    isMounted.current = true;
+    loadPreferences();
+    return () => {
+      isMounted.current = false;
+    };
+  }, []);
+
+  const loadPreferences = async () => {
+    setLoading(true);
+    try {
+      const data = await notificationsAPI.getPreferences();
+      if (isMounted.current) {
+        setPreferences(data);
+      }
+    } catch (err) {
+      if (isMounted.current) {
+        setError(err instanceof Error ? err.message : 'Errore nel caricamento delle preferenze');
+      }
+    } finally {
+      if (isMounted.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const handleChannelChange = async (type: NotificationType, channel: NotificationChannel) => {
+    if (!preferences) return;
+    const previous = preferences;
+    setPreferences({ ...preferences, [type]: channel });
+    setSavingType(type);
+    setSavedType(null);
+    setError(null);
+
+    try {
+      const updated = await notificationsAPI.updatePreferences({ [type]: channel });
+      if (isMounted.current) {
+        setPreferences(updated);
+        setSavedType(type);
+      }
+    } catch (err) {
+      if (isMounted.current) {
+        setPreferences(previous);
+        setError(err instanceof Error ? err.message : 'Errore nel salvataggio delle preferenze');
+      }
+    } finally {
+      if (isMounted.current) {
+        setSavingType(null);
+      }
+    }
+  };
+
+  const visibleEventTypes = EVENT_TYPES.filter(event => !event.adminOnly || user?.role === 'admin');
+
   return (
     <div className="max-w-2xl mx-auto">
       <div className="mb-6">
@@ -9,15 +96,55 @@ const SettingsPage: React.FC = () => {
         <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Gestisci le impostazioni dell'applicazione</p>
       </div>
 
-      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm dark:shadow-none dark:ring-1 dark:ring-slate-700 overflow-hidden">
-        <div className="p-8 text-center">
-          <div className="inline-flex items-center justify-center w-12 h-12 bg-slate-100 dark:bg-slate-700 rounded-xl mb-4">
-            <Settings className="w-6 h-6 text-slate-400" />
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm dark:shadow-none dark:ring-1 dark:ring-slate-700 p-6">
+        <div className="flex items-center gap-3 mb-1">
+          <div className="inline-flex items-center justify-center w-9 h-9 bg-slate-100 dark:bg-slate-700 rounded-xl">
+            <Bell className="w-5 h-5 text-slate-500 dark:text-slate-400" />
           </div>
-          <p className="text-slate-500 dark:text-slate-400 text-sm">
-            Nessuna impostazione disponibile al momento.
-          </p>
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Notifiche</h2>
         </div>
+        <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+          Scegli come ricevere ogni tipo di notifica. I riepiloghi via email includono anche i tuoi OKR,
+          gli OKR a cui contribuisci, le approvazioni in attesa e le scadenze imminenti.
+        </p>
+
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg p-3 mb-4 text-sm text-red-700 dark:text-red-400 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="py-8 flex justify-center">
+            <Loader2 className="w-6 h-6 text-slate-400 animate-spin" />
+          </div>
+        ) : preferences && (
+          <div className="divide-y divide-slate-100 dark:divide-slate-700">
+            {visibleEventTypes.map(event => (
+              <div key={event.type} className="py-3 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-slate-900 dark:text-slate-100">{event.label}</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">{event.description}</p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {savingType === event.type && <Loader2 className="w-4 h-4 text-slate-400 animate-spin" />}
+                  {savedType === event.type && <Check className="w-4 h-4 text-green-500" />}
+                  <select
+                    value={preferences[event.type]}
+                    onChange={(e) => handleChannelChange(event.type, e.target.value as NotificationChannel)}
+                    disabled={savingType !== null}
+                    className="px-3 py-2 text-sm border border-slate-200 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  >
+                    {CHANNEL_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
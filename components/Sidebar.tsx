@@ -92,6 +92,14 @@ const Sidebar: React.FC<SidebarProps> = ({
     ...(user?.role === 'superadmin' ? [{ id: 'superadmin', label: 'Gestione Aziende', icon: ICONS.Admin }] : []),
     // Gestione Utenti - only visible to azienda role (multi-tenant owner)
     ...(user?.role === 'azienda' ? [{ id: 'admin', label: 'Gestione Utenti', icon: ICONS.Admin }] : []),
+    // Periodi - planning cycles, only visible to admin role
+    ...(user?.role === 'admin' ? [{ id: 'periods', label: 'Periodi', icon: ICONS.Calendar }] : []),
+    // Inviti - company-wide team invitations, only visible to admin role
+    ...(user?.role === 'admin' ? [{ id: 'invitations', label: 'Inviti', icon: ICONS.Mail }] : []),
+    // Registro attività - company audit log, visible to admin and azienda roles
+    ...(user?.role === 'admin' || user?.role === 'azienda' ? [{ id: 'audit', label: 'Registro attività', icon: ICONS.History }] : []),
+    // Cestino - deleted OKRs, not visible to superadmin or azienda
+    ...(user?.role !== 'superadmin' && user?.role !== 'azienda' ? [{ id: 'trash', label: 'Cestino', icon: ICONS.Trash }] : []),
     // Billing - hidden (all companies are premium by default)
     // ...(user?.role === 'azienda' ? [{ id: 'billing', label: 'Subscription', icon: ICONS.Billing, suffix: isPremium ? <Crown className="w-3.5 h-3.5 text-amber-500" /> : undefined }] : []),
     // Settings - visible to all users except superadmin
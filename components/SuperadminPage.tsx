@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { superadminAPI, Azienda, SuperadminStats, CreateAziendaData, Superadmin, CreateSuperadminData } from '../api/client';
-import { Building2, Users, Target, Crown, Plus, Trash2, ToggleLeft, ToggleRight, ChevronDown, ChevronUp, Eye, X, Check, AlertTriangle, Shield, UserCog } from 'lucide-react';
+import { superadminAPI, Azienda, SuperadminStats, CreateAziendaData, Superadmin, CreateSuperadminData, JobStatus } from '../api/client';
+import { Building2, Users, Target, Crown, Plus, Trash2, ToggleLeft, ToggleRight, ChevronDown, ChevronUp, Eye, X, Check, AlertTriangle, Shield, UserCog, Clock, RefreshCw, Loader2 } from 'lucide-react';
 
 interface ModalProps {
   isOpen: boolean;
@@ -63,13 +63,45 @@ const SuperadminPage: React.FC = () => {
   const [deleteSuperadminConfirm, setDeleteSuperadminConfirm] = useState<string | null>(null);
   const [deleteSuperadminLoading, setDeleteSuperadminLoading] = useState(false);
 
+  // Background jobs state
+  const [jobs, setJobs] = useState<JobStatus[]>([]);
+  const [jobsLoading, setJobsLoading] = useState(false);
+  const [jobsError, setJobsError] = useState<string | null>(null);
+
   // Tab state
-  const [activeTab, setActiveTab] = useState<'aziende' | 'superadmins'>('aziende');
+  const [activeTab, setActiveTab] = useState<'aziende' | 'superadmins' | 'jobs'>('aziende');
 
   useEffect(() => {
     loadData();
   }, []);
 
+  useEffect(() => {
+    if (activeTab === 'jobs') {
+      loadJobs();
+    }
+  }, [activeTab]);
+
+  const loadJobs = async () => {
+    try {
+      setJobsLoading(true);
+      setJobs(await superadminAPI.getJobs());
+      setJobsError(null);
+    } catch (err) {
+      setJobsError(err instanceof Error ? err.message : 'Errore nel caricamento dei job');
+    } finally {
+      setJobsLoading(false);
+    }
+  };
+
+  const formatInterval = (seconds: number) => {
+    if (seconds % 86400 === 0) return `ogni ${seconds / 86400 === 1 ? 'giorno' : `${seconds / 86400} giorni`}`;
+    if (seconds % 3600 === 0) return `ogni ${seconds / 3600 === 1 ? 'ora' : `${seconds / 3600} ore`}`;
+    return `ogni ${Math.round(seconds / 60)} min`;
+  };
+
+  const formatJobDate = (value: string | null) =>
+    value ? new Date(value).toLocaleString('it-IT', { dateStyle: 'short', timeStyle: 'short' }) : '—';
+
   const loadData = async () => {
     try {
       setLoading(true);
@@ -213,13 +245,24 @@ const SuperadminPage: React.FC = () => {
             Gestisci aziende e altri superadmin della piattaforma
           </p>
         </div>
-        <button
-          onClick={() => activeTab === 'aziende' ? setShowCreateModal(true) : setShowCreateSuperadminModal(true)}
-          className="flex items-center gap-2 px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-xl font-medium transition-colors"
-        >
-          <Plus className="w-4 h-4" />
-          {activeTab === 'aziende' ? 'Nuova Azienda' : 'Nuovo Superadmin'}
-        </button>
+        {activeTab === 'jobs' ? (
+          <button
+            onClick={loadJobs}
+            disabled={jobsLoading}
+            className="flex items-center gap-2 px-4 py-2 border border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 rounded-xl font-medium transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${jobsLoading ? 'animate-spin' : ''}`} />
+            Aggiorna
+          </button>
+        ) : (
+          <button
+            onClick={() => activeTab === 'aziende' ? setShowCreateModal(true) : setShowCreateSuperadminModal(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-xl font-medium transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            {activeTab === 'aziende' ? 'Nuova Azienda' : 'Nuovo Superadmin'}
+          </button>
+        )}
       </div>
 
       {/* Stats Cards */}
@@ -318,6 +361,17 @@ const SuperadminPage: React.FC = () => {
           <Shield className="w-4 h-4" />
           Superadmin
         </button>
+        <button
+          onClick={() => setActiveTab('jobs')}
+          className={`flex items-center gap-2 px-4 py-2 font-medium transition-colors border-b-2 -mb-px ${
+            activeTab === 'jobs'
+              ? 'text-blue-600 dark:text-blue-400 border-blue-600 dark:border-blue-400'
+              : 'text-slate-500 dark:text-slate-400 border-transparent hover:text-slate-700 dark:hover:text-slate-300'
+          }`}
+        >
+          <Clock className="w-4 h-4" />
+          Job
+        </button>
       </div>
 
       {/* Aziende List */}
@@ -508,6 +562,64 @@ const SuperadminPage: React.FC = () => {
       </div>
       )}
 
+      {/* Background Jobs */}
+      {activeTab === 'jobs' && (
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="font-semibold text-slate-900 dark:text-slate-100">Job in background</h2>
+        </div>
+        {jobsError && (
+          <div className="m-4 p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-lg text-sm flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            {jobsError}
+          </div>
+        )}
+        <div className="divide-y divide-slate-200 dark:divide-slate-700">
+          {jobsLoading && jobs.length === 0 ? (
+            <div className="p-8 flex justify-center">
+              <Loader2 className="w-6 h-6 text-slate-400 animate-spin" />
+            </div>
+          ) : jobs.map((job) => (
+            <div key={job.name} className="p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-slate-900 dark:text-slate-100 font-mono text-sm">{job.name}</p>
+                    {job.running ? (
+                      <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400">In esecuzione</span>
+                    ) : job.lastStatus === 'failed' ? (
+                      <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400">Fallito</span>
+                    ) : job.lastStatus === 'success' ? (
+                      <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400">OK</span>
+                    ) : (
+                      <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-400">Mai eseguito</span>
+                    )}
+                  </div>
+                  <p className="text-sm text-slate-500 dark:text-slate-400">{job.description} · {formatInterval(job.intervalSeconds)}</p>
+                  {job.lastError && (
+                    <p className="text-xs text-red-600 dark:text-red-400 mt-1 break-all">{job.lastError}</p>
+                  )}
+                </div>
+                <div className="text-right text-xs text-slate-500 dark:text-slate-400 flex-shrink-0 space-y-0.5">
+                  <p>Ultima esecuzione: {formatJobDate(job.lastStartedAt)}</p>
+                  <p>Prossima: {formatJobDate(job.nextRunAt)}</p>
+                  <p>
+                    {job.runCount} esecuzioni · {job.failureCount} errori
+                    {job.lastDurationMs !== null && ` · ${job.lastDurationMs} ms`}
+                  </p>
+                  {job.lastResult && (
+                    <p className="font-mono">
+                      {Object.entries(job.lastResult).map(([key, value]) => `${key}: ${String(value)}`).join(', ')}
+                    </p>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+      )}
+
       {/* Create Modal */}
       <Modal isOpen={showCreateModal} onClose={() => setShowCreateModal(false)} title="Nuova Azienda">
         <form onSubmit={handleCreate} className="space-y-4">
@@ -0,0 +1,270 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card, ProgressBar } from './UIComponents';
+import { STATUS_COLORS, STATUS_LABELS } from '../constants';
+import { teamAPI, TeamDashboard as TeamDashboardData } from '../api/client';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid,
+  ResponsiveContainer, Tooltip as RechartsTooltip
+} from 'recharts';
+import { Loader2, ArrowLeft, Target, TrendingUp, AlertTriangle, CheckCircle2 } from 'lucide-react';
+
+interface TeamDashboardProps {
+  teamId: string;
+  onBack: () => void;
+}
+
+const CONFIDENCE_LABELS: Record<string, string> = {
+  high: 'Alta',
+  medium: 'Media',
+  low: 'Bassa'
+};
+
+const formatWeek = (week: string) =>
+  new Date(week).toLocaleDateString('it-IT', { day: '2-digit', month: 'short' });
+
+const formatDate = (date: string | null) =>
+  date ? new Date(date).toLocaleDateString('it-IT', { day: 'numeric', month: 'short' }) : '—';
+
+const getProgressColor = (progress: number) => {
+  if (progress >= 70) return 'bg-green-500';
+  if (progress >= 40) return 'bg-yellow-500';
+  return 'bg-red-500';
+};
+
+const TeamDashboard: React.FC<TeamDashboardProps> = ({ teamId, onBack }) => {
+  const [data, setData] = useState<TeamDashboardData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDashboard();
+  }, [teamId]);
+
+  const loadDashboard = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setData(await teamAPI.getTeamDashboard(teamId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Errore nel caricamento della dashboard del team');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const trendRows = useMemo(() =>
+    (data?.trend || []).map(point => ({ week: formatWeek(point.week), progresso: point.avgProgress })),
+  [data]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="text-center py-20 text-red-500">
+        {error}
+        <button onClick={loadDashboard} className="ml-2 underline">Riprova</button>
+        <button onClick={onBack} className="ml-2 underline">Torna ai team</button>
+      </div>
+    );
+  }
+
+  const { team, summary, objectives, members, atRiskKeyResults, weeks } = data;
+
+  const emptyState = (message: string) => (
+    <div className="flex items-center justify-center h-full py-6 text-sm text-slate-400 dark:text-slate-500">
+      {message}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-4 min-h-full">
+      {/* Header */}
+      <div className="flex items-center gap-3 flex-shrink-0">
+        <button
+          onClick={onBack}
+          className="p-2 rounded-xl text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+          title="Torna ai team"
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <div>
+          <h2 className="text-xl font-bold text-slate-900 dark:text-slate-100">Dashboard {team.name}</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+            {team.memberCount} membri · {summary.activeObjectives} OKR attivi
+          </p>
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 flex-shrink-0">
+        <Card>
+          <div className="flex items-start justify-between">
+            <div className="flex flex-col gap-1">
+              <p className="text-slate-500 dark:text-slate-400 text-xs sm:text-sm font-medium">Obiettivi del Team</p>
+              <h3 className="text-2xl sm:text-3xl font-bold text-slate-900 dark:text-slate-100">{summary.totalObjectives}</h3>
+            </div>
+            <div className="p-2 sm:p-2.5 bg-blue-100 dark:bg-blue-900/30 rounded-xl">
+              <Target className="w-4 h-4 sm:w-5 sm:h-5 text-blue-600 dark:text-blue-400" />
+            </div>
+          </div>
+        </Card>
+        <Card>
+          <div className="flex items-start justify-between">
+            <div className="flex flex-col gap-1 flex-1 mr-2">
+              <p className="text-slate-500 dark:text-slate-400 text-xs sm:text-sm font-medium">Progresso Medio</p>
+              <h3 className="text-2xl sm:text-3xl font-bold text-slate-900 dark:text-slate-100">{summary.avgProgress}%</h3>
+              <ProgressBar value={summary.avgProgress} height="h-1.5" color={getProgressColor(summary.avgProgress)} />
+            </div>
+            <div className="p-2 sm:p-2.5 bg-green-100 dark:bg-green-900/30 rounded-xl">
+              <TrendingUp className="w-4 h-4 sm:w-5 sm:h-5 text-green-600 dark:text-green-400" />
+            </div>
+          </div>
+        </Card>
+        <Card>
+          <div className="flex items-start justify-between">
+            <div className="flex flex-col gap-1">
+              <p className="text-slate-500 dark:text-slate-400 text-xs sm:text-sm font-medium">A Rischio</p>
+              <h3 className="text-2xl sm:text-3xl font-bold text-slate-900 dark:text-slate-100">{summary.atRiskCount}</h3>
+              <p className="text-xs text-slate-400 dark:text-slate-500">{atRiskKeyResults.length} Key Result da seguire</p>
+            </div>
+            <div className="p-2 sm:p-2.5 bg-red-100 dark:bg-red-900/30 rounded-xl">
+              <AlertTriangle className="w-4 h-4 sm:w-5 sm:h-5 text-red-600 dark:text-red-400" />
+            </div>
+          </div>
+        </Card>
+        <Card>
+          <div className="flex items-start justify-between">
+            <div className="flex flex-col gap-1">
+              <p className="text-slate-500 dark:text-slate-400 text-xs sm:text-sm font-medium">Completati</p>
+              <h3 className="text-2xl sm:text-3xl font-bold text-slate-900 dark:text-slate-100">{summary.completedCount}</h3>
+            </div>
+            <div className="p-2 sm:p-2.5 bg-emerald-100 dark:bg-emerald-900/30 rounded-xl">
+              <CheckCircle2 className="w-4 h-4 sm:w-5 sm:h-5 text-emerald-600 dark:text-emerald-400" />
+            </div>
+          </div>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* Progress trend */}
+        <Card title={`Andamento Progresso (ultime ${weeks} settimane)`}>
+          <div className="h-64">
+            {trendRows.length === 0 ? emptyState('Nessun aggiornamento registrato') : (
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={trendRows}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                  <XAxis dataKey="week" tick={{ fontSize: 11 }} />
+                  <YAxis domain={[0, 100]} unit="%" tick={{ fontSize: 11 }} />
+                  <RechartsTooltip formatter={(value) => `${value}%`} />
+                  <Line type="monotone" dataKey="progresso" stroke="#3B82F6" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+        </Card>
+
+        {/* At-risk key results */}
+        <Card title="Key Result a Rischio">
+          {atRiskKeyResults.length === 0 ? emptyState('Nessun Key Result a rischio') : (
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {atRiskKeyResults.map(kr => (
+                <div key={kr.id} className="p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50">
+                  <p className="text-sm font-medium text-slate-900 dark:text-slate-100">{kr.description}</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">
+                    {kr.objectiveTitle} · {kr.ownerName}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+                    <span className={`px-2 py-0.5 rounded-full ${kr.status === 'off-track' ? 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-400' : 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-400'}`}>
+                      {kr.status === 'off-track' ? 'Fuori strada' : kr.status === 'at-risk' ? 'A rischio' : 'Fiducia bassa'}
+                    </span>
+                    <span className="text-slate-500 dark:text-slate-400">
+                      {kr.currentValue} / {kr.targetValue}{kr.unit ? ` ${kr.unit}` : ''}
+                    </span>
+                    <span className="text-slate-500 dark:text-slate-400">Fiducia {CONFIDENCE_LABELS[kr.confidence]}</span>
+                    <span className="text-slate-400 dark:text-slate-500">Ultimo check-in {formatDate(kr.lastCheckInAt)}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        {/* Team objectives */}
+        <Card title="Obiettivi del Team">
+          {objectives.length === 0 ? emptyState('Nessun obiettivo assegnato al team') : (
+            <div className="space-y-3 max-h-80 overflow-y-auto">
+              {objectives.map(obj => (
+                <div key={obj.id}>
+                  <div className="flex items-center justify-between gap-2 text-sm mb-1">
+                    <span className="font-medium text-slate-900 dark:text-slate-100 truncate">{obj.title}</span>
+                    <span className={`text-xs px-2 py-0.5 rounded-full flex-shrink-0 ${STATUS_COLORS[obj.approvalStatus] || ''}`}>
+                      {STATUS_LABELS[obj.approvalStatus] || obj.approvalStatus}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <div className="flex-1">
+                      <ProgressBar value={obj.progress} height="h-1.5" color={getProgressColor(obj.progress)} />
+                    </div>
+                    <span className="text-xs text-slate-500 dark:text-slate-400 w-10 text-right">{obj.progress}%</span>
+                  </div>
+                  <p className="text-xs text-slate-400 dark:text-slate-500 mt-1">
+                    {obj.ownerName} · {obj.keyResultCount} KR{obj.dueDate ? ` · scadenza ${formatDate(obj.dueDate)}` : ''}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        {/* Member contributions and check-in cadence */}
+        <Card title="Contributi e Check-in dei Membri">
+          {members.length === 0 ? emptyState('Nessun membro nel team') : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-xs text-slate-500 dark:text-slate-400 uppercase border-b border-slate-100 dark:border-slate-700">
+                  <tr>
+                    <th className="text-left py-2 pr-2">Membro</th>
+                    <th className="text-right py-2 px-2" title="OKR del team di cui è owner">Owner</th>
+                    <th className="text-right py-2 px-2" title="OKR del team a cui contribuisce">Contributi</th>
+                    <th className="text-right py-2 px-2">Check-in</th>
+                    <th className="text-left py-2 pl-2">Cadenza</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                  {members.map(member => (
+                    <tr key={member.userId}>
+                      <td className="py-2 pr-2">
+                        <p className="text-slate-900 dark:text-slate-100">{member.name}</p>
+                        <p className="text-xs text-slate-400 dark:text-slate-500">Ultimo check-in {formatDate(member.lastCheckInAt)}</p>
+                      </td>
+                      <td className="py-2 px-2 text-right text-slate-600 dark:text-slate-400">{member.ownedObjectives}</td>
+                      <td className="py-2 px-2 text-right text-slate-600 dark:text-slate-400">{member.contributedObjectives}</td>
+                      <td className="py-2 px-2 text-right text-slate-600 dark:text-slate-400">{member.checkInCount}</td>
+                      <td className="py-2 pl-2 w-32">
+                        <ProgressBar
+                          value={member.activeWeeks}
+                          max={weeks}
+                          height="h-1.5"
+                          color={getProgressColor(Math.round((member.activeWeeks / weeks) * 100))}
+                        />
+                        <p className="text-xs text-slate-400 dark:text-slate-500 mt-1">{member.activeWeeks}/{weeks} settimane</p>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default TeamDashboard;
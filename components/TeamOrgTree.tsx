@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { ChevronRight, ChevronDown, Building2, Users } from 'lucide-react';
+import { TeamTreeNode } from '../api/client';
+
+interface TeamOrgTreeProps {
+  tree: TeamTreeNode[];
+  selectedTeamId?: string;
+  onSelect: (teamId: string) => void;
+}
+
+const ProgressBar: React.FC<{ value: number | null }> = ({ value }) => (
+  <div className="flex items-center gap-2 w-32">
+    <div className="flex-1 h-1.5 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
+      <div className="h-full bg-blue-500 rounded-full" style={{ width: `${value ?? 0}%` }} />
+    </div>
+    <span className="text-xs text-slate-500 dark:text-slate-400 w-8 text-right">{value === null ? '—' : `${value}%`}</span>
+  </div>
+);
+
+const TreeNode: React.FC<{
+  node: TeamTreeNode;
+  depth: number;
+  selectedTeamId?: string;
+  onSelect: (teamId: string) => void;
+}> = ({ node, depth, selectedTeamId, onSelect }) => {
+  const [expanded, setExpanded] = useState(true);
+  const isDepartment = node.type === 'department';
+  const hasChildren = node.children.length > 0;
+
+  return (
+    <div>
+      <div
+        className={`flex items-center gap-2 py-2 pr-3 rounded-lg cursor-pointer transition-colors ${
+          selectedTeamId === node.id
+            ? 'bg-blue-50 dark:bg-blue-900/30'
+            : 'hover:bg-slate-50 dark:hover:bg-slate-700/50'
+        }`}
+        style={{ paddingLeft: `${depth * 20 + 8}px` }}
+        onClick={() => onSelect(node.id)}
+      >
+        <button
+          type="button"
+          onClick={(e) => { e.stopPropagation(); setExpanded(!expanded); }}
+          className={`p-0.5 rounded text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 ${hasChildren ? '' : 'invisible'}`}
+        >
+          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        </button>
+        {isDepartment ? (
+          <Building2 className="w-4 h-4 text-purple-500 flex-shrink-0" />
+        ) : (
+          <Users className="w-4 h-4 text-blue-500 flex-shrink-0" />
+        )}
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-slate-900 dark:text-slate-100 truncate">{node.name}</p>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {isDepartment ? 'Dipartimento' : 'Team'} · {node.memberCount} membri · {node.ownerName}
+          </p>
+        </div>
+        <div className="hidden sm:flex flex-col items-end gap-1" title="Progresso medio degli OKR, pesato">
+          <ProgressBar value={hasChildren ? node.rollupProgress : node.progress} />
+          <span className="text-[10px] text-slate-400 dark:text-slate-500">
+            {hasChildren
+              ? `${node.rollupObjectiveCount} OKR inclusi i team sottostanti`
+              : `${node.objectiveCount} OKR`}
+          </span>
+        </div>
+      </div>
+      {expanded && hasChildren && node.children.map(child => (
+        <TreeNode key={child.id} node={child} depth={depth + 1} selectedTeamId={selectedTeamId} onSelect={onSelect} />
+      ))}
+    </div>
+  );
+};
+
+const TeamOrgTree: React.FC<TeamOrgTreeProps> = ({ tree, selectedTeamId, onSelect }) => {
+  if (tree.length === 0) {
+    return (
+      <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-8">Nessun team nell'organigramma</p>
+    );
+  }
+
+  return (
+    <div className="space-y-0.5">
+      {tree.map(node => (
+        <TreeNode key={node.id} node={node} depth={0} selectedTeamId={selectedTeamId} onSelect={onSelect} />
+      ))}
+    </div>
+  );
+};
+
+export default TeamOrgTree;
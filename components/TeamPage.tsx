@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { teamAPI, Team, TeamMember, TeamInvitation, SearchUser } from '../api/client';
+import { teamAPI, Team, TeamMember, TeamInvitation, TeamTreeNode, TeamData, SearchUser } from '../api/client';
 import { useAuth } from '../context/AuthContext';
 import InviteMemberModal from './InviteMemberModal';
+import BulkInviteModal from './BulkInviteModal';
+import TeamOrgTree from './TeamOrgTree';
+import TeamDashboard from './TeamDashboard';
 import CreateTeamModal from './CreateTeamModal';
 import EditTeamModal from './EditTeamModal';
 import {
@@ -21,7 +24,11 @@ import {
   AlertCircle,
   CheckCircle,
   XCircle,
-  RefreshCw
+  RefreshCw,
+  Upload,
+  List,
+  Network,
+  BarChart3
 } from 'lucide-react';
 
 const TeamPage: React.FC = () => {
@@ -34,6 +41,7 @@ const TeamPage: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isInviteModalOpen, setIsInviteModalOpen] = useState(false);
+  const [isBulkInviteModalOpen, setIsBulkInviteModalOpen] = useState(false);
   const [isCreateTeamModalOpen, setIsCreateTeamModalOpen] = useState(false);
   const [actionMenuOpen, setActionMenuOpen] = useState<string | null>(null);
   const [resendingId, setResendingId] = useState<string | null>(null);
@@ -42,11 +50,15 @@ const TeamPage: React.FC = () => {
   const [isDeleting, setIsDeleting] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [teamToEdit, setTeamToEdit] = useState<Team | null>(null);
+  const [viewMode, setViewMode] = useState<'list' | 'tree'>('list');
+  const [orgTree, setOrgTree] = useState<TeamTreeNode[]>([]);
+  const [dashboardTeamId, setDashboardTeamId] = useState<string | null>(null);
 
   // Load teams on mount
   useEffect(() => {
     loadTeams();
     loadPendingInvitations();
+    loadOrgTree();
   }, []);
 
   // Load members when team is selected
@@ -100,18 +112,45 @@ const TeamPage: React.FC = () => {
     }
   };
 
-  const handleCreateTeam = async (data: { name: string; description?: string; leadId?: string }) => {
+  const loadOrgTree = async () => {
+    try {
+      const tree = await teamAPI.getTeamTree();
+      setOrgTree(tree);
+    } catch (err) {
+      console.error('Failed to load org tree:', err);
+    }
+  };
+
+  // Departments that can contain other teams, in tree order
+  const departments = (function collect(nodes: TeamTreeNode[]): { id: string; name: string }[] {
+    return nodes.flatMap(node => node.type === 'department'
+      ? [{ id: node.id, name: node.name }, ...collect(node.children)]
+      : collect(node.children));
+  })(orgTree);
+
+  const handleSelectTreeNode = (teamId: string) => {
+    const team = teams.find(t => t.id === teamId);
+    if (!team) {
+      setError('Non fai parte di questo team');
+      return;
+    }
+    setSelectedTeam(team);
+    setViewMode('list');
+  };
+
+  const handleCreateTeam = async (data: TeamData) => {
     try {
       const newTeam = await teamAPI.createTeam(data);
       setTeams([newTeam, ...teams]);
       setSelectedTeam(newTeam);
       setIsCreateTeamModalOpen(false);
+      loadOrgTree();
     } catch (err) {
       throw err;
     }
   };
 
-  const handleUpdateTeam = async (data: { name: string; description?: string }) => {
+  const handleUpdateTeam = async (data: Partial<TeamData>) => {
     if (!teamToEdit) return;
     try {
       const updatedTeam = await teamAPI.updateTeam(teamToEdit.id, data);
@@ -126,6 +165,7 @@ const TeamPage: React.FC = () => {
 
       setIsEditModalOpen(false);
       setTeamToEdit(null);
+      loadOrgTree();
     } catch (err) {
       throw err;
     }
@@ -241,6 +281,8 @@ const TeamPage: React.FC = () => {
         setSelectedTeam(updatedTeams.length > 0 ? updatedTeams[0] : null);
       }
 
+      loadOrgTree();
+
       // Close modal and reset state
       setIsDeleteModalOpen(false);
       setTeamToDelete(null);
@@ -297,6 +339,10 @@ const TeamPage: React.FC = () => {
     );
   }
 
+  if (dashboardTeamId) {
+    return <TeamDashboard teamId={dashboardTeamId} onBack={() => setDashboardTeamId(null)} />;
+  }
+
   return (
     <div className="h-full flex flex-col gap-4 overflow-hidden">
       {/* Pending Invitations Banner */}
@@ -352,18 +398,51 @@ const TeamPage: React.FC = () => {
           <h1 className="text-xl font-bold text-slate-900 dark:text-slate-100">Team</h1>
           <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Gestisci membri e inviti</p>
         </div>
-        {(user?.role === 'admin' || user?.role === 'lead') && (
-          <button
-            onClick={() => setIsCreateTeamModalOpen(true)}
-            className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-xl hover:bg-blue-700 transition-colors text-sm"
-          >
-            <Plus className="w-4 h-4" />
-            Nuovo Team
-          </button>
-        )}
+        <div className="flex items-center gap-2">
+          <div className="flex bg-slate-100 dark:bg-slate-800 rounded-xl p-1">
+            <button
+              onClick={() => setViewMode('list')}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                viewMode === 'list'
+                  ? 'bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 shadow-sm'
+                  : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-300'
+              }`}
+            >
+              <List className="w-4 h-4" />
+              Elenco
+            </button>
+            <button
+              onClick={() => setViewMode('tree')}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                viewMode === 'tree'
+                  ? 'bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 shadow-sm'
+                  : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-300'
+              }`}
+            >
+              <Network className="w-4 h-4" />
+              Organigramma
+            </button>
+          </div>
+          {(user?.role === 'admin' || user?.role === 'lead') && (
+            <button
+              onClick={() => setIsCreateTeamModalOpen(true)}
+              className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-xl hover:bg-blue-700 transition-colors text-sm"
+            >
+              <Plus className="w-4 h-4" />
+              Nuovo Team
+            </button>
+          )}
+        </div>
       </div>
 
-      {teams.length === 0 ? (
+      {/* Org Tree */}
+      {viewMode === 'tree' && (
+        <div className="flex-1 min-h-0 overflow-y-auto bg-white dark:bg-slate-800 rounded-xl p-4 shadow-sm dark:shadow-none dark:ring-1 dark:ring-slate-700">
+          <TeamOrgTree tree={orgTree} selectedTeamId={selectedTeam?.id} onSelect={handleSelectTreeNode} />
+        </div>
+      )}
+
+      {viewMode === 'tree' ? null : teams.length === 0 ? (
         <div className="flex-1 flex items-center justify-center">
           <div className="bg-white dark:bg-slate-800 rounded-2xl p-10 text-center shadow-sm dark:shadow-none dark:ring-1 dark:ring-slate-700">
             <Users className="w-14 h-14 text-slate-300 dark:text-slate-600 mx-auto mb-4" />
@@ -399,7 +478,9 @@ const TeamPage: React.FC = () => {
                       }`}
                   >
                     <p className="font-medium text-sm text-slate-900 dark:text-slate-100">{team.name}</p>
-                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">{team.memberCount} membri</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">
+                      {team.type === 'department' && 'Dipartimento · '}{team.memberCount} membri
+                    </p>
                   </button>
                 ))}
               </div>
@@ -420,6 +501,14 @@ const TeamPage: React.FC = () => {
                       )}
                     </div>
                     <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => setDashboardTeamId(selectedTeam.id)}
+                        className="flex items-center gap-1.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 px-3 py-2 rounded-xl hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors text-sm"
+                        title="Dashboard del team"
+                      >
+                        <BarChart3 className="w-4 h-4" />
+                        Dashboard
+                      </button>
                       {canManageTeam && (
                         <>
                           <button
@@ -429,6 +518,14 @@ const TeamPage: React.FC = () => {
                             <Plus className="w-4 h-4" />
                             Aggiungi
                           </button>
+                          <button
+                            onClick={() => setIsBulkInviteModalOpen(true)}
+                            className="flex items-center gap-1.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 px-3 py-2 rounded-xl hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors text-sm"
+                            title="Invita da CSV"
+                          >
+                            <Upload className="w-4 h-4" />
+                            CSV
+                          </button>
                           <button
                             onClick={() => openEditModal(selectedTeam)}
                             className="flex items-center gap-1.5 bg-slate-600 text-white px-3 py-2 rounded-xl hover:bg-slate-700 transition-colors text-sm"
@@ -570,11 +667,20 @@ const TeamPage: React.FC = () => {
         teamName={selectedTeam?.name || ''}
       />
 
+      <BulkInviteModal
+        isOpen={isBulkInviteModalOpen}
+        onClose={() => setIsBulkInviteModalOpen(false)}
+        onComplete={() => selectedTeam && loadTeamInvitations(selectedTeam.id)}
+        teamId={selectedTeam?.id || ''}
+        teamName={selectedTeam?.name || ''}
+      />
+
       <CreateTeamModal
         isOpen={isCreateTeamModalOpen}
         onClose={() => setIsCreateTeamModalOpen(false)}
         onCreate={handleCreateTeam}
         userRole={user?.role}
+        departments={departments}
       />
 
       <EditTeamModal
@@ -583,6 +689,10 @@ const TeamPage: React.FC = () => {
         onUpdate={handleUpdateTeam}
         currentName={teamToEdit?.name || ''}
         currentDescription={teamToEdit?.description}
+        teamId={teamToEdit?.id}
+        currentType={teamToEdit?.type}
+        currentParentTeamId={teamToEdit?.parentTeamId}
+        departments={departments}
       />
 
       {/* Delete Confirmation Modal */}
@@ -0,0 +1,277 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Trash2,
+  RotateCcw,
+  Target,
+  ListChecks,
+  X,
+  Loader2,
+  AlertTriangle,
+  CheckCircle2,
+  Clock
+} from 'lucide-react';
+import { okrAPI, TrashItem } from '../api/client';
+import { useAuth } from '../context/AuthContext';
+
+const LEVEL_LABELS: Record<string, string> = {
+  company: 'Azienda',
+  department: 'Dipartimento',
+  team: 'Team',
+  individual: 'Individuale'
+};
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString('it-IT');
+
+// What else comes back (or goes away) with an objective
+const describeContents = (item: TrashItem) => {
+  if (item.type === 'key_result') {
+    return `Key Result di «${item.objectiveTitle}»`;
+  }
+  const parts = [`OKR ${item.level ? LEVEL_LABELS[item.level] || item.level : ''}`.trim()];
+  if (item.keyResultsCount > 0) parts.push(`${item.keyResultsCount} Key Result`);
+  if (item.objectivesCount > 1) parts.push(`${item.objectivesCount - 1} OKR collegati`);
+  return parts.join(' · ');
+};
+
+const TrashPage: React.FC = () => {
+  const { user: currentUser } = useAuth();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Retention settings (admin only)
+  const [retentionDays, setRetentionDays] = useState('');
+  const [maxRetentionDays, setMaxRetentionDays] = useState(365);
+  const [savedRetentionDays, setSavedRetentionDays] = useState<number | null>(null);
+  const [settingsLoading, setSettingsLoading] = useState(false);
+
+  const isAdmin = currentUser?.role === 'admin';
+
+  useEffect(() => {
+    fetchTrash();
+    if (isAdmin) {
+      fetchSettings();
+    }
+  }, [isAdmin]);
+
+  const fetchTrash = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await okrAPI.getTrash();
+      setItems(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Errore nel caricamento del cestino');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchSettings = async () => {
+    try {
+      const settings = await okrAPI.getTrashSettings();
+      setRetentionDays(String(settings.retentionDays));
+      setSavedRetentionDays(settings.retentionDays);
+      setMaxRetentionDays(settings.maxRetentionDays);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Errore nel caricamento delle impostazioni');
+    }
+  };
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSettingsLoading(true);
+    setError(null);
+    try {
+      const settings = await okrAPI.updateTrashSettings({ retentionDays: Number(retentionDays) });
+      setRetentionDays(String(settings.retentionDays));
+      setSavedRetentionDays(settings.retentionDays);
+      setNotice(`Gli elementi nel cestino verranno eliminati dopo ${settings.retentionDays} giorni`);
+      fetchTrash();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Errore nel salvataggio delle impostazioni');
+    } finally {
+      setSettingsLoading(false);
+    }
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyId(item.id);
+    setError(null);
+    try {
+      await okrAPI.restoreTrashItem(item.type, item.id);
+      setNotice(`«${item.title}» ripristinato`);
+      fetchTrash();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Errore nel ripristino');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    if (!confirm(`Eliminare definitivamente «${item.title}»? Storico, check-in e contributori andranno persi.`)) return;
+    setBusyId(item.id);
+    setError(null);
+    try {
+      await okrAPI.purgeTrashItem(item.type, item.id);
+      setNotice(`«${item.title}» eliminato definitivamente`);
+      fetchTrash();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Errore nell'eliminazione");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-slate-900 dark:text-slate-100">Cestino</h1>
+        <p className="text-slate-500 dark:text-slate-400 text-sm mt-1">
+          {isAdmin
+            ? 'OKR e Key Result eliminati in azienda'
+            : 'OKR e Key Result che hai eliminato o di cui sei proprietario'}
+        </p>
+      </div>
+
+      {/* Error */}
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-xl p-4 flex items-center gap-3 text-red-700 dark:text-red-400">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      {/* Notice */}
+      {notice && (
+        <div className="bg-green-50 dark:bg-green-900/30 border border-green-200 dark:border-green-800 rounded-xl p-4 flex items-center gap-3 text-green-700 dark:text-green-400">
+          <CheckCircle2 className="w-5 h-5 flex-shrink-0" />
+          <p className="flex-1">{notice}</p>
+          <button onClick={() => setNotice(null)} className="p-1 rounded-lg hover:bg-green-100 dark:hover:bg-green-900/50">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Retention settings */}
+      {isAdmin && (
+        <form
+          onSubmit={handleSaveSettings}
+          className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm p-6 flex flex-col sm:flex-row sm:items-end gap-4"
+        >
+          <div className="flex-1">
+            <div className="flex items-center gap-2 mb-1">
+              <Clock className="w-4 h-4 text-slate-500 dark:text-slate-400" />
+              <h2 className="font-semibold text-slate-900 dark:text-slate-100">Conservazione</h2>
+            </div>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Giorni dopo i quali gli elementi nel cestino vengono eliminati definitivamente in automatico.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              required
+              min={1}
+              max={maxRetentionDays}
+              value={retentionDays}
+              onChange={(e) => setRetentionDays(e.target.value)}
+              className="w-24 px-3 py-2 border border-slate-200 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <span className="text-sm text-slate-500 dark:text-slate-400">giorni</span>
+            <button
+              type="submit"
+              disabled={settingsLoading || Number(retentionDays) === savedRetentionDays}
+              className="px-4 py-2 bg-black text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 flex items-center gap-2"
+            >
+              {settingsLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+              Salva
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Trash Table */}
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm">
+        {loading ? (
+          <div className="p-12 text-center">
+            <Loader2 className="w-8 h-8 text-slate-400 dark:text-slate-500 animate-spin mx-auto mb-2" />
+            <p className="text-slate-500 dark:text-slate-400">Caricamento cestino...</p>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="p-12 text-center">
+            <Trash2 className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-slate-500 dark:text-slate-400">Il cestino è vuoto</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-slate-50 dark:bg-slate-700 border-b border-slate-100 dark:border-slate-700">
+                <tr>
+                  <th className="text-left px-6 py-4 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase">Elemento</th>
+                  <th className="text-left px-6 py-4 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase">Proprietario</th>
+                  <th className="text-left px-6 py-4 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase">Eliminato</th>
+                  <th className="text-left px-6 py-4 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase">Eliminazione definitiva</th>
+                  <th className="px-6 py-4"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                {items.map((item) => (
+                  <tr key={item.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                    <td className="px-6 py-4">
+                      <div className="flex items-start gap-3">
+                        {item.type === 'objective'
+                          ? <Target className="w-4 h-4 mt-0.5 text-slate-400 flex-shrink-0" />
+                          : <ListChecks className="w-4 h-4 mt-0.5 text-slate-400 flex-shrink-0" />}
+                        <div>
+                          <p className="font-medium text-slate-900 dark:text-slate-100">{item.title}</p>
+                          <p className="text-xs text-slate-500 dark:text-slate-400">{describeContents(item)}</p>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-400">{item.ownerName}</td>
+                    <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-400">
+                      <p>{formatDate(item.deletedAt)}</p>
+                      {item.deletedByName && (
+                        <p className="text-xs text-slate-500 dark:text-slate-400">da {item.deletedByName}</p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-400">{formatDate(item.purgeAt)}</td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center justify-end gap-2">
+                        <button
+                          onClick={() => handleRestore(item)}
+                          disabled={busyId === item.id}
+                          className="flex items-center gap-2 px-3 py-1.5 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded-lg disabled:opacity-50"
+                        >
+                          {busyId === item.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                          Ripristina
+                        </button>
+                        {isAdmin && (
+                          <button
+                            onClick={() => handlePurge(item)}
+                            disabled={busyId === item.id}
+                            title="Elimina definitivamente"
+                            className="p-1.5 border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg disabled:opacity-50"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrashPage;
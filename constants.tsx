@@ -17,7 +17,11 @@ import {
   XCircle,
   FileText,
   Shield,
-  CreditCard
+  CreditCard,
+  Calendar,
+  Mail,
+  History,
+  Trash2
 } from 'lucide-react';
 
 export const ICONS = {
@@ -40,6 +44,10 @@ export const ICONS = {
   Admin: <Shield size={20} />,
   Billing: <CreditCard size={20} />,
   User: <User size={20} />,
+  Calendar: <Calendar size={20} />,
+  Mail: <Mail size={20} />,
+  History: <History size={20} />,
+  Trash: <Trash2 size={20} />,
 };
 
 // Colori per ApprovalStatus (flusso di approvazione)
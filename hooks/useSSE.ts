@@ -14,6 +14,7 @@ export type SSEEventType =
   | 'okr_activated'
   | 'okr_updated'
   | 'okr_deleted'
+  | 'comment_mention'
   | 'refresh_notifications';
 
 export interface SSENotification {
@@ -23,6 +24,7 @@ export interface SSENotification {
     title?: string;
     comment?: string;
     ownerName?: string;
+    authorName?: string;
     timestamp: string;
   };
 }
@@ -40,6 +42,8 @@ export function useSSE(options: UseSSEOptions = {}) {
 
   const eventSourceRef = useRef<EventSource | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Id of the last received event, sent back on reconnect so the server replays what we missed
+  const lastEventIdRef = useRef<string | null>(null);
   const [isConnected, setIsConnected] = useState(false);
 
   // Store callbacks in refs to avoid re-creating connection on every render
@@ -68,7 +72,10 @@ export function useSSE(options: UseSSEOptions = {}) {
         eventSourceRef.current.close();
       }
 
-      const url = `${API_BASE_URL}/notifications/stream?token=${encodeURIComponent(token)}`;
+      const replayParam = lastEventIdRef.current
+        ? `&lastEventId=${encodeURIComponent(lastEventIdRef.current)}`
+        : '';
+      const url = `${API_BASE_URL}/notifications/stream?token=${encodeURIComponent(token)}${replayParam}`;
 
       try {
         const eventSource = new EventSource(url);
@@ -101,7 +108,11 @@ export function useSSE(options: UseSSEOptions = {}) {
 
         const handleEvent = (type: SSEEventType) => (event: Event) => {
           try {
-            const data = JSON.parse((event as MessageEvent).data);
+            const message = event as MessageEvent;
+            if (message.lastEventId) {
+              lastEventIdRef.current = message.lastEventId;
+            }
+            const data = JSON.parse(message.data);
             const notification: SSENotification = { type, data };
             console.log('[SSE] Notification received:', type, data);
             onNotificationRef.current?.(notification);
@@ -116,6 +127,7 @@ export function useSSE(options: UseSSEOptions = {}) {
         eventSource.addEventListener('okr_activated', handleEvent('okr_activated'));
         eventSource.addEventListener('okr_updated', handleEvent('okr_updated'));
         eventSource.addEventListener('okr_deleted', handleEvent('okr_deleted'));
+        eventSource.addEventListener('comment_mention', handleEvent('comment_mention'));
         eventSource.addEventListener('refresh_notifications', handleEvent('refresh_notifications'));
 
       } catch (error) {
@@ -0,0 +1,168 @@
+/**
+ * Access Middleware - Tenant isolation for resource ids in route paths and
+ * request bodies
+ *
+ * Path parameters are checked with router.param, so the check runs for every
+ * route using the parameter before any route middleware or handler. Ids that
+ * do not exist or belong to another company get the same 404, so other
+ * tenants' ids cannot be probed. Ids in request bodies get a 400 instead.
+ */
+
+// Owning company (and owner) of each resource type.
+// The main table is always aliased "e" and looked up by e.id.
+const RESOURCE_QUERIES = {
+  objective: `
+    SELECT COALESCE(ow.company_id, ow.id) as company_id, e.owner_id
+    FROM objectives e
+    JOIN users ow ON e.owner_id = ow.id`,
+  key_result: `
+    SELECT COALESCE(ow.company_id, ow.id) as company_id, o.owner_id
+    FROM key_results e
+    JOIN objectives o ON e.objective_id = o.id
+    JOIN users ow ON o.owner_id = ow.id`,
+  comment: `
+    SELECT e.company_id, e.author_id as owner_id
+    FROM comments e`,
+  contributor: `
+    SELECT COALESCE(ow.company_id, ow.id) as company_id, o.owner_id
+    FROM objective_contributors e
+    JOIN objectives o ON e.objective_id = o.id
+    JOIN users ow ON o.owner_id = ow.id`,
+  period: `
+    SELECT e.company_id, NULL::uuid as owner_id
+    FROM periods e`,
+  template: `
+    SELECT e.company_id, e.created_by as owner_id
+    FROM okr_templates e`,
+  team: `
+    SELECT COALESCE(ow.company_id, ow.id) as company_id, e.owner_id
+    FROM teams e
+    JOIN users ow ON e.owner_id = ow.id`,
+  team_member: `
+    SELECT COALESCE(ow.company_id, ow.id) as company_id, e.user_id as owner_id
+    FROM team_members e
+    JOIN teams t ON e.team_id = t.id
+    JOIN users ow ON t.owner_id = ow.id`,
+  invitation: `
+    SELECT COALESCE(ow.company_id, ow.id) as company_id, e.invited_by as owner_id
+    FROM team_invitations e
+    JOIN teams t ON e.team_id = t.id
+    JOIN users ow ON t.owner_id = ow.id`,
+  user: `
+    SELECT COALESCE(e.company_id, e.id) as company_id, e.id as owner_id
+    FROM users e`
+};
+
+// Same messages the handlers use for missing resources
+const NOT_FOUND_ERRORS = {
+  objective: 'Objective not found',
+  key_result: 'Key result not found',
+  comment: 'Comment not found',
+  contributor: 'Contributor not found',
+  period: 'Period not found',
+  template: 'Template not found',
+  team: 'Team not found',
+  team_member: 'Member not found',
+  invitation: 'Invitation not found',
+  user: 'User not found'
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const RESOURCE_TYPES = Object.keys(RESOURCE_QUERIES);
+
+/**
+ * Owning company and owner of a resource, or null when it does not exist
+ * (deleted objectives and key results included: the trash routes need them).
+ */
+export async function resolveResource(db, type, id) {
+  if (!RESOURCE_QUERIES[type]) {
+    throw new Error(`Unknown resource type: ${type}`);
+  }
+  if (!UUID_PATTERN.test(id)) return null;
+
+  const { rows } = await db.query(`${RESOURCE_QUERIES[type]} WHERE e.id = $1`, [id]);
+  if (rows.length === 0) return null;
+  return { companyId: rows[0].company_id, ownerId: rows[0].owner_id };
+}
+
+// Resource type of a parameter: a single type, or one per path segment before it
+function getResourceType(types, req, name) {
+  if (typeof types === 'string') return types;
+  const segments = (req.route?.path || '').split('/');
+  const index = segments.indexOf(`:${name}`);
+  return index > 0 ? types[segments[index - 1]] : undefined;
+}
+
+/**
+ * Create the router.param handler factory.
+ *
+ * authorize(types) checks that the parameter value is a resource of the
+ * caller's company. types is a resource type, or a map from the path segment
+ * before the parameter to a type (e.g. { objectives: 'objective' }) for
+ * parameters shared by several resources. The resolved resource is kept in
+ * req.resources[name] as { type, id, companyId, ownerId, isOwner } for the
+ * handlers' own permission checks.
+ */
+export function createAccessMiddleware(pool) {
+  return function authorize(types) {
+    return async (req, res, next, value, name) => {
+      const type = getResourceType(types, req, name);
+      if (!type) {
+        // A route whose parameter has no resource type must not skip the check
+        return next(new Error(`No resource type for :${name} in ${req.route?.path}`));
+      }
+
+      try {
+        const resource = await resolveResource(pool, type, value);
+        const companyId = req.user ? (req.user.company_id || req.user.id) : null;
+        if (!resource || !companyId || resource.companyId !== companyId) {
+          return res.status(404).json({ error: NOT_FOUND_ERRORS[type] });
+        }
+
+        req.resources = {
+          ...req.resources,
+          [name]: { type, id: value, ...resource, isOwner: resource.ownerId === req.user.id }
+        };
+        next();
+      } catch (error) {
+        next(error);
+      }
+    };
+  };
+}
+
+/**
+ * Create the route middleware factory for ids in request bodies.
+ *
+ * authorizeBody(fields) checks that every id set in the listed body fields is
+ * a resource of the caller's company. fields maps a body field to its
+ * resource type (e.g. { ownerId: 'user' }); a field may hold one id or an
+ * array of ids. Unset fields are skipped: the handlers decide if they are
+ * required.
+ */
+export function createBodyAccessMiddleware(pool) {
+  return function authorizeBody(fields) {
+    return async (req, res, next) => {
+      try {
+        const companyId = req.user ? (req.user.company_id || req.user.id) : null;
+        for (const [field, type] of Object.entries(fields)) {
+          const value = req.body?.[field];
+          if (value === undefined || value === null || value === '') continue;
+
+          for (const id of Array.isArray(value) ? value : [value]) {
+            const resource = typeof id === 'string' ? await resolveResource(pool, type, id) : null;
+            if (!resource || !companyId || resource.companyId !== companyId) {
+              return res.status(400).json({ error: NOT_FOUND_ERRORS[type] });
+            }
+          }
+        }
+        next();
+      } catch (error) {
+        next(error);
+      }
+    };
+  };
+}
+
+export default createAccessMiddleware;
@@ -0,0 +1,312 @@
+/**
+ * Tenant isolation tests - every route with a resource id in its path must
+ * answer 404 for resources of another company, before any handler runs.
+ *
+ * Runs against the real OKR and team routers with a fake pool: the access
+ * lookups resolve ids from the fixtures below, every other query is recorded
+ * as a handler query.
+ */
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { createOKRRoutes } from '../okr/okr.routes.js';
+import { createTeamRoutes } from '../team/team.routes.js';
+import { createAccessMiddleware } from './access.middleware.js';
+import { createContractValidator } from '../contract/validation.js';
+
+const COMPANY_A = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+const COMPANY_B = 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb';
+const USER_A = 'a0000000-0000-4000-8000-000000000001';
+const USER_A2 = 'a0000000-0000-4000-8000-000000000002';
+
+// Ids of resources of the caller's company and of another company.
+// The fake lookups resolve them for any resource type.
+const OWN_ID = '11111111-1111-4111-8111-111111111111';
+const FOREIGN_ID = '22222222-2222-4222-8222-222222222222';
+const MISSING_ID = '33333333-3333-4333-8333-333333333333';
+// A resource of the caller's company owned by a colleague
+const COLLEAGUE_ID = '44444444-4444-4444-8444-444444444444';
+const RESOURCE_COMPANIES = { [OWN_ID]: COMPANY_A, [FOREIGN_ID]: COMPANY_B, [COLLEAGUE_ID]: COMPANY_A };
+const RESOURCE_OWNERS = { [COLLEAGUE_ID]: USER_A2 };
+
+// Parameters that are not resource ids
+const UNCHECKED_PARAMS = { teams: ['token'], okr: [] };
+
+function createFakePool() {
+  const state = { lookups: [], handlerQueries: [] };
+
+  const query = async (sql, params = []) => {
+    const lookup = sql.match(/FROM (\w+) e\b[\s\S]*WHERE e\.id = \$1/);
+    if (lookup) {
+      state.lookups.push({ table: lookup[1], id: params[0] });
+      const companyId = RESOURCE_COMPANIES[params[0]];
+      return companyId
+        ? { rows: [{ company_id: companyId, owner_id: RESOURCE_OWNERS[params[0]] || USER_A }], rowCount: 1 }
+        : { rows: [], rowCount: 0 };
+    }
+    state.handlerQueries.push(sql);
+    return { rows: [], rowCount: 0 };
+  };
+
+  return {
+    state,
+    query,
+    connect: async () => ({ query, release: () => {} })
+  };
+}
+
+const ADMIN_A = { id: USER_A, company_id: COMPANY_A, role: 'admin', name: 'Admin A', email: 'admin@a.test' };
+
+function createApp(pool, user = ADMIN_A) {
+  const passThrough = (req, res, next) => next();
+  const config = {
+    pool,
+    authMiddleware: (req, res, next) => {
+      req.user = { ...user };
+      next();
+    },
+    requireAdmin: passThrough,
+    audit: () => passThrough,
+    authorize: createAccessMiddleware(pool),
+    validate: createContractValidator(),
+    emailService: null,
+    frontendUrl: 'http://localhost:3000'
+  };
+
+  const routers = {
+    okr: createOKRRoutes(config),
+    teams: createTeamRoutes(config)
+  };
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/okr', routers.okr);
+  app.use('/api/teams', routers.teams);
+  app.use((error, req, res, next) => {
+    res.status(500).json({ error: error.message });
+  });
+  return { app, routers };
+}
+
+// Routes of a router with at least one path parameter
+function getParamRoutes(router) {
+  const routes = [];
+  for (const layer of router.stack) {
+    if (!layer.route) continue;
+    const params = [...layer.route.path.matchAll(/:(\w+)/g)].map(match => match[1]);
+    if (params.length === 0) continue;
+    for (const method of Object.keys(layer.route.methods)) {
+      routes.push({ method: method.toUpperCase(), path: layer.route.path, params });
+    }
+  }
+  return routes;
+}
+
+function buildPath(path, values) {
+  return path.replace(/:(\w+)/g, (match, name) => values[name] ?? OWN_ID);
+}
+
+describe('tenant isolation', () => {
+  let pool;
+  let routers;
+  let server;
+  let baseUrl;
+
+  before(async () => {
+    pool = createFakePool();
+    const created = createApp(pool);
+    routers = created.routers;
+    server = created.app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  after(() => new Promise(resolve => server.close(resolve)));
+
+  beforeEach(() => {
+    pool.state.lookups = [];
+    pool.state.handlerQueries = [];
+  });
+
+  const request = async (method, path, body) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: method === 'GET' ? undefined : JSON.stringify(body || {})
+    });
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : null };
+  };
+
+  it('checks every resource parameter used in the routes', () => {
+    for (const [mount, router] of Object.entries(routers)) {
+      for (const route of getParamRoutes(router)) {
+        for (const param of route.params) {
+          if (UNCHECKED_PARAMS[mount].includes(param)) continue;
+          assert.ok(router.params[param]?.length > 0, `:${param} of ${route.method} /api/${mount}${route.path} is not checked`);
+        }
+      }
+    }
+  });
+
+  for (const mount of ['okr', 'teams']) {
+    it(`answers 404 for another company's ids on every /api/${mount} route`, async () => {
+      for (const route of getParamRoutes(routers[mount])) {
+        for (const param of route.params) {
+          if (UNCHECKED_PARAMS[mount].includes(param)) continue;
+
+          pool.state.handlerQueries = [];
+          const path = `/api/${mount}${buildPath(route.path, { [param]: FOREIGN_ID })}`;
+          const { status, body } = await request(route.method, path);
+
+          assert.equal(status, 404, `${route.method} ${path} (:${param}) returned ${status}`);
+          assert.match(body.error, /not found/, `${route.method} ${path}`);
+          assert.deepEqual(pool.state.handlerQueries, [], `${route.method} ${path} ran handler queries`);
+        }
+      }
+    });
+  }
+
+  it('answers 404 for ids that do not exist', async () => {
+    const { status, body } = await request('GET', `/api/okr/objectives/${MISSING_ID}`);
+    assert.equal(status, 404);
+    assert.equal(body.error, 'Objective not found');
+    assert.deepEqual(pool.state.handlerQueries, []);
+  });
+
+  it('answers 404 for malformed ids without querying', async () => {
+    const { status } = await request('GET', '/api/okr/objectives/not-a-uuid/history');
+    assert.equal(status, 404);
+    assert.deepEqual(pool.state.lookups, []);
+    assert.deepEqual(pool.state.handlerQueries, []);
+  });
+
+  // The routes that used to look resources up by id only
+  const SINGLE_RESOURCE_ROUTES = [
+    { method: 'GET', path: '/api/okr/objectives/:id', table: 'objectives', error: 'Objective not found' },
+    { method: 'GET', path: '/api/okr/objectives/:id/history', table: 'objectives', error: 'Objective not found' },
+    { method: 'GET', path: '/api/okr/objectives/:id/children', table: 'objectives', error: 'Objective not found' },
+    { method: 'GET', path: '/api/okr/objectives/:id/contributors', table: 'objectives', error: 'Objective not found' },
+    { method: 'PUT', path: '/api/okr/key-results/:id', table: 'key_results', error: 'Key result not found', body: { currentValue: 5 } }
+  ];
+
+  for (const route of SINGLE_RESOURCE_ROUTES) {
+    it(`${route.method} ${route.path} resolves the ${route.table} company`, async () => {
+      const foreign = await request(route.method, route.path.replace(':id', FOREIGN_ID), route.body);
+      assert.equal(foreign.status, 404);
+      assert.equal(foreign.body.error, route.error);
+      assert.deepEqual(pool.state.lookups, [{ table: route.table, id: FOREIGN_ID }]);
+      assert.deepEqual(pool.state.handlerQueries, []);
+
+      pool.state.lookups = [];
+      await request(route.method, route.path.replace(':id', OWN_ID), route.body);
+      assert.deepEqual(pool.state.lookups, [{ table: route.table, id: OWN_ID }]);
+      assert.ok(pool.state.handlerQueries.length > 0, 'own company request did not reach the handler');
+    });
+  }
+
+  it('rejects clones assigned to a user or team of another company', async () => {
+    const owner = await request('POST', `/api/okr/objectives/${OWN_ID}/clone`, { ownerId: FOREIGN_ID });
+    assert.equal(owner.status, 400);
+    assert.equal(owner.body.error, 'User not found');
+
+    const team = await request('POST', `/api/okr/objectives/${OWN_ID}/clone`, { teamId: FOREIGN_ID });
+    assert.equal(team.status, 400);
+    assert.equal(team.body.error, 'Team not found');
+
+    const missing = await request('POST', `/api/okr/objectives/${OWN_ID}/clone`, { teamId: MISSING_ID });
+    assert.equal(missing.status, 400);
+    assert.deepEqual(pool.state.handlerQueries, []);
+  });
+
+  // Routes taking resource ids in the body, with a valid body for each
+  const BODY_ID_ROUTES = [
+    { method: 'POST', path: '/api/okr/objectives', body: { title: 'OKR', level: 'team', period: 'Q1 2026' }, fields: { parentKeyResultId: 'Key result not found', parentObjectiveId: 'Objective not found', teamId: 'Team not found', ownerId: 'User not found' } },
+    { method: 'PUT', path: `/api/okr/objectives/${OWN_ID}`, body: { title: 'OKR' }, fields: { parentObjectiveId: 'Objective not found', teamId: 'Team not found', ownerId: 'User not found' } },
+    { method: 'POST', path: `/api/okr/objectives/${OWN_ID}/contributors`, body: {}, fields: { userId: 'User not found' } },
+    { method: 'POST', path: `/api/okr/admin/users/${OWN_ID}/reassign-okrs`, body: {}, fields: { targetUserId: 'User not found' } },
+    { method: 'POST', path: '/api/teams', body: { name: 'Team' }, fields: { leadId: 'User not found', parentTeamId: 'Team not found' } },
+    { method: 'PUT', path: `/api/teams/${OWN_ID}`, body: { name: 'Team' }, fields: { parentTeamId: 'Team not found' } },
+    { method: 'POST', path: `/api/teams/${OWN_ID}/members`, body: {}, fields: { userId: 'User not found' } }
+  ];
+
+  for (const route of BODY_ID_ROUTES) {
+    it(`${route.method} ${route.path} answers 400 for another company's ids in the body`, async () => {
+      for (const [field, error] of Object.entries(route.fields)) {
+        for (const value of [FOREIGN_ID, MISSING_ID]) {
+          pool.state.handlerQueries = [];
+          const { status, body } = await request(route.method, route.path, { ...route.body, [field]: value });
+          assert.equal(status, 400, `${field}: ${value} returned ${status}`);
+          assert.equal(body.error, error);
+          assert.deepEqual(pool.state.handlerQueries, [], `${field}: ${value} ran handler queries`);
+        }
+      }
+    });
+  }
+
+  it('lets ids of the caller company in the body through', async () => {
+    await request('POST', `/api/okr/objectives/${OWN_ID}/contributors`, { userId: COLLEAGUE_ID });
+    assert.ok(pool.state.lookups.some(lookup => lookup.table === 'users' && lookup.id === COLLEAGUE_ID));
+    assert.ok(pool.state.handlerQueries.length > 0, 'own company request did not reach the handler');
+  });
+
+  it('checks nested resources against the caller company too', async () => {
+    const contributor = await request('DELETE', `/api/okr/objectives/${OWN_ID}/contributors/${FOREIGN_ID}`);
+    assert.equal(contributor.status, 404);
+    assert.equal(contributor.body.error, 'Contributor not found');
+
+    const member = await request('PUT', `/api/teams/${OWN_ID}/members/${FOREIGN_ID}`, { role: 'member' });
+    assert.equal(member.status, 404);
+    assert.equal(member.body.error, 'Member not found');
+    assert.deepEqual(pool.state.handlerQueries, []);
+  });
+});
+
+describe('key result permissions', () => {
+  let pool;
+  let server;
+  let baseUrl;
+
+  before(async () => {
+    pool = createFakePool();
+    // A plain user of company A: neither admin nor owner of COLLEAGUE_ID
+    server = createApp(pool, { ...ADMIN_A, role: 'user' }).app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  after(() => new Promise(resolve => server.close(resolve)));
+
+  beforeEach(() => {
+    pool.state.handlerQueries = [];
+  });
+
+  const request = async (method, path, body) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body || {})
+    });
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : null };
+  };
+
+  it('answers 403 to same-company users who do not own or contribute to the key result', async () => {
+    for (const [method, path, body] of [
+      ['PUT', `/api/okr/key-results/${COLLEAGUE_ID}`, { currentValue: 5 }],
+      ['DELETE', `/api/okr/key-results/${COLLEAGUE_ID}`],
+      ['POST', `/api/okr/key-results/${COLLEAGUE_ID}/check-ins`, { newValue: 5, confidence: 'high' }]
+    ]) {
+      const { status, body: response } = await request(method, path, body);
+      assert.equal(status, 403, `${method} ${path}`);
+      assert.equal(response.error, 'Not authorized');
+      assert.ok(!pool.state.handlerQueries.some(sql => /UPDATE key_results|INSERT INTO key_result_checkins/.test(sql)), `${method} ${path} wrote`);
+    }
+  });
+
+  it('lets the owner of the objective update its key results', async () => {
+    await request('PUT', `/api/okr/key-results/${OWN_ID}`, { currentValue: 5 });
+    assert.ok(pool.state.handlerQueries.length > 0);
+    assert.ok(!pool.state.handlerQueries.some(sql => sql.includes('objective_contributors')), 'owner went through the contributor lookup');
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Audit Middleware - Records mutating routes in the company audit log
+ */
+import { loadAuditSnapshot, diffSnapshots, recordAuditEvent } from './audit.service.js';
+
+/**
+ * Create the per-route audit middleware factory.
+ *
+ * audit(action, options) snapshots the entity before the handler runs and,
+ * once a successful response has been sent, snapshots it again and records
+ * the diff. Options:
+ * - entity: entity type from SNAPSHOT_QUERIES (omit for actions without one)
+ * - id(req, body): entity id; defaults to req.params.id, body is the JSON
+ *   response (so creations can return the new id)
+ * - by: lookup column when the id is not the primary key (e.g. 'token')
+ * - metadata(req, body): extra details to store with the entry
+ *
+ * Failures are logged and never affect the response.
+ */
+export function createAuditMiddleware(pool) {
+  return function audit(action, options = {}) {
+    const { entity, by = 'id', metadata } = options;
+    const resolveId = options.id || ((req) => req.params.id);
+    const entityType = entity || action.split('.')[0];
+
+    return async (req, res, next) => {
+      let before = null;
+      const beforeId = resolveId(req, undefined);
+      if (entity && beforeId) {
+        try {
+          before = await loadAuditSnapshot(pool, entity, beforeId, by);
+        } catch (error) {
+          console.error(`[Audit] Failed to load ${entity} before ${action}:`, error.message);
+        }
+      }
+
+      // Keep the JSON body: it carries the id of created entities
+      let responseBody;
+      const json = res.json.bind(res);
+      res.json = (body) => {
+        responseBody = body;
+        return json(body);
+      };
+
+      res.on('finish', () => {
+        if (res.statusCode >= 400) return;
+
+        (async () => {
+          const entityId = resolveId(req, responseBody) || beforeId;
+          const after = entity && entityId ? await loadAuditSnapshot(pool, entity, entityId, by) : null;
+          const snapshot = after || before;
+          const companyId = req.user ? (req.user.company_id || req.user.id) : snapshot?.company_id;
+          if (!companyId) return;
+
+          await recordAuditEvent(pool, {
+            companyId,
+            actorId: req.user?.id || null,
+            actorName: req.user?.name || req.user?.email || null,
+            action,
+            entityType,
+            entityId: snapshot?.id || null,
+            entityLabel: snapshot?.label || null,
+            changes: entity ? diffSnapshots(before, after) : null,
+            metadata: metadata ? metadata(req, responseBody) : null,
+            ipAddress: req.ip || req.socket?.remoteAddress || null
+          });
+        })().catch(error => {
+          console.error(`[Audit] Failed to record ${action}:`, error.message);
+        });
+      });
+
+      next();
+    };
+  };
+}
+
+export default createAuditMiddleware;
@@ -0,0 +1,71 @@
+/**
+ * Audit Routes - Company audit log (company admins) and audit hooks for user management
+ */
+import { Router } from 'express';
+import { getAuditLog, exportAuditLogCsv } from './audit.service.js';
+
+function getFilters(query) {
+  const { q, entityType, action, actorId, from, to, limit, offset } = query;
+  return { q, entityType, action, actorId, from, to, limit, offset };
+}
+
+export function createAuditRoutes(config) {
+  const router = Router();
+  const { pool, authMiddleware } = config;
+
+  // Company admins and the company account itself (which manages users)
+  router.use(authMiddleware);
+  router.use((req, res, next) => {
+    if (!['admin', 'azienda'].includes(req.user?.role)) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+    next();
+  });
+
+  // Search the audit log (?q=&entityType=&action=&actorId=&from=&to=&limit=&offset=)
+  router.get('/', async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const result = await getAuditLog(pool, companyId, getFilters(req.query));
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Export the filtered audit log as CSV
+  router.get('/export', async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const csv = await exportAuditLogCsv(pool, companyId, getFilters(req.query));
+      const date = new Date().toISOString().slice(0, 10);
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-log-${date}.csv"`);
+      res.send(csv);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
+
+/**
+ * Audit hooks for the user management routes, which live in backend-core.
+ * Mount before them on the same path: each hook only records and passes the
+ * request on (authentication runs again in the users router).
+ */
+export function createUserAuditRoutes(config) {
+  const router = Router();
+  const { authMiddleware, audit } = config;
+
+  router.post('/', authMiddleware, audit('user.create', { entity: 'user', id: (req, body) => body?.id }));
+  router.put('/:id', authMiddleware, audit('user.update', { entity: 'user' }));
+  router.delete('/:id', authMiddleware, audit('user.delete', { entity: 'user' }));
+  router.post('/:id/reset-password', authMiddleware, audit('user.reset_password', { entity: 'user' }));
+  router.post('/:id/toggle-subscription', authMiddleware, audit('user.toggle_subscription', { entity: 'user' }));
+
+  return router;
+}
+
+export default createAuditRoutes;
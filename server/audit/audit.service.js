@@ -0,0 +1,259 @@
+/**
+ * Audit Service - Company-scoped log of mutating actions (actor, before/after diff, IP)
+ */
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const MAX_EXPORT_ROWS = 10000;
+
+// Snapshot of each audited entity: the fields worth diffing plus id, label and owning company.
+// The main table is always aliased "e" so the lookup column can be appended to the query.
+const SNAPSHOT_QUERIES = {
+  objective: `
+    SELECT e.id, e.title as label, e.title, e.description, e.owner_id, ow.name as owner_name,
+           e.level, e.period, e.due_date, e.team_id, e.parent_objective_id, e.parent_key_result_id,
+           e.weight, e.status, e.approval_status, e.progress, e.deleted_at,
+           COALESCE(ow.company_id, ow.id) as company_id
+    FROM objectives e
+    JOIN users ow ON e.owner_id = ow.id`,
+  key_result: `
+    SELECT e.id, e.description as label, e.description, e.metric_type, e.direction,
+           e.start_value, e.target_value, e.target_max_value, e.current_value, e.unit,
+           e.weight, e.status, e.confidence, e.deleted_at, o.title as objective_title,
+           COALESCE(ow.company_id, ow.id) as company_id
+    FROM key_results e
+    JOIN objectives o ON e.objective_id = o.id
+    JOIN users ow ON o.owner_id = ow.id`,
+  comment: `
+    SELECT e.id, LEFT(e.body, 100) as label, e.body, e.objective_id, e.key_result_id, e.company_id
+    FROM comments e`,
+  contributor: `
+    SELECT e.id, u.name || ' · ' || o.title as label, e.objective_id, e.user_id, u.name as user_name, e.role,
+           COALESCE(ow.company_id, ow.id) as company_id
+    FROM objective_contributors e
+    JOIN users u ON e.user_id = u.id
+    JOIN objectives o ON e.objective_id = o.id
+    JOIN users ow ON o.owner_id = ow.id`,
+  period: `
+    SELECT e.id, e.name as label, e.name, e.start_date, e.end_date, e.status, e.company_id
+    FROM periods e`,
+  template: `
+    SELECT e.id, e.title as label, e.title, e.description, e.level, e.key_results, e.company_id
+    FROM okr_templates e`,
+  team: `
+    SELECT e.id, e.name as label, e.name, e.description, e.type, e.parent_team_id, e.owner_id,
+           ow.name as owner_name, COALESCE(ow.company_id, ow.id) as company_id
+    FROM teams e
+    JOIN users ow ON e.owner_id = ow.id`,
+  team_member: `
+    SELECT e.id, u.name || ' · ' || t.name as label, e.team_id, t.name as team_name,
+           e.user_id, u.name as user_name, e.role, COALESCE(ow.company_id, ow.id) as company_id
+    FROM team_members e
+    JOIN users u ON e.user_id = u.id
+    JOIN teams t ON e.team_id = t.id
+    JOIN users ow ON t.owner_id = ow.id`,
+  invitation: `
+    SELECT e.id, e.email as label, e.email, e.invitee_name, e.role, e.status, e.expires_at,
+           e.team_id, t.name as team_name, COALESCE(ow.company_id, ow.id) as company_id
+    FROM team_invitations e
+    JOIN teams t ON e.team_id = t.id
+    JOIN users ow ON t.owner_id = ow.id`,
+  invitation_settings: `
+    SELECT e.company_id as id, 'Impostazioni inviti' as label, e.invitation_expiry_days, e.company_id
+    FROM company_settings e`,
+  trash_settings: `
+    SELECT e.company_id as id, 'Impostazioni cestino' as label, e.trash_retention_days, e.company_id
+    FROM company_settings e`,
+  api_token: `
+    SELECT e.id, e.name as label, e.name, e.token_prefix, e.scopes, e.expires_at, e.revoked_at,
+           COALESCE(u.company_id, u.id) as company_id
+    FROM api_tokens e
+    JOIN users u ON e.user_id = u.id`,
+  user: `
+    SELECT e.id, e.email as label, e.name, e.email, e.role, COALESCE(e.company_id, e.id) as company_id
+    FROM users e`
+};
+
+// Snapshot columns that identify the row rather than describe it
+const SNAPSHOT_META_FIELDS = ['id', 'label', 'company_id'];
+
+export const AUDIT_ENTITY_TYPES = Object.keys(SNAPSHOT_QUERIES);
+
+/**
+ * Load the audited fields of an entity, looked up by id (or by another
+ * unique column such as an invitation token). Returns null when missing.
+ */
+export async function loadAuditSnapshot(db, entityType, value, column = 'id') {
+  const query = SNAPSHOT_QUERIES[entityType];
+  if (!query || value === undefined || value === null) return null;
+
+  const { rows } = await db.query(`${query} WHERE e.${column} = $1`, [value]);
+  return rows[0] || null;
+}
+
+function normalizeValue(value) {
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined) return null;
+  return value;
+}
+
+/**
+ * Field-by-field diff of two snapshots: { field: { before, after } }.
+ * A missing snapshot (creation or deletion) counts as every field being null.
+ */
+export function diffSnapshots(before, after) {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes = {};
+
+  for (const field of fields) {
+    if (SNAPSHOT_META_FIELDS.includes(field)) continue;
+    const previous = normalizeValue(before?.[field]);
+    const next = normalizeValue(after?.[field]);
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[field] = { before: previous, after: next };
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+export async function recordAuditEvent(db, event) {
+  const {
+    companyId, actorId = null, actorName = null, action, entityType,
+    entityId = null, entityLabel = null, changes = null, metadata = null, ipAddress = null
+  } = event;
+
+  await db.query(`
+    INSERT INTO audit_log (company_id, actor_id, actor_name, action, entity_type, entity_id, entity_label, changes, metadata, ip_address)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+  `, [
+    companyId,
+    actorId,
+    actorName,
+    action,
+    entityType,
+    entityId,
+    entityLabel ? String(entityLabel).slice(0, 500) : null,
+    changes ? JSON.stringify(changes) : null,
+    metadata ? JSON.stringify(metadata) : null,
+    ipAddress
+  ]);
+}
+
+function transformAuditEntry(row) {
+  return {
+    id: row.id,
+    actorId: row.actor_id,
+    actorName: row.actor_name,
+    action: row.action,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    entityLabel: row.entity_label,
+    changes: row.changes,
+    metadata: row.metadata,
+    ipAddress: row.ip_address,
+    createdAt: row.created_at
+  };
+}
+
+// WHERE clause shared by the list and the CSV export
+function buildAuditFilters(companyId, filters) {
+  const { q, entityType, action, actorId, from, to } = filters;
+  const conditions = ['company_id = $1'];
+  const params = [companyId];
+
+  if (q) {
+    params.push(`%${q}%`);
+    conditions.push(`(actor_name ILIKE $${params.length} OR entity_label ILIKE $${params.length} OR action ILIKE $${params.length})`);
+  }
+  if (entityType) {
+    params.push(entityType);
+    conditions.push(`entity_type = $${params.length}`);
+  }
+  if (action) {
+    params.push(action);
+    conditions.push(`action = $${params.length}`);
+  }
+  if (actorId) {
+    params.push(actorId);
+    conditions.push(`actor_id = $${params.length}`);
+  }
+  if (from) {
+    params.push(from);
+    conditions.push(`created_at >= $${params.length}::date`);
+  }
+  if (to) {
+    // Inclusive end date
+    params.push(to);
+    conditions.push(`created_at < $${params.length}::date + INTERVAL '1 day'`);
+  }
+
+  return { where: conditions.join(' AND '), params };
+}
+
+/**
+ * Page of the company audit log, newest first, with the total for the filters
+ */
+export async function getAuditLog(pool, companyId, filters = {}) {
+  const limit = Math.min(Math.max(parseInt(filters.limit) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const offset = Math.max(parseInt(filters.offset) || 0, 0);
+  const { where, params } = buildAuditFilters(companyId, filters);
+
+  const { rows } = await pool.query(`
+    SELECT * FROM audit_log
+    WHERE ${where}
+    ORDER BY created_at DESC
+    LIMIT ${limit} OFFSET ${offset}
+  `, params);
+
+  const { rows: [count] } = await pool.query(
+    `SELECT COUNT(*) as total FROM audit_log WHERE ${where}`,
+    params
+  );
+
+  return {
+    entries: rows.map(transformAuditEntry),
+    total: parseInt(count.total) || 0
+  };
+}
+
+function csvCell(value) {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatChanges(changes) {
+  if (!changes) return '';
+  return Object.entries(changes)
+    .map(([field, { before, after }]) => `${field}: ${JSON.stringify(before)} -> ${JSON.stringify(after)}`)
+    .join('; ');
+}
+
+/**
+ * CSV export of the audit log for the given filters (newest first, capped at MAX_EXPORT_ROWS)
+ */
+export async function exportAuditLogCsv(pool, companyId, filters = {}) {
+  const { where, params } = buildAuditFilters(companyId, filters);
+
+  const { rows } = await pool.query(`
+    SELECT * FROM audit_log
+    WHERE ${where}
+    ORDER BY created_at DESC
+    LIMIT ${MAX_EXPORT_ROWS}
+  `, params);
+
+  const header = ['timestamp', 'actor', 'action', 'entity_type', 'entity_id', 'entity', 'changes', 'details', 'ip'];
+  const lines = rows.map(row => [
+    new Date(row.created_at).toISOString(),
+    row.actor_name,
+    row.action,
+    row.entity_type,
+    row.entity_id,
+    row.entity_label,
+    formatChanges(row.changes),
+    row.metadata ? JSON.stringify(row.metadata) : '',
+    row.ip_address
+  ].map(csvCell).join(','));
+
+  return [header.join(','), ...lines].join('\n');
+}
@@ -0,0 +1,90 @@
+/**
+ * Client Types - TypeScript source for the contract definitions
+ *
+ * Objects become interfaces, as do allOf lists of definitions followed by an
+ * object (which extend the definitions); everything else is a type alias.
+ * Schema descriptions are kept as doc comments.
+ */
+import { definitions } from './contract.js';
+
+const HEADER = `// Generated by server/contract/generate.js from server/contract/contract.js.
+// Do not edit: change the contract and run \`npm run contract\`.
+`;
+
+function refName(schema) {
+  return schema.$ref.replace('#/definitions/', '');
+}
+
+// TypeScript type of a schema; wrap unions when used as array items
+function toType(schema, indent) {
+  if (schema.$ref) return refName(schema);
+  if (schema.anyOf) return schema.anyOf.map(option => toType(option, indent)).join(' | ');
+  if (schema.allOf) return schema.allOf.map(option => toType(option, indent)).join(' & ');
+  if (schema.enum) return schema.enum.map(value => `'${value}'`).join(' | ');
+
+  if (Array.isArray(schema.type)) {
+    return schema.type.map(type => toType({ ...schema, type }, indent)).join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      const items = toType(schema.items, indent);
+      return /[|&]/.test(items) ? `(${items})[]` : `${items}[]`;
+    }
+    case 'object':
+      return toObjectType(schema, indent);
+    default:
+      throw new Error(`Unsupported schema type: ${JSON.stringify(schema.type)}`);
+  }
+}
+
+function toObjectType(schema, indent) {
+  // Maps: keys from propertyNames (all optional), values from additionalProperties
+  if (!schema.properties && schema.additionalProperties) {
+    const value = toType(schema.additionalProperties, indent);
+    return schema.propertyNames
+      ? `Partial<Record<${toType(schema.propertyNames, indent)}, ${value}>>`
+      : `Record<string, ${value}>`;
+  }
+
+  const required = new Set(schema.required || []);
+  const lines = Object.entries(schema.properties || {}).map(([name, property]) => {
+    const comment = property.description ? `${indent}  /** ${property.description} */\n` : '';
+    const optional = required.has(name) ? '' : '?';
+    return `${comment}${indent}  ${name}${optional}: ${toType(property, `${indent}  `)};`;
+  });
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+// allOf of definitions plus an object: the definitions an interface can extend
+function getExtendedRefs(schema) {
+  if (!schema.allOf) return null;
+  const bases = schema.allOf.slice(0, -1);
+  const own = schema.allOf[schema.allOf.length - 1];
+  return bases.every(base => base.$ref) && own.type === 'object' && own.properties ? bases.map(refName) : null;
+}
+
+function toDeclaration(name, schema) {
+  const extended = getExtendedRefs(schema);
+  if (extended) {
+    return `export interface ${name} extends ${extended.join(', ')} ${toObjectType(schema.allOf[schema.allOf.length - 1], '')}`;
+  }
+  if (schema.type === 'object' && schema.properties) {
+    return `export interface ${name} ${toObjectType(schema, '')}`;
+  }
+  return `export type ${name} = ${toType(schema, '')};`;
+}
+
+export function generateClientTypes() {
+  const blocks = Object.entries(definitions).map(([name, schema]) => toDeclaration(name, schema));
+  return `${HEADER}\n${blocks.join('\n\n')}\n`;
+}
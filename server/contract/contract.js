@@ -0,0 +1,842 @@
+/**
+ * API Contract - Request and response shapes of the OKR API
+ *
+ * Single source for the route validation on the server (validation.js) and
+ * the client types in api/contract.generated.ts (written by generate.js).
+ * Shapes are JSON Schema; enum values must match the CHECK constraints of the
+ * migrations (contract.test.js).
+ *
+ * Covers every team (/api/teams) and API token (/api/tokens) route and the
+ * OKR routes (/api/okr) except cloning, progress history, the assignable
+ * users, the admin user routes and deleting objectives, key results,
+ * comments, periods and contributors. Not covered yet: notifications and the
+ * audit log, whose shapes are still declared by hand in api/client.ts.
+ */
+
+const ref = (name) => ({ $ref: `#/definitions/${name}` });
+const nullable = (schema) => (schema.$ref
+  ? { anyOf: [schema, { type: 'null' }] }
+  : { ...schema, type: [schema.type, 'null'] });
+const arrayOf = (items) => ({ type: 'array', items });
+const object = (properties, required = Object.keys(properties)) => ({ type: 'object', properties, required });
+
+const string = { type: 'string' };
+const number = { type: 'number' };
+const integer = { type: 'integer' };
+const boolean = { type: 'boolean' };
+// Ids are checked by the routes (unknown ids are 404), not by format.
+// Timestamps are ISO 8601, dates YYYY-MM-DD.
+const id = string;
+const timestamp = string;
+const date = string;
+
+export const definitions = {
+  // === ENUMS ===
+
+  OKRLevel: { type: 'string', enum: ['company', 'department', 'team', 'individual'] },
+  ProgressStatus: { type: 'string', enum: ['on-track', 'at-risk', 'off-track', 'completed', 'draft'] },
+  Confidence: { type: 'string', enum: ['high', 'medium', 'low'] },
+  MetricType: { type: 'string', enum: ['percentage', 'number', 'currency', 'boolean', 'milestone'] },
+  KeyResultDirection: { type: 'string', enum: ['increase', 'decrease', 'range'] },
+  ApprovalStatus: {
+    type: 'string',
+    enum: ['draft', 'pending_review', 'approved', 'active', 'paused', 'stopped', 'archived', 'closed', 'failed']
+  },
+  ApprovalAction: {
+    type: 'string',
+    enum: ['submitted', 'approved', 'rejected', 'returned', 'activated', 'paused', 'resumed', 'stopped', 'archived', 'reverted_to_draft', 'closed', 'failed', 'reopened']
+  },
+  ContributorRole: { type: 'string', enum: ['contributor', 'reviewer'] },
+  PeriodStatus: { type: 'string', enum: ['open', 'closed'] },
+  RiskLevel: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] },
+
+  // === OBJECTIVES AND KEY RESULTS ===
+
+  HealthMetrics: object({
+    paceRatio: { ...number, description: 'actual progress / expected progress (1.0 = on pace)' },
+    expectedProgress: { ...number, description: 'where we should be based on time elapsed' },
+    progressGap: { ...number, description: 'expected - actual (positive = behind)' },
+    daysRemaining: nullable(number),
+    daysElapsed: number,
+    totalDays: number,
+    percentTimeElapsed: number,
+    isOnPace: boolean,
+    riskLevel: ref('RiskLevel'),
+    recommendation: nullable(string)
+  }),
+
+  MilestoneStep: object({
+    id,
+    title: string,
+    completed: boolean,
+    completedAt: nullable(timestamp)
+  }),
+
+  KeyResult: object({
+    id,
+    objectiveId: id,
+    description: string,
+    metricType: ref('MetricType'),
+    direction: ref('KeyResultDirection'),
+    startValue: number,
+    targetValue: { ...number, description: "lower bound when direction is 'range'" },
+    targetMaxValue: { ...nullable(number), description: "upper bound when direction is 'range'" },
+    currentValue: number,
+    unit: nullable(string),
+    weight: { ...number, description: 'relative weight in the objective progress (default 1)' },
+    steps: { ...arrayOf(ref('MilestoneStep')), description: 'ordered checklist for milestone KRs' },
+    status: ref('ProgressStatus'),
+    confidence: ref('Confidence'),
+    createdAt: timestamp,
+    updatedAt: timestamp
+  }, [
+    'id', 'objectiveId', 'description', 'metricType', 'direction', 'startValue', 'targetValue',
+    'targetMaxValue', 'currentValue', 'weight', 'steps', 'status', 'confidence', 'createdAt', 'updatedAt'
+  ]),
+
+  ObjectiveAncestor: object({ id, title: string, level: ref('OKRLevel') }),
+
+  Objective: object({
+    id,
+    title: string,
+    description: nullable(string),
+    ownerId: id,
+    ownerName: string,
+    level: ref('OKRLevel'),
+    period: string,
+    periodId: nullable(id),
+    rolledOverFromId: { ...nullable(id), description: 'objective this one was carried over from' },
+    status: ref('ProgressStatus'),
+    progress: integer,
+    keyResults: arrayOf(ref('KeyResult')),
+    dueDate: nullable(date),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    healthMetrics: ref('HealthMetrics'),
+    parentObjectiveId: nullable(id),
+    parentObjectiveTitle: nullable(string),
+    parentKeyResultId: nullable(id),
+    parentKeyResultDescription: nullable(string),
+    teamId: nullable(id),
+    teamName: nullable(string),
+    weight: { ...number, description: 'relative weight in the parent KR roll-up (default 1)' },
+    childrenCount: integer,
+    approvalStatus: ref('ApprovalStatus'),
+    approvedBy: nullable(id),
+    approvedByName: nullable(string),
+    approvedAt: nullable(timestamp),
+    children: arrayOf(ref('Objective')),
+    ancestors: arrayOf(ref('ObjectiveAncestor')),
+    contributorRole: { ...ref('ContributorRole'), description: 'role of the current user (my contributions only)' }
+  }, [
+    'id', 'title', 'description', 'ownerId', 'ownerName', 'level', 'period', 'periodId', 'rolledOverFromId',
+    'status', 'progress', 'keyResults', 'dueDate', 'createdAt', 'updatedAt', 'healthMetrics',
+    'parentObjectiveId', 'parentObjectiveTitle', 'parentKeyResultId', 'parentKeyResultDescription',
+    'teamId', 'teamName', 'weight', 'childrenCount', 'approvalStatus', 'approvedBy', 'approvedByName', 'approvedAt'
+  ]),
+
+  KeyResultInput: object({
+    description: string,
+    metricType: ref('MetricType'),
+    direction: ref('KeyResultDirection'),
+    startValue: number,
+    targetValue: number,
+    targetMaxValue: nullable(number),
+    currentValue: number,
+    unit: nullable(string),
+    weight: number,
+    steps: { ...arrayOf(object({ title: string })), description: 'step ids are assigned by the server' }
+  }, ['description', 'metricType', 'startValue', 'targetValue', 'currentValue']),
+
+  // Partial key result: milestone steps keep their ids and completion
+  KeyResultUpdate: object({
+    description: string,
+    metricType: ref('MetricType'),
+    direction: ref('KeyResultDirection'),
+    startValue: number,
+    targetValue: number,
+    targetMaxValue: nullable(number),
+    currentValue: { ...number, description: 'milestone KRs: derived from the steps, other values are rejected' },
+    unit: nullable(string),
+    weight: number,
+    steps: arrayOf(object({ id, title: string, completed: boolean, completedAt: nullable(timestamp) }, ['title'])),
+    status: ref('ProgressStatus'),
+    confidence: ref('Confidence')
+  }, []),
+
+  CreateObjectiveData: object({
+    title: string,
+    description: string,
+    level: ref('OKRLevel'),
+    period: { ...string, description: 'legacy: period name, resolved server-side' },
+    periodId: id,
+    dueDate: date,
+    ownerId: id,
+    status: ref('ProgressStatus'),
+    keyResults: arrayOf(ref('KeyResultInput')),
+    parentKeyResultId: nullable(id),
+    teamId: nullable(id),
+    weight: number,
+    templateId: { ...id, description: 'template the objective was started from' }
+  }, ['title', 'level']),
+
+  UpdateObjectiveData: object({
+    title: string,
+    description: string,
+    level: ref('OKRLevel'),
+    period: string,
+    periodId: id,
+    dueDate: date,
+    ownerId: { ...string, description: 'empty string keeps the current owner' },
+    status: ref('ProgressStatus'),
+    parentObjectiveId: nullable(id),
+    parentKeyResultId: nullable(id),
+    teamId: nullable(id),
+    weight: number
+  }, []),
+
+  ApprovalCommentData: object({ comment: string }, []),
+  RejectObjectiveData: object({ comment: { ...string, minLength: 1 } }),
+
+  ApprovalHistoryItem: object({
+    id,
+    objectiveId: id,
+    action: ref('ApprovalAction'),
+    performedBy: id,
+    performedByName: string,
+    comment: nullable(string),
+    createdAt: timestamp
+  }),
+
+  // === CONTRIBUTORS ===
+
+  Contributor: object({
+    id,
+    userId: id,
+    name: string,
+    email: string,
+    profilePicture: nullable(string),
+    role: ref('ContributorRole'),
+    addedAt: timestamp
+  }),
+
+  AddContributorData: object({ userId: id, role: ref('ContributorRole') }, ['userId']),
+  UpdateContributorData: object({ role: ref('ContributorRole') }),
+
+  // === CHECK-INS ===
+
+  KeyResultCheckIn: object({
+    id,
+    keyResultId: id,
+    keyResultDescription: nullable(string),
+    previousValue: nullable(number),
+    newValue: number,
+    confidence: ref('Confidence'),
+    note: nullable(string),
+    blockers: nullable(string),
+    nextSteps: nullable(string),
+    createdBy: id,
+    createdByName: nullable(string),
+    createdAt: timestamp
+  }),
+
+  CreateCheckInData: object({
+    newValue: { ...number, description: 'ignored for milestone KRs' },
+    completedStepIds: { ...arrayOf(id), description: 'milestone KRs: ids of the steps completed so far' },
+    confidence: ref('Confidence'),
+    note: string,
+    blockers: string,
+    nextSteps: string
+  }, ['confidence']),
+
+  // Key result of an active objective not checked in since the start of the week
+  CheckInDue: {
+    allOf: [ref('KeyResult'), object({ objectiveTitle: string, lastCheckInAt: nullable(timestamp) })]
+  },
+
+  // === PERIODS ===
+
+  Period: object({
+    id,
+    companyId: id,
+    name: string,
+    startDate: date,
+    endDate: date,
+    status: ref('PeriodStatus'),
+    closedAt: nullable(timestamp),
+    closedBy: nullable(id),
+    closedByName: nullable(string),
+    objectivesCount: integer,
+    createdAt: timestamp,
+    updatedAt: timestamp
+  }),
+
+  PeriodData: object({ name: string, startDate: date, endDate: date }),
+  UpdatePeriodData: object({ name: string, startDate: date, endDate: date }, []),
+
+  RolloverCandidate: object({
+    id,
+    title: string,
+    level: ref('OKRLevel'),
+    progress: integer,
+    status: ref('ProgressStatus'),
+    approvalStatus: ref('ApprovalStatus'),
+    ownerId: id,
+    ownerName: string,
+    keyResultsCount: integer
+  }),
+
+  ClosePeriodData: object({
+    targetPeriodId: { ...id, description: 'open period receiving the carried-over objectives' },
+    objectiveIds: { ...arrayOf(id), description: 'rollover candidates to carry over as drafts' }
+  }, []),
+
+  ClosePeriodResult: object({ period: ref('Period'), rolledOver: integer }),
+
+  // === COMMENTS ===
+
+  OKRComment: object({
+    id,
+    objectiveId: id,
+    keyResultId: nullable(id),
+    parentCommentId: { ...nullable(id), description: 'set on replies' },
+    authorId: id,
+    authorName: string,
+    body: string,
+    mentions: { ...arrayOf(id), description: 'ids of @mentioned users' },
+    createdAt: timestamp,
+    updatedAt: timestamp
+  }),
+
+  CommentData: object({
+    body: string,
+    keyResultId: nullable(id),
+    parentCommentId: nullable(id),
+    mentionIds: arrayOf(id)
+  }, ['body']),
+
+  UpdateCommentData: object({ body: string, mentionIds: arrayOf(id) }, ['body']),
+
+  UserBasic: object({ id, name: string, email: string }),
+
+  // === HIERARCHY ===
+
+  ParentKeyResult: object({
+    id,
+    description: string,
+    objectiveId: id,
+    objectiveTitle: string,
+    objectiveLevel: ref('OKRLevel'),
+    period: string,
+    ownerName: string
+  }),
+
+  // Node of the alignment tree
+  ObjectiveNode: {
+    allOf: [ref('Objective'), object({
+      isOrphan: { ...boolean, description: 'non-company objective not aligned to any parent KR' },
+      children: arrayOf(ref('ObjectiveNode'))
+    })]
+  },
+
+  ObjectiveWithAncestors: {
+    allOf: [ref('Objective'), object({
+      ancestors: { ...arrayOf(ref('ObjectiveAncestor')), description: 'from the root down to the parent' }
+    })]
+  },
+
+  // === TEMPLATES ===
+
+  // Key result blueprint: no current value, milestone steps by title only
+  TemplateKeyResult: object({
+    description: string,
+    metricType: ref('MetricType'),
+    direction: ref('KeyResultDirection'),
+    startValue: number,
+    targetValue: number,
+    targetMaxValue: nullable(number),
+    unit: nullable(string),
+    weight: number,
+    steps: arrayOf(object({ title: string }))
+  }, ['description', 'metricType', 'startValue', 'targetValue']),
+
+  OKRTemplate: object({
+    id,
+    title: string,
+    description: nullable(string),
+    level: ref('OKRLevel'),
+    keyResults: arrayOf(ref('TemplateKeyResult')),
+    sourceObjectiveId: { ...nullable(id), description: 'objective the template was saved from' },
+    usageCount: integer,
+    createdBy: nullable(id),
+    createdByName: nullable(string),
+    createdAt: timestamp,
+    updatedAt: timestamp
+  }),
+
+  TemplateData: object({
+    title: string,
+    description: nullable(string),
+    level: { ...ref('OKRLevel'), description: "default 'individual'" },
+    keyResults: arrayOf(ref('TemplateKeyResult'))
+  }, ['title', 'keyResults']),
+
+  UpdateTemplateData: object({
+    title: string,
+    description: nullable(string),
+    level: ref('OKRLevel'),
+    keyResults: arrayOf(ref('TemplateKeyResult'))
+  }, []),
+
+  // Title and description default to the objective's
+  TemplateFromObjectiveData: object({ title: string, description: nullable(string) }, []),
+
+  // === TRASH ===
+
+  TrashItemType: { type: 'string', enum: ['objective', 'key_result'] },
+
+  TrashItem: object({
+    id,
+    type: ref('TrashItemType'),
+    title: { ...string, description: 'description of key results' },
+    level: nullable(ref('OKRLevel')),
+    objectiveId: { ...nullable(id), description: 'objective of key results' },
+    objectiveTitle: nullable(string),
+    ownerId: id,
+    ownerName: string,
+    deletedAt: timestamp,
+    deletedBy: nullable(id),
+    deletedByName: nullable(string),
+    objectivesCount: { ...integer, description: 'objectives deleted along with it, itself included' },
+    keyResultsCount: { ...integer, description: 'key results deleted along with it, itself included' },
+    purgeAt: timestamp
+  }),
+
+  TrashSettings: object({ retentionDays: integer, maxRetentionDays: integer }),
+  TrashSettingsData: object({ retentionDays: integer }),
+
+  // === ANALYTICS ===
+
+  Stats: object({
+    totalObjectives: integer,
+    avgProgress: integer,
+    atRiskCount: integer,
+    completedCount: integer
+  }),
+
+  ProgressTrendPoint: object({
+    period: string,
+    week: { ...timestamp, description: 'start of the week' },
+    avgProgress: integer,
+    updates: { ...integer, description: 'key results updated in the week' }
+  }),
+
+  LevelCompletion: object({
+    level: ref('OKRLevel'),
+    total: integer,
+    completed: integer,
+    completionRate: { ...integer, description: 'percentage of completed objectives' },
+    avgProgress: integer
+  }),
+
+  StatusDistributionPoint: object({
+    week: { ...timestamp, description: 'start of the week' },
+    counts: {
+      type: 'object',
+      propertyNames: ref('ApprovalStatus'),
+      additionalProperties: integer,
+      description: 'objectives by approval status at the end of the week'
+    }
+  }),
+
+  TeamRisk: object({
+    teamId: id,
+    teamName: string,
+    total: integer,
+    atRisk: integer,
+    atRiskRatio: { ...integer, description: 'percentage of at-risk and off-track objectives' }
+  }),
+
+  // === TEAMS ===
+
+  TeamType: { type: 'string', enum: ['department', 'team'] },
+  TeamMemberRole: { type: 'string', enum: ['owner', 'admin', 'member'] },
+  TeamRole: { type: 'string', enum: ['admin', 'member'] },
+  InvitationStatus: { type: 'string', enum: ['pending', 'accepted', 'declined', 'expired'] },
+
+  Team: object({
+    id,
+    name: string,
+    description: nullable(string),
+    type: ref('TeamType'),
+    parentTeamId: { ...nullable(id), description: 'department containing the team' },
+    ownerId: id,
+    ownerName: string,
+    ownerEmail: string,
+    memberCount: integer,
+    createdAt: timestamp,
+    updatedAt: timestamp
+  }),
+
+  TeamTreeNode: object({
+    id,
+    name: string,
+    description: nullable(string),
+    type: ref('TeamType'),
+    parentTeamId: nullable(id),
+    ownerId: id,
+    ownerName: string,
+    memberCount: integer,
+    objectiveCount: integer,
+    rollupObjectiveCount: { ...integer, description: 'objectives of the team and of every team beneath it' },
+    progress: { ...nullable(integer), description: "weighted progress of the team's own objectives" },
+    rollupProgress: { ...nullable(integer), description: 'weighted progress including the teams beneath it' },
+    children: arrayOf(ref('TeamTreeNode'))
+  }),
+
+  TeamDashboard: object({
+    team: ref('Team'),
+    weeks: { ...integer, description: 'weeks covered by the member cadence and the trend' },
+    summary: object({
+      totalObjectives: integer,
+      activeObjectives: integer,
+      avgProgress: integer,
+      atRiskCount: integer,
+      completedCount: integer
+    }),
+    objectives: arrayOf(object({
+      id,
+      title: string,
+      level: ref('OKRLevel'),
+      status: ref('ProgressStatus'),
+      approvalStatus: ref('ApprovalStatus'),
+      progress: number,
+      weight: number,
+      dueDate: nullable(timestamp),
+      ownerId: id,
+      ownerName: string,
+      keyResultCount: integer
+    })),
+    members: arrayOf(object({
+      userId: id,
+      name: string,
+      email: string,
+      role: ref('TeamMemberRole'),
+      ownedObjectives: integer,
+      contributedObjectives: integer,
+      checkInCount: integer,
+      activeWeeks: integer,
+      lastCheckInAt: nullable(timestamp)
+    })),
+    atRiskKeyResults: arrayOf(object({
+      id,
+      description: string,
+      status: ref('ProgressStatus'),
+      confidence: ref('Confidence'),
+      metricType: ref('MetricType'),
+      startValue: number,
+      targetValue: number,
+      currentValue: number,
+      unit: nullable(string),
+      objectiveId: id,
+      objectiveTitle: string,
+      ownerName: string,
+      lastCheckInAt: nullable(timestamp)
+    })),
+    trend: arrayOf(object({ week: timestamp, avgProgress: integer, updates: integer }))
+  }),
+
+  TeamData: object({
+    name: string,
+    description: string,
+    leadId: { ...id, description: 'required for admins; leads always lead the teams they create' },
+    type: ref('TeamType'),
+    parentTeamId: nullable(id)
+  }, ['name']),
+
+  UpdateTeamData: object({
+    name: string,
+    description: string,
+    type: ref('TeamType'),
+    parentTeamId: { ...nullable(id), description: 'null detaches the team from its department' }
+  }, []),
+
+  TeamMember: object({
+    id,
+    odIduser: { ...id, description: 'legacy name of userId' },
+    userId: id,
+    name: string,
+    email: string,
+    role: ref('TeamMemberRole'),
+    joinedAt: timestamp,
+    avatar: string
+  }, ['id', 'userId', 'name', 'email', 'role', 'joinedAt', 'avatar']),
+
+  AddTeamMemberData: object({ userId: id, role: ref('TeamRole') }, ['userId']),
+  UpdateTeamMemberData: object({ role: ref('TeamRole') }),
+
+  SearchUser: object({ id, name: string, email: string, avatar: string }),
+
+  SuccessResult: object({ success: boolean }),
+
+  // === INVITATIONS ===
+
+  TeamInvitation: object({
+    id,
+    teamId: id,
+    teamName: string,
+    email: string,
+    name: nullable(string),
+    role: ref('TeamRole'),
+    status: ref('InvitationStatus'),
+    invitedBy: id,
+    invitedByName: string,
+    expiresAt: timestamp,
+    createdAt: timestamp,
+    acceptedAt: nullable(timestamp),
+    inviteLink: { ...string, description: 'returned on creation only' }
+  }, ['id', 'teamId', 'teamName', 'email', 'name', 'role', 'status', 'invitedBy', 'expiresAt', 'createdAt', 'acceptedAt']),
+
+  CreateInvitationData: object({ email: string, role: ref('TeamRole'), name: nullable(string) }, ['email']),
+
+  CompanyInvitations: object({
+    invitations: arrayOf(ref('TeamInvitation')),
+    counts: object({ pending: integer, accepted: integer, declined: integer, expired: integer })
+  }),
+
+  BulkInviteRowStatus: { type: 'string', enum: ['valid', 'invalid', 'duplicate', 'member', 'pending'] },
+
+  BulkInvitePreviewRow: object({
+    line: { ...integer, description: 'line of the row in the CSV file' },
+    email: string,
+    role: string,
+    name: nullable(string),
+    isNewUser: boolean,
+    status: ref('BulkInviteRowStatus'),
+    reason: nullable(string)
+  }),
+
+  BulkInviteCsvData: object({ csv: { ...string, description: 'rows of email, role, name (header optional)' } }),
+
+  BulkInvitePreview: object({
+    rows: arrayOf(ref('BulkInvitePreviewRow')),
+    summary: object({ total: integer, valid: integer, skipped: integer, newUsers: integer }),
+    limitError: { ...nullable(string), description: 'set when the new users would exceed the subscription' }
+  }),
+
+  BulkInviteResult: object({
+    results: arrayOf(object({
+      line: integer,
+      email: string,
+      status: { type: 'string', enum: ['sent', 'skipped', 'failed'] },
+      reason: nullable(string)
+    })),
+    summary: object({ sent: integer, skipped: integer, failed: integer })
+  }),
+
+  BulkInvitationIdsData: object({ ids: arrayOf(id) }),
+
+  BulkInvitationResult: object({
+    succeeded: arrayOf(id),
+    failed: arrayOf(object({ id, error: string }))
+  }),
+
+  InvitationSettings: object({ expiryDays: integer, maxExpiryDays: integer }),
+  InvitationSettingsData: object({ expiryDays: integer }),
+
+  ResendInvitationResult: object({ success: boolean, email: string }),
+  AcceptInvitationResult: object({ success: boolean, teamId: id }),
+
+  InvitationDetails: object({
+    id,
+    email: string,
+    name: nullable(string),
+    teamName: string,
+    teamId: id,
+    inviterName: string,
+    role: ref('TeamRole'),
+    expiresAt: timestamp
+  }),
+
+  RegisterFromInvitationData: object({ name: string, password: string }),
+
+  InvitationRegistration: object({
+    success: boolean,
+    token: { ...string, description: 'session JWT of the registered user' },
+    user: object({ id, email: string, name: string, role: string }),
+    teamId: id,
+    teamName: string
+  }),
+
+  // === API TOKENS ===
+
+  ApiTokenScope: { type: 'string', enum: ['okr:read', 'okr:write', 'key_results:update'] },
+
+  ApiToken: object({
+    id,
+    name: string,
+    prefix: { ...string, description: 'first characters of the token, to tell tokens apart' },
+    scopes: arrayOf(ref('ApiTokenScope')),
+    expiresAt: nullable(timestamp),
+    lastUsedAt: nullable(timestamp),
+    createdAt: timestamp
+  }),
+
+  CreatedApiToken: object({
+    id,
+    name: string,
+    prefix: string,
+    scopes: arrayOf(ref('ApiTokenScope')),
+    expiresAt: nullable(timestamp),
+    lastUsedAt: nullable(timestamp),
+    createdAt: timestamp,
+    token: { ...string, description: 'returned on creation only: the plain token cannot be read again' }
+  }),
+
+  ApiTokenList: object({
+    tokens: arrayOf(ref('ApiToken')),
+    scopes: { ...arrayOf(ref('ApiTokenScope')), description: 'scopes a new token can be given' }
+  }),
+
+  CreateApiTokenData: object({
+    name: string,
+    scopes: arrayOf(ref('ApiTokenScope')),
+    expiresInDays: { ...nullable(integer), description: 'days until the token expires (no expiry when null)' }
+  }, ['name', 'scopes'])
+};
+
+// Operations of the router mounted at base (paths are relative to it)
+const mounted = (base, routerOperations) => Object.fromEntries(
+  Object.entries(routerOperations).map(([operationId, operation]) => [operationId, { ...operation, base }])
+);
+
+/**
+ * Operations covered by the contract, by id, grouped by the router they
+ * belong to. Routes opt in with validate('<operationId>'); body and response
+ * name a definition (or an array of one), summary shows in the OpenAPI document.
+ */
+export const operations = {
+  ...mounted('/api/okr', {
+    // Objectives
+    listObjectives: { method: 'get', path: '/objectives', summary: 'List the objectives of the company', response: arrayOf(ref('Objective')) },
+    getObjective: { method: 'get', path: '/objectives/:id', summary: 'Get an objective with its key results', response: ref('Objective') },
+    createObjective: { method: 'post', path: '/objectives', summary: 'Create an objective', body: ref('CreateObjectiveData'), response: ref('Objective') },
+    updateObjective: { method: 'put', path: '/objectives/:id', summary: 'Update an objective', body: ref('UpdateObjectiveData'), response: ref('Objective') },
+    getObjectiveChildren: { method: 'get', path: '/objectives/:id/children', summary: 'List the child objectives of an objective', response: arrayOf(ref('Objective')) },
+
+    // Key results
+    addKeyResult: { method: 'post', path: '/objectives/:id/key-results', summary: 'Add a key result to an objective', body: ref('KeyResultInput'), response: ref('KeyResult') },
+    updateKeyResult: { method: 'put', path: '/key-results/:id', summary: 'Update a key result', body: ref('KeyResultUpdate'), response: ref('KeyResult') },
+
+    // Check-ins
+    createCheckIn: { method: 'post', path: '/key-results/:id/check-ins', summary: 'Record a check-in on a key result', body: ref('CreateCheckInData'), response: ref('KeyResultCheckIn') },
+    listCheckIns: { method: 'get', path: '/key-results/:id/check-ins', summary: 'List the check-ins of a key result', response: arrayOf(ref('KeyResultCheckIn')) },
+    listObjectiveCheckIns: { method: 'get', path: '/objectives/:id/check-ins', summary: 'List the check-ins of all key results of an objective', response: arrayOf(ref('KeyResultCheckIn')) },
+    listCheckInsDue: { method: 'get', path: '/check-ins/due', summary: 'List the key results the user still has to check in this week', response: arrayOf(ref('CheckInDue')) },
+
+    // Comments
+    listComments: { method: 'get', path: '/objectives/:id/comments', summary: 'List the comments of an objective', response: arrayOf(ref('OKRComment')) },
+    createComment: { method: 'post', path: '/objectives/:id/comments', summary: 'Comment on an objective', body: ref('CommentData'), response: ref('OKRComment') },
+    updateComment: { method: 'put', path: '/comments/:id', summary: 'Edit a comment', body: ref('UpdateCommentData'), response: ref('OKRComment') },
+    listMentionableUsers: { method: 'get', path: '/mentionable-users', summary: 'List the users of the company that can be mentioned', response: arrayOf(ref('UserBasic')) },
+
+    // Periods
+    listPeriods: { method: 'get', path: '/periods', summary: 'List the OKR periods', response: arrayOf(ref('Period')) },
+    createPeriod: { method: 'post', path: '/periods', summary: 'Create an OKR period', body: ref('PeriodData'), response: ref('Period') },
+    updatePeriod: { method: 'put', path: '/periods/:id', summary: 'Update or close an OKR period', body: ref('UpdatePeriodData'), response: ref('Period') },
+    reopenPeriod: { method: 'post', path: '/periods/:id/reopen', summary: 'Reopen a closed OKR period', response: ref('Period') },
+    listRolloverCandidates: { method: 'get', path: '/periods/:id/rollover-candidates', summary: 'List the unfinished objectives that can be carried over', response: arrayOf(ref('RolloverCandidate')) },
+    closePeriod: { method: 'post', path: '/periods/:id/close', summary: 'Close an OKR period, optionally carrying objectives over', body: ref('ClosePeriodData'), response: ref('ClosePeriodResult') },
+
+    // Templates
+    listTemplates: { method: 'get', path: '/templates', summary: 'List the OKR templates of the company', response: arrayOf(ref('OKRTemplate')) },
+    getTemplate: { method: 'get', path: '/templates/:id', summary: 'Get an OKR template', response: ref('OKRTemplate') },
+    createTemplate: { method: 'post', path: '/templates', summary: 'Create an OKR template', body: ref('TemplateData'), response: ref('OKRTemplate') },
+    createTemplateFromObjective: { method: 'post', path: '/objectives/:id/template', summary: 'Save an objective as an OKR template', body: ref('TemplateFromObjectiveData'), response: ref('OKRTemplate') },
+    updateTemplate: { method: 'put', path: '/templates/:id', summary: 'Update an OKR template', body: ref('UpdateTemplateData'), response: ref('OKRTemplate') },
+    deleteTemplate: { method: 'delete', path: '/templates/:id', summary: 'Delete an OKR template' },
+
+    // Trash
+    listTrash: { method: 'get', path: '/trash', summary: 'List the deleted objectives and key results', response: arrayOf(ref('TrashItem')) },
+    getTrashSettings: { method: 'get', path: '/trash/settings', summary: 'Get the trash retention of the company', response: ref('TrashSettings') },
+    updateTrashSettings: { method: 'put', path: '/trash/settings', summary: 'Change the trash retention of the company', body: ref('TrashSettingsData'), response: ref('TrashSettings') },
+    restoreObjective: { method: 'post', path: '/trash/objectives/:id/restore', summary: 'Restore a deleted objective', response: ref('Objective') },
+    restoreKeyResult: { method: 'post', path: '/trash/key-results/:id/restore', summary: 'Restore a deleted key result', response: ref('KeyResult') },
+    purgeObjective: { method: 'delete', path: '/trash/objectives/:id', summary: 'Permanently delete a trashed objective' },
+    purgeKeyResult: { method: 'delete', path: '/trash/key-results/:id', summary: 'Permanently delete a trashed key result' },
+
+    // Analytics
+    getStats: { method: 'get', path: '/stats', summary: 'Get the dashboard stats', response: ref('Stats') },
+    getProgressTrend: { method: 'get', path: '/analytics/progress-trend', summary: 'Get the weekly progress trend per period', response: arrayOf(ref('ProgressTrendPoint')) },
+    getCompletionByLevel: { method: 'get', path: '/analytics/completion-by-level', summary: 'Get the completion rate by OKR level', response: arrayOf(ref('LevelCompletion')) },
+    getStatusDistribution: { method: 'get', path: '/analytics/status-distribution', summary: 'Get the approval status distribution of the last weeks', response: arrayOf(ref('StatusDistributionPoint')) },
+    getTeamRisk: { method: 'get', path: '/analytics/team-risk', summary: 'Get the at-risk ratio per team', response: arrayOf(ref('TeamRisk')) },
+
+    // Hierarchy
+    getHierarchy: { method: 'get', path: '/hierarchy', summary: 'Get the alignment tree of the objectives', response: arrayOf(ref('ObjectiveNode')) },
+    listAvailableParents: { method: 'get', path: '/available-parents', summary: 'List the key results an objective of a level can align to', response: arrayOf(ref('ParentKeyResult')) },
+    getObjectiveAncestors: { method: 'get', path: '/objectives/:id/ancestors', summary: 'Get an objective with its ancestors', response: ref('ObjectiveWithAncestors') },
+
+    // Approval workflow
+    listPendingApprovals: { method: 'get', path: '/pending-approvals', summary: 'List the objectives waiting for review', response: arrayOf(ref('Objective')) },
+    submitForReview: { method: 'post', path: '/objectives/:id/submit-for-review', summary: 'Submit a draft objective for review', response: ref('Objective') },
+    approveObjective: { method: 'post', path: '/objectives/:id/approve', summary: 'Approve an objective', body: ref('ApprovalCommentData'), response: ref('Objective') },
+    rejectObjective: { method: 'post', path: '/objectives/:id/reject', summary: 'Reject an objective under review', body: ref('RejectObjectiveData'), response: ref('Objective') },
+    activateObjective: { method: 'post', path: '/objectives/:id/activate', summary: 'Activate an approved objective', response: ref('Objective') },
+    pauseObjective: { method: 'post', path: '/objectives/:id/pause', summary: 'Pause an active objective', body: ref('ApprovalCommentData'), response: ref('Objective') },
+    resumeObjective: { method: 'post', path: '/objectives/:id/resume', summary: 'Resume a paused objective', body: ref('ApprovalCommentData'), response: ref('Objective') },
+    stopObjective: { method: 'post', path: '/objectives/:id/stop', summary: 'Stop an objective', body: ref('ApprovalCommentData'), response: ref('Objective') },
+    reopenObjective: { method: 'post', path: '/objectives/:id/reopen', summary: 'Reopen a closed or failed objective', body: ref('ApprovalCommentData'), response: ref('Objective') },
+    archiveObjective: { method: 'post', path: '/objectives/:id/archive', summary: 'Archive an objective', body: ref('ApprovalCommentData'), response: ref('Objective') },
+    revertToDraft: { method: 'post', path: '/objectives/:id/revert-to-draft', summary: 'Send an objective back to draft', body: ref('ApprovalCommentData'), response: ref('Objective') },
+    getApprovalHistory: { method: 'get', path: '/objectives/:id/approval-history', summary: 'List the approval history of an objective', response: arrayOf(ref('ApprovalHistoryItem')) },
+
+    // Contributors
+    listMyContributions: { method: 'get', path: '/my-contributions', summary: 'List the objectives the user contributes to', response: arrayOf(ref('Objective')) },
+    listContributors: { method: 'get', path: '/objectives/:id/contributors', summary: 'List the contributors of an objective', response: arrayOf(ref('Contributor')) },
+    addContributor: { method: 'post', path: '/objectives/:id/contributors', summary: 'Add a contributor to an objective', body: ref('AddContributorData'), response: ref('Contributor') },
+    updateContributor: { method: 'put', path: '/contributors/:contributorId', summary: 'Change the role of a contributor', body: ref('UpdateContributorData'), response: ref('Contributor') }
+  }),
+
+  ...mounted('/api/teams', {
+    // Teams
+    listTeams: { method: 'get', path: '/', summary: 'List the teams of the user (every team for admins)', response: arrayOf(ref('Team')) },
+    getTeamTree: { method: 'get', path: '/tree', summary: 'Get the org tree of the company with OKR progress', response: arrayOf(ref('TeamTreeNode')) },
+    getTeam: { method: 'get', path: '/:id', summary: 'Get a team', response: ref('Team') },
+    createTeam: { method: 'post', path: '/', summary: 'Create a team or department', body: ref('TeamData'), response: ref('Team') },
+    updateTeam: { method: 'put', path: '/:id', summary: 'Update a team', body: ref('UpdateTeamData'), response: ref('Team') },
+    deleteTeam: { method: 'delete', path: '/:id', summary: 'Delete a team' },
+    getTeamDashboard: { method: 'get', path: '/:id/dashboard', summary: 'Get the dashboard of a team', response: ref('TeamDashboard') },
+
+    // Members
+    listTeamMembers: { method: 'get', path: '/:id/members', summary: 'List the members of a team', response: arrayOf(ref('TeamMember')) },
+    updateTeamMember: { method: 'put', path: '/:teamId/members/:memberId', summary: 'Change the role of a team member', body: ref('UpdateTeamMemberData'), response: ref('SuccessResult') },
+    removeTeamMember: { method: 'delete', path: '/:teamId/members/:memberId', summary: 'Remove a member from a team' },
+    searchTeamUsers: { method: 'get', path: '/:id/users/search', summary: 'Search users to add to a team (?q=, at least 2 characters)', response: arrayOf(ref('SearchUser')) },
+    addTeamMember: { method: 'post', path: '/:id/members', summary: 'Add a user to a team', body: ref('AddTeamMemberData'), response: ref('TeamMember') },
+
+    // Invitations
+    listTeamInvitations: { method: 'get', path: '/:id/invitations', summary: 'List the pending invitations of a team', response: arrayOf(ref('TeamInvitation')) },
+    createInvitation: { method: 'post', path: '/:id/invitations', summary: 'Invite someone to a team', body: ref('CreateInvitationData'), response: ref('TeamInvitation') },
+    previewBulkInvitations: { method: 'post', path: '/:id/invitations/bulk/preview', summary: 'Validate a CSV of invitations without sending them', body: ref('BulkInviteCsvData'), response: ref('BulkInvitePreview') },
+    createBulkInvitations: { method: 'post', path: '/:id/invitations/bulk', summary: 'Send the valid invitations of a CSV', body: ref('BulkInviteCsvData'), response: ref('BulkInviteResult') },
+    cancelInvitation: { method: 'delete', path: '/invitations/:invitationId', summary: 'Cancel an invitation' },
+    resendInvitation: { method: 'post', path: '/invitations/:invitationId/resend', summary: 'Resend an invitation, restarting its expiry', response: ref('ResendInvitationResult') },
+    listCompanyInvitations: { method: 'get', path: '/invitations/company', summary: 'List the invitations of the company teams (?status=)', response: ref('CompanyInvitations') },
+    bulkResendInvitations: { method: 'post', path: '/invitations/bulk-resend', summary: 'Resend several invitations', body: ref('BulkInvitationIdsData'), response: ref('BulkInvitationResult') },
+    bulkCancelInvitations: { method: 'post', path: '/invitations/bulk-cancel', summary: 'Cancel several invitations', body: ref('BulkInvitationIdsData'), response: ref('BulkInvitationResult') },
+    getInvitationSettings: { method: 'get', path: '/invitations/settings', summary: 'Get the invitation expiry of the company', response: ref('InvitationSettings') },
+    updateInvitationSettings: { method: 'put', path: '/invitations/settings', summary: 'Change the invitation expiry of the company', body: ref('InvitationSettingsData'), response: ref('InvitationSettings') },
+    listMyInvitations: { method: 'get', path: '/invitations/pending', summary: 'List the pending invitations of the user', response: arrayOf(ref('TeamInvitation')) },
+    acceptInvitation: { method: 'post', path: '/invitations/:token/accept', summary: 'Accept an invitation', response: ref('AcceptInvitationResult') },
+    declineInvitation: { method: 'post', path: '/invitations/:token/decline', summary: 'Decline an invitation', response: ref('SuccessResult') },
+    getInvitationDetails: { method: 'get', path: '/invitations/:token/details', summary: 'Get an invitation from its link (no authentication)', response: ref('InvitationDetails') },
+    registerFromInvitation: { method: 'post', path: '/invitations/:token/register', summary: 'Register from an invitation link (no authentication)', body: ref('RegisterFromInvitationData'), response: ref('InvitationRegistration') }
+  }),
+
+  ...mounted('/api/tokens', {
+    listApiTokens: { method: 'get', path: '/', summary: 'List the active API tokens of the user and the available scopes', response: ref('ApiTokenList') },
+    createApiToken: { method: 'post', path: '/', summary: 'Create a personal API token', body: ref('CreateApiTokenData'), response: ref('CreatedApiToken') },
+    revokeApiToken: { method: 'delete', path: '/:id', summary: 'Revoke a personal API token' }
+  })
+};
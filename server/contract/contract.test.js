@@ -0,0 +1,127 @@
+/**
+ * API contract tests - the contract must describe the routes that exist, the
+ * values the database accepts, and the types the client is compiled against.
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { readFile } from 'node:fs/promises';
+import { createOKRRoutes } from '../okr/okr.routes.js';
+import { createTeamRoutes } from '../team/team.routes.js';
+import { createTokenRoutes } from '../tokens/token.routes.js';
+import { loadMigrations } from '../db/migrator.js';
+import { definitions, operations } from './contract.js';
+import { createContractValidator } from './validation.js';
+import { generateClientTypes } from './client-types.js';
+
+// Contract enums and the table columns whose CHECK constraints list their values
+const ENUM_COLUMNS = {
+  OKRLevel: ['objectives.level', 'okr_templates.level'],
+  ProgressStatus: ['objectives.status', 'key_results.status'],
+  Confidence: ['key_results.confidence', 'key_result_checkins.confidence'],
+  MetricType: ['key_results.metric_type'],
+  KeyResultDirection: ['key_results.direction'],
+  ApprovalStatus: ['objectives.approval_status'],
+  ApprovalAction: ['approval_history.action'],
+  ContributorRole: ['objective_contributors.role'],
+  PeriodStatus: ['periods.status'],
+  TeamType: ['teams.type'],
+  TeamMemberRole: ['team_members.role'],
+  TeamRole: ['team_invitations.role'],
+  InvitationStatus: ['team_invitations.status']
+};
+
+// Routers with contract operations, by mount path
+function createRouters() {
+  const passThrough = (req, res, next) => next();
+  const config = {
+    pool: { query: async () => ({ rows: [], rowCount: 0 }) },
+    authMiddleware: passThrough,
+    requireAdmin: passThrough,
+    audit: () => passThrough,
+    authorize: () => passThrough,
+    validate: createContractValidator()
+  };
+  return {
+    '/api/okr': createOKRRoutes(config),
+    '/api/teams': createTeamRoutes(config),
+    '/api/tokens': createTokenRoutes(config)
+  };
+}
+
+// Values allowed by the last `column IN (...)` constraint of every table
+// column, replaying the up() of the migrations in order
+async function getCheckedValues() {
+  const checks = {};
+  for (const migration of await loadMigrations()) {
+    const source = await readFile(new URL(`../db/migrations/${migration.file}`, import.meta.url), 'utf8');
+    const up = source.slice(0, source.indexOf('export async function down'));
+    let table = null;
+    for (const match of up.matchAll(/(?:CREATE TABLE(?: IF NOT EXISTS)?|ALTER TABLE)\s+(\w+)|(\w+) IN \(([^)]*)\)/g)) {
+      if (match[1]) {
+        table = match[1];
+      } else {
+        checks[`${table}.${match[2]}`] = [...match[3].matchAll(/'([^']*)'/g)].map(value => value[1]);
+      }
+    }
+  }
+  return checks;
+}
+
+describe('API contract', () => {
+  it('maps every operation to exactly one route with its method and path', () => {
+    const routes = {};
+    for (const [base, router] of Object.entries(createRouters())) {
+      for (const layer of router.stack) {
+        if (!layer.route) continue;
+        for (const { handle } of layer.route.stack) {
+          if (!handle.operationId) continue;
+          assert.equal(routes[handle.operationId], undefined, `${handle.operationId} is used by more than one route`);
+          const [method] = Object.keys(layer.route.methods);
+          routes[handle.operationId] = { base, method, path: layer.route.path };
+        }
+      }
+    }
+
+    for (const [operationId, operation] of Object.entries(operations)) {
+      assert.deepEqual(routes[operationId], { base: operation.base, method: operation.method, path: operation.path }, operationId);
+    }
+  });
+
+  it('lists the values the database accepts for every enum', async () => {
+    const checks = await getCheckedValues();
+    for (const [name, columns] of Object.entries(ENUM_COLUMNS)) {
+      for (const column of columns) {
+        assert.ok(checks[column], `no CHECK constraint found for ${column}`);
+        assert.deepEqual([...definitions[name].enum].sort(), [...checks[column]].sort(), `${name} / ${column}`);
+      }
+    }
+  });
+
+  it('has up to date client types', async () => {
+    const generated = await readFile(new URL('../../api/contract.generated.ts', import.meta.url), 'utf8');
+    assert.equal(generated, generateClientTypes(), 'api/contract.generated.ts is stale: run `npm run contract`');
+  });
+
+  it('rejects request bodies that do not match the operation', async () => {
+    const app = express();
+    app.use(express.json());
+    app.post('/objectives', createContractValidator()('createObjective'), (req, res) => res.status(201).json(req.body));
+
+    const server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    try {
+      const response = await fetch(`http://127.0.0.1:${server.address().port}/objectives`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: 'Crescita', level: 'galaxy' })
+      });
+      const body = await response.json();
+      assert.equal(response.status, 400);
+      assert.equal(body.error, 'Richiesta non valida');
+      assert.ok(body.details.some(detail => detail.path === '/level'));
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * Client Types Generator
+ *
+ *   node contract/generate.js           write api/contract.generated.ts
+ *   node contract/generate.js --check   fail if the committed file is stale
+ */
+import { readFile, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { generateClientTypes } from './client-types.js';
+
+const OUTPUT_FILE = fileURLToPath(new URL('../../api/contract.generated.ts', import.meta.url));
+
+const output = generateClientTypes();
+
+if (process.argv.includes('--check')) {
+  const current = await readFile(OUTPUT_FILE, 'utf8').catch(() => null);
+  if (current !== output) {
+    console.error('api/contract.generated.ts is out of date: run `npm run contract`');
+    process.exit(1);
+  }
+  console.log('api/contract.generated.ts is up to date');
+} else {
+  await writeFile(OUTPUT_FILE, output);
+  console.log('Wrote api/contract.generated.ts');
+}
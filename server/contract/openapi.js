@@ -0,0 +1,130 @@
+/**
+ * OpenAPI Document - OpenAPI 3.1 description of the routes mounted on the app
+ *
+ * Paths come from walking the Express routers, so every registered route is
+ * listed. Routes that use validate('<operationId>') also get their summary,
+ * request body and response from the contract.
+ */
+import { definitions, operations } from './contract.js';
+
+const METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+const ERROR_SCHEMAS = {
+  Error: {
+    type: 'object',
+    properties: { error: { type: 'string' } },
+    required: ['error']
+  },
+  ValidationError: {
+    type: 'object',
+    properties: {
+      error: { type: 'string' },
+      details: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { path: { type: 'string' }, message: { type: 'string' } },
+          required: ['path', 'message']
+        }
+      }
+    },
+    required: ['error', 'details']
+  }
+};
+
+const DESCRIPTION = `Routes use a bearer token, except login, registration and invitation links: the JWT returned by \`POST /api/auth/login\`, or a personal API token (\`okr_pat_...\`, created from the profile page) for the routes its scopes allow.
+
+Request and response shapes are documented for the routes covered by the API contract; the other routes list their path parameters only.`;
+
+// The contract references '#/definitions/<name>', OpenAPI keeps schemas under components
+function toOpenAPISchema(schema) {
+  return JSON.parse(JSON.stringify(schema).replaceAll('"#/definitions/', '"#/components/schemas/'));
+}
+
+const jsonContent = (schema) => ({ 'application/json': { schema: toOpenAPISchema(schema) } });
+
+// Express 4 only keeps the regexp of a router's mount path
+function getMountPath(layer) {
+  if (layer.regexp.fast_slash) return '';
+  return layer.regexp.source
+    .replace(/^\^/, '')
+    .replace('\\/?(?=\\/|$)', '')
+    .replace(/\\\//g, '/');
+}
+
+function collectRoutes(stack, prefix, routes = []) {
+  for (const layer of stack) {
+    if (layer.route && typeof layer.route.path === 'string') {
+      const operationId = layer.route.stack.find(routeLayer => routeLayer.handle.operationId)?.handle.operationId;
+      for (const method of Object.keys(layer.route.methods)) {
+        if (METHODS.includes(method)) {
+          routes.push({ method, path: `${prefix}${layer.route.path}`, operationId });
+        }
+      }
+    } else if (layer.name === 'router') {
+      collectRoutes(layer.handle.stack, `${prefix}${getMountPath(layer)}`, routes);
+    }
+  }
+  return routes;
+}
+
+function toOperation(route) {
+  const contract = route.operationId ? operations[route.operationId] : null;
+  const parameters = [...route.path.matchAll(/:(\w+)/g)].map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string' }
+  }));
+
+  const operation = {
+    tags: [route.path.split('/')[2]],
+    ...(contract && { operationId: route.operationId, summary: contract.summary }),
+    ...(parameters.length > 0 && { parameters }),
+    responses: {
+      '2XX': contract?.response
+        ? { description: 'Success', content: jsonContent(contract.response) }
+        : { description: 'Success' }
+    }
+  };
+
+  if (contract?.body) {
+    operation.requestBody = { required: true, content: jsonContent(contract.body) };
+    operation.responses['400'] = { description: 'Invalid request body', content: jsonContent({ $ref: '#/definitions/ValidationError' }) };
+  } else if (route.method !== 'get' && route.method !== 'delete') {
+    operation.requestBody = { required: false, content: jsonContent({ type: 'object' }) };
+  }
+
+  if (parameters.length > 0) {
+    operation.responses['404'] = { description: 'Not found', content: jsonContent({ $ref: '#/definitions/Error' }) };
+  }
+
+  return operation;
+}
+
+export function createOpenAPIDocument(app, { title = 'OKR Manager API', version = '1.0.0' } = {}) {
+  const paths = {};
+  for (const route of collectRoutes(app._router.stack, '')) {
+    const path = route.path.replace(/:(\w+)/g, '{$1}');
+    paths[path] = paths[path] || {};
+    // A path mounted twice (e.g. audit hooks in front of a router) is documented once
+    if (!paths[path][route.method]) {
+      paths[path][route.method] = toOperation(route);
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: { title, version, description: DESCRIPTION },
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer' }
+      },
+      schemas: toOpenAPISchema({ ...definitions, ...ERROR_SCHEMAS })
+    }
+  };
+}
+
+export default createOpenAPIDocument;
@@ -0,0 +1,62 @@
+/**
+ * Contract Validation - Request and response validation for contract operations
+ *
+ * validate('<operationId>') is a route middleware: it rejects request bodies
+ * that do not match the operation with 400 and, outside production, answers
+ * 500 when a handler sends a success response that does not match it.
+ */
+import Ajv from 'ajv';
+import { definitions, operations } from './contract.js';
+
+function formatErrors(errors) {
+  return errors.map(error => ({
+    path: error.instancePath || '/',
+    message: error.message
+  }));
+}
+
+export function createContractValidator({ validateResponses = process.env.NODE_ENV !== 'production' } = {}) {
+  const ajv = new Ajv({ allErrors: true });
+  const compile = (schema) => ajv.compile({ ...schema, definitions });
+
+  return function validate(operationId) {
+    const operation = operations[operationId];
+    if (!operation) {
+      throw new Error(`Unknown API operation: ${operationId}`);
+    }
+
+    const validateBody = operation.body ? compile(operation.body) : null;
+    const validateResponse = validateResponses && operation.response ? compile(operation.response) : null;
+
+    const middleware = (req, res, next) => {
+      if (validateBody && !validateBody(req.body ?? {})) {
+        return res.status(400).json({
+          error: 'Richiesta non valida',
+          details: formatErrors(validateBody.errors)
+        });
+      }
+
+      if (validateResponse) {
+        const json = res.json.bind(res);
+        res.json = (body) => {
+          // Validate what the client receives (dates as strings, no undefined)
+          if (res.statusCode < 300 && !validateResponse(JSON.parse(JSON.stringify(body)))) {
+            const details = formatErrors(validateResponse.errors);
+            console.error(`[Contract] ${operationId} response does not match the contract:`, details);
+            res.status(500);
+            return json({ error: 'Response does not match the API contract', details });
+          }
+          return json(body);
+        };
+      }
+
+      next();
+    };
+
+    // Lets the contract tests map routes to operations
+    middleware.operationId = operationId;
+    return middleware;
+  };
+}
+
+export default createContractValidator;
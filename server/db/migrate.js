@@ -0,0 +1,70 @@
+/**
+ * Migration CLI
+ *
+ *   node db/migrate.js status             list migrations and their state
+ *   node db/migrate.js up [--to N]        apply pending migrations (up to version N)
+ *   node db/migrate.js down [--steps N]   roll back the last N migrations (default 1)
+ *
+ * Connects to DATABASE_URL. The core schema must exist: migrations reference users.
+ */
+import { createPool } from '../../backend/src/index.js';
+import { migrate, rollback, getMigrationStatus } from './migrator.js';
+
+const USAGE = 'Usage: node db/migrate.js <status | up [--to N] | down [--steps N]>';
+
+function getIntegerOption(args, name) {
+  const index = args.indexOf(`--${name}`);
+  if (index === -1) return undefined;
+  const value = Number(args[index + 1]);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`--${name} must be a positive integer`);
+  }
+  return value;
+}
+
+function formatMigration({ version, name }) {
+  return `${String(version).padStart(4, '0')}_${name}`;
+}
+
+async function run(pool, command, args) {
+  switch (command) {
+    case 'status': {
+      const status = await getMigrationStatus(pool);
+      for (const migration of status) {
+        const appliedAt = migration.appliedAt ? new Date(migration.appliedAt).toISOString() : '';
+        console.log(`${migration.status.padEnd(8)} ${formatMigration(migration).padEnd(40)} ${appliedAt}`);
+      }
+      const pending = status.filter(migration => migration.status === 'pending').length;
+      console.log(`\n${status.length} migrations, ${pending} pending`);
+      break;
+    }
+    case 'up': {
+      const applied = await migrate(pool, { to: getIntegerOption(args, 'to') });
+      console.log(applied.length > 0
+        ? `Applied ${applied.length} migrations: ${applied.map(formatMigration).join(', ')}`
+        : 'No pending migrations');
+      break;
+    }
+    case 'down': {
+      const rolledBack = await rollback(pool, { steps: getIntegerOption(args, 'steps') ?? 1 });
+      console.log(rolledBack.length > 0
+        ? `Rolled back ${rolledBack.length} migrations: ${rolledBack.map(formatMigration).join(', ')}`
+        : 'No migrations to roll back');
+      break;
+    }
+    default:
+      throw new Error(USAGE);
+  }
+}
+
+const [command, ...args] = process.argv.slice(2);
+const pool = createPool(process.env.DATABASE_URL);
+
+try {
+  await run(pool, command, args);
+} catch (error) {
+  console.error(error.message);
+  process.exitCode = 1;
+} finally {
+  await pool.end();
+}
@@ -0,0 +1,319 @@
+/**
+ * 0001 - Initial tables
+ * Baseline: the OKR tables created by the original schema.js, with their basic indexes
+ */
+
+export async function up(client) {
+  // Objectives table
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS objectives (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      title VARCHAR(255) NOT NULL,
+      description TEXT,
+      owner_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      level VARCHAR(50) NOT NULL CHECK (level IN ('company', 'department', 'team', 'individual')),
+      period VARCHAR(50) NOT NULL,
+      status VARCHAR(50) NOT NULL DEFAULT 'draft' CHECK (status IN ('on-track', 'at-risk', 'off-track', 'completed', 'draft')),
+      progress INTEGER NOT NULL DEFAULT 0 CHECK (progress >= 0 AND progress <= 100),
+      due_date DATE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    )
+  `);
+
+  // Key Results table
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS key_results (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      objective_id UUID NOT NULL REFERENCES objectives(id) ON DELETE CASCADE,
+      description TEXT NOT NULL,
+      metric_type VARCHAR(50) NOT NULL CHECK (metric_type IN ('percentage', 'number', 'currency', 'boolean')),
+      start_value DECIMAL(15,2) NOT NULL DEFAULT 0,
+      target_value DECIMAL(15,2) NOT NULL,
+      current_value DECIMAL(15,2) NOT NULL DEFAULT 0,
+      unit VARCHAR(50),
+      status VARCHAR(50) NOT NULL DEFAULT 'draft' CHECK (status IN ('on-track', 'at-risk', 'off-track', 'completed', 'draft')),
+      confidence VARCHAR(50) NOT NULL DEFAULT 'medium' CHECK (confidence IN ('high', 'medium', 'low')),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    )
+  `);
+
+  // Progress history for tracking changes over time
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS progress_history (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      objective_id UUID REFERENCES objectives(id) ON DELETE CASCADE,
+      key_result_id UUID REFERENCES key_results(id) ON DELETE CASCADE,
+      previous_value DECIMAL(15,2),
+      new_value DECIMAL(15,2),
+      changed_by UUID REFERENCES users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      CHECK (objective_id IS NOT NULL OR key_result_id IS NOT NULL)
+    )
+  `);
+
+  // Teams table
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS teams (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      name VARCHAR(255) NOT NULL,
+      description TEXT,
+      owner_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    )
+  `);
+
+  // Team members table
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS team_members (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      role VARCHAR(50) NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+      joined_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE(team_id, user_id)
+    )
+  `);
+
+  // Team invitations table
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS team_invitations (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+      email VARCHAR(255) NOT NULL,
+      invited_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      invitee_name VARCHAR(255),
+      role VARCHAR(50) NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+      status VARCHAR(50) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'expired')),
+      token VARCHAR(255) NOT NULL UNIQUE,
+      expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      accepted_at TIMESTAMP WITH TIME ZONE
+    )
+  `);
+
+  // Objective contributors table (many-to-many relationship)
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS objective_contributors (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      objective_id UUID NOT NULL REFERENCES objectives(id) ON DELETE CASCADE,
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      role VARCHAR(50) NOT NULL DEFAULT 'contributor' CHECK (role IN ('contributor', 'reviewer')),
+      added_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE(objective_id, user_id)
+    )
+  `);
+
+  // Approval history table for tracking approval workflow
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS approval_history (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      objective_id UUID NOT NULL REFERENCES objectives(id) ON DELETE CASCADE,
+      action VARCHAR(50) NOT NULL CHECK (action IN ('submitted', 'approved', 'rejected', 'returned', 'activated', 'paused', 'resumed', 'stopped', 'archived', 'reverted_to_draft')),
+      performed_by UUID NOT NULL REFERENCES users(id),
+      comment TEXT,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    )
+  `);
+
+  // Key result check-ins: structured progress updates with context
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS key_result_checkins (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      key_result_id UUID NOT NULL REFERENCES key_results(id) ON DELETE CASCADE,
+      previous_value DECIMAL(15,2),
+      new_value DECIMAL(15,2) NOT NULL,
+      confidence VARCHAR(50) NOT NULL DEFAULT 'medium' CHECK (confidence IN ('high', 'medium', 'low')),
+      note TEXT,
+      blockers TEXT,
+      next_steps TEXT,
+      created_by UUID NOT NULL REFERENCES users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    )
+  `);
+
+  // Planning periods (quarters/cycles) per company
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS periods (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      company_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name VARCHAR(50) NOT NULL,
+      start_date DATE NOT NULL,
+      end_date DATE NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+      closed_at TIMESTAMP WITH TIME ZONE,
+      closed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE(company_id, name),
+      CHECK (end_date >= start_date)
+    )
+  `);
+
+  // Company-wide OKR templates (objective + key result blueprints)
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS okr_templates (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      company_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      title VARCHAR(500) NOT NULL,
+      description TEXT,
+      level VARCHAR(50) NOT NULL DEFAULT 'individual' CHECK (level IN ('company', 'department', 'team', 'individual')),
+      key_results JSONB NOT NULL DEFAULT '[]'::jsonb,
+      source_objective_id UUID REFERENCES objectives(id) ON DELETE SET NULL,
+      usage_count INTEGER NOT NULL DEFAULT 0,
+      created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    )
+  `);
+
+  // Discussion threads on objectives and key results
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS comments (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      company_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      objective_id UUID NOT NULL REFERENCES objectives(id) ON DELETE CASCADE,
+      key_result_id UUID REFERENCES key_results(id) ON DELETE CASCADE,
+      parent_comment_id UUID REFERENCES comments(id) ON DELETE CASCADE,
+      author_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      body TEXT NOT NULL,
+      mentions UUID[] NOT NULL DEFAULT '{}',
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    )
+  `);
+
+  // Notifications table (persistent per-user inbox of real-time events)
+  // objective_id has no foreign key: okr_deleted notifications outlive their objective
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS notifications (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      type VARCHAR(50) NOT NULL,
+      title VARCHAR(255) NOT NULL,
+      message TEXT,
+      objective_id UUID,
+      data JSONB NOT NULL DEFAULT '{}',
+      read_at TIMESTAMP WITH TIME ZONE,
+      archived_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    )
+  `);
+
+  // Notification preferences (delivery channel per user and event type)
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS notification_preferences (
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      event_type VARCHAR(50) NOT NULL,
+      channel VARCHAR(20) NOT NULL CHECK (channel IN ('in_app', 'email', 'daily_digest', 'weekly_digest', 'off')),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      PRIMARY KEY (user_id, event_type)
+    )
+  `);
+
+  // Last digest email sent to each user, per frequency
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS notification_digests (
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      frequency VARCHAR(10) NOT NULL CHECK (frequency IN ('daily', 'weekly')),
+      last_sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (user_id, frequency)
+    )
+  `);
+
+  // Background jobs: last run of each job (shared by all server instances)
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS scheduled_jobs (
+      name VARCHAR(100) PRIMARY KEY,
+      interval_seconds INTEGER NOT NULL,
+      last_started_at TIMESTAMP WITH TIME ZONE,
+      last_finished_at TIMESTAMP WITH TIME ZONE,
+      last_status VARCHAR(20) CHECK (last_status IN ('running', 'success', 'failed')),
+      last_error TEXT,
+      last_duration_ms INTEGER,
+      last_result JSONB,
+      run_count INTEGER NOT NULL DEFAULT 0,
+      failure_count INTEGER NOT NULL DEFAULT 0,
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    )
+  `);
+
+  // Company-wide settings managed by the company admins
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS company_settings (
+      company_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+      invitation_expiry_days INTEGER NOT NULL DEFAULT 7 CHECK (invitation_expiry_days BETWEEN 1 AND 90),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    )
+  `);
+
+  // Audit log of mutating actions per company
+  // entity_id has no foreign key: entries outlive the objects they describe
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      company_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+      actor_name VARCHAR(255),
+      action VARCHAR(100) NOT NULL,
+      entity_type VARCHAR(50) NOT NULL,
+      entity_id UUID,
+      entity_label VARCHAR(500),
+      changes JSONB,
+      metadata JSONB,
+      ip_address VARCHAR(64),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    )
+  `);
+
+  // Basic indexes (on columns that always exist)
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_objectives_owner ON objectives(owner_id);
+    CREATE INDEX IF NOT EXISTS idx_objectives_level ON objectives(level);
+    CREATE INDEX IF NOT EXISTS idx_objectives_period ON objectives(period);
+    CREATE INDEX IF NOT EXISTS idx_objectives_status ON objectives(status);
+    CREATE INDEX IF NOT EXISTS idx_key_results_objective ON key_results(objective_id);
+    CREATE INDEX IF NOT EXISTS idx_team_members_team ON team_members(team_id);
+    CREATE INDEX IF NOT EXISTS idx_team_members_user ON team_members(user_id);
+    CREATE INDEX IF NOT EXISTS idx_team_invitations_email ON team_invitations(email);
+    CREATE INDEX IF NOT EXISTS idx_team_invitations_token ON team_invitations(token);
+    CREATE INDEX IF NOT EXISTS idx_team_invitations_status ON team_invitations(status, expires_at);
+    CREATE INDEX IF NOT EXISTS idx_objective_contributors_objective ON objective_contributors(objective_id);
+    CREATE INDEX IF NOT EXISTS idx_objective_contributors_user ON objective_contributors(user_id);
+    CREATE INDEX IF NOT EXISTS idx_approval_history_objective ON approval_history(objective_id);
+    CREATE INDEX IF NOT EXISTS idx_key_result_checkins_kr ON key_result_checkins(key_result_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_periods_company ON periods(company_id, start_date);
+    CREATE INDEX IF NOT EXISTS idx_okr_templates_company ON okr_templates(company_id);
+    CREATE INDEX IF NOT EXISTS idx_comments_objective ON comments(objective_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_comments_key_result ON comments(key_result_id);
+    CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_audit_log_company ON audit_log(company_id, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id);
+  `);
+}
+
+// Drops every OKR table with its data
+export async function down(client) {
+  await client.query(`
+    DROP TABLE IF EXISTS audit_log;
+    DROP TABLE IF EXISTS company_settings;
+    DROP TABLE IF EXISTS scheduled_jobs;
+    DROP TABLE IF EXISTS notification_digests;
+    DROP TABLE IF EXISTS notification_preferences;
+    DROP TABLE IF EXISTS notifications;
+    DROP TABLE IF EXISTS comments;
+    DROP TABLE IF EXISTS okr_templates;
+    DROP TABLE IF EXISTS periods;
+    DROP TABLE IF EXISTS key_result_checkins;
+    DROP TABLE IF EXISTS approval_history;
+    DROP TABLE IF EXISTS objective_contributors;
+    DROP TABLE IF EXISTS team_invitations;
+    DROP TABLE IF EXISTS team_members;
+    DROP TABLE IF EXISTS teams;
+    DROP TABLE IF EXISTS progress_history;
+    DROP TABLE IF EXISTS key_results;
+    DROP TABLE IF EXISTS objectives;
+  `);
+}
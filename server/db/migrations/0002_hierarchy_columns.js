@@ -0,0 +1,90 @@
+/**
+ * 0002 - Hierarchy, approval, period and soft-deletion columns
+ * Baseline: the columns the original schema.js added to existing tables on boot
+ */
+
+export async function up(client) {
+  await client.query(`
+    ALTER TABLE objectives
+      ADD COLUMN IF NOT EXISTS parent_objective_id UUID REFERENCES objectives(id) ON DELETE SET NULL,
+      ADD COLUMN IF NOT EXISTS parent_key_result_id UUID REFERENCES key_results(id) ON DELETE SET NULL,
+      ADD COLUMN IF NOT EXISTS team_id UUID REFERENCES teams(id) ON DELETE SET NULL,
+      ADD COLUMN IF NOT EXISTS approval_status VARCHAR(50) DEFAULT 'draft' CHECK (approval_status IN ('draft', 'pending_review', 'approved', 'active', 'paused', 'stopped', 'archived', 'closed', 'failed')),
+      ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES users(id),
+      ADD COLUMN IF NOT EXISTS approved_at TIMESTAMP WITH TIME ZONE,
+      ADD COLUMN IF NOT EXISTS weight DECIMAL(5,2) NOT NULL DEFAULT 1 CHECK (weight > 0),
+      ADD COLUMN IF NOT EXISTS period_id UUID REFERENCES periods(id) ON DELETE SET NULL,
+      ADD COLUMN IF NOT EXISTS rolled_over_from_id UUID REFERENCES objectives(id) ON DELETE SET NULL,
+      -- Soft deletion: rows deleted together share the deletion_id of the deleted root
+      ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE,
+      ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES users(id) ON DELETE SET NULL,
+      ADD COLUMN IF NOT EXISTS deletion_id UUID,
+      -- Parent KR this objective was unlinked from when the KR went to the trash
+      ADD COLUMN IF NOT EXISTS detached_key_result_id UUID REFERENCES key_results(id) ON DELETE SET NULL
+  `);
+
+  // Departments contain teams
+  await client.query(`
+    ALTER TABLE teams
+      ADD COLUMN IF NOT EXISTS type VARCHAR(50) DEFAULT 'team' CHECK (type IN ('department', 'team')),
+      ADD COLUMN IF NOT EXISTS parent_team_id UUID REFERENCES teams(id) ON DELETE SET NULL
+  `);
+
+  // Name given in bulk invites
+  await client.query('ALTER TABLE team_invitations ADD COLUMN IF NOT EXISTS invitee_name VARCHAR(255)');
+
+  await client.query(`
+    ALTER TABLE company_settings
+      ADD COLUMN IF NOT EXISTS trash_retention_days INTEGER NOT NULL DEFAULT 30 CHECK (trash_retention_days BETWEEN 1 AND 365)
+  `);
+
+  await client.query(`
+    ALTER TABLE key_results
+      ADD COLUMN IF NOT EXISTS weight DECIMAL(5,2) NOT NULL DEFAULT 1 CHECK (weight > 0),
+      ADD COLUMN IF NOT EXISTS direction VARCHAR(20) NOT NULL DEFAULT 'increase' CHECK (direction IN ('increase', 'decrease', 'range')),
+      ADD COLUMN IF NOT EXISTS target_max_value DECIMAL(15,2),
+      ADD COLUMN IF NOT EXISTS steps JSONB NOT NULL DEFAULT '[]'::jsonb,
+      ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE,
+      ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES users(id) ON DELETE SET NULL,
+      ADD COLUMN IF NOT EXISTS deletion_id UUID
+  `);
+}
+
+// invitee_name stays: the initial team_invitations table already has it
+export async function down(client) {
+  await client.query(`
+    ALTER TABLE key_results
+      DROP COLUMN IF EXISTS weight,
+      DROP COLUMN IF EXISTS direction,
+      DROP COLUMN IF EXISTS target_max_value,
+      DROP COLUMN IF EXISTS steps,
+      DROP COLUMN IF EXISTS deleted_at,
+      DROP COLUMN IF EXISTS deleted_by,
+      DROP COLUMN IF EXISTS deletion_id
+  `);
+
+  await client.query('ALTER TABLE company_settings DROP COLUMN IF EXISTS trash_retention_days');
+
+  await client.query(`
+    ALTER TABLE teams
+      DROP COLUMN IF EXISTS type,
+      DROP COLUMN IF EXISTS parent_team_id
+  `);
+
+  await client.query(`
+    ALTER TABLE objectives
+      DROP COLUMN IF EXISTS parent_objective_id,
+      DROP COLUMN IF EXISTS parent_key_result_id,
+      DROP COLUMN IF EXISTS team_id,
+      DROP COLUMN IF EXISTS approval_status,
+      DROP COLUMN IF EXISTS approved_by,
+      DROP COLUMN IF EXISTS approved_at,
+      DROP COLUMN IF EXISTS weight,
+      DROP COLUMN IF EXISTS period_id,
+      DROP COLUMN IF EXISTS rolled_over_from_id,
+      DROP COLUMN IF EXISTS deleted_at,
+      DROP COLUMN IF EXISTS deleted_by,
+      DROP COLUMN IF EXISTS deletion_id,
+      DROP COLUMN IF EXISTS detached_key_result_id
+  `);
+}
@@ -0,0 +1,35 @@
+/**
+ * 0003 - Indexes on the hierarchy and soft-deletion columns
+ */
+
+export async function up(client) {
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_objectives_parent ON objectives(parent_objective_id);
+    CREATE INDEX IF NOT EXISTS idx_objectives_parent_kr ON objectives(parent_key_result_id);
+    CREATE INDEX IF NOT EXISTS idx_objectives_team ON objectives(team_id);
+    CREATE INDEX IF NOT EXISTS idx_objectives_approval ON objectives(approval_status);
+    CREATE INDEX IF NOT EXISTS idx_objectives_period_id ON objectives(period_id);
+    CREATE INDEX IF NOT EXISTS idx_objectives_rolled_over_from ON objectives(rolled_over_from_id);
+    CREATE INDEX IF NOT EXISTS idx_objectives_deletion ON objectives(deletion_id) WHERE deletion_id IS NOT NULL;
+    CREATE INDEX IF NOT EXISTS idx_objectives_detached_kr ON objectives(detached_key_result_id) WHERE detached_key_result_id IS NOT NULL;
+    CREATE INDEX IF NOT EXISTS idx_key_results_deletion ON key_results(deletion_id) WHERE deletion_id IS NOT NULL;
+    CREATE INDEX IF NOT EXISTS idx_teams_type ON teams(type);
+    CREATE INDEX IF NOT EXISTS idx_teams_parent ON teams(parent_team_id);
+  `);
+}
+
+export async function down(client) {
+  await client.query(`
+    DROP INDEX IF EXISTS idx_objectives_parent;
+    DROP INDEX IF EXISTS idx_objectives_parent_kr;
+    DROP INDEX IF EXISTS idx_objectives_team;
+    DROP INDEX IF EXISTS idx_objectives_approval;
+    DROP INDEX IF EXISTS idx_objectives_period_id;
+    DROP INDEX IF EXISTS idx_objectives_rolled_over_from;
+    DROP INDEX IF EXISTS idx_objectives_deletion;
+    DROP INDEX IF EXISTS idx_objectives_detached_kr;
+    DROP INDEX IF EXISTS idx_key_results_deletion;
+    DROP INDEX IF EXISTS idx_teams_type;
+    DROP INDEX IF EXISTS idx_teams_parent;
+  `);
+}
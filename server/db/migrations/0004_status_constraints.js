@@ -0,0 +1,41 @@
+/**
+ * 0004 - Widened CHECK constraints
+ * Baseline: approval actions for closing and reopening, milestone key results,
+ * and closed/failed approval statuses on databases that predate them
+ */
+
+export async function up(client) {
+  await client.query(`
+    ALTER TABLE approval_history DROP CONSTRAINT IF EXISTS approval_history_action_check;
+    ALTER TABLE approval_history ADD CONSTRAINT approval_history_action_check
+      CHECK (action IN ('submitted', 'approved', 'rejected', 'returned', 'activated', 'paused', 'resumed', 'stopped', 'archived', 'reverted_to_draft', 'closed', 'failed', 'reopened'));
+  `);
+
+  await client.query(`
+    ALTER TABLE key_results DROP CONSTRAINT IF EXISTS key_results_metric_type_check;
+    ALTER TABLE key_results ADD CONSTRAINT key_results_metric_type_check
+      CHECK (metric_type IN ('percentage', 'number', 'currency', 'boolean', 'milestone'));
+  `);
+
+  await client.query(`
+    ALTER TABLE objectives DROP CONSTRAINT IF EXISTS objectives_approval_status_check;
+    ALTER TABLE objectives ADD CONSTRAINT objectives_approval_status_check
+      CHECK (approval_status IN ('draft', 'pending_review', 'approved', 'active', 'paused', 'stopped', 'archived', 'closed', 'failed'));
+  `);
+}
+
+// Restores the constraints of the initial tables. Fails while rows use the
+// newer values; objectives_approval_status_check is left as 0002 defines it.
+export async function down(client) {
+  await client.query(`
+    ALTER TABLE approval_history DROP CONSTRAINT IF EXISTS approval_history_action_check;
+    ALTER TABLE approval_history ADD CONSTRAINT approval_history_action_check
+      CHECK (action IN ('submitted', 'approved', 'rejected', 'returned', 'activated', 'paused', 'resumed', 'stopped', 'archived', 'reverted_to_draft'));
+  `);
+
+  await client.query(`
+    ALTER TABLE key_results DROP CONSTRAINT IF EXISTS key_results_metric_type_check;
+    ALTER TABLE key_results ADD CONSTRAINT key_results_metric_type_check
+      CHECK (metric_type IN ('percentage', 'number', 'currency', 'boolean'));
+  `);
+}
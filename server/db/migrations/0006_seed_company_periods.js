@@ -0,0 +1,88 @@
+/**
+ * 0006 - Planning periods of existing companies
+ * Seeds the periods that were created lazily on first use: the current year's
+ * quarters plus every legacy free-form period of the company's objectives,
+ * which are then linked by name. Other companies are seeded on their first
+ * periods read.
+ */
+
+// Start/end dates of "Q1 2026" / "Annual 2026" style names, or null
+function inferPeriodDates(name) {
+  const quarter = /^Q([1-4])\s+(\d{4})$/i.exec(name.trim());
+  if (quarter) {
+    const q = parseInt(quarter[1]);
+    const year = parseInt(quarter[2]);
+    return {
+      startDate: new Date(Date.UTC(year, (q - 1) * 3, 1)).toISOString().slice(0, 10),
+      endDate: new Date(Date.UTC(year, q * 3, 0)).toISOString().slice(0, 10)
+    };
+  }
+
+  const annual = /^(?:Annual|Annuale|Anno)?\s*(\d{4})$/i.exec(name.trim());
+  if (annual) {
+    const year = parseInt(annual[1]);
+    return { startDate: `${year}-01-01`, endDate: `${year}-12-31` };
+  }
+
+  return null;
+}
+
+export async function up(client) {
+  // Company accounts, and users outside any company, without periods yet
+  const { rows: companies } = await client.query(`
+    SELECT u.id
+    FROM users u
+    WHERE u.company_id IS NULL
+      AND NOT EXISTS (SELECT 1 FROM periods p WHERE p.company_id = u.id)
+  `);
+
+  const year = new Date().getFullYear();
+  for (const { id: companyId } of companies) {
+    const seeds = new Map();
+    for (const name of [`Q1 ${year}`, `Q2 ${year}`, `Q3 ${year}`, `Q4 ${year}`, `Annual ${year}`]) {
+      seeds.set(name, inferPeriodDates(name));
+    }
+
+    const { rows: legacy } = await client.query(
+      `SELECT o.period,
+              to_char(MIN(o.created_at)::date, 'YYYY-MM-DD') AS first_created,
+              to_char(COALESCE(MAX(o.due_date), MAX(o.created_at)::date), 'YYYY-MM-DD') AS last_due
+       FROM objectives o
+       JOIN users u ON o.owner_id = u.id
+       WHERE (u.company_id = $1 OR u.id = $1) AND o.period_id IS NULL AND o.deleted_at IS NULL
+       GROUP BY o.period`,
+      [companyId]
+    );
+    for (const row of legacy) {
+      if (!row.period || seeds.has(row.period)) continue;
+      seeds.set(row.period, inferPeriodDates(row.period) || {
+        startDate: row.first_created,
+        endDate: row.last_due > row.first_created ? row.last_due : row.first_created
+      });
+    }
+
+    for (const [name, dates] of seeds) {
+      await client.query(
+        `INSERT INTO periods (company_id, name, start_date, end_date)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (company_id, name) DO NOTHING`,
+        [companyId, name, dates.startDate, dates.endDate]
+      );
+    }
+
+    await client.query(
+      `UPDATE objectives o
+       SET period_id = p.id
+       FROM users u, periods p
+       WHERE o.owner_id = u.id
+         AND (u.company_id = $1 OR u.id = $1)
+         AND p.company_id = $1
+         AND p.name = o.period
+         AND o.period_id IS NULL`,
+      [companyId]
+    );
+  }
+}
+
+// Seeded periods may already hold objectives and user edits: they are kept
+export async function down() {}
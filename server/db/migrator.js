@@ -0,0 +1,191 @@
+/**
+ * Migration Runner - Versioned schema migrations
+ *
+ * Migrations live in ./migrations as NNNN_name.js modules exporting
+ * up(client) and down(client). Each one runs in its own transaction and is
+ * recorded in schema_migrations. A Postgres advisory lock serializes runners,
+ * so instances booting together apply each migration once.
+ */
+import { readdir } from 'node:fs/promises';
+
+const MIGRATIONS_DIR = new URL('./migrations/', import.meta.url);
+const MIGRATION_FILE_PATTERN = /^(\d{4})_([a-z0-9_]+)\.js$/;
+
+// Advisory lock key (namespace, id); the scheduler uses namespace 7301
+const LOCK_NAMESPACE = 7302;
+const LOCK_ID = 1;
+
+/**
+ * Migrations on disk, ordered by version
+ */
+export async function loadMigrations() {
+  const files = (await readdir(MIGRATIONS_DIR)).filter(file => file.endsWith('.js')).sort();
+  const migrations = [];
+
+  for (const file of files) {
+    const match = file.match(MIGRATION_FILE_PATTERN);
+    if (!match) {
+      throw new Error(`Invalid migration file name: ${file} (expected NNNN_name.js)`);
+    }
+
+    const version = parseInt(match[1], 10);
+    if (migrations.some(migration => migration.version === version)) {
+      throw new Error(`Duplicate migration version ${match[1]}: ${file}`);
+    }
+
+    const module = await import(new URL(file, MIGRATIONS_DIR));
+    if (typeof module.up !== 'function' || typeof module.down !== 'function') {
+      throw new Error(`Migration ${file} must export up and down functions`);
+    }
+
+    migrations.push({ version, name: match[2], file, up: module.up, down: module.down });
+  }
+
+  return migrations;
+}
+
+async function ensureMigrationsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      duration_ms INTEGER,
+      applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    )
+  `);
+}
+
+async function getAppliedMigrations(client) {
+  const { rows } = await client.query(
+    'SELECT version, name, duration_ms, applied_at FROM schema_migrations ORDER BY version'
+  );
+  return rows;
+}
+
+/**
+ * Run fn(client) holding the migration lock. Waits for a runner on another
+ * instance to finish, so the caller sees its migrations as applied.
+ */
+async function withMigrationLock(pool, fn) {
+  const client = await pool.connect();
+  try {
+    await client.query('SELECT pg_advisory_lock($1, $2)', [LOCK_NAMESPACE, LOCK_ID]);
+    try {
+      await ensureMigrationsTable(client);
+      return await fn(client);
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1, $2)', [LOCK_NAMESPACE, LOCK_ID]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+// Run one step of a migration in a transaction, recording it with record(client, durationMs)
+async function runStep(client, migration, direction, record) {
+  const startedAt = Date.now();
+  try {
+    await client.query('BEGIN');
+    await migration[direction](client);
+    await record(client, Date.now() - startedAt);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw new Error(`Migration ${migration.file} (${direction}) failed: ${error.message}`);
+  }
+  console.log(`Migration ${migration.file} ${direction === 'up' ? 'applied' : 'rolled back'} in ${Date.now() - startedAt}ms`);
+}
+
+/**
+ * Apply the pending migrations, up to version `to` when given.
+ * Stops at the first failure; the migrations before it stay applied.
+ * Returns the applied migrations.
+ */
+export async function migrate(pool, { to } = {}) {
+  const migrations = await loadMigrations();
+
+  return withMigrationLock(pool, async (client) => {
+    const applied = new Set((await getAppliedMigrations(client)).map(row => row.version));
+    const pending = migrations.filter(migration =>
+      !applied.has(migration.version) && (to === undefined || migration.version <= to)
+    );
+
+    for (const migration of pending) {
+      await runStep(client, migration, 'up', (tx, durationMs) => tx.query(
+        'INSERT INTO schema_migrations (version, name, duration_ms) VALUES ($1, $2, $3)',
+        [migration.version, migration.name, durationMs]
+      ));
+    }
+
+    return pending.map(({ version, name }) => ({ version, name }));
+  });
+}
+
+/**
+ * Roll back the last `steps` applied migrations, newest first.
+ * Returns the rolled back migrations.
+ */
+export async function rollback(pool, { steps = 1 } = {}) {
+  if (!Number.isInteger(steps) || steps < 1) {
+    throw new Error('steps must be a positive integer');
+  }
+  const migrations = await loadMigrations();
+
+  return withMigrationLock(pool, async (client) => {
+    const applied = (await getAppliedMigrations(client)).reverse().slice(0, steps);
+    const rolledBack = [];
+
+    for (const row of applied) {
+      const migration = migrations.find(m => m.version === row.version);
+      if (!migration) {
+        throw new Error(`Cannot roll back migration ${row.version} (${row.name}): its file is missing`);
+      }
+      await runStep(client, migration, 'down', (tx) => tx.query(
+        'DELETE FROM schema_migrations WHERE version = $1',
+        [migration.version]
+      ));
+      rolledBack.push({ version: migration.version, name: migration.name });
+    }
+
+    return rolledBack;
+  });
+}
+
+/**
+ * Every known migration with its state: applied, pending, or missing
+ * (recorded as applied but no longer on disk)
+ */
+export async function getMigrationStatus(pool) {
+  const migrations = await loadMigrations();
+
+  const { rows: tableRows } = await pool.query(
+    "SELECT to_regclass('schema_migrations') IS NOT NULL as exists"
+  );
+  const appliedRows = tableRows[0].exists ? await getAppliedMigrations(pool) : [];
+  const applied = new Map(appliedRows.map(row => [row.version, row]));
+
+  const status = migrations.map(migration => {
+    const row = applied.get(migration.version);
+    return {
+      version: migration.version,
+      name: migration.name,
+      status: row ? 'applied' : 'pending',
+      appliedAt: row?.applied_at || null,
+      durationMs: row?.duration_ms ?? null
+    };
+  });
+
+  for (const row of appliedRows) {
+    if (!migrations.some(migration => migration.version === row.version)) {
+      status.push({
+        version: row.version,
+        name: row.name,
+        status: 'missing',
+        appliedAt: row.applied_at,
+        durationMs: row.duration_ms
+      });
+    }
+  }
+
+  return status.sort((a, b) => a.version - b.version);
+}
@@ -0,0 +1,39 @@
+/**
+ * Docs Routes - OpenAPI document and API explorer
+ *
+ *   GET /api/openapi.json   OpenAPI 3.1 document of every mounted route
+ *   GET /api/docs/          Swagger UI explorer (self-hosted, no CDN)
+ */
+import express, { Router } from 'express';
+import { fileURLToPath } from 'node:url';
+import swaggerUiDist from 'swagger-ui-dist';
+import { createOpenAPIDocument } from '../contract/openapi.js';
+
+const EXPLORER_DIR = fileURLToPath(new URL('./explorer/', import.meta.url));
+
+export function createDocsRoutes(config) {
+  const router = Router();
+  const { app } = config;
+
+  // Built on first request, once every router is mounted
+  let document = null;
+
+  router.get('/openapi.json', (req, res) => {
+    document = document || createOpenAPIDocument(app);
+    res.json(document);
+  });
+
+  // The explorer loads its assets with relative URLs
+  router.get('/docs', (req, res, next) => {
+    if (!req.originalUrl.split('?')[0].endsWith('/')) {
+      return res.redirect(301, `${req.baseUrl}/docs/`);
+    }
+    next();
+  });
+  router.use('/docs', express.static(EXPLORER_DIR));
+  router.use('/docs', express.static(swaggerUiDist.getAbsoluteFSPath(), { index: false }));
+
+  return router;
+}
+
+export default createDocsRoutes;
@@ -0,0 +1,98 @@
+/**
+ * API docs tests - the OpenAPI document lists every mounted route and the
+ * explorer is served without external assets.
+ */
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { createOKRRoutes } from '../okr/okr.routes.js';
+import { createTeamRoutes } from '../team/team.routes.js';
+import { createSSERoutes } from '../notifications/sse.routes.js';
+import { createTokenRoutes } from '../tokens/token.routes.js';
+import { createContractValidator } from '../contract/validation.js';
+import { operations } from '../contract/contract.js';
+import { createDocsRoutes } from './docs.routes.js';
+
+function createApp() {
+  const passThrough = (req, res, next) => next();
+  const config = {
+    pool: { query: async () => ({ rows: [], rowCount: 0 }) },
+    authMiddleware: passThrough,
+    requireAdmin: passThrough,
+    audit: () => passThrough,
+    authorize: () => passThrough,
+    validate: createContractValidator()
+  };
+
+  const app = express();
+  app.get('/api/health', (req, res) => res.json({ status: 'ok' }));
+  app.use('/api/okr', createOKRRoutes(config));
+  app.use('/api/teams', createTeamRoutes(config));
+  app.use('/api/tokens', createTokenRoutes(config));
+  app.use('/api/notifications', createSSERoutes({ authMiddleware: passThrough, verifyToken: async () => null }));
+  app.use('/api', createDocsRoutes({ app }));
+  return app;
+}
+
+describe('API docs', () => {
+  let server;
+  let baseUrl;
+  let document;
+
+  before(async () => {
+    server = createApp().listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+    document = await (await fetch(`${baseUrl}/api/openapi.json`)).json();
+  });
+
+  after(() => new Promise(resolve => server.close(resolve)));
+
+  it('lists the routes of every mounted router', () => {
+    assert.equal(document.openapi, '3.1.0');
+    assert.ok(document.paths['/api/health'].get);
+    assert.ok(document.paths['/api/notifications/stream'].get);
+    assert.ok(document.paths['/api/teams/{teamId}/members/{memberId}'].put);
+    assert.deepEqual(
+      document.paths['/api/teams/{teamId}/members/{memberId}'].put.parameters.map(parameter => parameter.name),
+      ['teamId', 'memberId']
+    );
+  });
+
+  it('documents contract operations with their schemas', () => {
+    for (const [operationId, operation] of Object.entries(operations)) {
+      const path = `${operation.base}${operation.path.replace(/:(\w+)/g, '{$1}')}`;
+      const documented = document.paths[path]?.[operation.method];
+      assert.equal(documented?.operationId, operationId, `${operation.method} ${path}`);
+      assert.equal(documented.summary, operation.summary);
+      assert.equal(Boolean(documented.requestBody?.required), Boolean(operation.body), operationId);
+    }
+
+    const create = document.paths['/api/okr/objectives'].post;
+    assert.deepEqual(create.requestBody.content['application/json'].schema, { $ref: '#/components/schemas/CreateObjectiveData' });
+  });
+
+  it('only references schemas it defines', () => {
+    const refs = JSON.stringify(document).matchAll(/"\$ref":"#\/components\/schemas\/(\w+)"/g);
+    for (const [, name] of refs) {
+      assert.ok(document.components.schemas[name], `missing schema ${name}`);
+    }
+  });
+
+  it('serves the explorer and its assets', async () => {
+    const redirect = await fetch(`${baseUrl}/api/docs`, { redirect: 'manual' });
+    assert.equal(redirect.status, 301);
+    assert.equal(redirect.headers.get('location'), '/api/docs/');
+
+    const page = await fetch(`${baseUrl}/api/docs/`);
+    const html = await page.text();
+    assert.equal(page.status, 200);
+    assert.doesNotMatch(html, /https?:\/\//);
+
+    for (const asset of ['swagger-ui.css', 'swagger-ui-bundle.js', 'explorer.js']) {
+      const response = await fetch(`${baseUrl}/api/docs/${asset}`);
+      assert.equal(response.status, 200, asset);
+      await response.arrayBuffer();
+    }
+  });
+});
@@ -0,0 +1,17 @@
+// API explorer: Swagger UI on the document served at /api/openapi.json.
+// Scripts are files rather than inline so helmet's default CSP allows them.
+window.onload = function () {
+  window.ui = SwaggerUIBundle({
+    url: '../openapi.json',
+    dom_id: '#swagger-ui',
+    deepLinking: true,
+    persistAuthorization: true,
+    tryItOutEnabled: true
+  });
+
+  // Served from the app's origin, reuse the token of the logged in user
+  const token = window.localStorage.getItem('authToken');
+  if (token) {
+    window.ui.preauthorizeApiKey('bearerAuth', token);
+  }
+};
@@ -33,6 +33,23 @@ import { initializeOKRSchema } from './db/schema.js';
 import { createOKRRoutes } from './okr/okr.routes.js';
 import { createTeamRoutes } from './team/team.routes.js';
 import { createSSERoutes } from './notifications/sse.routes.js';
+import { createNotificationRoutes } from './notifications/notification.routes.js';
+import { initNotificationStore, initBroadcast } from './notifications/sse.service.js';
+import { createLocalBroadcast, createPostgresBroadcast } from './notifications/broadcast.js';
+import { runDigestJob } from './notifications/digest.service.js';
+import { sendCheckInReminders } from './notifications/reminder.service.js';
+import { createScheduler } from './jobs/scheduler.js';
+import { createJobRoutes } from './jobs/jobs.routes.js';
+import { createAuditMiddleware } from './audit/audit.middleware.js';
+import { createAuditRoutes, createUserAuditRoutes } from './audit/audit.routes.js';
+import { createAccessMiddleware } from './access/access.middleware.js';
+import { createContractValidator } from './contract/validation.js';
+import { createDocsRoutes } from './docs/docs.routes.js';
+import { createTokenAuthMiddleware } from './tokens/token.middleware.js';
+import { createTokenRoutes } from './tokens/token.routes.js';
+import { autoFailExpiredObjectives } from './okr/okr.service.js';
+import { purgeExpiredTrash } from './okr/trash.service.js';
+import { expireInvitations } from './team/team.service.js';
 import { canCreateUser, canCreateOKR, canCreateKeyResult, getSubscriptionInfo } from './subscription/limits.service.js';
 
 const app = express();
@@ -77,6 +94,57 @@ if (process.env.STRIPE_SECRET_KEY) {
   stripe = initStripe(process.env.STRIPE_SECRET_KEY);
 }
 
+// === NOTIFICATIONS ===
+
+// Store every real-time notification in the users' inbox (and email it when asked)
+initNotificationStore(pool, {
+  emailService,
+  frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3000'
+});
+
+// Fan out real-time events to every server instance
+// (Postgres LISTEN/NOTIFY by default, SSE_BROADCAST=local for a single instance)
+await initBroadcast(
+  process.env.SSE_BROADCAST === 'local'
+    ? createLocalBroadcast()
+    : createPostgresBroadcast(pool)
+);
+
+// === BACKGROUND JOBS ===
+// Each job runs on one replica at a time (Postgres advisory locks)
+const HOUR_MS = 60 * 60 * 1000;
+const scheduler = createScheduler(pool);
+const jobEmailOptions = {
+  emailService,
+  frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3000'
+};
+
+scheduler.register('deadline-expiry', {
+  description: 'Chiude o segna come falliti gli OKR attivi oltre la scadenza',
+  intervalMs: HOUR_MS,
+  run: (db) => autoFailExpiredObjectives(db)
+});
+scheduler.register('checkin-reminders', {
+  description: 'Email settimanale con i Key Result senza check-in',
+  intervalMs: 7 * 24 * HOUR_MS,
+  run: async (db) => ({ sent: await sendCheckInReminders(db, jobEmailOptions) })
+});
+scheduler.register('notification-digests', {
+  description: 'Invia i riepiloghi giornalieri e settimanali dovuti',
+  intervalMs: HOUR_MS,
+  run: async (db) => ({ sent: await runDigestJob(db, jobEmailOptions) })
+});
+scheduler.register('invitation-expiry', {
+  description: 'Segna come scaduti gli inviti non accettati in tempo',
+  intervalMs: HOUR_MS,
+  run: async (db) => ({ expired: await expireInvitations(db) })
+});
+scheduler.register('trash-purge', {
+  description: 'Elimina definitivamente gli OKR nel cestino oltre il periodo di conservazione',
+  intervalMs: 24 * HOUR_MS,
+  run: (db) => purgeExpiredTrash(db)
+});
+
 // === CONFIG ===
 const config = {
   pool,
@@ -86,8 +154,17 @@ const config = {
   rateLimiter: createAuthLimiter()
 };
 
-// Auth middleware for protected routes
-const authMiddleware = createAuthMiddleware(config);
+// Auth middleware for protected routes (session JWTs and personal API tokens)
+const authMiddleware = createTokenAuthMiddleware(pool, createAuthMiddleware(config));
+
+// Per-route audit trail of mutating actions
+const audit = createAuditMiddleware(pool);
+
+// Tenant isolation for resource ids in route paths
+const authorize = createAccessMiddleware(pool);
+
+// Request (and, outside production, response) validation against the API contract
+const validate = createContractValidator();
 
 // === ROUTES ===
 
@@ -125,7 +202,8 @@ app.get('/api/subscription/can-create-okr', authMiddleware, async (req, res) =>
 // Auth routes (register, login, etc.)
 app.use('/api/auth', createAuthRoutes(config));
 
-// User management (azienda only)
+// User management (azienda only), audited before reaching backend-core
+app.use('/api/users', createUserAuditRoutes({ authMiddleware, audit }));
 app.use('/api/users', createUsersRoutes({
   ...config,
   checkSubscriptionLimit: canCreateUser
@@ -148,16 +226,22 @@ if (stripe) {
   }));
 }
 
+// Company admin only (role 'admin')
+const requireAdmin = (req, res, next) => {
+  if (req.user?.role !== 'admin') {
+    return res.status(403).json({ error: 'Admin access required' });
+  }
+  next();
+};
+
 // OKR routes
 app.use('/api/okr', createOKRRoutes({
   pool,
   authMiddleware,
-  requireAdmin: (req, res, next) => {
-    if (req.user?.role !== 'admin') {
-      return res.status(403).json({ error: 'Admin access required' });
-    }
-    next();
-  },
+  requireAdmin,
+  audit,
+  authorize,
+  validate,
   checkOKRLimit: canCreateOKR,
   checkKeyResultLimit: canCreateKeyResult,
   emailService,
@@ -168,6 +252,11 @@ app.use('/api/okr', createOKRRoutes({
 app.use('/api/teams', createTeamRoutes({
   pool,
   authMiddleware,
+  requireAdmin,
+  audit,
+  authorize,
+  validate,
+  checkSubscriptionLimit: canCreateUser,
   emailService,
   frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
   hashPassword,
@@ -196,6 +285,35 @@ app.use('/api/notifications', createSSERoutes({
   }
 }));
 
+// Notification inbox (mounted after the SSE stream, which handles its own auth)
+app.use('/api/notifications', createNotificationRoutes({
+  pool,
+  authMiddleware
+}));
+
+// Company audit log (company admins)
+app.use('/api/audit', createAuditRoutes({
+  pool,
+  authMiddleware
+}));
+
+// Personal API tokens of the current user
+app.use('/api/tokens', createTokenRoutes({
+  pool,
+  authMiddleware,
+  audit,
+  validate
+}));
+
+// Background job status (superadmin only)
+app.use('/api/jobs', createJobRoutes({
+  authMiddleware,
+  scheduler
+}));
+
+// OpenAPI document and API explorer (public, lists the routes mounted above)
+app.use('/api', createDocsRoutes({ app }));
+
 // === ERROR HANDLING ===
 app.use(errorHandler());
 
@@ -219,6 +337,8 @@ async function start() {
       await ensureAdminUser(pool, process.env.ADMIN_EMAIL, process.env.ADMIN_PASSWORD);
     }
 
+    scheduler.start();
+
     app.listen(PORT, () => {
       console.log(`
 ╔═══════════════════════════════════════════════════════╗
@@ -0,0 +1,31 @@
+/**
+ * Job Routes - Background job status (superadmin only)
+ */
+import { Router } from 'express';
+
+export function createJobRoutes(config) {
+  const router = Router();
+  const { authMiddleware, scheduler } = config;
+
+  router.use(authMiddleware);
+  router.use((req, res, next) => {
+    if (req.user?.role !== 'superadmin') {
+      return res.status(403).json({ error: 'Superadmin access required' });
+    }
+    next();
+  });
+
+  // Status of all background jobs
+  router.get('/', async (req, res, next) => {
+    try {
+      const jobs = await scheduler.getStatus();
+      res.json(jobs);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
+
+export default createJobRoutes;
@@ -0,0 +1,170 @@
+/**
+ * Job Scheduler - Periodic background jobs shared by all server instances
+ *
+ * Every instance ticks, but a job only runs where its Postgres advisory lock
+ * is acquired, and only when its interval has elapsed since the last run
+ * recorded in scheduled_jobs. So each job runs on one replica at a time.
+ */
+
+const TICK_INTERVAL_MS = 60 * 1000;
+
+// First key of the advisory locks, keeps job locks apart from other users of advisory locks
+const LOCK_NAMESPACE = 7301;
+
+// Transform DB row (and registered job) to API format
+function transformJob(job, row, running) {
+  const lastStartedAt = row?.last_started_at || null;
+  return {
+    name: job.name,
+    description: job.description,
+    intervalSeconds: Math.round(job.intervalMs / 1000),
+    running,
+    lastStartedAt,
+    lastFinishedAt: row?.last_finished_at || null,
+    lastStatus: row?.last_status || null,
+    lastError: row?.last_error || null,
+    lastDurationMs: row?.last_duration_ms ?? null,
+    lastResult: row?.last_result ?? null,
+    runCount: row?.run_count || 0,
+    failureCount: row?.failure_count || 0,
+    nextRunAt: lastStartedAt
+      ? new Date(new Date(lastStartedAt).getTime() + job.intervalMs).toISOString()
+      : null
+  };
+}
+
+export function createScheduler(pool) {
+  const jobs = new Map();
+  let timer = null;
+  let ticking = false;
+
+  /**
+   * Register a job: run(pool) is awaited, its return value is stored as the result
+   */
+  function register(name, { description, intervalMs, run }) {
+    jobs.set(name, { name, description, intervalMs, run });
+  }
+
+  /**
+   * Run a job if it is due and no other instance holds its lock.
+   * Returns true when the job ran on this instance.
+   */
+  async function runIfDue(job) {
+    const client = await pool.connect();
+    let locked = false;
+    try {
+      const { rows: lockRows } = await client.query(
+        'SELECT pg_try_advisory_lock($1, hashtext($2)) as locked',
+        [LOCK_NAMESPACE, job.name]
+      );
+      locked = lockRows[0].locked;
+      if (!locked) return false;
+
+      // Checked under the lock: another replica may have just run it
+      const { rows: stateRows } = await client.query(
+        `SELECT last_started_at FROM scheduled_jobs
+         WHERE name = $1 AND last_started_at > NOW() - make_interval(secs => $2)`,
+        [job.name, job.intervalMs / 1000]
+      );
+      if (stateRows.length > 0) return false;
+
+      await client.query(
+        `INSERT INTO scheduled_jobs (name, interval_seconds, last_started_at, last_status)
+         VALUES ($1, $2, NOW(), 'running')
+         ON CONFLICT (name) DO UPDATE
+         SET interval_seconds = EXCLUDED.interval_seconds, last_started_at = NOW(),
+             last_status = 'running', updated_at = NOW()`,
+        [job.name, Math.round(job.intervalMs / 1000)]
+      );
+
+      const startedAt = Date.now();
+      try {
+        const result = await job.run(pool);
+        await client.query(
+          `UPDATE scheduled_jobs
+           SET last_status = 'success', last_finished_at = NOW(), last_error = NULL,
+               last_duration_ms = $2, last_result = $3, run_count = run_count + 1, updated_at = NOW()
+           WHERE name = $1`,
+          [job.name, Date.now() - startedAt, JSON.stringify(result ?? null)]
+        );
+      } catch (error) {
+        console.error(`[Jobs] "${job.name}" failed:`, error);
+        await client.query(
+          `UPDATE scheduled_jobs
+           SET last_status = 'failed', last_finished_at = NOW(), last_error = $2,
+               last_duration_ms = $3, run_count = run_count + 1, failure_count = failure_count + 1,
+               updated_at = NOW()
+           WHERE name = $1`,
+          [job.name, error.message, Date.now() - startedAt]
+        );
+      }
+      return true;
+    } finally {
+      if (locked) {
+        await client.query('SELECT pg_advisory_unlock($1, hashtext($2))', [LOCK_NAMESPACE, job.name])
+          .catch(error => console.error(`[Jobs] Failed to release lock of "${job.name}":`, error));
+      }
+      client.release();
+    }
+  }
+
+  async function tick() {
+    // A slow job must not stack up ticks on this instance
+    if (ticking) return;
+    ticking = true;
+    try {
+      for (const job of jobs.values()) {
+        try {
+          await runIfDue(job);
+        } catch (error) {
+          console.error(`[Jobs] Could not run "${job.name}":`, error);
+        }
+      }
+    } finally {
+      ticking = false;
+    }
+  }
+
+  function start() {
+    if (timer) return;
+    timer = setInterval(tick, TICK_INTERVAL_MS);
+    tick();
+    console.log(`[Jobs] Scheduler started with ${jobs.size} jobs`);
+  }
+
+  function stop() {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  }
+
+  /**
+   * Status of the registered jobs, with whether a replica is running them now
+   */
+  async function getStatus() {
+    // pg_locks reports the two keys of an advisory lock as unsigned oids
+    const { rows } = await pool.query(
+      `SELECT sj.*, job.name as job_name,
+              EXISTS (
+                SELECT 1 FROM pg_locks l
+                WHERE l.locktype = 'advisory' AND l.granted
+                  AND l.classid::bigint = $2
+                  AND l.objid::bigint = (hashtext(job.name)::bigint & 4294967295)
+              ) as running
+       FROM unnest($1::text[]) AS job(name)
+       LEFT JOIN scheduled_jobs sj ON sj.name = job.name`,
+      [[...jobs.keys()], LOCK_NAMESPACE]
+    );
+    const rowsByName = new Map(rows.map(row => [row.job_name, row]));
+
+    return [...jobs.values()].map(job => {
+      const row = rowsByName.get(job.name);
+      return transformJob(job, row, Boolean(row?.running));
+    });
+  }
+
+  return { register, start, stop, getStatus };
+}
+
+export default createScheduler;
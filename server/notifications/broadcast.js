@@ -0,0 +1,110 @@
+/**
+ * SSE Broadcast Backends - Fan-out of real-time events across server instances
+ *
+ * A backend delivers the events published by one instance to all the others:
+ *   start(onMessage)  begin receiving messages published by other instances
+ *   publish(message)  send a message to the other instances
+ *   stop()            release resources
+ * Messages are plain JSON objects; the sse.service decides what they mean.
+ */
+
+// Postgres rejects NOTIFY payloads of 8000 bytes or more
+const MAX_NOTIFY_PAYLOAD = 7900;
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Single-instance backend: nothing to fan out
+ */
+export function createLocalBroadcast() {
+  return {
+    name: 'local',
+    async start() {},
+    async publish() {},
+    async stop() {}
+  };
+}
+
+/**
+ * Postgres LISTEN/NOTIFY backend: every instance listens on the same channel
+ * with a dedicated connection and publishes with pg_notify.
+ */
+export function createPostgresBroadcast(pool, channel = 'sse_events') {
+  let listener = null;
+  let onMessage = null;
+  let stopped = false;
+  let reconnectTimeout = null;
+
+  const handleNotification = (msg) => {
+    if (msg.channel !== channel || !onMessage) return;
+    try {
+      onMessage(JSON.parse(msg.payload));
+    } catch (error) {
+      console.error('[SSE] Invalid broadcast payload:', error);
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (stopped || reconnectTimeout) return;
+    reconnectTimeout = setTimeout(() => {
+      reconnectTimeout = null;
+      listen().catch(error => {
+        console.error('[SSE] Broadcast listener reconnect failed:', error.message);
+        scheduleReconnect();
+      });
+    }, RECONNECT_DELAY_MS);
+  };
+
+  const listen = async () => {
+    const client = await pool.connect();
+    client.on('notification', handleNotification);
+    client.on('error', (error) => {
+      console.error('[SSE] Broadcast listener error:', error.message);
+      if (listener === client) {
+        listener = null;
+        client.release(error);
+        scheduleReconnect();
+      }
+    });
+
+    // The channel name is an identifier, not a parameter
+    await client.query(`LISTEN ${channel}`);
+    listener = client;
+    console.log(`[SSE] Listening for broadcasts on "${channel}"`);
+  };
+
+  return {
+    name: 'postgres',
+
+    async start(handler) {
+      onMessage = handler;
+      stopped = false;
+      await listen();
+    },
+
+    async publish(message) {
+      const payload = JSON.stringify(message);
+      if (Buffer.byteLength(payload) > MAX_NOTIFY_PAYLOAD) {
+        console.error(`[SSE] Broadcast payload too large (${Buffer.byteLength(payload)} bytes), delivered locally only`);
+        return;
+      }
+      await pool.query('SELECT pg_notify($1, $2)', [channel, payload]);
+    },
+
+    async stop() {
+      stopped = true;
+      if (reconnectTimeout) {
+        clearTimeout(reconnectTimeout);
+        reconnectTimeout = null;
+      }
+      if (listener) {
+        const client = listener;
+        listener = null;
+        try {
+          await client.query(`UNLISTEN ${channel}`);
+        } finally {
+          client.release();
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * Digest Service - Daily and weekly summary emails
+ * Sent to users that put at least one event type on a digest channel.
+ */
+import { getDigestEmailHtml } from './notification.emails.js';
+
+const DIGEST_INTERVALS = {
+  daily: '1 day',
+  weekly: '7 days'
+};
+
+// Objectives that are still being worked on
+const OPEN_STATUSES = ['draft', 'pending_review', 'approved', 'active', 'paused'];
+
+function transformDigestObjective(row) {
+  return {
+    id: row.id,
+    title: row.title,
+    progress: row.progress,
+    dueDate: row.due_date,
+    ownerName: row.owner_name || null
+  };
+}
+
+/**
+ * Collect the content of a digest for a user
+ */
+export async function buildDigest(pool, user, frequency, since) {
+  const { rows: notifications } = await pool.query(
+    `SELECT n.title, n.message, n.created_at
+     FROM notifications n
+     JOIN notification_preferences p
+       ON p.user_id = n.user_id AND p.event_type = n.type AND p.channel = $2
+     WHERE n.user_id = $1 AND n.created_at > $3 AND n.archived_at IS NULL
+     ORDER BY n.created_at DESC
+     LIMIT 50`,
+    [user.id, `${frequency}_digest`, since]
+  );
+
+  const { rows: owned } = await pool.query(
+    `SELECT id, title, progress, due_date FROM objectives
+     WHERE owner_id = $1 AND approval_status = ANY($2) AND deleted_at IS NULL
+     ORDER BY due_date NULLS LAST, title`,
+    [user.id, OPEN_STATUSES]
+  );
+
+  const { rows: contributed } = await pool.query(
+    `SELECT o.id, o.title, o.progress, o.due_date, u.name as owner_name
+     FROM objective_contributors oc
+     JOIN objectives o ON oc.objective_id = o.id
+     JOIN users u ON o.owner_id = u.id
+     WHERE oc.user_id = $1 AND o.approval_status = ANY($2) AND o.deleted_at IS NULL
+     ORDER BY o.due_date NULLS LAST, o.title`,
+    [user.id, OPEN_STATUSES]
+  );
+
+  let pendingApprovals = [];
+  if (user.role === 'admin') {
+    const companyId = user.company_id || user.id;
+    const { rows } = await pool.query(
+      `SELECT o.id, o.title, o.progress, o.due_date, u.name as owner_name
+       FROM objectives o
+       JOIN users u ON o.owner_id = u.id
+       WHERE o.approval_status = 'pending_review' AND o.deleted_at IS NULL
+         AND (u.company_id = $1 OR u.id = $1)
+       ORDER BY o.updated_at`,
+      [companyId]
+    );
+    pendingApprovals = rows.map(transformDigestObjective);
+  }
+
+  const ownedObjectives = owned.map(transformDigestObjective);
+  const contributedObjectives = contributed.map(transformDigestObjective);
+
+  const now = Date.now();
+  const weekFromNow = now + 7 * 24 * 60 * 60 * 1000;
+  const upcomingDeadlines = [...ownedObjectives, ...contributedObjectives].filter(obj => {
+    if (!obj.dueDate || obj.progress >= 100) return false;
+    const due = new Date(obj.dueDate).getTime();
+    return due >= now && due <= weekFromNow;
+  });
+
+  return {
+    notifications: notifications.map(n => ({ title: n.title, message: n.message, createdAt: n.created_at })),
+    ownedObjectives,
+    contributedObjectives,
+    pendingApprovals,
+    upcomingDeadlines
+  };
+}
+
+function isDigestEmpty(digest) {
+  return digest.notifications.length === 0 &&
+    digest.ownedObjectives.length === 0 &&
+    digest.contributedObjectives.length === 0 &&
+    digest.pendingApprovals.length === 0;
+}
+
+/**
+ * Send the digests that are due. Safe to run often: each user gets at most
+ * one digest per day (daily) or per week (weekly).
+ * Returns the number of emails sent.
+ */
+export async function runDigestJob(pool, options = {}) {
+  const { emailService, frontendUrl } = options;
+  if (!emailService || !emailService.isConfigured()) return 0;
+
+  let sent = 0;
+  for (const [frequency, interval] of Object.entries(DIGEST_INTERVALS)) {
+    const { rows: users } = await pool.query(
+      `SELECT DISTINCT u.id, u.name, u.email, u.role, u.company_id,
+              COALESCE(d.last_sent_at, NOW() - $2::interval) as since
+       FROM notification_preferences p
+       JOIN users u ON p.user_id = u.id
+       LEFT JOIN notification_digests d ON d.user_id = u.id AND d.frequency = $1
+       WHERE p.channel = $3
+         AND (d.last_sent_at IS NULL OR d.last_sent_at <= NOW() - $2::interval)`,
+      [frequency, interval, `${frequency}_digest`]
+    );
+
+    for (const user of users) {
+      try {
+        const digest = await buildDigest(pool, user, frequency, user.since);
+        if (!isDigestEmpty(digest)) {
+          const subject = frequency === 'daily'
+            ? 'Riepilogo giornaliero OKR'
+            : 'Riepilogo settimanale OKR';
+          const html = getDigestEmailHtml({
+            recipientName: user.name,
+            frequency,
+            digest,
+            appUrl: frontendUrl || 'http://localhost:3000'
+          });
+          await emailService.sendEmail(user.email, subject, html);
+          sent++;
+        }
+
+        await pool.query(
+          `INSERT INTO notification_digests (user_id, frequency, last_sent_at)
+           VALUES ($1, $2, NOW())
+           ON CONFLICT (user_id, frequency) DO UPDATE SET last_sent_at = NOW()`,
+          [user.id, frequency]
+        );
+      } catch (error) {
+        console.error(`[Digest] Failed to send ${frequency} digest to ${user.email}:`, error);
+        // Retried on the next run
+      }
+    }
+  }
+
+  if (sent > 0) {
+    console.log(`[Digest] Sent ${sent} digest emails`);
+  }
+  return sent;
+}
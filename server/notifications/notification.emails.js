@@ -0,0 +1,176 @@
+/**
+ * Notification Emails - HTML templates for notification, digest and reminder emails
+ */
+
+const HEADER_COLORS = {
+  okr_rejected: '#ef4444 0%, #dc2626 100%',
+  okr_approved: '#22c55e 0%, #16a34a 100%',
+  okr_activated: '#22c55e 0%, #16a34a 100%',
+  okr_submitted: '#f59e0b 0%, #d97706 100%',
+  comment_mention: '#8b5cf6 0%, #7c3aed 100%'
+};
+const DEFAULT_HEADER_COLOR = '#3b82f6 0%, #2563eb 100%';
+
+function escapeHtml(value) {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatDate(value) {
+  return new Date(value).toLocaleDateString('it-IT', { day: 'numeric', month: 'long', year: 'numeric' });
+}
+
+function wrapEmail(headerColor, heading, content) {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <style>
+        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: linear-gradient(135deg, ${headerColor}); color: white; padding: 30px; border-radius: 12px 12px 0 0; text-align: center; }
+        .content { background: #f8fafc; padding: 30px; border: 1px solid #e2e8f0; border-top: none; border-radius: 0 0 12px 12px; }
+        .title { font-size: 18px; font-weight: bold; color: #1e293b; margin-bottom: 15px; }
+        .reason-box { background: white; border-left: 4px solid #3b82f6; padding: 15px; margin: 20px 0; border-radius: 0 8px 8px 0; }
+        .reason-label { font-size: 12px; font-weight: 600; color: #64748b; text-transform: uppercase; margin-bottom: 8px; }
+        .reason-text { color: #334155; }
+        .section { margin: 24px 0; }
+        .section h3 { font-size: 14px; font-weight: 600; color: #64748b; text-transform: uppercase; margin: 0 0 8px; }
+        .item { background: white; border: 1px solid #e2e8f0; border-radius: 8px; padding: 10px 14px; margin-bottom: 8px; }
+        .item-meta { font-size: 12px; color: #64748b; }
+        .cta { display: inline-block; background: #3b82f6; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: 600; margin-top: 20px; }
+        .footer { text-align: center; margin-top: 20px; color: #64748b; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1 style="margin: 0; font-size: 24px;">${escapeHtml(heading)}</h1>
+        </div>
+        <div class="content">
+          ${content}
+          <div class="footer">
+            <p>Questa email è stata inviata automaticamente da OKR Manager.</p>
+            <p>Puoi scegliere quali notifiche ricevere nelle Impostazioni.</p>
+          </div>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+/**
+ * Email sent right away for event types on the 'email' channel
+ */
+export function getNotificationEmailHtml({ recipientName, type, title, message, comment, appUrl }) {
+  // Rejections show the reason separately, so the sentence stays short
+  const isRejection = type === 'okr_rejected';
+  const text = isRejection && comment ? message.replace(`: ${comment}`, '') : message;
+
+  const content = `
+    <p>Ciao ${escapeHtml(recipientName || 'utente')},</p>
+    <p class="title">${escapeHtml(text)}</p>
+    ${isRejection && comment ? `
+      <div class="reason-box" style="border-left-color: #ef4444;">
+        <div class="reason-label">Motivazione</div>
+        <div class="reason-text">${escapeHtml(comment)}</div>
+      </div>
+      <p>Puoi modificare l'OKR e inviarlo nuovamente per l'approvazione.</p>
+    ` : ''}
+    <a href="${appUrl}" class="cta">Vai a OKR Manager</a>
+  `;
+
+  return wrapEmail(HEADER_COLORS[type] || DEFAULT_HEADER_COLOR, title, content);
+}
+
+function renderObjectiveList(objectives, emptyText) {
+  if (objectives.length === 0) {
+    return `<p class="item-meta">${escapeHtml(emptyText)}</p>`;
+  }
+  return objectives.map(obj => `
+    <div class="item">
+      <div><strong>${escapeHtml(obj.title)}</strong></div>
+      <div class="item-meta">
+        Progresso ${obj.progress}%${obj.dueDate ? ` · scadenza ${formatDate(obj.dueDate)}` : ''}${obj.ownerName ? ` · ${escapeHtml(obj.ownerName)}` : ''}
+      </div>
+    </div>
+  `).join('');
+}
+
+/**
+ * Daily or weekly digest: collected notifications plus a summary of the
+ * user's OKRs, pending approvals and upcoming deadlines
+ */
+export function getDigestEmailHtml({ recipientName, frequency, digest, appUrl }) {
+  const heading = frequency === 'daily' ? 'Il tuo riepilogo giornaliero' : 'Il tuo riepilogo settimanale';
+
+  const notificationsSection = digest.notifications.length > 0 ? `
+    <div class="section">
+      <h3>Notifiche</h3>
+      ${digest.notifications.map(n => `
+        <div class="item">
+          <div><strong>${escapeHtml(n.title)}</strong></div>
+          ${n.message ? `<div>${escapeHtml(n.message)}</div>` : ''}
+          <div class="item-meta">${formatDate(n.createdAt)}</div>
+        </div>
+      `).join('')}
+    </div>
+  ` : '';
+
+  const approvalsSection = digest.pendingApprovals.length > 0 ? `
+    <div class="section">
+      <h3>In attesa di approvazione</h3>
+      ${renderObjectiveList(digest.pendingApprovals, '')}
+    </div>
+  ` : '';
+
+  const content = `
+    <p>Ciao ${escapeHtml(recipientName || 'utente')}, ecco come stanno andando i tuoi OKR.</p>
+    ${notificationsSection}
+    ${approvalsSection}
+    <div class="section">
+      <h3>Scadenze nei prossimi 7 giorni</h3>
+      ${renderObjectiveList(digest.upcomingDeadlines, 'Nessuna scadenza imminente.')}
+    </div>
+    <div class="section">
+      <h3>I tuoi OKR</h3>
+      ${renderObjectiveList(digest.ownedObjectives, 'Non hai OKR attivi.')}
+    </div>
+    <div class="section">
+      <h3>OKR a cui contribuisci</h3>
+      ${renderObjectiveList(digest.contributedObjectives, 'Non contribuisci ad altri OKR.')}
+    </div>
+    <a href="${appUrl}" class="cta">Vai a OKR Manager</a>
+  `;
+
+  return wrapEmail(DEFAULT_HEADER_COLOR, heading, content);
+}
+
+/**
+ * Weekly reminder of the key results still waiting for a check-in
+ */
+export function getCheckInReminderEmailHtml({ recipientName, keyResults, appUrl }) {
+  const content = `
+    <p>Ciao ${escapeHtml(recipientName || 'utente')},</p>
+    <p class="title">Hai ${keyResults.length} Key Result in attesa del check-in di questa settimana.</p>
+    <div class="section">
+      ${keyResults.map(kr => `
+        <div class="item">
+          <div><strong>${escapeHtml(kr.description)}</strong></div>
+          <div class="item-meta">
+            ${escapeHtml(kr.objectiveTitle)} · ${kr.lastCheckInAt ? `ultimo check-in ${formatDate(kr.lastCheckInAt)}` : 'nessun check-in'}
+          </div>
+        </div>
+      `).join('')}
+    </div>
+    <p>Aggiorna i valori e la confidenza per tenere il team allineato.</p>
+    <a href="${appUrl}" class="cta">Fai il check-in</a>
+  `;
+
+  return wrapEmail('#f59e0b 0%, #d97706 100%', 'Promemoria check-in', content);
+}
@@ -0,0 +1,97 @@
+/**
+ * Notification Routes - Notification inbox and preferences of the current user
+ */
+import { Router } from 'express';
+import {
+  getNotifications,
+  markAsRead,
+  markAllAsRead,
+  archiveNotification,
+  getPreferences,
+  updatePreferences
+} from './notification.service.js';
+
+export function createNotificationRoutes(config) {
+  const router = Router();
+  const { pool, authMiddleware } = config;
+
+  // All inbox routes require authentication
+  router.use(authMiddleware);
+
+  // List notifications (?archived=true for the archive, ?unread=true for unread only)
+  router.get('/', async (req, res, next) => {
+    try {
+      const inbox = await getNotifications(pool, req.user.id, {
+        archived: req.query.archived === 'true',
+        unreadOnly: req.query.unread === 'true',
+        limit: req.query.limit
+      });
+      res.json(inbox);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Get notification preferences (channel per event type)
+  router.get('/preferences', async (req, res, next) => {
+    try {
+      const preferences = await getPreferences(pool, req.user.id);
+      res.json(preferences);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Update notification preferences
+  router.put('/preferences', async (req, res, next) => {
+    try {
+      const preferences = await updatePreferences(pool, req.user.id, req.body.preferences);
+      res.json(preferences);
+    } catch (error) {
+      if (error.message.includes('Non è possibile')) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Mark all notifications as read
+  router.post('/read-all', async (req, res, next) => {
+    try {
+      const updated = await markAllAsRead(pool, req.user.id);
+      res.json({ updated });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Mark a notification as read
+  router.post('/:id/read', async (req, res, next) => {
+    try {
+      const notification = await markAsRead(pool, req.params.id, req.user.id);
+      if (!notification) {
+        return res.status(404).json({ error: 'Notification not found' });
+      }
+      res.json(notification);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Archive a notification (removes it from the inbox)
+  router.post('/:id/archive', async (req, res, next) => {
+    try {
+      const notification = await archiveNotification(pool, req.params.id, req.user.id);
+      if (!notification) {
+        return res.status(404).json({ error: 'Notification not found' });
+      }
+      res.json(notification);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
+
+export default createNotificationRoutes;
@@ -0,0 +1,351 @@
+/**
+ * Notification Service - Persistent per-user notification inbox
+ * Every real-time event sent through sse.service.js is also stored here,
+ * so notifications follow users across devices and survive reconnects.
+ * Users choose per event type how they are notified (see preferences below).
+ */
+import { getNotificationEmailHtml } from './notification.emails.js';
+
+// Events that only tell the client to reload, not messages for the user
+const TRANSIENT_TYPES = ['refresh_notifications'];
+
+export const NOTIFICATION_CHANNELS = ['in_app', 'email', 'daily_digest', 'weekly_digest', 'off'];
+
+// Configurable event types with their default channel
+// (rejections were always emailed, so they keep doing it)
+const DEFAULT_CHANNELS = {
+  okr_submitted: 'in_app',
+  okr_approved: 'in_app',
+  okr_rejected: 'email',
+  okr_activated: 'in_app',
+  okr_updated: 'in_app',
+  okr_deleted: 'in_app',
+  comment_mention: 'in_app'
+};
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+const OKR_ACTION_LABELS = {
+  paused: 'messo in pausa',
+  resumed: 'ripreso',
+  stopped: 'interrotto'
+};
+
+// Transform DB row to API format
+function transformNotification(row) {
+  return {
+    id: row.id,
+    type: row.type,
+    title: row.title,
+    message: row.message,
+    objectiveId: row.objective_id || null,
+    data: row.data || {},
+    readAt: row.read_at || null,
+    archivedAt: row.archived_at || null,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Build the Italian title and message shown in the inbox for an event
+ */
+export function formatNotification(type, data = {}) {
+  const subject = data.title ? `"${data.title}"` : 'Un OKR';
+
+  switch (type) {
+    case 'okr_submitted':
+      return {
+        title: 'Richiesta Approvazione',
+        message: data.ownerName
+          ? `${subject} di ${data.ownerName} richiede la tua approvazione`
+          : `${subject} richiede la tua approvazione`
+      };
+    case 'okr_approved':
+      return { title: 'OKR Approvato', message: `${subject} è stato approvato` };
+    case 'okr_rejected':
+      return {
+        title: 'OKR Rifiutato',
+        message: data.comment
+          ? `${subject} è stato rifiutato: ${data.comment}`
+          : `${subject} è stato rifiutato`
+      };
+    case 'okr_activated':
+      return { title: 'OKR Attivato', message: `${subject} è ora attivo` };
+    case 'okr_updated':
+      return {
+        title: 'OKR Aggiornato',
+        message: OKR_ACTION_LABELS[data.action]
+          ? `${subject} è stato ${OKR_ACTION_LABELS[data.action]}`
+          : `${subject} è stato aggiornato`
+      };
+    case 'okr_deleted':
+      return { title: 'OKR Eliminato', message: `${subject} è stato eliminato` };
+    case 'comment_mention':
+      return {
+        title: 'Sei stato menzionato',
+        message: `${data.authorName || 'Qualcuno'} ti ha menzionato in ${subject}${data.comment ? `: ${data.comment}` : ''}`
+      };
+    default:
+      return { title: 'Notifica', message: data.title || null };
+  }
+}
+
+export function isPersistentType(type) {
+  return !TRANSIENT_TYPES.includes(type);
+}
+
+/**
+ * Store an event in the inbox of each recipient.
+ * Returns the ids of the users that received a notification.
+ */
+export async function storeNotifications(pool, userIds, type, data = {}) {
+  const recipients = [...new Set((userIds || []).filter(Boolean))];
+  if (recipients.length === 0 || !isPersistentType(type)) return [];
+
+  const { title, message } = formatNotification(type, data);
+  const { rows } = await pool.query(
+    `INSERT INTO notifications (user_id, type, title, message, objective_id, data)
+     SELECT recipient, $2, $3, $4, $5, $6
+     FROM unnest($1::uuid[]) AS recipient
+     RETURNING user_id`,
+    [recipients, type, title, message, data.objectiveId || null, JSON.stringify(data)]
+  );
+
+  return rows.map(row => row.user_id);
+}
+
+/**
+ * Deliver an event to its recipients according to their preferences:
+ * everything but 'off' lands in the inbox, 'email' is also emailed right away,
+ * digest channels are collected by the digest job.
+ * Returns the ids of the users that received an inbox notification.
+ */
+export async function deliverNotification(pool, userIds, type, data = {}, options = {}) {
+  const recipients = [...new Set((userIds || []).filter(Boolean))];
+  if (recipients.length === 0 || !isPersistentType(type)) return [];
+
+  const channels = await getChannelsForUsers(pool, recipients, type);
+  const inboxUserIds = recipients.filter(id => channels.get(id) !== 'off');
+  const storedUserIds = await storeNotifications(pool, inboxUserIds, type, data);
+
+  const emailUserIds = recipients.filter(id => channels.get(id) === 'email');
+  if (emailUserIds.length > 0) {
+    await sendNotificationEmails(pool, emailUserIds, type, data, options);
+  }
+
+  return storedUserIds;
+}
+
+async function sendNotificationEmails(pool, userIds, type, data, options) {
+  const { emailService, frontendUrl } = options;
+  if (!emailService || !emailService.isConfigured()) return;
+
+  const { rows } = await pool.query(
+    'SELECT id, name, email FROM users WHERE id = ANY($1::uuid[])',
+    [userIds]
+  );
+  const { title, message } = formatNotification(type, data);
+
+  for (const user of rows) {
+    try {
+      const html = getNotificationEmailHtml({
+        recipientName: user.name,
+        type,
+        title,
+        message,
+        comment: data.comment,
+        appUrl: frontendUrl || 'http://localhost:3000'
+      });
+      await emailService.sendEmail(user.email, `${title}: ${data.title || 'OKR Manager'}`, html);
+      console.log(`Notification email "${type}" sent to ${user.email}`);
+    } catch (emailError) {
+      console.error(`Failed to send "${type}" notification email:`, emailError);
+      // Don't fail the delivery if email fails
+    }
+  }
+}
+
+// === PREFERENCES ===
+
+// Channel of each user for an event type, falling back to the default
+async function getChannelsForUsers(pool, userIds, type) {
+  const { rows } = await pool.query(
+    `SELECT user_id, channel FROM notification_preferences
+     WHERE user_id = ANY($1::uuid[]) AND event_type = $2`,
+    [userIds, type]
+  );
+
+  const channels = new Map(userIds.map(id => [id, DEFAULT_CHANNELS[type] || 'in_app']));
+  for (const row of rows) {
+    channels.set(row.user_id, row.channel);
+  }
+  return channels;
+}
+
+/**
+ * Channel per event type for a user (defaults included)
+ */
+export async function getPreferences(pool, userId) {
+  const { rows } = await pool.query(
+    'SELECT event_type, channel FROM notification_preferences WHERE user_id = $1',
+    [userId]
+  );
+
+  const preferences = { ...DEFAULT_CHANNELS };
+  for (const row of rows) {
+    if (preferences[row.event_type] !== undefined) {
+      preferences[row.event_type] = row.channel;
+    }
+  }
+  return preferences;
+}
+
+/**
+ * Update the channels of some event types, e.g. { okr_updated: 'off' }
+ */
+export async function updatePreferences(pool, userId, preferences) {
+  if (!preferences || typeof preferences !== 'object') {
+    throw new Error('Non è possibile salvare le preferenze: formato non valido');
+  }
+
+  const entries = Object.entries(preferences);
+  for (const [type, channel] of entries) {
+    if (DEFAULT_CHANNELS[type] === undefined) {
+      throw new Error(`Non è possibile salvare le preferenze: tipo di notifica "${type}" non valido`);
+    }
+    if (!NOTIFICATION_CHANNELS.includes(channel)) {
+      throw new Error(`Non è possibile salvare le preferenze: canale "${channel}" non valido`);
+    }
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    for (const [type, channel] of entries) {
+      await client.query(
+        `INSERT INTO notification_preferences (user_id, event_type, channel)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (user_id, event_type)
+         DO UPDATE SET channel = EXCLUDED.channel, updated_at = NOW()`,
+        [userId, type, channel]
+      );
+    }
+
+    // The first digest covers the period starting now, not the whole history
+    const frequencies = [...new Set(entries
+      .filter(([, channel]) => channel.endsWith('_digest'))
+      .map(([, channel]) => channel.replace('_digest', '')))];
+    for (const frequency of frequencies) {
+      await client.query(
+        `INSERT INTO notification_digests (user_id, frequency)
+         VALUES ($1, $2)
+         ON CONFLICT (user_id, frequency) DO NOTHING`,
+        [userId, frequency]
+      );
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return getPreferences(pool, userId);
+}
+
+// === INBOX ===
+
+/**
+ * Users of a company that receive company-wide events
+ */
+export async function getCompanyRecipients(pool, companyId, { adminsOnly = false, excludeUserId = null } = {}) {
+  const params = [companyId];
+  let query = `
+    SELECT id FROM users
+    WHERE (company_id = $1 OR id = $1) AND role != 'superadmin'
+  `;
+
+  if (adminsOnly) {
+    query += ` AND role = 'admin'`;
+  }
+  if (excludeUserId) {
+    params.push(excludeUserId);
+    query += ` AND id != $${params.length}`;
+  }
+
+  const { rows } = await pool.query(query, params);
+  return rows.map(row => row.id);
+}
+
+/**
+ * Inbox of a user, newest first, with the number of unread notifications.
+ * Archived notifications are only returned when requested.
+ */
+export async function getNotifications(pool, userId, { archived = false, unreadOnly = false, limit } = {}) {
+  const parsedLimit = parseInt(limit, 10);
+  const pageSize = Math.min(parsedLimit > 0 ? parsedLimit : DEFAULT_LIMIT, MAX_LIMIT);
+
+  let query = `
+    SELECT * FROM notifications
+    WHERE user_id = $1 AND archived_at IS ${archived ? 'NOT NULL' : 'NULL'}
+  `;
+  if (unreadOnly) {
+    query += ' AND read_at IS NULL';
+  }
+  query += ' ORDER BY created_at DESC LIMIT $2';
+
+  const [{ rows }, unreadCount] = await Promise.all([
+    pool.query(query, [userId, pageSize]),
+    getUnreadCount(pool, userId)
+  ]);
+
+  return {
+    notifications: rows.map(transformNotification),
+    unreadCount
+  };
+}
+
+export async function getUnreadCount(pool, userId) {
+  const { rows } = await pool.query(
+    `SELECT COUNT(*)::int as count FROM notifications
+     WHERE user_id = $1 AND read_at IS NULL AND archived_at IS NULL`,
+    [userId]
+  );
+  return rows[0].count;
+}
+
+export async function markAsRead(pool, id, userId) {
+  const { rows } = await pool.query(
+    `UPDATE notifications SET read_at = COALESCE(read_at, NOW())
+     WHERE id = $1 AND user_id = $2
+     RETURNING *`,
+    [id, userId]
+  );
+  return rows.length > 0 ? transformNotification(rows[0]) : null;
+}
+
+// Returns the number of notifications marked as read
+export async function markAllAsRead(pool, userId) {
+  const { rowCount } = await pool.query(
+    `UPDATE notifications SET read_at = NOW()
+     WHERE user_id = $1 AND read_at IS NULL AND archived_at IS NULL`,
+    [userId]
+  );
+  return rowCount;
+}
+
+// Archiving also marks the notification as read
+export async function archiveNotification(pool, id, userId) {
+  const { rows } = await pool.query(
+    `UPDATE notifications
+     SET archived_at = COALESCE(archived_at, NOW()), read_at = COALESCE(read_at, NOW())
+     WHERE id = $1 AND user_id = $2
+     RETURNING *`,
+    [id, userId]
+  );
+  return rows.length > 0 ? transformNotification(rows[0]) : null;
+}
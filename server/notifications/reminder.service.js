@@ -0,0 +1,43 @@
+/**
+ * Reminder Service - Weekly check-in reminder emails
+ */
+import { getCheckInsDue } from '../okr/okr.service.js';
+import { getCheckInReminderEmailHtml } from './notification.emails.js';
+
+/**
+ * Email every user that owns or contributes to active objectives whose key
+ * results have no check-in this week. Returns the number of emails sent.
+ */
+export async function sendCheckInReminders(pool, options = {}) {
+  const { emailService, frontendUrl } = options;
+  if (!emailService || !emailService.isConfigured()) return 0;
+
+  const { rows: users } = await pool.query(`
+    SELECT DISTINCT u.id, u.name, u.email
+    FROM objectives o
+    LEFT JOIN objective_contributors oc ON oc.objective_id = o.id
+    JOIN users u ON u.id = o.owner_id OR u.id = oc.user_id
+    WHERE o.approval_status = 'active'
+  `);
+
+  let sent = 0;
+  for (const user of users) {
+    try {
+      const keyResults = await getCheckInsDue(pool, user.id);
+      if (keyResults.length === 0) continue;
+
+      const html = getCheckInReminderEmailHtml({
+        recipientName: user.name,
+        keyResults,
+        appUrl: frontendUrl || 'http://localhost:3000'
+      });
+      await emailService.sendEmail(user.email, 'Promemoria: check-in settimanale OKR', html);
+      sent++;
+    } catch (error) {
+      console.error(`[Reminders] Failed to send check-in reminder to ${user.email}:`, error);
+      // Other users still get their reminder
+    }
+  }
+
+  return sent;
+}
@@ -2,7 +2,7 @@
  * SSE Routes - Server-Sent Events endpoint for real-time notifications
  */
 import { Router } from 'express';
-import { addClient, removeClient } from './sse.service.js';
+import { addClient, removeClient, replayEvents } from './sse.service.js';
 
 export function createSSERoutes(config) {
   const router = Router();
@@ -10,6 +10,7 @@ export function createSSERoutes(config) {
 
   // SSE endpoint for real-time notifications
   // Note: EventSource doesn't support custom headers, so we accept token as query param
+  // (and lastEventId, for clients that reconnect with a new EventSource)
   router.get('/stream', async (req, res, next) => {
     try {
       // Check for token in query string (for EventSource)
@@ -46,6 +47,12 @@ export function createSSERoutes(config) {
     // Add client to connected clients
     addClient(userId, companyId, res);
 
+    // Send what the client missed while it was disconnected
+    const lastEventId = req.headers['last-event-id'] || req.query.lastEventId;
+    if (lastEventId) {
+      replayEvents(userId, res, lastEventId);
+    }
+
     // Handle client disconnect
     req.on('close', () => {
       removeClient(userId, companyId, res);
@@ -1,7 +1,12 @@
 /**
  * Server-Sent Events (SSE) Notification Service
- * Manages real-time notifications to connected clients
+ * Manages real-time notifications to connected clients.
+ * With several server instances, events are fanned out through a broadcast
+ * backend (see broadcast.js) so they reach clients connected anywhere.
  */
+import { randomUUID } from 'node:crypto';
+import { deliverNotification, getCompanyRecipients, isPersistentType } from './notification.service.js';
+import { createLocalBroadcast } from './broadcast.js';
 
 // Store connected clients by user ID
 // Map<userId, Set<response>>
@@ -11,6 +16,91 @@ const connectedClients = new Map();
 // Map<companyId, Set<{userId, res}>>
 const companyClients = new Map();
 
+// Last events of each user, so reconnecting clients receive what they missed
+const REPLAY_BUFFER_SIZE = 100;
+// Buffers of users disconnected for longer than this are dropped
+const REPLAY_RETENTION_MS = 60 * 60 * 1000;
+
+// Event ids are seeded from the clock so they keep increasing across restarts,
+// and pushed past ids received from other instances so they keep increasing there too
+let lastEventId = Date.now() * 1000;
+
+// Map<userId, { companyId, events: [{ id, message }], droppedUpTo, disconnectedAt }>
+// droppedUpTo: newest event id that is no longer in the buffer
+const replayBuffers = new Map();
+
+// Fan-out to the other server instances (single instance until initBroadcast)
+const INSTANCE_ID = randomUUID();
+let broadcastBackend = createLocalBroadcast();
+
+// Database pool used to store notifications in the inbox (set at startup)
+let notificationPool = null;
+// Email delivery for users that asked for it ({ emailService, frontendUrl })
+let notificationOptions = {};
+
+/**
+ * Enable persistence (and email delivery) of sent notifications
+ */
+export function initNotificationStore(pool, options = {}) {
+  notificationPool = pool;
+  notificationOptions = options;
+}
+
+/**
+ * Use a broadcast backend to reach clients connected to other instances
+ */
+export async function initBroadcast(backend) {
+  await broadcastBackend.stop();
+  broadcastBackend = backend;
+  await broadcastBackend.start(handleBroadcast);
+  console.log(`[SSE] Broadcast backend: ${backend.name} (instance ${INSTANCE_ID})`);
+}
+
+/**
+ * Publish an event delivered on this instance to the other instances
+ */
+function publishEvent(message) {
+  broadcastBackend.publish({ ...message, origin: INSTANCE_ID }).catch(error => {
+    console.error(`[SSE] Error broadcasting "${message.event}":`, error);
+  });
+}
+
+/**
+ * Deliver an event published by another instance to the local clients
+ */
+function handleBroadcast(message) {
+  if (!message || message.origin === INSTANCE_ID) return;
+
+  lastEventId = Math.max(lastEventId, message.id);
+  if (message.scope === 'user') {
+    deliverToUser(message.userId, message.event, message.data, message.id);
+  } else if (message.scope === 'company') {
+    deliverToCompany(message.companyId, message.event, message.data, message.id, message.excludeUserId);
+  }
+}
+
+/**
+ * Deliver an event to the inbox (and email) of its recipients according to
+ * their preferences, then tell their open clients to reload the inbox.
+ * Live delivery does not wait for the database.
+ */
+function persistNotification(resolveRecipients, event, data) {
+  if (!notificationPool || !isPersistentType(event)) return;
+
+  resolveRecipients()
+    .then(userIds => deliverNotification(notificationPool, userIds, event, data, notificationOptions))
+    .then(storedUserIds => {
+      for (const userId of storedUserIds) {
+        sendToUser(userId, NotificationTypes.REFRESH_NOTIFICATIONS, {
+          timestamp: new Date().toISOString()
+        });
+      }
+    })
+    .catch(error => {
+      console.error(`[SSE] Error storing "${event}" notification:`, error);
+    });
+}
+
 /**
  * Add a client connection
  */
@@ -21,6 +111,18 @@ export function addClient(userId, companyId, res) {
   }
   connectedClients.get(userId).add(res);
 
+  // Start buffering events for the user (kept across reconnects)
+  if (replayBuffers.has(userId)) {
+    replayBuffers.get(userId).disconnectedAt = null;
+  } else {
+    replayBuffers.set(userId, {
+      companyId,
+      events: [],
+      droppedUpTo: lastEventId,
+      disconnectedAt: null
+    });
+  }
+
   // Add to company-wide clients
   if (companyId) {
     if (!companyClients.has(companyId)) {
@@ -41,6 +143,9 @@ export function removeClient(userId, companyId, res) {
     connectedClients.get(userId).delete(res);
     if (connectedClients.get(userId).size === 0) {
       connectedClients.delete(userId);
+      if (replayBuffers.has(userId)) {
+        replayBuffers.get(userId).disconnectedAt = Date.now();
+      }
     }
   }
 
@@ -61,6 +166,73 @@ export function removeClient(userId, companyId, res) {
   console.log(`[SSE] Client disconnected: user=${userId}. Total connections: ${getTotalConnections()}`);
 }
 
+/**
+ * Next event id (monotonically increasing)
+ */
+function nextEventId() {
+  lastEventId += 1;
+  return lastEventId;
+}
+
+/**
+ * Keep an event in the replay buffer of a user
+ */
+function bufferEvent(userId, id, message) {
+  const buffer = replayBuffers.get(userId);
+  if (!buffer) return;
+
+  buffer.events.push({ id, message });
+  if (buffer.events.length > REPLAY_BUFFER_SIZE) {
+    const dropped = buffer.events.shift();
+    buffer.droppedUpTo = dropped.id;
+  }
+}
+
+/**
+ * Send the events a reconnecting client missed since lastSeenId
+ * (the Last-Event-ID of the client). When some of them are no longer
+ * buffered, the client is told to reload its notification inbox instead.
+ * Returns the number of replayed events.
+ */
+export function replayEvents(userId, res, lastSeenId) {
+  const since = Number(lastSeenId);
+  if (!lastSeenId || !Number.isFinite(since)) return 0;
+
+  const buffer = replayBuffers.get(userId);
+  const missed = buffer ? buffer.events.filter(e => e.id > since) : [];
+
+  try {
+    for (const { message } of missed) {
+      res.write(message);
+    }
+
+    if (!buffer || since < buffer.droppedUpTo) {
+      res.write(formatSSEMessage(NotificationTypes.REFRESH_NOTIFICATIONS, {
+        timestamp: new Date().toISOString()
+      }, lastEventId));
+    }
+  } catch (error) {
+    console.error(`[SSE] Error replaying events to user ${userId}:`, error);
+  }
+
+  if (missed.length > 0) {
+    console.log(`[SSE] Replayed ${missed.length} events to user ${userId}`);
+  }
+  return missed.length;
+}
+
+/**
+ * Drop the buffers of users that did not come back
+ */
+function pruneReplayBuffers() {
+  const now = Date.now();
+  for (const [userId, buffer] of replayBuffers) {
+    if (buffer.disconnectedAt && now - buffer.disconnectedAt > REPLAY_RETENTION_MS) {
+      replayBuffers.delete(userId);
+    }
+  }
+}
+
 /**
  * Get total number of connections
  */
@@ -73,18 +245,13 @@ function getTotalConnections() {
 }
 
 /**
- * Send notification to a specific user
+ * Write a formatted message to all connections of a user
  */
-export function sendToUser(userId, event, data) {
+function writeToUser(userId, message) {
   const clients = connectedClients.get(userId);
-  if (!clients || clients.size === 0) {
-    console.log(`[SSE] No connected clients for user ${userId}`);
-    return false;
-  }
+  if (!clients) return 0;
 
-  const message = formatSSEMessage(event, data);
   let sent = 0;
-
   for (const res of clients) {
     try {
       res.write(message);
@@ -93,6 +260,34 @@ export function sendToUser(userId, event, data) {
       console.error(`[SSE] Error sending to user ${userId}:`, error);
     }
   }
+  return sent;
+}
+
+/**
+ * Send notification to a specific user
+ */
+export function sendToUser(userId, event, data) {
+  persistNotification(async () => [userId], event, data);
+
+  const id = nextEventId();
+  publishEvent({ scope: 'user', userId, event, data, id });
+  return deliverToUser(userId, event, data, id);
+}
+
+/**
+ * Write an event to the clients of a user connected to this instance
+ */
+function deliverToUser(userId, event, data, id) {
+  const message = formatSSEMessage(event, data, id);
+  bufferEvent(userId, id, message);
+
+  const clients = connectedClients.get(userId);
+  if (!clients || clients.size === 0) {
+    console.log(`[SSE] No connected clients for user ${userId}`);
+    return false;
+  }
+
+  const sent = writeToUser(userId, message);
 
   console.log(`[SSE] Sent "${event}" to user ${userId} (${sent} connections)`);
   return sent > 0;
@@ -102,13 +297,40 @@ export function sendToUser(userId, event, data) {
  * Send notification to all users in a company
  */
 export function sendToCompany(companyId, event, data, excludeUserId = null) {
+  persistNotification(
+    () => getCompanyRecipients(notificationPool, companyId, { excludeUserId }),
+    event,
+    data
+  );
+  return broadcastToCompany(companyId, event, data, excludeUserId);
+}
+
+/**
+ * Send an event to all connected clients of a company, on every instance
+ */
+function broadcastToCompany(companyId, event, data, excludeUserId = null) {
+  const id = nextEventId();
+  publishEvent({ scope: 'company', companyId, excludeUserId, event, data, id });
+  return deliverToCompany(companyId, event, data, id, excludeUserId);
+}
+
+/**
+ * Write an event to the clients of a company connected to this instance
+ */
+function deliverToCompany(companyId, event, data, id, excludeUserId = null) {
+  const message = formatSSEMessage(event, data, id);
+  for (const [userId, buffer] of replayBuffers) {
+    if (buffer.companyId === companyId && userId !== excludeUserId) {
+      bufferEvent(userId, id, message);
+    }
+  }
+
   const clients = companyClients.get(companyId);
   if (!clients || clients.size === 0) {
     console.log(`[SSE] No connected clients for company ${companyId}`);
     return false;
   }
 
-  const message = formatSSEMessage(event, data);
   let sent = 0;
 
   for (const { userId, res } of clients) {
@@ -128,17 +350,25 @@ export function sendToCompany(companyId, event, data, excludeUserId = null) {
 /**
  * Send notification to all admins in a company
  */
-export function sendToAdmins(companyId, event, data, pool) {
-  // This would require knowing which connected users are admins
-  // For simplicity, we broadcast to the company and let the client filter
-  return sendToCompany(companyId, event, data);
+export function sendToAdmins(companyId, event, data, excludeUserId = null) {
+  // Only admins get it in their inbox
+  persistNotification(
+    () => getCompanyRecipients(notificationPool, companyId, { adminsOnly: true, excludeUserId }),
+    event,
+    data
+  );
+
+  // Connected clients are not tracked by role:
+  // we broadcast to the company and let the client filter
+  return broadcastToCompany(companyId, event, data, excludeUserId);
 }
 
 /**
- * Format SSE message
+ * Format SSE message (with an id, clients send it back as Last-Event-ID)
  */
-function formatSSEMessage(event, data) {
-  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+function formatSSEMessage(event, data, id = null) {
+  const idLine = id !== null ? `id: ${id}\n` : '';
+  return `${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
 }
 
 /**
@@ -161,6 +391,9 @@ export function sendHeartbeat() {
 // Send heartbeat every 30 seconds to keep connections alive
 setInterval(sendHeartbeat, 30000);
 
+// Drop stale replay buffers every 5 minutes
+setInterval(pruneReplayBuffers, 5 * 60 * 1000);
+
 /**
  * Notification types
  */
@@ -171,15 +404,19 @@ export const NotificationTypes = {
   OKR_ACTIVATED: 'okr_activated',
   OKR_UPDATED: 'okr_updated',
   OKR_DELETED: 'okr_deleted',
+  COMMENT_MENTION: 'comment_mention',
   REFRESH_NOTIFICATIONS: 'refresh_notifications'
 };
 
 export default {
+  initNotificationStore,
+  initBroadcast,
   addClient,
   removeClient,
   sendToUser,
   sendToCompany,
   sendToAdmins,
+  replayEvents,
   sendHeartbeat,
   NotificationTypes
 };
@@ -0,0 +1,193 @@
+/**
+ * Comment Service - Discussion threads on objectives and key results
+ */
+import { sendToUser, NotificationTypes } from '../notifications/sse.service.js';
+
+const MAX_COMMENT_LENGTH = 5000;
+
+// Transform DB row to API format
+function transformComment(row) {
+  return {
+    id: row.id,
+    objectiveId: row.objective_id,
+    keyResultId: row.key_result_id || null,
+    parentCommentId: row.parent_comment_id || null,
+    authorId: row.author_id,
+    authorName: row.author_name,
+    body: row.body,
+    mentions: row.mentions || [],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+// Objective (and optional key result) visible to the company, or null
+async function getCommentTarget(pool, objectiveId, keyResultId, companyId) {
+  const { rows } = await pool.query(
+    `SELECT o.id, o.title, kr.id as key_result_id, kr.description as key_result_description
+     FROM objectives o
+     JOIN users u ON o.owner_id = u.id
+     LEFT JOIN key_results kr ON kr.objective_id = o.id AND kr.id = $2 AND kr.deleted_at IS NULL
+     WHERE o.id = $1 AND o.deleted_at IS NULL AND (u.company_id = $3 OR u.id = $3)`,
+    [objectiveId, keyResultId || null, companyId]
+  );
+  if (rows.length === 0) return null;
+  if (keyResultId && !rows[0].key_result_id) return null;
+  return rows[0];
+}
+
+// Keep only mentioned users that belong to the company
+async function resolveMentions(pool, mentionIds, companyId) {
+  if (!Array.isArray(mentionIds) || mentionIds.length === 0) return [];
+  const { rows } = await pool.query(
+    `SELECT id FROM users
+     WHERE id = ANY($1::uuid[]) AND (company_id = $2 OR id = $2)`,
+    [[...new Set(mentionIds)], companyId]
+  );
+  return rows.map(row => row.id);
+}
+
+function validateBody(body) {
+  if (!body || !body.trim()) {
+    throw new Error('Non è possibile pubblicare un commento vuoto');
+  }
+  if (body.length > MAX_COMMENT_LENGTH) {
+    throw new Error(`Non è possibile pubblicare il commento: massimo ${MAX_COMMENT_LENGTH} caratteri`);
+  }
+}
+
+/**
+ * Comments of an objective, oldest first. Without keyResultId only the
+ * objective-level thread is returned, with it only that key result's thread.
+ * Returns null when the objective is not visible to the company.
+ */
+export async function getComments(pool, objectiveId, companyId, keyResultId = null) {
+  const target = await getCommentTarget(pool, objectiveId, keyResultId, companyId);
+  if (!target) return null;
+
+  const { rows } = await pool.query(
+    `SELECT c.*, u.name as author_name
+     FROM comments c
+     JOIN users u ON c.author_id = u.id
+     WHERE c.objective_id = $1 AND c.company_id = $2
+       AND ${keyResultId ? 'c.key_result_id = $3' : 'c.key_result_id IS NULL'}
+     ORDER BY c.created_at`,
+    keyResultId ? [objectiveId, companyId, keyResultId] : [objectiveId, companyId]
+  );
+
+  return rows.map(transformComment);
+}
+
+export async function getCommentById(pool, id, companyId) {
+  const { rows } = await pool.query(
+    `SELECT c.*, u.name as author_name
+     FROM comments c
+     JOIN users u ON c.author_id = u.id
+     WHERE c.id = $1 AND c.company_id = $2`,
+    [id, companyId]
+  );
+  return rows.length > 0 ? transformComment(rows[0]) : null;
+}
+
+/**
+ * Post a comment (or a reply) and notify mentioned users.
+ * Returns null when the objective or key result is not visible to the company.
+ */
+export async function createComment(pool, objectiveId, data, user, companyId) {
+  const { body, keyResultId, parentCommentId, mentionIds } = data;
+  validateBody(body);
+
+  const target = await getCommentTarget(pool, objectiveId, keyResultId, companyId);
+  if (!target) return null;
+
+  // Replies stay in the thread of their parent
+  if (parentCommentId) {
+    const parent = await getCommentById(pool, parentCommentId, companyId);
+    if (!parent || parent.objectiveId !== objectiveId || parent.keyResultId !== (keyResultId || null)) {
+      throw new Error('Non è possibile rispondere: commento non trovato in questa discussione');
+    }
+  }
+
+  const mentions = (await resolveMentions(pool, mentionIds, companyId)).filter(id => id !== user.id);
+
+  const { rows } = await pool.query(
+    `INSERT INTO comments (company_id, objective_id, key_result_id, parent_comment_id, author_id, body, mentions)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING id`,
+    [companyId, objectiveId, keyResultId || null, parentCommentId || null, user.id, body.trim(), mentions]
+  );
+
+  const comment = await getCommentById(pool, rows[0].id, companyId);
+
+  for (const mentionedId of mentions) {
+    sendToUser(mentionedId, NotificationTypes.COMMENT_MENTION, {
+      objectiveId,
+      keyResultId: keyResultId || null,
+      commentId: comment.id,
+      title: target.title,
+      comment: comment.body.slice(0, 200),
+      authorName: comment.authorName,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  return comment;
+}
+
+// Edit own comment; new mentions are notified, already mentioned users are not
+export async function updateComment(pool, id, data, user, companyId) {
+  const existing = await getCommentById(pool, id, companyId);
+  if (!existing) return null;
+  if (existing.authorId !== user.id) {
+    throw new Error('Non è possibile modificare il commento di un altro utente');
+  }
+  validateBody(data.body);
+
+  const mentions = (await resolveMentions(pool, data.mentionIds, companyId)).filter(mid => mid !== user.id);
+  await pool.query(
+    'UPDATE comments SET body = $1, mentions = $2, updated_at = NOW() WHERE id = $3',
+    [data.body.trim(), mentions, id]
+  );
+
+  const comment = await getCommentById(pool, id, companyId);
+  const newMentions = mentions.filter(mid => !existing.mentions.includes(mid));
+  if (newMentions.length > 0) {
+    const { rows } = await pool.query('SELECT title FROM objectives WHERE id = $1', [comment.objectiveId]);
+    for (const mentionedId of newMentions) {
+      sendToUser(mentionedId, NotificationTypes.COMMENT_MENTION, {
+        objectiveId: comment.objectiveId,
+        keyResultId: comment.keyResultId,
+        commentId: comment.id,
+        title: rows[0]?.title,
+        comment: comment.body.slice(0, 200),
+        authorName: comment.authorName,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  return comment;
+}
+
+// Delete a comment (author or admin); replies are removed with it
+export async function deleteComment(pool, id, user, companyId) {
+  const existing = await getCommentById(pool, id, companyId);
+  if (!existing) return false;
+  if (existing.authorId !== user.id && user.role !== 'admin') {
+    throw new Error('Non è possibile eliminare il commento di un altro utente');
+  }
+
+  await pool.query('DELETE FROM comments WHERE id = $1 AND company_id = $2', [id, companyId]);
+  return true;
+}
+
+// Users of the company that can be @mentioned
+export async function getMentionableUsers(pool, companyId) {
+  const { rows } = await pool.query(
+    `SELECT id, name, email FROM users
+     WHERE (company_id = $1 OR id = $1) AND role != 'superadmin'
+     ORDER BY name`,
+    [companyId]
+  );
+  return rows;
+}
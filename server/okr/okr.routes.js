@@ -8,11 +8,23 @@ import {
   createObjective,
   updateObjective,
   deleteObjective,
+  getCloneTree,
+  cloneObjective,
   createKeyResult,
   updateKeyResult,
   deleteKeyResult,
+  getKeyResultById,
+  // Check-in functions
+  createCheckIn,
+  getCheckIns,
+  getObjectiveCheckIns,
+  getCheckInsDue,
   getStats,
   getProgressHistory,
+  getProgressTrend,
+  getCompletionByLevel,
+  getStatusDistribution,
+  getTeamRiskRatios,
   getUserDataCount,
   reassignUserOKRs,
   // Hierarchy functions
@@ -31,7 +43,6 @@ import {
   reopenObjective,
   archiveObjective,
   revertToDraft,
-  autoFailExpiredObjectives,
   getApprovalHistory,
   getPendingApprovals,
   // Contributors functions
@@ -41,14 +52,71 @@ import {
   updateContributorRole,
   getMyContributions
 } from './okr.service.js';
+import {
+  getPeriods,
+  getPeriodById,
+  createPeriod,
+  updatePeriod,
+  deletePeriod,
+  resolveObjectivePeriod,
+  getRolloverCandidates,
+  closePeriod,
+  reopenPeriod
+} from './period.service.js';
+import {
+  getTemplates,
+  getTemplateById,
+  createTemplate,
+  createTemplateFromObjective,
+  updateTemplate,
+  deleteTemplate,
+  recordTemplateUsage
+} from './template.service.js';
+import {
+  getComments,
+  createComment,
+  updateComment,
+  deleteComment,
+  getMentionableUsers
+} from './comment.service.js';
+import {
+  getTrash,
+  getTrashItem,
+  restoreObjective,
+  restoreKeyResult,
+  purgeTrashItem,
+  getTrashSettings,
+  updateTrashSettings
+} from './trash.service.js';
+import { createBodyAccessMiddleware } from '../access/access.middleware.js';
 
 export function createOKRRoutes(config) {
   const router = Router();
-  const { pool, authMiddleware, requireAdmin, checkOKRLimit, checkKeyResultLimit, emailService, frontendUrl } = config;
+  const { pool, authMiddleware, requireAdmin, audit, authorize, validate, checkOKRLimit, checkKeyResultLimit } = config;
+  const authorizeBody = createBodyAccessMiddleware(pool);
 
   // All routes require authentication
   router.use(authMiddleware);
 
+  // Resource ids in paths must belong to the caller's company (404 otherwise)
+  router.param('id', authorize({
+    objectives: 'objective',
+    'key-results': 'key_result',
+    comments: 'comment',
+    periods: 'period',
+    templates: 'template'
+  }));
+  router.param('contributorId', authorize('contributor'));
+  router.param('userId', authorize('user'));
+
+  // Resource ids in request bodies too (400 otherwise)
+  const authorizeObjectiveLinks = authorizeBody({
+    ownerId: 'user',
+    teamId: 'team',
+    parentObjectiveId: 'objective',
+    parentKeyResultId: 'key_result'
+  });
+
   // Get users that can be assigned OKRs (accessible to lead and admin)
   // Multi-tenant: filters by company_id to show only users from same company
   router.get('/assignable-users', async (req, res, next) => {
@@ -96,13 +164,10 @@ export function createOKRRoutes(config) {
 
   // Get all objectives (with optional filters)
   // Multi-tenant: filters by company_id for tenant isolation
-  router.get('/objectives', async (req, res, next) => {
+  router.get('/objectives', validate('listObjectives'), async (req, res, next) => {
     try {
-      // Auto-fail expired objectives before fetching
-      await autoFailExpiredObjectives(pool);
-
-      const { level, period, status, mine } = req.query;
-      const filters = { level, period, status };
+      const { level, period, periodId, status, mine } = req.query;
+      const filters = { level, period, periodId, status };
 
       // Multi-tenant: filter by company_id
       if (req.user.company_id) {
@@ -122,7 +187,7 @@ export function createOKRRoutes(config) {
   });
 
   // Get single objective
-  router.get('/objectives/:id', async (req, res, next) => {
+  router.get('/objectives/:id', validate('getObjective'), async (req, res, next) => {
     try {
       const objective = await getObjectiveById(pool, req.params.id);
       if (!objective) {
@@ -135,7 +200,7 @@ export function createOKRRoutes(config) {
   });
 
   // Create objective
-  router.post('/objectives', async (req, res, next) => {
+  router.post('/objectives', validate('createObjective'), authorizeObjectiveLinks, audit('objective.create', { entity: 'objective', id: (req, body) => body?.id }), async (req, res, next) => {
     try {
       const { level, ownerId } = req.body;
       const userRole = req.user.role || 'user';
@@ -197,15 +262,29 @@ export function createOKRRoutes(config) {
         }
       }
 
-      const objective = await createObjective(pool, req.body, req.user.id);
+      // Resolve the planning period (rejects closed periods)
+      const companyId = req.user.company_id || req.user.id;
+      const period = await resolveObjectivePeriod(pool, companyId, req.body);
+      const data = period ? { ...req.body, period: period.name, periodId: period.id } : req.body;
+
+      const objective = await createObjective(pool, data, req.user.id);
+
+      // Objective started from a template: the limits above already applied to its KRs
+      if (req.body.templateId) {
+        await recordTemplateUsage(pool, req.body.templateId, companyId);
+      }
+
       res.status(201).json(objective);
     } catch (error) {
+      if (error.message.includes('Non è possibile')) {
+        return res.status(400).json({ error: error.message });
+      }
       next(error);
     }
   });
 
   // Update objective
-  router.put('/objectives/:id', async (req, res, next) => {
+  router.put('/objectives/:id', validate('updateObjective'), authorizeObjectiveLinks, audit('objective.update', { entity: 'objective' }), async (req, res, next) => {
     try {
       const existing = await getObjectiveById(pool, req.params.id);
       if (!existing) {
@@ -239,7 +318,15 @@ export function createOKRRoutes(config) {
         }
       }
 
-      const objective = await updateObjective(pool, req.params.id, req.body, req.user.id);
+      // Moving to another period: resolve it and reject closed periods
+      const companyId = req.user.company_id || req.user.id;
+      const { periodId: newPeriodId, period: newPeriodName } = req.body;
+      const isMoving = (newPeriodId && newPeriodId !== existing.periodId) ||
+                       (!newPeriodId && newPeriodName && newPeriodName !== existing.period);
+      const period = isMoving ? await resolveObjectivePeriod(pool, companyId, req.body) : null;
+      const data = period ? { ...req.body, period: period.name, periodId: period.id } : req.body;
+
+      const objective = await updateObjective(pool, req.params.id, data, req.user.id);
       res.json(objective);
     } catch (error) {
       if (error.message.includes('Non è possibile')) {
@@ -250,7 +337,7 @@ export function createOKRRoutes(config) {
   });
 
   // Delete objective
-  router.delete('/objectives/:id', async (req, res, next) => {
+  router.delete('/objectives/:id', audit('objective.delete', { entity: 'objective' }), async (req, res, next) => {
     try {
       const existing = await getObjectiveById(pool, req.params.id);
       if (!existing) {
@@ -265,7 +352,7 @@ export function createOKRRoutes(config) {
         return res.status(403).json({ error: 'Not authorized to delete this objective' });
       }
 
-      await deleteObjective(pool, req.params.id);
+      await deleteObjective(pool, req.params.id, req.user.id);
       res.status(204).send();
     } catch (error) {
       if (error.message.includes('Non è possibile')) {
@@ -275,10 +362,99 @@ export function createOKRRoutes(config) {
     }
   });
 
+  // Duplicate objective as a draft, optionally with its aligned children
+  router.post('/objectives/:id/clone', authorizeBody({ ownerId: 'user', teamId: 'team' }), audit('objective.clone', {
+    entity: 'objective',
+    id: (req, body) => body?.objective?.id,
+    metadata: (req, body) => ({ sourceObjectiveId: req.params.id, clonedCount: body?.clonedCount })
+  }), async (req, res, next) => {
+    try {
+      const { ownerId, teamId, includeChildren = false } = req.body;
+      const userRole = req.user.role || 'user';
+      const companyId = req.user.company_id || req.user.id;
+
+      const existing = await getObjectiveById(pool, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Objective not found' });
+      }
+
+      // Same level and assignment rules as creating the objective
+      const allowedLevels = {
+        admin: ['company', 'team', 'individual'],
+        lead: ['team', 'individual'],
+        user: ['individual']
+      };
+      const userAllowedLevels = allowedLevels[userRole] || allowedLevels.user;
+      if (!userAllowedLevels.includes(existing.level)) {
+        return res.status(403).json({
+          error: `Non hai i permessi per creare obiettivi di livello "${existing.level}". Livelli consentiti: ${userAllowedLevels.join(', ')}`
+        });
+      }
+      const targetOwnerId = ownerId || existing.ownerId;
+      if (targetOwnerId !== req.user.id) {
+        if (userRole === 'user') {
+          return res.status(403).json({
+            error: 'Non hai i permessi per assegnare OKR ad altri utenti'
+          });
+        }
+        if (userRole === 'lead' && existing.level !== 'individual') {
+          return res.status(403).json({
+            error: 'Come Lead puoi assegnare ad altri utenti solo OKR individuali'
+          });
+        }
+      }
+
+      // Every copied objective counts against its owner's OKR limit
+      const tree = await getCloneTree(pool, req.params.id, includeChildren);
+      if (checkOKRLimit) {
+        const owners = new Map();
+        for (const objective of tree) {
+          const isRoot = objective.id === req.params.id;
+          if (isRoot && ownerId) {
+            const { rows } = await pool.query('SELECT id, role FROM users WHERE id = $1', [ownerId]);
+            owners.set(rows[0].id, rows[0].role);
+          } else {
+            owners.set(objective.owner_id, objective.owner_role);
+          }
+        }
+        for (const [id, role] of owners) {
+          const limitCheck = await checkOKRLimit(pool, companyId, id, role);
+          if (!limitCheck.allowed) {
+            return res.status(403).json({
+              error: limitCheck.error,
+              usage: limitCheck.usage,
+              limits: limitCheck.limits
+            });
+          }
+        }
+      }
+
+      // Target period defaults to the source one; closed periods are rejected
+      const period = await resolveObjectivePeriod(pool, companyId, {
+        periodId: req.body.periodId || (req.body.period ? undefined : existing.periodId),
+        period: req.body.period || existing.period
+      });
+
+      const result = await cloneObjective(pool, req.params.id, {
+        period,
+        ownerId,
+        teamId,
+        title: req.body.title,
+        includeChildren
+      });
+      res.status(201).json(result);
+    } catch (error) {
+      if (error.message.includes('Non è possibile')) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
   // === KEY RESULTS ===
 
   // Add key result to objective
-  router.post('/objectives/:id/key-results', async (req, res, next) => {
+  router.post('/objectives/:id/key-results', validate('addKeyResult'), audit('key_result.create', { entity: 'key_result', id: (req, body) => body?.id }), async (req, res, next) => {
     try {
       const existing = await getObjectiveById(pool, req.params.id);
       if (!existing) {
@@ -318,9 +494,22 @@ export function createOKRRoutes(config) {
     }
   });
 
-  // Update key result
-  router.put('/key-results/:id', async (req, res, next) => {
+  // Owner of the key result's objective, company admin or (with contributors) a contributor
+  const canEditKeyResult = async (req, { contributors = true } = {}) => {
+    if (req.resources.id.isOwner || req.user.role === 'admin') return true;
+    if (!contributors) return false;
+    const keyResult = await getKeyResultById(pool, req.params.id);
+    const objectiveContributors = keyResult ? await getContributors(pool, keyResult.objectiveId) : [];
+    return objectiveContributors.some(c => c.userId === req.user.id);
+  };
+
+  // Update key result (owner, admin or contributor)
+  router.put('/key-results/:id', validate('updateKeyResult'), audit('key_result.update', { entity: 'key_result' }), async (req, res, next) => {
     try {
+      if (!await canEditKeyResult(req)) {
+        return res.status(403).json({ error: 'Not authorized' });
+      }
+
       const keyResult = await updateKeyResult(pool, req.params.id, req.body, req.user.id);
       if (!keyResult) {
         return res.status(404).json({ error: 'Key result not found' });
@@ -334,10 +523,14 @@ export function createOKRRoutes(config) {
     }
   });
 
-  // Delete key result
-  router.delete('/key-results/:id', async (req, res, next) => {
+  // Delete key result (owner or admin)
+  router.delete('/key-results/:id', audit('key_result.delete', { entity: 'key_result' }), async (req, res, next) => {
     try {
-      const deleted = await deleteKeyResult(pool, req.params.id);
+      if (!await canEditKeyResult(req, { contributors: false })) {
+        return res.status(403).json({ error: 'Not authorized' });
+      }
+
+      const deleted = await deleteKeyResult(pool, req.params.id, req.user.id);
       if (!deleted) {
         return res.status(404).json({ error: 'Key result not found' });
       }
@@ -350,11 +543,520 @@ export function createOKRRoutes(config) {
     }
   });
 
+  // === CHECK-INS ===
+
+  // Get key results the current user has to check in this week
+  router.get('/check-ins/due', validate('listCheckInsDue'), async (req, res, next) => {
+    try {
+      const due = await getCheckInsDue(pool, req.user.id);
+      res.json(due);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Get check-in timeline for an objective
+  router.get('/objectives/:id/check-ins', validate('listObjectiveCheckIns'), async (req, res, next) => {
+    try {
+      const checkIns = await getObjectiveCheckIns(pool, req.params.id);
+      res.json(checkIns);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Get check-ins for a key result
+  router.get('/key-results/:id/check-ins', validate('listCheckIns'), async (req, res, next) => {
+    try {
+      const checkIns = await getCheckIns(pool, req.params.id);
+      res.json(checkIns);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Record a check-in on a key result (owner, admin or contributor)
+  router.post('/key-results/:id/check-ins', validate('createCheckIn'), audit('key_result.check_in', { entity: 'key_result' }), async (req, res, next) => {
+    try {
+      if (!await canEditKeyResult(req)) {
+        return res.status(403).json({ error: 'Not authorized' });
+      }
+
+      const checkIn = await createCheckIn(pool, req.params.id, req.body, req.user.id);
+      if (!checkIn) {
+        return res.status(404).json({ error: 'Key result not found' });
+      }
+      res.status(201).json(checkIn);
+    } catch (error) {
+      if (error.message.includes('Non è possibile')) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // === COMMENTS ===
+
+  // List comments of an objective (or of one of its key results with ?keyResultId=)
+  router.get('/objectives/:id/comments', validate('listComments'), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const comments = await getComments(pool, req.params.id, companyId, req.query.keyResultId || null);
+      if (!comments) {
+        return res.status(404).json({ error: 'Objective not found' });
+      }
+      res.json(comments);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Post a comment or reply, notifying @mentioned users
+  router.post('/objectives/:id/comments', validate('createComment'), audit('comment.create', { entity: 'comment', id: (req, body) => body?.id }), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const comment = await createComment(pool, req.params.id, req.body, req.user, companyId);
+      if (!comment) {
+        return res.status(404).json({ error: 'Objective not found' });
+      }
+      res.status(201).json(comment);
+    } catch (error) {
+      if (error.message.includes('Non è possibile')) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Edit own comment
+  router.put('/comments/:id', validate('updateComment'), audit('comment.update', { entity: 'comment' }), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const comment = await updateComment(pool, req.params.id, req.body, req.user, companyId);
+      if (!comment) {
+        return res.status(404).json({ error: 'Comment not found' });
+      }
+      res.json(comment);
+    } catch (error) {
+      if (error.message.includes('di un altro utente')) {
+        return res.status(403).json({ error: error.message });
+      }
+      if (error.message.includes('Non è possibile')) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Delete comment (author or admin)
+  router.delete('/comments/:id', audit('comment.delete', { entity: 'comment' }), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const deleted = await deleteComment(pool, req.params.id, req.user, companyId);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Comment not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (error.message.includes('di un altro utente')) {
+        return res.status(403).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Users of the company that can be @mentioned in comments
+  router.get('/mentionable-users', validate('listMentionableUsers'), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const users = await getMentionableUsers(pool, companyId);
+      res.json(users);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // === PERIODS ===
+
+  // List planning periods of the company
+  router.get('/periods', validate('listPeriods'), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const periods = await getPeriods(pool, companyId);
+      res.json(periods);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Create period (admin only)
+  router.post('/periods', requireAdmin, validate('createPeriod'), audit('period.create', { entity: 'period', id: (req, body) => body?.id }), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const period = await createPeriod(pool, companyId, req.body);
+      res.status(201).json(period);
+    } catch (error) {
+      if (error.message.includes('Non è possibile')) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Update period name or dates (admin only)
+  router.put('/periods/:id', requireAdmin, validate('updatePeriod'), audit('period.update', { entity: 'period' }), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const period = await updatePeriod(pool, req.params.id, companyId, req.body);
+      if (!period) {
+        return res.status(404).json({ error: 'Period not found' });
+      }
+      res.json(period);
+    } catch (error) {
+      if (error.message.includes('Non è possibile')) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Delete an empty period (admin only)
+  router.delete('/periods/:id', requireAdmin, audit('period.delete', { entity: 'period' }), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const deleted = await deletePeriod(pool, req.params.id, companyId);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Period not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (error.message.includes('Non è possibile')) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Unfinished objectives that can be carried over when closing the period
+  router.get('/periods/:id/rollover-candidates', requireAdmin, validate('listRolloverCandidates'), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const period = await getPeriodById(pool, req.params.id, companyId);
+      if (!period) {
+        return res.status(404).json({ error: 'Period not found' });
+      }
+      const candidates = await getRolloverCandidates(pool, req.params.id, companyId);
+      res.json(candidates);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Close period, optionally rolling unfinished objectives into another period (admin only)
+  router.post('/periods/:id/close', requireAdmin, validate('closePeriod'), audit('period.close', {
+    entity: 'period',
+    metadata: (req) => ({ targetPeriodId: req.body.targetPeriodId || null, objectiveIds: req.body.objectiveIds || [] })
+  }), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const { targetPeriodId, objectiveIds = [] } = req.body;
+
+      // Carried-over objectives count against the owners' OKR limits
+      if (checkOKRLimit && objectiveIds.length > 0) {
+        const { rows: owners } = await pool.query(
+          `SELECT DISTINCT u.id, u.role
+           FROM objectives o
+           JOIN users u ON o.owner_id = u.id
+           WHERE o.id = ANY($1::uuid[])`,
+          [objectiveIds]
+        );
+        for (const owner of owners) {
+          const limitCheck = await checkOKRLimit(pool, companyId, owner.id, owner.role);
+          if (!limitCheck.allowed) {
+            return res.status(403).json({
+              error: limitCheck.error,
+              usage: limitCheck.usage,
+              limits: limitCheck.limits
+            });
+          }
+        }
+      }
+
+      const result = await closePeriod(pool, req.params.id, companyId, req.user.id, { targetPeriodId, objectiveIds });
+      if (!result) {
+        return res.status(404).json({ error: 'Period not found' });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error.message.includes('Non è possibile')) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Reopen a closed period (admin only)
+  router.post('/periods/:id/reopen', requireAdmin, validate('reopenPeriod'), audit('period.reopen', { entity: 'period' }), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const period = await reopenPeriod(pool, req.params.id, companyId);
+      if (!period) {
+        return res.status(404).json({ error: 'Period not found' });
+      }
+      res.json(period);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // === TEMPLATES ===
+
+  // List OKR templates of the company
+  router.get('/templates', validate('listTemplates'), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const templates = await getTemplates(pool, companyId);
+      res.json(templates);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Get single template
+  router.get('/templates/:id', validate('getTemplate'), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const template = await getTemplateById(pool, req.params.id, companyId);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+      res.json(template);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Create template from scratch (admin only)
+  router.post('/templates', requireAdmin, validate('createTemplate'), audit('template.create', { entity: 'template', id: (req, body) => body?.id }), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const template = await createTemplate(pool, companyId, req.body, req.user.id);
+      res.status(201).json(template);
+    } catch (error) {
+      if (error.message.includes('Non è possibile')) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Save an existing objective as template (admin only)
+  router.post('/objectives/:id/template', requireAdmin, validate('createTemplateFromObjective'), audit('template.create_from_objective', {
+    entity: 'template',
+    id: (req, body) => body?.id,
+    metadata: (req) => ({ sourceObjectiveId: req.params.id })
+  }), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const template = await createTemplateFromObjective(pool, companyId, req.params.id, req.body, req.user.id);
+      if (!template) {
+        return res.status(404).json({ error: 'Objective not found' });
+      }
+      res.status(201).json(template);
+    } catch (error) {
+      if (error.message.includes('Non è possibile')) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Update template (admin only)
+  router.put('/templates/:id', requireAdmin, validate('updateTemplate'), audit('template.update', { entity: 'template' }), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const template = await updateTemplate(pool, req.params.id, companyId, req.body);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+      res.json(template);
+    } catch (error) {
+      if (error.message.includes('Non è possibile')) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Delete template (admin only)
+  router.delete('/templates/:id', requireAdmin, validate('deleteTemplate'), audit('template.delete', { entity: 'template' }), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const deleted = await deleteTemplate(pool, req.params.id, companyId);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // === TRASH ===
+
+  // Owner, whoever deleted the item, or an admin can restore it
+  const canRestore = (item, user) =>
+    user.role === 'admin' || item.ownerId === user.id || item.deletedBy === user.id;
+
+  // List deleted objectives and key results (admins see the whole company)
+  router.get('/trash', validate('listTrash'), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const items = await getTrash(pool, companyId, {
+        userId: req.user.id,
+        isAdmin: req.user.role === 'admin'
+      });
+      res.json(items);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Get trash retention of the company (admin only)
+  router.get('/trash/settings', requireAdmin, validate('getTrashSettings'), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const settings = await getTrashSettings(pool, companyId);
+      res.json(settings);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Update trash retention of the company (admin only)
+  router.put('/trash/settings', requireAdmin, validate('updateTrashSettings'), audit('trash_settings.update', {
+    entity: 'trash_settings',
+    id: (req) => req.user.company_id || req.user.id,
+    by: 'company_id'
+  }), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const settings = await updateTrashSettings(pool, companyId, req.body);
+      res.json(settings);
+    } catch (error) {
+      if (error.message.includes('Non è possibile')) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Restore a deleted objective with its key results and aligned children
+  router.post('/trash/objectives/:id/restore', validate('restoreObjective'), audit('objective.restore', { entity: 'objective' }), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const item = await getTrashItem(pool, 'objective', req.params.id, companyId);
+      if (!item) {
+        return res.status(404).json({ error: 'Trash item not found' });
+      }
+      if (!canRestore(item, req.user)) {
+        return res.status(403).json({ error: 'Not authorized to restore this item' });
+      }
+
+      // A restored objective counts again against its owner's OKR limit
+      if (checkOKRLimit) {
+        const { rows: [owner] } = await pool.query('SELECT id, role FROM users WHERE id = $1', [item.ownerId]);
+        const limitCheck = await checkOKRLimit(pool, companyId, owner.id, owner.role);
+        if (!limitCheck.allowed) {
+          return res.status(403).json({
+            error: limitCheck.error,
+            usage: limitCheck.usage,
+            limits: limitCheck.limits
+          });
+        }
+      }
+
+      await restoreObjective(pool, req.params.id);
+      const objective = await getObjectiveById(pool, req.params.id);
+      res.json(objective);
+    } catch (error) {
+      if (error.message.includes('Non è possibile')) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Restore a deleted key result and relink the objectives aligned to it
+  router.post('/trash/key-results/:id/restore', validate('restoreKeyResult'), audit('key_result.restore', { entity: 'key_result' }), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const item = await getTrashItem(pool, 'key_result', req.params.id, companyId);
+      if (!item) {
+        return res.status(404).json({ error: 'Trash item not found' });
+      }
+      if (!canRestore(item, req.user)) {
+        return res.status(403).json({ error: 'Not authorized to restore this item' });
+      }
+
+      // A restored key result counts again against its objective's KR limit
+      if (checkKeyResultLimit) {
+        const limitCheck = await checkKeyResultLimit(pool, companyId, item.objectiveId);
+        if (!limitCheck.allowed) {
+          return res.status(403).json({
+            error: limitCheck.error,
+            usage: limitCheck.usage,
+            limits: limitCheck.limits
+          });
+        }
+      }
+
+      await restoreKeyResult(pool, req.params.id);
+      const keyResult = await getKeyResultById(pool, req.params.id);
+      res.json(keyResult);
+    } catch (error) {
+      if (error.message.includes('Non è possibile')) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Permanently delete a trashed objective with everything deleted along with it (admin only)
+  router.delete('/trash/objectives/:id', requireAdmin, validate('purgeObjective'), audit('objective.purge', { entity: 'objective' }), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const item = await getTrashItem(pool, 'objective', req.params.id, companyId);
+      if (!item) {
+        return res.status(404).json({ error: 'Trash item not found' });
+      }
+      await purgeTrashItem(pool, 'objective', req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Permanently delete a trashed key result (admin only)
+  router.delete('/trash/key-results/:id', requireAdmin, validate('purgeKeyResult'), audit('key_result.purge', { entity: 'key_result' }), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const item = await getTrashItem(pool, 'key_result', req.params.id, companyId);
+      if (!item) {
+        return res.status(404).json({ error: 'Trash item not found' });
+      }
+      await purgeTrashItem(pool, 'key_result', req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // === ANALYTICS ===
 
   // Get dashboard stats
   // Multi-tenant: filters stats by company_id
-  router.get('/stats', async (req, res, next) => {
+  router.get('/stats', validate('getStats'), async (req, res, next) => {
     try {
       const isAdmin = req.user.role === 'admin';
       const companyId = req.user.company_id || null;
@@ -375,15 +1077,67 @@ export function createOKRRoutes(config) {
     }
   });
 
-  // === HIERARCHY ENDPOINTS ===
+  // Get weekly progress trend per period
+  // Multi-tenant: filters by company_id
+  router.get('/analytics/progress-trend', validate('getProgressTrend'), async (req, res, next) => {
+    try {
+      const { period } = req.query;
+      const companyId = req.user.company_id || null;
+      const trend = await getProgressTrend(pool, { period, companyId });
+      res.json(trend);
+    } catch (error) {
+      next(error);
+    }
+  });
 
-  // Get full hierarchy tree
+  // Get completion rate by OKR level
+  // Multi-tenant: filters by company_id
+  router.get('/analytics/completion-by-level', validate('getCompletionByLevel'), async (req, res, next) => {
+    try {
+      const { period } = req.query;
+      const companyId = req.user.company_id || null;
+      const completion = await getCompletionByLevel(pool, { period, companyId });
+      res.json(completion);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Get approval status distribution over the last weeks
+  // Multi-tenant: filters by company_id
+  router.get('/analytics/status-distribution', validate('getStatusDistribution'), async (req, res, next) => {
+    try {
+      const { period, weeks } = req.query;
+      const companyId = req.user.company_id || null;
+      const distribution = await getStatusDistribution(pool, { period, weeks, companyId });
+      res.json(distribution);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Get at-risk ratio per team
   // Multi-tenant: filters by company_id
-  router.get('/hierarchy', async (req, res, next) => {
+  router.get('/analytics/team-risk', validate('getTeamRisk'), async (req, res, next) => {
     try {
       const { period } = req.query;
       const companyId = req.user.company_id || null;
-      const hierarchy = await getObjectiveHierarchy(pool, { period, companyId });
+      const teamRisk = await getTeamRiskRatios(pool, { period, companyId });
+      res.json(teamRisk);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // === HIERARCHY ENDPOINTS ===
+
+  // Get full hierarchy tree
+  // Multi-tenant: filters by company_id
+  router.get('/hierarchy', validate('getHierarchy'), async (req, res, next) => {
+    try {
+      const { period, periodId, teamId } = req.query;
+      const companyId = req.user.company_id || req.user.id;
+      const hierarchy = await getObjectiveHierarchy(pool, { period, periodId, teamId, companyId });
       res.json(hierarchy);
     } catch (error) {
       next(error);
@@ -391,13 +1145,13 @@ export function createOKRRoutes(config) {
   });
 
   // Get available parent objectives for a given level
-  router.get('/available-parents', async (req, res, next) => {
+  router.get('/available-parents', validate('listAvailableParents'), async (req, res, next) => {
     try {
-      const { level, excludeId } = req.query;
+      const { level, excludeId, teamId } = req.query;
       if (!level) {
         return res.status(400).json({ error: 'level query parameter is required' });
       }
-      const parents = await getAvailableParents(pool, level, excludeId);
+      const parents = await getAvailableParents(pool, level, excludeId, teamId || null);
       res.json(parents);
     } catch (error) {
       next(error);
@@ -405,7 +1159,7 @@ export function createOKRRoutes(config) {
   });
 
   // Get children of an objective
-  router.get('/objectives/:id/children', async (req, res, next) => {
+  router.get('/objectives/:id/children', validate('getObjectiveChildren'), async (req, res, next) => {
     try {
       const children = await getObjectiveChildren(pool, req.params.id);
       res.json(children);
@@ -415,7 +1169,7 @@ export function createOKRRoutes(config) {
   });
 
   // Get objective with ancestors (breadcrumb)
-  router.get('/objectives/:id/ancestors', async (req, res, next) => {
+  router.get('/objectives/:id/ancestors', validate('getObjectiveAncestors'), async (req, res, next) => {
     try {
       const result = await getObjectiveWithAncestors(pool, req.params.id);
       if (!result) {
@@ -430,7 +1184,7 @@ export function createOKRRoutes(config) {
   // === APPROVAL WORKFLOW ENDPOINTS ===
 
   // Get objectives pending approval
-  router.get('/pending-approvals', async (req, res, next) => {
+  router.get('/pending-approvals', validate('listPendingApprovals'), async (req, res, next) => {
     try {
       const isAdmin = req.user.role === 'admin';
       const objectives = await getPendingApprovals(pool, req.user.id, isAdmin);
@@ -441,7 +1195,7 @@ export function createOKRRoutes(config) {
   });
 
   // Submit objective for review
-  router.post('/objectives/:id/submit-for-review', async (req, res, next) => {
+  router.post('/objectives/:id/submit-for-review', validate('submitForReview'), audit('objective.submit_for_review', { entity: 'objective' }), async (req, res, next) => {
     try {
       const existing = await getObjectiveById(pool, req.params.id);
       if (!existing) {
@@ -464,7 +1218,7 @@ export function createOKRRoutes(config) {
   });
 
   // Approve objective
-  router.post('/objectives/:id/approve', async (req, res, next) => {
+  router.post('/objectives/:id/approve', validate('approveObjective'), audit('objective.approve', { entity: 'objective' }), async (req, res, next) => {
     try {
       const existing = await getObjectiveById(pool, req.params.id);
       if (!existing) {
@@ -488,7 +1242,10 @@ export function createOKRRoutes(config) {
   });
 
   // Reject objective
-  router.post('/objectives/:id/reject', async (req, res, next) => {
+  router.post('/objectives/:id/reject', validate('rejectObjective'), audit('objective.reject', {
+    entity: 'objective',
+    metadata: (req) => ({ comment: req.body.comment || null })
+  }), async (req, res, next) => {
     try {
       const existing = await getObjectiveById(pool, req.params.id);
       if (!existing) {
@@ -505,7 +1262,7 @@ export function createOKRRoutes(config) {
         return res.status(400).json({ error: 'Comment is required when rejecting' });
       }
 
-      const objective = await rejectObjective(pool, req.params.id, req.user.id, comment, { emailService, frontendUrl });
+      const objective = await rejectObjective(pool, req.params.id, req.user.id, comment);
       res.json(objective);
     } catch (error) {
       if (error.message.includes('Cannot reject')) {
@@ -516,7 +1273,7 @@ export function createOKRRoutes(config) {
   });
 
   // Activate approved objective (admin only)
-  router.post('/objectives/:id/activate', async (req, res, next) => {
+  router.post('/objectives/:id/activate', validate('activateObjective'), audit('objective.activate', { entity: 'objective' }), async (req, res, next) => {
     try {
       // Only admin can activate
       if (req.user.role !== 'admin') {
@@ -539,7 +1296,7 @@ export function createOKRRoutes(config) {
   });
 
   // Pause an active objective (admin only)
-  router.post('/objectives/:id/pause', async (req, res, next) => {
+  router.post('/objectives/:id/pause', validate('pauseObjective'), audit('objective.pause', { entity: 'objective' }), async (req, res, next) => {
     try {
       // Only admin can pause
       if (req.user.role !== 'admin') {
@@ -562,7 +1319,7 @@ export function createOKRRoutes(config) {
   });
 
   // Resume a paused objective (admin only)
-  router.post('/objectives/:id/resume', async (req, res, next) => {
+  router.post('/objectives/:id/resume', validate('resumeObjective'), audit('objective.resume', { entity: 'objective' }), async (req, res, next) => {
     try {
       // Only admin can resume
       if (req.user.role !== 'admin') {
@@ -585,7 +1342,7 @@ export function createOKRRoutes(config) {
   });
 
   // Stop an objective permanently (admin only)
-  router.post('/objectives/:id/stop', async (req, res, next) => {
+  router.post('/objectives/:id/stop', validate('stopObjective'), audit('objective.stop', { entity: 'objective' }), async (req, res, next) => {
     try {
       // Only admin can stop
       if (req.user.role !== 'admin') {
@@ -608,7 +1365,7 @@ export function createOKRRoutes(config) {
   });
 
   // Reopen a closed or failed objective (admin only)
-  router.post('/objectives/:id/reopen', async (req, res, next) => {
+  router.post('/objectives/:id/reopen', validate('reopenObjective'), audit('objective.reopen', { entity: 'objective' }), async (req, res, next) => {
     try {
       // Only admin can reopen
       if (req.user.role !== 'admin') {
@@ -631,7 +1388,7 @@ export function createOKRRoutes(config) {
   });
 
   // Archive a stopped objective
-  router.post('/objectives/:id/archive', async (req, res, next) => {
+  router.post('/objectives/:id/archive', validate('archiveObjective'), audit('objective.archive', { entity: 'objective' }), async (req, res, next) => {
     try {
       const existing = await getObjectiveById(pool, req.params.id);
       if (!existing) {
@@ -659,7 +1416,7 @@ export function createOKRRoutes(config) {
   });
 
   // Revert an objective to draft (from pending_review or approved)
-  router.post('/objectives/:id/revert-to-draft', async (req, res, next) => {
+  router.post('/objectives/:id/revert-to-draft', validate('revertToDraft'), audit('objective.revert_to_draft', { entity: 'objective' }), async (req, res, next) => {
     try {
       const existing = await getObjectiveById(pool, req.params.id);
       if (!existing) {
@@ -687,7 +1444,7 @@ export function createOKRRoutes(config) {
   });
 
   // Get approval history for an objective
-  router.get('/objectives/:id/approval-history', async (req, res, next) => {
+  router.get('/objectives/:id/approval-history', validate('getApprovalHistory'), async (req, res, next) => {
     try {
       const history = await getApprovalHistory(pool, req.params.id);
       res.json(history);
@@ -699,7 +1456,7 @@ export function createOKRRoutes(config) {
   // === CONTRIBUTORS ENDPOINTS ===
 
   // Get my contributions (OKRs where I'm a contributor)
-  router.get('/my-contributions', async (req, res, next) => {
+  router.get('/my-contributions', validate('listMyContributions'), async (req, res, next) => {
     try {
       const contributions = await getMyContributions(pool, req.user.id);
       res.json(contributions);
@@ -709,7 +1466,7 @@ export function createOKRRoutes(config) {
   });
 
   // Get contributors for an objective
-  router.get('/objectives/:id/contributors', async (req, res, next) => {
+  router.get('/objectives/:id/contributors', validate('listContributors'), async (req, res, next) => {
     try {
       const contributors = await getContributors(pool, req.params.id);
       res.json(contributors);
@@ -719,7 +1476,7 @@ export function createOKRRoutes(config) {
   });
 
   // Add contributor to objective
-  router.post('/objectives/:id/contributors', async (req, res, next) => {
+  router.post('/objectives/:id/contributors', validate('addContributor'), authorizeBody({ userId: 'user' }), audit('contributor.add', { entity: 'contributor', id: (req, body) => body?.id }), async (req, res, next) => {
     try {
       const existing = await getObjectiveById(pool, req.params.id);
       if (!existing) {
@@ -747,7 +1504,10 @@ export function createOKRRoutes(config) {
   });
 
   // Remove contributor from objective
-  router.delete('/objectives/:id/contributors/:contributorId', async (req, res, next) => {
+  router.delete('/objectives/:id/contributors/:contributorId', audit('contributor.remove', {
+    entity: 'contributor',
+    id: (req) => req.params.contributorId
+  }), async (req, res, next) => {
     try {
       const existing = await getObjectiveById(pool, req.params.id);
       if (!existing) {
@@ -770,7 +1530,10 @@ export function createOKRRoutes(config) {
   });
 
   // Update contributor role
-  router.put('/contributors/:contributorId', async (req, res, next) => {
+  router.put('/contributors/:contributorId', validate('updateContributor'), audit('contributor.update', {
+    entity: 'contributor',
+    id: (req) => req.params.contributorId
+  }), async (req, res, next) => {
     try {
       const { role } = req.body;
       if (!role) {
@@ -800,7 +1563,11 @@ export function createOKRRoutes(config) {
   });
 
   // Reassign all OKRs from one user to another
-  router.post('/admin/users/:userId/reassign-okrs', requireAdmin, async (req, res, next) => {
+  router.post('/admin/users/:userId/reassign-okrs', requireAdmin, authorizeBody({ targetUserId: 'user' }), audit('user.reassign_okrs', {
+    entity: 'user',
+    id: (req) => req.params.userId,
+    metadata: (req, body) => ({ targetUserId: req.body.targetUserId, ...body })
+  }), async (req, res, next) => {
     try {
       const { targetUserId } = req.body;
       if (!targetUserId) {
@@ -816,3 +1583,4 @@ export function createOKRRoutes(config) {
 
   return router;
 }
+
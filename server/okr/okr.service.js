@@ -2,7 +2,9 @@
  * OKR Service - Business logic for Objectives and Key Results
  */
 
-import { sendToUser, sendToCompany, NotificationTypes } from '../notifications/sse.service.js';
+import crypto from 'crypto';
+import { sendToUser, sendToCompany, sendToAdmins, NotificationTypes } from '../notifications/sse.service.js';
+import { getTeamAncestorIds } from '../team/team.service.js';
 
 // Transform DB row to API format
 function transformObjective(row, keyResults = []) {
@@ -14,6 +16,8 @@ function transformObjective(row, keyResults = []) {
     ownerName: row.owner_name,
     level: row.level,
     period: row.period,
+    periodId: row.period_id || null,
+    rolledOverFromId: row.rolled_over_from_id || null,
     status: row.status,
     progress: row.progress,
     dueDate: row.due_date,
@@ -27,6 +31,8 @@ function transformObjective(row, keyResults = []) {
     parentKeyResultDescription: row.parent_key_result_description || null,
     teamId: row.team_id || null,
     teamName: row.team_name || null,
+    // Weight of this objective in its parent KR roll-up
+    weight: row.weight !== undefined && row.weight !== null ? parseFloat(row.weight) : 1,
     // Approval workflow fields
     approvalStatus: row.approval_status || 'draft',
     approvedBy: row.approved_by || null,
@@ -130,6 +136,10 @@ function transformKeyResult(row) {
     targetValue: parseFloat(row.target_value),
     currentValue: parseFloat(row.current_value),
     unit: row.unit,
+    weight: row.weight !== undefined && row.weight !== null ? parseFloat(row.weight) : 1,
+    direction: row.direction || 'increase',
+    targetMaxValue: row.target_max_value !== undefined && row.target_max_value !== null ? parseFloat(row.target_max_value) : null,
+    steps: row.steps || [],
     status: row.status,
     confidence: row.confidence,
     createdAt: row.created_at,
@@ -137,18 +147,123 @@ function transformKeyResult(row) {
   };
 }
 
-// Calculate objective progress from key results
-function calculateProgress(keyResults) {
+// Weight of a KR or child objective row (defaults to 1 for rows created before weighting)
+function getRowWeight(row) {
+  const weight = parseFloat(row.weight);
+  return weight > 0 ? weight : 1;
+}
+
+// Validate a weight coming from the API (undefined means "not provided")
+function parseWeight(value) {
+  if (value === undefined || value === null || value === '') return undefined;
+  const weight = parseFloat(value);
+  if (isNaN(weight) || weight <= 0) {
+    throw new Error('Non è possibile impostare il peso: deve essere un numero maggiore di zero');
+  }
+  return weight;
+}
+
+/**
+ * Calculate progress (0-100) of a single key result row.
+ * - increase/decrease: linear from start to target (milestones are stored as
+ *   completed steps out of total steps, so they follow the same formula)
+ * - range: 100 while the value is within [target, target_max]; outside the
+ *   band, progress is how much of the initial distance has been closed
+ */
+export function calculateKeyResultProgress(kr) {
+  const start = parseFloat(kr.start_value) || 0;
+  const target = parseFloat(kr.target_value);
+  const current = parseFloat(kr.current_value) || 0;
+  const clamp = (value) => Math.min(Math.max(value, 0), 100);
+
+  if (kr.direction === 'range') {
+    const min = target;
+    const max = kr.target_max_value !== null && kr.target_max_value !== undefined ? parseFloat(kr.target_max_value) : target;
+    if (current >= min && current <= max) return 100;
+    const distance = current < min ? min - current : current - max;
+    const startDistance = start < min ? min - start : (start > max ? start - max : 0);
+    if (startDistance === 0) return 0;
+    return clamp((1 - distance / startDistance) * 100);
+  }
+
+  const range = target - start;
+  if (range === 0) {
+    const reached = kr.direction === 'decrease' ? current <= target : current >= target;
+    return reached ? 100 : 0;
+  }
+  return clamp(((current - start) / range) * 100);
+}
+
+// Calculate objective progress from key results (weighted average)
+export function calculateProgress(keyResults) {
   if (!keyResults || keyResults.length === 0) return 0;
 
+  let totalWeight = 0;
   const totalProgress = keyResults.reduce((sum, kr) => {
-    const range = kr.target_value - kr.start_value;
-    if (range === 0) return sum + (kr.current_value >= kr.target_value ? 100 : 0);
-    const progress = ((kr.current_value - kr.start_value) / range) * 100;
-    return sum + Math.min(Math.max(progress, 0), 100);
+    const weight = getRowWeight(kr);
+    totalWeight += weight;
+    return sum + calculateKeyResultProgress(kr) * weight;
   }, 0);
 
-  return Math.round(totalProgress / keyResults.length);
+  return Math.round(totalProgress / totalWeight);
+}
+
+const KR_DIRECTIONS = ['increase', 'decrease', 'range'];
+
+/**
+ * Validate and normalize the metric fields of a key result.
+ * Milestones are stored as completed steps out of total steps (start 0,
+ * target = number of steps) so progress, history and check-ins keep working.
+ */
+export function normalizeKeyResultInput(data) {
+  const { metricType } = data;
+  const result = {
+    metricType,
+    direction: data.direction || 'increase',
+    startValue: data.startValue !== undefined && data.startValue !== null ? parseFloat(data.startValue) : 0,
+    targetValue: data.targetValue !== undefined && data.targetValue !== null ? parseFloat(data.targetValue) : undefined,
+    targetMaxValue: null,
+    currentValue: data.currentValue,
+    steps: []
+  };
+
+  if (!KR_DIRECTIONS.includes(result.direction)) {
+    throw new Error('Non è possibile salvare il Key Result: direzione non valida');
+  }
+
+  if (metricType === 'milestone') {
+    const steps = Array.isArray(data.steps) ? data.steps.filter(step => step && step.title && step.title.trim()) : [];
+    if (steps.length === 0) {
+      throw new Error('Non è possibile salvare il Key Result: una milestone richiede almeno uno step');
+    }
+    result.steps = steps.map(step => ({
+      id: step.id || crypto.randomUUID(),
+      title: step.title.trim(),
+      completed: !!step.completed,
+      completedAt: step.completed ? (step.completedAt || new Date().toISOString()) : null
+    }));
+    result.direction = 'increase';
+    result.startValue = 0;
+    result.targetValue = result.steps.length;
+    result.currentValue = result.steps.filter(step => step.completed).length;
+    return result;
+  }
+
+  if (result.direction === 'range') {
+    const max = data.targetMaxValue !== undefined && data.targetMaxValue !== null && data.targetMaxValue !== ''
+      ? parseFloat(data.targetMaxValue)
+      : NaN;
+    if (isNaN(max) || result.targetValue === undefined || max < result.targetValue) {
+      throw new Error('Non è possibile salvare il Key Result: l\'intervallo richiede un minimo e un massimo validi');
+    }
+    result.targetMaxValue = max;
+  }
+
+  if (result.direction === 'decrease' && result.targetValue !== undefined && result.targetValue >= result.startValue) {
+    throw new Error('Non è possibile salvare il Key Result: per una metrica in diminuzione il target deve essere inferiore al valore iniziale');
+  }
+
+  return result;
 }
 
 /**
@@ -167,13 +282,24 @@ function calculateProgress(keyResults) {
  * - off-track: pace ratio < 0.5 OR past deadline OR severe gap near deadline
  */
 function determineStatus(progress, dueDate, createdAt = null, keyResults = []) {
-  // Completed check
-  if (progress >= 100) return 'completed';
-
   const now = new Date();
   const due = new Date(dueDate);
   const daysUntilDue = Math.ceil((due - now) / (1000 * 60 * 60 * 24));
 
+  // "Stay within range" KRs are only achieved once the period is over:
+  // before the deadline, being inside the band means on-track, not completed
+  const rangeKeyResults = (keyResults || []).filter(kr => kr.direction === 'range');
+  if (rangeKeyResults.length > 0 && dueDate && daysUntilDue >= 0) {
+    const outOfRange = rangeKeyResults.filter(kr => calculateKeyResultProgress(kr) < 100).length;
+    if (progress >= 100) return 'on-track';
+    if (outOfRange === rangeKeyResults.length && rangeKeyResults.length === keyResults.length) {
+      return daysUntilDue <= 14 ? 'off-track' : 'at-risk';
+    }
+  }
+
+  // Completed check
+  if (progress >= 100) return 'completed';
+
   // Past deadline = off-track
   if (daysUntilDue < 0) return 'off-track';
 
@@ -189,11 +315,24 @@ function determineStatus(progress, dueDate, createdAt = null, keyResults = []) {
   // Expected progress (linear model - could be adjusted for different curves)
   const expectedProgress = timeProgress;
 
+  // Milestones progress in discrete steps: give credit for the step currently
+  // in progress so an objective is not flagged just because a step is still open
+  let milestoneAllowance = 0;
+  if (keyResults && keyResults.length > 0) {
+    const totalWeight = keyResults.reduce((sum, kr) => sum + getRowWeight(kr), 0);
+    milestoneAllowance = keyResults.reduce((sum, kr) => {
+      if (kr.metric_type !== 'milestone' || calculateKeyResultProgress(kr) >= 100) return sum;
+      const stepCount = Math.max(parseFloat(kr.target_value) || 1, 1);
+      return sum + (100 / stepCount) * (getRowWeight(kr) / totalWeight);
+    }, 0);
+  }
+  const paceProgress = Math.min(progress + milestoneAllowance, 100);
+
   // Pace ratio: actual / expected (1.0 = on track, > 1.0 = ahead, < 1.0 = behind)
-  const paceRatio = expectedProgress > 0 ? progress / expectedProgress : (progress > 0 ? 1.5 : 0.5);
+  const paceRatio = expectedProgress > 0 ? paceProgress / expectedProgress : (paceProgress > 0 ? 1.5 : 0.5);
 
   // Gap: how many percentage points behind
-  const progressGap = expectedProgress - progress;
+  const progressGap = expectedProgress - paceProgress;
 
   // Confidence factor from Key Results (average confidence)
   let confidenceFactor = 1.0;
@@ -292,7 +431,7 @@ function calculateHealthMetrics(objective, keyResults) {
 // === OBJECTIVES ===
 
 export async function getObjectives(pool, filters = {}) {
-  const { ownerId, userId, level, period, status, parentObjectiveId, approvalStatus, companyId } = filters;
+  const { ownerId, userId, level, period, periodId, status, parentObjectiveId, approvalStatus, companyId } = filters;
   let query = `
     SELECT DISTINCT o.*,
            u.name as owner_name,
@@ -300,7 +439,7 @@ export async function getObjectives(pool, filters = {}) {
            parent_kr.description as parent_key_result_description,
            t.name as team_name,
            approver.name as approved_by_name,
-           (SELECT COUNT(*) FROM objectives child WHERE child.parent_objective_id = o.id) as children_count
+           (SELECT COUNT(*) FROM objectives child WHERE child.parent_objective_id = o.id AND child.deleted_at IS NULL) as children_count
     FROM objectives o
     JOIN users u ON o.owner_id = u.id
     LEFT JOIN objectives parent ON o.parent_objective_id = parent.id
@@ -308,7 +447,7 @@ export async function getObjectives(pool, filters = {}) {
     LEFT JOIN teams t ON o.team_id = t.id
     LEFT JOIN users approver ON o.approved_by = approver.id
     LEFT JOIN objective_contributors oc ON o.id = oc.objective_id
-    WHERE 1=1
+    WHERE o.deleted_at IS NULL
   `;
   const params = [];
   let paramIndex = 1;
@@ -338,6 +477,10 @@ export async function getObjectives(pool, filters = {}) {
     query += ` AND o.period = $${paramIndex++}`;
     params.push(period);
   }
+  if (periodId) {
+    query += ` AND o.period_id = $${paramIndex++}`;
+    params.push(periodId);
+  }
   if (status) {
     query += ` AND o.status = $${paramIndex++}`;
     params.push(status);
@@ -359,7 +502,7 @@ export async function getObjectives(pool, filters = {}) {
   const objectives = await Promise.all(
     rows.map(async (row) => {
       const krResult = await pool.query(
-        'SELECT * FROM key_results WHERE objective_id = $1 ORDER BY created_at',
+        'SELECT * FROM key_results WHERE objective_id = $1 AND deleted_at IS NULL ORDER BY created_at',
         [row.id]
       );
       return transformObjective(row, krResult.rows);
@@ -377,21 +520,21 @@ export async function getObjectiveById(pool, id) {
             parent_kr.description as parent_key_result_description,
             t.name as team_name,
             approver.name as approved_by_name,
-            (SELECT COUNT(*) FROM objectives child WHERE child.parent_objective_id = o.id) as children_count
+            (SELECT COUNT(*) FROM objectives child WHERE child.parent_objective_id = o.id AND child.deleted_at IS NULL) as children_count
      FROM objectives o
      JOIN users u ON o.owner_id = u.id
      LEFT JOIN objectives parent ON o.parent_objective_id = parent.id
      LEFT JOIN key_results parent_kr ON o.parent_key_result_id = parent_kr.id
      LEFT JOIN teams t ON o.team_id = t.id
      LEFT JOIN users approver ON o.approved_by = approver.id
-     WHERE o.id = $1`,
+     WHERE o.id = $1 AND o.deleted_at IS NULL`,
     [id]
   );
 
   if (rows.length === 0) return null;
 
   const krResult = await pool.query(
-    'SELECT * FROM key_results WHERE objective_id = $1 ORDER BY created_at',
+    'SELECT * FROM key_results WHERE objective_id = $1 AND deleted_at IS NULL ORDER BY created_at',
     [id]
   );
 
@@ -399,7 +542,10 @@ export async function getObjectiveById(pool, id) {
 }
 
 export async function createObjective(pool, data, userId) {
-  const { title, description, level, period, dueDate, keyResults = [], ownerId, parentKeyResultId, teamId } = data;
+  const { title, description, level, period, periodId, dueDate, keyResults = [], ownerId, parentKeyResultId, teamId } = data;
+  const weight = parseWeight(data.weight) ?? 1;
+  const krWeights = keyResults.map(kr => parseWeight(kr.weight) ?? 1);
+  const krMetrics = keyResults.map(kr => normalizeKeyResultInput(kr));
 
   // Use provided ownerId or default to creating user
   const objectiveOwnerId = ownerId || userId;
@@ -419,7 +565,7 @@ export async function createObjective(pool, data, userId) {
     // Validate and get parent objective from the selected KR
     let parentObjectiveId = null;
     if (parentKeyResultId) {
-      const validation = await validateParentKeyResult(client, level, parentKeyResultId);
+      const validation = await validateParentKeyResult(client, level, parentKeyResultId, teamId || null);
       if (!validation.valid) {
         throw new Error(validation.error);
       }
@@ -428,22 +574,27 @@ export async function createObjective(pool, data, userId) {
 
     // Create objective
     const { rows } = await client.query(
-      `INSERT INTO objectives (title, description, owner_id, level, period, due_date, status, parent_objective_id, parent_key_result_id, team_id, approval_status)
-       VALUES ($1, $2, $3, $4, $5, $6, 'draft', $7, $8, $9, 'draft')
+      `INSERT INTO objectives (title, description, owner_id, level, period, due_date, status, parent_objective_id, parent_key_result_id, team_id, approval_status, weight, period_id)
+       VALUES ($1, $2, $3, $4, $5, $6, 'draft', $7, $8, $9, 'draft', $10, $11)
        RETURNING *`,
-      [title, description, objectiveOwnerId, level, period, dueDate, parentObjectiveId, parentKeyResultId || null, teamId || null]
+      [title, description, objectiveOwnerId, level, period, dueDate, parentObjectiveId, parentKeyResultId || null, teamId || null, weight, periodId || null]
     );
 
     const objective = rows[0];
 
     // Create key results
     const createdKeyResults = [];
-    for (const kr of keyResults) {
+    for (const [index, kr] of keyResults.entries()) {
+      const metrics = krMetrics[index];
       const krResult = await client.query(
-        `INSERT INTO key_results (objective_id, description, metric_type, start_value, target_value, current_value, unit, status, confidence)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, 'draft', 'medium')
+        `INSERT INTO key_results (objective_id, description, metric_type, start_value, target_value, current_value, unit, status, confidence, weight, direction, target_max_value, steps)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, 'draft', 'medium', $8, $9, $10, $11)
          RETURNING *`,
-        [objective.id, kr.description, kr.metricType, kr.startValue || 0, kr.targetValue, kr.currentValue || kr.startValue || 0, kr.unit]
+        [
+          objective.id, kr.description, kr.metricType, metrics.startValue, metrics.targetValue,
+          metrics.currentValue || metrics.startValue, kr.unit, krWeights[index],
+          metrics.direction, metrics.targetMaxValue, JSON.stringify(metrics.steps)
+        ]
       );
       createdKeyResults.push(krResult.rows[0]);
     }
@@ -460,12 +611,19 @@ export async function createObjective(pool, data, userId) {
   }
 }
 
+// A team OKR may also align to an OKR of a department containing its team
+async function isOwnDepartmentObjective(client, childTeamId, parentTeamId) {
+  if (!childTeamId || !parentTeamId) return false;
+  const ancestorIds = await getTeamAncestorIds(client, childTeamId);
+  return ancestorIds.includes(parentTeamId);
+}
+
 // Validate parent-child relationship rules
-// Hierarchy: company -> team -> individual
-// Team must have company parent, Individual must have team parent
-async function validateParentChild(client, childLevel, parentId) {
+// Hierarchy: company -> (department ->) team -> individual
+// Team must have a company parent or one of its own department, Individual must have team parent
+async function validateParentChild(client, childLevel, parentId, childTeamId = null) {
   const { rows } = await client.query(
-    'SELECT level FROM objectives WHERE id = $1',
+    'SELECT level, team_id FROM objectives WHERE id = $1 AND deleted_at IS NULL',
     [parentId]
   );
 
@@ -477,10 +635,12 @@ async function validateParentChild(client, childLevel, parentId) {
 
   // Strict hierarchy enforcement
   if (childLevel === 'team') {
-    if (parentLevel !== 'company') {
+    const isDepartmentParent = parentLevel === 'team'
+      && await isOwnDepartmentObjective(client, childTeamId, rows[0].team_id);
+    if (parentLevel !== 'company' && !isDepartmentParent) {
       return {
         valid: false,
-        error: 'Gli OKR di livello Team devono avere un OKR di livello Azienda come parent'
+        error: 'Gli OKR di livello Team devono avere come parent un OKR Azienda o un OKR del proprio dipartimento'
       };
     }
   } else if (childLevel === 'individual') {
@@ -502,12 +662,12 @@ async function validateParentChild(client, childLevel, parentId) {
 
 // Validate parent Key Result and return its objective
 // Checks that the KR belongs to an objective of the correct parent level
-async function validateParentKeyResult(client, childLevel, parentKeyResultId) {
+async function validateParentKeyResult(client, childLevel, parentKeyResultId, childTeamId = null) {
   const { rows } = await client.query(
-    `SELECT kr.id, kr.objective_id, o.level as objective_level, o.title as objective_title
+    `SELECT kr.id, kr.objective_id, o.level as objective_level, o.title as objective_title, o.team_id as objective_team_id
      FROM key_results kr
      JOIN objectives o ON kr.objective_id = o.id
-     WHERE kr.id = $1`,
+     WHERE kr.id = $1 AND kr.deleted_at IS NULL`,
     [parentKeyResultId]
   );
 
@@ -520,10 +680,12 @@ async function validateParentKeyResult(client, childLevel, parentKeyResultId) {
 
   // Strict hierarchy enforcement based on KR's objective level
   if (childLevel === 'team') {
-    if (parentObjectiveLevel !== 'company') {
+    const isDepartmentParent = parentObjectiveLevel === 'team'
+      && await isOwnDepartmentObjective(client, childTeamId, rows[0].objective_team_id);
+    if (parentObjectiveLevel !== 'company' && !isDepartmentParent) {
       return {
         valid: false,
-        error: 'Gli OKR di livello Team devono essere collegati a un Key Result di un OKR Azienda'
+        error: 'Gli OKR di livello Team devono essere collegati a un Key Result di un OKR Azienda o del proprio dipartimento'
       };
     }
   } else if (childLevel === 'individual') {
@@ -544,9 +706,10 @@ async function validateParentKeyResult(client, childLevel, parentKeyResultId) {
 }
 
 export async function updateObjective(pool, id, data, userId) {
-  const { title, description, level, period, dueDate, status, parentObjectiveId, teamId } = data;
+  const { title, description, level, period, periodId, dueDate, status, parentObjectiveId, teamId } = data;
   // Handle ownerId - convert empty string to null/undefined
   const ownerId = data.ownerId && data.ownerId.trim() !== '' ? data.ownerId : null;
+  const weight = parseWeight(data.weight);
 
   // Check if objective is in draft state - only draft allows editing
   const currentStatus = await pool.query('SELECT approval_status FROM objectives WHERE id = $1', [id]);
@@ -557,9 +720,10 @@ export async function updateObjective(pool, id, data, userId) {
   // Validate parent-child if changing parentObjectiveId
   if (parentObjectiveId !== undefined && parentObjectiveId !== null) {
     // Get current level or use new level
-    const currentObj = await pool.query('SELECT level FROM objectives WHERE id = $1', [id]);
+    const currentObj = await pool.query('SELECT level, team_id FROM objectives WHERE id = $1', [id]);
     const objLevel = level || currentObj.rows[0]?.level;
-    const validation = await validateParentChild({ query: pool.query.bind(pool) }, objLevel, parentObjectiveId);
+    const objTeamId = teamId !== undefined ? teamId : currentObj.rows[0]?.team_id;
+    const validation = await validateParentChild({ query: pool.query.bind(pool) }, objLevel, parentObjectiveId, objTeamId);
     if (!validation.valid) {
       throw new Error(validation.error);
     }
@@ -576,10 +740,12 @@ export async function updateObjective(pool, id, data, userId) {
          parent_objective_id = CASE WHEN $7::uuid IS NOT NULL OR $8 THEN $7 ELSE parent_objective_id END,
          team_id = CASE WHEN $9::uuid IS NOT NULL OR $10 THEN $9 ELSE team_id END,
          owner_id = COALESCE($11, owner_id),
+         weight = COALESCE($12, weight),
+         period_id = COALESCE($13, period_id),
          updated_at = NOW()
-     WHERE id = $6
+     WHERE id = $6 AND deleted_at IS NULL
      RETURNING *`,
-    [title, description, level, period, dueDate, id, parentObjectiveId, parentObjectiveId === null, teamId, teamId === null, ownerId]
+    [title, description, level, period, dueDate, id, parentObjectiveId, parentObjectiveId === null, teamId, teamId === null, ownerId, weight, periodId]
   );
 
   if (rows.length === 0) return null;
@@ -595,48 +761,224 @@ export async function updateObjective(pool, id, data, userId) {
     await updateObjectiveProgress(pool, id);
   }
 
+  // A changed weight shifts the parent KR roll-up even if this objective did not move
+  if (weight !== undefined && status) {
+    await updateParentKeyResultIfAllChildrenComplete(pool, id);
+  }
+
   return getObjectiveById(pool, id);
 }
 
-export async function deleteObjective(pool, id) {
-  // Check if objective is in a locked state - block deletion (archived can be deleted)
-  const objectiveStatus = await pool.query('SELECT approval_status FROM objectives WHERE id = $1', [id]);
-  const lockedStates = ['active', 'paused', 'stopped']; // 'archived' can be deleted
-  if (objectiveStatus.rows.length > 0 && lockedStates.includes(objectiveStatus.rows[0].approval_status)) {
-    throw new Error('Non è possibile eliminare un OKR in questo stato');
-  }
-
-  // Find all child OKRs linked to this objective's KRs and delete them recursively
-  const { rows: keyResults } = await pool.query(
-    'SELECT id FROM key_results WHERE objective_id = $1',
+/**
+ * Objectives copied by a clone: the source and, when requested, every
+ * descendant linked through a parent key result (parents before children)
+ */
+export async function getCloneTree(pool, id, includeChildren = false) {
+  const { rows } = await pool.query(
+    includeChildren
+      ? `WITH RECURSIVE tree AS (
+           SELECT o.*, 0 as depth FROM objectives o WHERE o.id = $1 AND o.deleted_at IS NULL
+           UNION ALL
+           SELECT child.*, tree.depth + 1
+           FROM objectives child
+           JOIN key_results kr ON child.parent_key_result_id = kr.id AND kr.deleted_at IS NULL
+           JOIN tree ON kr.objective_id = tree.id
+           WHERE tree.depth < 10 AND child.deleted_at IS NULL
+         )
+         SELECT tree.*, u.role as owner_role
+         FROM tree
+         JOIN users u ON tree.owner_id = u.id
+         ORDER BY tree.depth, tree.created_at`
+      : `SELECT o.*, 0 as depth, u.role as owner_role
+         FROM objectives o
+         JOIN users u ON o.owner_id = u.id
+         WHERE o.id = $1 AND o.deleted_at IS NULL`,
     [id]
   );
+  return rows;
+}
+
+// Key result of a clone: same definition, progress back to the start
+function resetClonedKeyResult(kr) {
+  if (kr.metric_type === 'milestone') {
+    const steps = (kr.steps || []).map(step => ({
+      id: crypto.randomUUID(),
+      title: step.title,
+      completed: false,
+      completedAt: null
+    }));
+    return { startValue: 0, targetValue: steps.length, currentValue: 0, steps };
+  }
+  return { startValue: kr.start_value, targetValue: kr.target_value, currentValue: kr.start_value, steps: [] };
+}
+
+/**
+ * Duplicate an objective with its key results as a new draft.
+ * The copy can go to another period, owner or team; with includeChildren the
+ * objectives aligned to its key results are copied too and linked to the new KRs.
+ * Returns null when the source objective does not exist.
+ */
+export async function cloneObjective(pool, id, options = {}) {
+  const { period, ownerId, teamId, title, includeChildren = false } = options;
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const tree = await getCloneTree(client, id, includeChildren);
+    if (tree.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const objectiveMap = new Map();
+    const keyResultMap = new Map();
+
+    for (const objective of tree) {
+      const isRoot = objective.id === id;
+      const targetPeriod = period || { id: objective.period_id, name: objective.period, endDate: objective.due_date };
+      const dueDate = targetPeriod.id && targetPeriod.id !== objective.period_id ? targetPeriod.endDate : objective.due_date;
+
+      // The root keeps its place in the hierarchy, descendants hang from the copied KRs
+      const parentKeyResultId = isRoot
+        ? objective.parent_key_result_id
+        : keyResultMap.get(objective.parent_key_result_id) || objective.parent_key_result_id;
+      const parentObjectiveId = isRoot
+        ? objective.parent_objective_id
+        : objectiveMap.get(objective.parent_objective_id) || objective.parent_objective_id;
+
+      const { rows: created } = await client.query(
+        `INSERT INTO objectives (title, description, owner_id, level, period, period_id, due_date, status, parent_objective_id, parent_key_result_id, team_id, approval_status, weight)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, 'draft', $8, $9, $10, 'draft', $11)
+         RETURNING id`,
+        [
+          isRoot && title ? title : objective.title,
+          objective.description,
+          isRoot && ownerId ? ownerId : objective.owner_id,
+          objective.level,
+          targetPeriod.name,
+          targetPeriod.id || null,
+          dueDate,
+          parentObjectiveId || null,
+          parentKeyResultId || null,
+          isRoot && teamId !== undefined ? teamId || null : objective.team_id,
+          objective.weight
+        ]
+      );
+      const newObjectiveId = created[0].id;
+      objectiveMap.set(objective.id, newObjectiveId);
+
+      const { rows: keyResults } = await client.query(
+        'SELECT * FROM key_results WHERE objective_id = $1 AND deleted_at IS NULL ORDER BY created_at',
+        [objective.id]
+      );
+
+      const newKeyResults = [];
+      for (const kr of keyResults) {
+        const reset = resetClonedKeyResult(kr);
+        const { rows: krRows } = await client.query(
+          `INSERT INTO key_results (objective_id, description, metric_type, start_value, target_value, current_value, unit, status, confidence, weight, direction, target_max_value, steps)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, 'draft', 'medium', $8, $9, $10, $11)
+           RETURNING *`,
+          [
+            newObjectiveId, kr.description, kr.metric_type, reset.startValue, reset.targetValue,
+            reset.currentValue, kr.unit, kr.weight, kr.direction, kr.target_max_value,
+            JSON.stringify(reset.steps)
+          ]
+        );
+        keyResultMap.set(kr.id, krRows[0].id);
+        newKeyResults.push(krRows[0]);
+      }
+
+      await client.query(
+        'UPDATE objectives SET progress = $1 WHERE id = $2',
+        [calculateProgress(newKeyResults), newObjectiveId]
+      );
+    }
+
+    await client.query('COMMIT');
+
+    return {
+      objective: await getObjectiveById(pool, objectiveMap.get(id)),
+      clonedCount: objectiveMap.size
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Move an objective to the trash, together with its key results and every
+ * objective aligned below it through those key results. All rows share the
+ * objective id as deletion_id so they are restored or purged as one item.
+ */
+export async function deleteObjective(pool, id, userId) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
 
-  for (const kr of keyResults) {
-    // Find all child objectives linked to this KR
-    const { rows: childObjectives } = await pool.query(
-      'SELECT id FROM objectives WHERE parent_key_result_id = $1',
-      [kr.id]
+    const { rows: tree } = await client.query(
+      `WITH RECURSIVE tree AS (
+         SELECT o.id, o.approval_status, 0 as depth FROM objectives o WHERE o.id = $1 AND o.deleted_at IS NULL
+         UNION ALL
+         SELECT child.id, child.approval_status, tree.depth + 1
+         FROM objectives child
+         JOIN key_results kr ON child.parent_key_result_id = kr.id AND kr.deleted_at IS NULL
+         JOIN tree ON kr.objective_id = tree.id
+         WHERE tree.depth < 10 AND child.deleted_at IS NULL
+       )
+       SELECT id, approval_status, depth FROM tree`,
+      [id]
     );
 
-    // Recursively delete each child objective
-    for (const child of childObjectives) {
-      await deleteObjective(pool, child.id);
+    if (tree.length === 0) {
+      await client.query('ROLLBACK');
+      return false;
     }
+
+    // Locked states block deletion (archived can be deleted), for the children too
+    const lockedStates = ['active', 'paused', 'stopped'];
+    if (lockedStates.includes(tree[0].approval_status)) {
+      throw new Error('Non è possibile eliminare un OKR in questo stato');
+    }
+    if (tree.some(objective => lockedStates.includes(objective.approval_status))) {
+      throw new Error('Non è possibile eliminare un OKR con OKR collegati attivi, in pausa o fermati');
+    }
+
+    const objectiveIds = tree.map(objective => objective.id);
+    await client.query(
+      `UPDATE objectives SET deleted_at = NOW(), deleted_by = $2, deletion_id = $3
+       WHERE id = ANY($1::uuid[])`,
+      [objectiveIds, userId, id]
+    );
+    await client.query(
+      `UPDATE key_results SET deleted_at = NOW(), deleted_by = $2, deletion_id = $3
+       WHERE objective_id = ANY($1::uuid[]) AND deleted_at IS NULL`,
+      [objectiveIds, userId, id]
+    );
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
   }
 
-  // Now delete the objective itself (KRs will be deleted by CASCADE)
-  const { rowCount } = await pool.query(
-    'DELETE FROM objectives WHERE id = $1',
-    [id]
-  );
-  return rowCount > 0;
+  // The parent KR no longer counts this objective in its roll-up
+  await updateParentKeyResultIfAllChildrenComplete(pool, id);
+  return true;
 }
 
 // === KEY RESULTS ===
 
 export async function createKeyResult(pool, objectiveId, data, userId) {
-  const { description, metricType, startValue, targetValue, unit } = data;
+  const { description, metricType, unit } = data;
+  const weight = parseWeight(data.weight) ?? 1;
+  const metrics = normalizeKeyResultInput(data);
 
   // Check if objective is in draft state - only draft allows adding KRs
   const objectiveStatus = await pool.query('SELECT approval_status FROM objectives WHERE id = $1', [objectiveId]);
@@ -645,10 +987,14 @@ export async function createKeyResult(pool, objectiveId, data, userId) {
   }
 
   const { rows } = await pool.query(
-    `INSERT INTO key_results (objective_id, description, metric_type, start_value, target_value, current_value, unit)
-     VALUES ($1, $2, $3, $4, $5, $4, $6)
+    `INSERT INTO key_results (objective_id, description, metric_type, start_value, target_value, current_value, unit, weight, direction, target_max_value, steps)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
      RETURNING *`,
-    [objectiveId, description, metricType, startValue || 0, targetValue, unit]
+    [
+      objectiveId, description, metricType, metrics.startValue, metrics.targetValue,
+      metricType === 'milestone' ? metrics.currentValue : metrics.startValue, unit, weight,
+      metrics.direction, metrics.targetMaxValue, JSON.stringify(metrics.steps)
+    ]
   );
 
   // Update objective progress
@@ -657,11 +1003,17 @@ export async function createKeyResult(pool, objectiveId, data, userId) {
   return transformKeyResult(rows[0]);
 }
 
-export async function updateKeyResult(pool, id, data, userId) {
-  const { description, metricType, startValue, targetValue, currentValue, unit, status, confidence } = data;
+/**
+ * Update a key result. Callers running it inside a transaction pass
+ * options.events: the real-time notifications are collected there instead of
+ * being sent, so they can be sent after COMMIT.
+ */
+export async function updateKeyResult(pool, id, data, userId, options = {}) {
+  const { description, metricType, startValue, targetValue, unit, status, confidence, direction, targetMaxValue, steps } = data;
+  const weight = parseWeight(data.weight);
 
   // Get current value for history
-  const current = await pool.query('SELECT * FROM key_results WHERE id = $1', [id]);
+  const current = await pool.query('SELECT * FROM key_results WHERE id = $1 AND deleted_at IS NULL', [id]);
   if (current.rows.length === 0) return null;
 
   const oldValue = current.rows[0].current_value;
@@ -675,11 +1027,13 @@ export async function updateKeyResult(pool, id, data, userId) {
   // If not draft, check what changes are allowed
   if (!isDraft) {
     const hasStructuralChanges = description !== undefined || metricType !== undefined ||
-                                  startValue !== undefined || targetValue !== undefined || unit !== undefined;
+                                  startValue !== undefined || targetValue !== undefined || unit !== undefined ||
+                                  weight !== undefined || direction !== undefined ||
+                                  targetMaxValue !== undefined || steps !== undefined;
 
     // pending_review/approved/stopped/archived: block all changes
     if (['pending_review', 'approved', 'stopped', 'archived'].includes(currentApprovalStatus)) {
-      if (hasStructuralChanges || currentValue !== undefined) {
+      if (hasStructuralChanges || data.currentValue !== undefined) {
         throw new Error('Non è possibile modificare i Key Result di un OKR in questo stato.');
       }
     }
@@ -697,6 +1051,34 @@ export async function updateKeyResult(pool, id, data, userId) {
     }
   }
 
+  // Re-validate metric fields against the stored row when any of them changes
+  let metrics = null;
+  const hasMetricChanges = [metricType, startValue, targetValue, direction, targetMaxValue, steps].some(value => value !== undefined);
+  if (hasMetricChanges) {
+    const row = current.rows[0];
+    metrics = normalizeKeyResultInput({
+      metricType: metricType ?? row.metric_type,
+      direction: direction ?? row.direction,
+      startValue: startValue ?? row.start_value,
+      targetValue: targetValue ?? row.target_value,
+      targetMaxValue: targetMaxValue !== undefined ? targetMaxValue : row.target_max_value,
+      steps: steps ?? row.steps,
+      currentValue: data.currentValue
+    });
+  }
+
+  // Milestone values are derived from completed steps: other values are rejected
+  let currentValue = data.currentValue;
+  if ((metricType ?? current.rows[0].metric_type) === 'milestone') {
+    const completedSteps = metrics
+      ? metrics.currentValue
+      : (current.rows[0].steps || []).filter(step => step.completed).length;
+    if (currentValue !== undefined && parseFloat(currentValue) !== completedSteps) {
+      throw new Error('Non è possibile impostare il valore di una milestone: completa i suoi step');
+    }
+    currentValue = metrics || currentValue !== undefined ? completedSteps : undefined;
+  }
+
   const { rows } = await pool.query(
     `UPDATE key_results
      SET description = COALESCE($1, description),
@@ -707,10 +1089,19 @@ export async function updateKeyResult(pool, id, data, userId) {
          unit = COALESCE($6, unit),
          status = COALESCE($7, status),
          confidence = COALESCE($8, confidence),
+         weight = COALESCE($10, weight),
+         direction = COALESCE($11, direction),
+         target_max_value = CASE WHEN $14 THEN $12 ELSE target_max_value END,
+         steps = COALESCE($13::jsonb, steps),
          updated_at = NOW()
      WHERE id = $9
      RETURNING *`,
-    [description, metricType, startValue, targetValue, currentValue, unit, status, confidence, id]
+    [
+      description, metricType, metrics ? metrics.startValue : startValue, metrics ? metrics.targetValue : targetValue,
+      currentValue, unit, status, confidence, id, weight,
+      metrics ? metrics.direction : undefined, metrics ? metrics.targetMaxValue : null,
+      metrics ? JSON.stringify(metrics.steps) : null, hasMetricChanges
+    ]
   );
 
   // Log progress change
@@ -734,18 +1125,27 @@ export async function updateKeyResult(pool, id, data, userId) {
     [objectiveId]
   );
   if (objInfo.rows[0]?.company_id) {
-    sendToCompany(objInfo.rows[0].company_id, NotificationTypes.OKR_UPDATED, {
+    const event = [objInfo.rows[0].company_id, NotificationTypes.OKR_UPDATED, {
       objectiveId,
       title: objInfo.rows[0].title,
       timestamp: new Date().toISOString()
-    }, userId); // exclude the user making the change
+    }, userId]; // exclude the user making the change
+    if (options.events) {
+      options.events.push(event);
+    } else {
+      sendToCompany(...event);
+    }
   }
 
   return transformKeyResult(rows[0]);
 }
 
-export async function deleteKeyResult(pool, id) {
-  const current = await pool.query('SELECT objective_id FROM key_results WHERE id = $1', [id]);
+/**
+ * Move a key result to the trash. Objectives aligned to it are unlinked and
+ * remember the KR in detached_key_result_id, so a restore links them back.
+ */
+export async function deleteKeyResult(pool, id, userId) {
+  const current = await pool.query('SELECT objective_id FROM key_results WHERE id = $1 AND deleted_at IS NULL', [id]);
   if (current.rows.length === 0) return false;
 
   const objectiveId = current.rows[0].objective_id;
@@ -756,19 +1156,38 @@ export async function deleteKeyResult(pool, id) {
     throw new Error('Non è possibile eliminare Key Result: l\'OKR deve essere in stato bozza');
   }
 
-  const { rowCount } = await pool.query('DELETE FROM key_results WHERE id = $1', [id]);
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
 
-  if (rowCount > 0) {
-    await updateObjectiveProgress(pool, objectiveId);
+    await client.query(
+      `UPDATE key_results SET deleted_at = NOW(), deleted_by = $2, deletion_id = id
+       WHERE id = $1`,
+      [id, userId]
+    );
+    await client.query(
+      `UPDATE objectives
+       SET detached_key_result_id = parent_key_result_id, parent_key_result_id = NULL, parent_objective_id = NULL
+       WHERE parent_key_result_id = $1`,
+      [id]
+    );
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
   }
 
-  return rowCount > 0;
+  await updateObjectiveProgress(pool, objectiveId);
+  return true;
 }
 
 // Update objective progress based on key results
-async function updateObjectiveProgress(pool, objectiveId) {
+export async function updateObjectiveProgress(pool, objectiveId) {
   const { rows: keyResults } = await pool.query(
-    'SELECT * FROM key_results WHERE objective_id = $1',
+    'SELECT * FROM key_results WHERE objective_id = $1 AND deleted_at IS NULL',
     [objectiveId]
   );
 
@@ -792,8 +1211,11 @@ async function updateObjectiveProgress(pool, objectiveId) {
   // Auto-update approval_status based on completion
   const currentApprovalStatus = objective[0]?.approval_status;
 
-  // If OKR is active and reaches 100%, mark as closed
-  if (currentApprovalStatus === 'active' && progress >= 100) {
+  // If OKR is active and reaches 100%, mark as closed.
+  // Range KRs must hold inside their band until the due date, so those close at the deadline.
+  const hasRangeKeyResults = keyResults.some(kr => kr.direction === 'range');
+  const isPastDue = objective[0]?.due_date && new Date(objective[0].due_date) < new Date();
+  if (currentApprovalStatus === 'active' && progress >= 100 && (!hasRangeKeyResults || isPastDue)) {
     await pool.query(
       `UPDATE objectives SET approval_status = 'closed', updated_at = NOW() WHERE id = $1`,
       [objectiveId]
@@ -831,7 +1253,7 @@ async function updateObjectiveProgress(pool, objectiveId) {
 }
 
 /**
- * Update parent KR progress based on average progress of child OKRs.
+ * Update parent KR progress based on the weighted average progress of child OKRs.
  */
 async function updateParentKeyResultIfAllChildrenComplete(pool, objectiveId) {
   // Get the parent_key_result_id of this objective
@@ -845,22 +1267,24 @@ async function updateParentKeyResultIfAllChildrenComplete(pool, objectiveId) {
 
   // Get all child OKRs linked to this parent KR
   const { rows: childOkrs } = await pool.query(
-    `SELECT id, progress FROM objectives WHERE parent_key_result_id = $1`,
+    `SELECT id, progress, weight FROM objectives WHERE parent_key_result_id = $1 AND deleted_at IS NULL`,
     [parentKrId]
   );
 
   if (childOkrs.length === 0) return;
 
-  // Calculate average progress of all child OKRs
-  const avgProgress = childOkrs.reduce((sum, child) => sum + (child.progress || 0), 0) / childOkrs.length;
+  // Calculate weighted average progress of all child OKRs
+  const totalWeight = childOkrs.reduce((sum, child) => sum + getRowWeight(child), 0);
+  const avgProgress = childOkrs.reduce((sum, child) => sum + (child.progress || 0) * getRowWeight(child), 0) / totalWeight;
 
   // Get parent KR details
   const { rows: krRows } = await pool.query(
-    'SELECT id, start_value, target_value, objective_id FROM key_results WHERE id = $1',
+    'SELECT id, metric_type, start_value, target_value, objective_id FROM key_results WHERE id = $1',
     [parentKrId]
   );
 
-  if (krRows.length > 0) {
+  // Milestone values only follow their steps, so children do not roll up into them
+  if (krRows.length > 0 && krRows[0].metric_type !== 'milestone') {
     const kr = krRows[0];
     const startValue = parseFloat(kr.start_value) || 0;
     const targetValue = parseFloat(kr.target_value);
@@ -878,10 +1302,189 @@ async function updateParentKeyResultIfAllChildrenComplete(pool, objectiveId) {
   }
 }
 
+export async function getKeyResultById(pool, id) {
+  const { rows } = await pool.query('SELECT * FROM key_results WHERE id = $1 AND deleted_at IS NULL', [id]);
+  return rows.length > 0 ? transformKeyResult(rows[0]) : null;
+}
+
+// === CHECK-INS ===
+
+function transformCheckIn(row) {
+  return {
+    id: row.id,
+    keyResultId: row.key_result_id,
+    keyResultDescription: row.key_result_description || null,
+    previousValue: row.previous_value !== null ? parseFloat(row.previous_value) : null,
+    newValue: parseFloat(row.new_value),
+    confidence: row.confidence,
+    note: row.note,
+    blockers: row.blockers,
+    nextSteps: row.next_steps,
+    createdBy: row.created_by,
+    createdByName: row.created_by_name || null,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Record a check-in on a key result.
+ * Updates the KR value and confidence through updateKeyResult (so progress
+ * history, objective progress and SSE notifications stay consistent) and
+ * stores the accompanying note, blockers and next steps, in one transaction.
+ */
+export async function createCheckIn(pool, keyResultId, data, userId) {
+  const { confidence, note, blockers, nextSteps, completedStepIds } = data;
+  let { newValue } = data;
+
+  if (confidence && !['high', 'medium', 'low'].includes(confidence)) {
+    throw new Error('Non è possibile registrare il check-in: livello di fiducia non valido');
+  }
+
+  // Steps, value and check-in row are written together; notifications are
+  // sent once they are committed
+  const events = [];
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const { rows: krRows } = await client.query(
+      `SELECT kr.current_value, kr.metric_type, kr.steps, o.approval_status
+       FROM key_results kr
+       JOIN objectives o ON kr.objective_id = o.id
+       WHERE kr.id = $1 AND kr.deleted_at IS NULL
+       FOR UPDATE OF kr`,
+      [keyResultId]
+    );
+    if (krRows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    // Check-ins are progress updates: only allowed on active objectives
+    if (krRows[0].approval_status !== 'active') {
+      throw new Error('Non è possibile registrare un check-in: l\'OKR deve essere attivo');
+    }
+
+    // Milestone check-ins tick steps; the value is the number of completed steps
+    if (krRows[0].metric_type === 'milestone') {
+      if (!Array.isArray(completedStepIds)) {
+        throw new Error('Non è possibile registrare il check-in: step completati mancanti');
+      }
+      const now = new Date().toISOString();
+      const steps = (krRows[0].steps || []).map(step => {
+        const completed = completedStepIds.includes(step.id);
+        return {
+          ...step,
+          completed,
+          completedAt: completed ? (step.completedAt || now) : null
+        };
+      });
+      newValue = steps.filter(step => step.completed).length;
+      await client.query(
+        'UPDATE key_results SET steps = $1::jsonb WHERE id = $2',
+        [JSON.stringify(steps), keyResultId]
+      );
+    }
+
+    if (newValue === undefined || newValue === null || isNaN(parseFloat(newValue))) {
+      throw new Error('Non è possibile registrare il check-in: valore mancante');
+    }
+
+    const previousValue = krRows[0].current_value;
+
+    await updateKeyResult(client, keyResultId, {
+      currentValue: parseFloat(newValue),
+      confidence: confidence || undefined
+    }, userId, { events });
+
+    const { rows } = await client.query(
+      `INSERT INTO key_result_checkins (key_result_id, previous_value, new_value, confidence, note, blockers, next_steps, created_by)
+       VALUES ($1, $2, $3, COALESCE($4, 'medium'), $5, $6, $7, $8)
+       RETURNING *`,
+      [keyResultId, previousValue, parseFloat(newValue), confidence || null, note || null, blockers || null, nextSteps || null, userId]
+    );
+
+    await client.query('COMMIT');
+    for (const event of events) {
+      sendToCompany(...event);
+    }
+    return transformCheckIn(rows[0]);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function getCheckIns(pool, keyResultId) {
+  const { rows } = await pool.query(`
+    SELECT c.*, u.name as created_by_name
+    FROM key_result_checkins c
+    LEFT JOIN users u ON c.created_by = u.id
+    WHERE c.key_result_id = $1
+    ORDER BY c.created_at DESC
+  `, [keyResultId]);
+
+  return rows.map(transformCheckIn);
+}
+
+/**
+ * Get the check-in timeline for all key results of an objective
+ */
+export async function getObjectiveCheckIns(pool, objectiveId) {
+  const { rows } = await pool.query(`
+    SELECT c.*, u.name as created_by_name, kr.description as key_result_description
+    FROM key_result_checkins c
+    JOIN key_results kr ON c.key_result_id = kr.id
+    LEFT JOIN users u ON c.created_by = u.id
+    WHERE kr.objective_id = $1 AND kr.deleted_at IS NULL
+    ORDER BY c.created_at DESC
+    LIMIT 100
+  `, [objectiveId]);
+
+  return rows.map(transformCheckIn);
+}
+
+/**
+ * Get key results the user still has to check in this week.
+ * Covers active objectives the user owns or contributes to whose key results
+ * have no check-in since the start of the current week.
+ */
+export async function getCheckInsDue(pool, userId) {
+  const { rows } = await pool.query(`
+    SELECT kr.*,
+           o.title as objective_title,
+           last_checkin.created_at as last_check_in_at
+    FROM key_results kr
+    JOIN objectives o ON kr.objective_id = o.id
+    LEFT JOIN LATERAL (
+      SELECT c.created_at
+      FROM key_result_checkins c
+      WHERE c.key_result_id = kr.id
+      ORDER BY c.created_at DESC
+      LIMIT 1
+    ) last_checkin ON true
+    WHERE o.approval_status = 'active'
+      AND o.deleted_at IS NULL AND kr.deleted_at IS NULL
+      AND (o.owner_id = $1 OR EXISTS (
+        SELECT 1 FROM objective_contributors oc WHERE oc.objective_id = o.id AND oc.user_id = $1
+      ))
+      AND (last_checkin.created_at IS NULL OR last_checkin.created_at < date_trunc('week', NOW()))
+    ORDER BY last_checkin.created_at ASC NULLS FIRST, o.title, kr.created_at
+  `, [userId]);
+
+  return rows.map(row => ({
+    ...transformKeyResult(row),
+    objectiveTitle: row.objective_title,
+    lastCheckInAt: row.last_check_in_at || null
+  }));
+}
+
 // === ANALYTICS ===
 
 export async function getStats(pool, userId, isAdmin, companyId = null) {
-  const conditions = [];
+  const conditions = ['o.deleted_at IS NULL'];
   const params = [];
   let paramIndex = 1;
 
@@ -897,7 +1500,7 @@ export async function getStats(pool, userId, isAdmin, companyId = null) {
     params.push(userId);
   }
 
-  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const whereClause = `WHERE ${conditions.join(' AND ')}`;
 
   const { rows: [stats] } = await pool.query(`
     SELECT
@@ -933,6 +1536,200 @@ export async function getProgressHistory(pool, objectiveId) {
   return rows;
 }
 
+// Build the company/period WHERE fragment shared by the analytics queries
+function buildAnalyticsScope(filters, params) {
+  const { companyId, period } = filters;
+  const conditions = ['o.deleted_at IS NULL'];
+
+  // Multi-tenant: filter by company_id
+  if (companyId) {
+    params.push(companyId);
+    conditions.push(`u.company_id = $${params.length}`);
+  }
+
+  if (period) {
+    params.push(period);
+    conditions.push(`o.period = $${params.length}`);
+  }
+
+  return `AND ${conditions.join(' AND ')}`;
+}
+
+/**
+ * Weekly progress trend per period.
+ * For each period and week, takes the last value recorded for every KR in
+ * progress_history and averages the resulting KR progress.
+ */
+export async function getProgressTrend(pool, filters = {}) {
+  const params = [];
+  const scope = buildAnalyticsScope(filters, params);
+
+  const { rows } = await pool.query(`
+    WITH weekly AS (
+      SELECT DISTINCT ON (kr.id, date_trunc('week', ph.created_at))
+             o.period,
+             date_trunc('week', ph.created_at) AS week,
+             CASE
+               WHEN kr.target_value = kr.start_value
+                 THEN CASE WHEN ph.new_value >= kr.target_value THEN 100 ELSE 0 END
+               ELSE LEAST(GREATEST((ph.new_value - kr.start_value) / (kr.target_value - kr.start_value) * 100, 0), 100)
+             END AS kr_progress
+      FROM progress_history ph
+      JOIN key_results kr ON ph.key_result_id = kr.id
+      JOIN objectives o ON kr.objective_id = o.id
+      JOIN users u ON o.owner_id = u.id
+      WHERE ph.new_value IS NOT NULL AND kr.deleted_at IS NULL ${scope}
+      ORDER BY kr.id, date_trunc('week', ph.created_at), ph.created_at DESC
+    )
+    SELECT period, week, ROUND(AVG(kr_progress)) AS avg_progress, COUNT(*) AS updates
+    FROM weekly
+    GROUP BY period, week
+    ORDER BY week, period
+  `, params);
+
+  return rows.map(row => ({
+    period: row.period,
+    week: row.week,
+    avgProgress: parseInt(row.avg_progress) || 0,
+    updates: parseInt(row.updates) || 0
+  }));
+}
+
+/**
+ * Completion rate by OKR level.
+ * An objective counts as completed when its progress status is completed
+ * or it was closed through the approval workflow.
+ */
+export async function getCompletionByLevel(pool, filters = {}) {
+  const params = [];
+  const scope = buildAnalyticsScope(filters, params);
+
+  const { rows } = await pool.query(`
+    SELECT o.level,
+           COUNT(*) AS total,
+           COUNT(*) FILTER (WHERE o.status = 'completed' OR o.approval_status = 'closed') AS completed,
+           ROUND(AVG(o.progress)) AS avg_progress
+    FROM objectives o
+    JOIN users u ON o.owner_id = u.id
+    WHERE 1=1 ${scope}
+    GROUP BY o.level
+  `, params);
+
+  const levels = ['company', 'department', 'team', 'individual'];
+  return levels.map(level => {
+    const row = rows.find(r => r.level === level);
+    const total = row ? parseInt(row.total) || 0 : 0;
+    const completed = row ? parseInt(row.completed) || 0 : 0;
+    return {
+      level,
+      total,
+      completed,
+      completionRate: total > 0 ? Math.round((completed / total) * 100) : 0,
+      avgProgress: row ? parseInt(row.avg_progress) || 0 : 0
+    };
+  });
+}
+
+/**
+ * Approval status distribution at the end of each of the last N weeks.
+ * The status of an objective in a given week is derived from the last
+ * approval_history action recorded up to that week (draft if none).
+ */
+export async function getStatusDistribution(pool, filters = {}) {
+  const weeks = Math.min(Math.max(parseInt(filters.weeks) || 12, 1), 52);
+  const params = [weeks];
+  const scope = buildAnalyticsScope(filters, params);
+
+  const { rows } = await pool.query(`
+    WITH weeks AS (
+      SELECT generate_series(
+        date_trunc('week', NOW()) - ($1::int - 1) * INTERVAL '1 week',
+        date_trunc('week', NOW()),
+        INTERVAL '1 week'
+      ) AS week
+    ),
+    scoped AS (
+      SELECT o.id, o.created_at
+      FROM objectives o
+      JOIN users u ON o.owner_id = u.id
+      WHERE 1=1 ${scope}
+    )
+    SELECT w.week,
+           CASE last_action.action
+             WHEN 'submitted' THEN 'pending_review'
+             WHEN 'approved' THEN 'approved'
+             WHEN 'activated' THEN 'active'
+             WHEN 'resumed' THEN 'active'
+             WHEN 'reopened' THEN 'active'
+             WHEN 'paused' THEN 'paused'
+             WHEN 'stopped' THEN 'stopped'
+             WHEN 'archived' THEN 'archived'
+             WHEN 'closed' THEN 'closed'
+             WHEN 'failed' THEN 'failed'
+             ELSE 'draft'
+           END AS approval_status,
+           COUNT(*) AS count
+    FROM weeks w
+    JOIN scoped s ON s.created_at < w.week + INTERVAL '1 week'
+    LEFT JOIN LATERAL (
+      SELECT ah.action
+      FROM approval_history ah
+      WHERE ah.objective_id = s.id AND ah.created_at < w.week + INTERVAL '1 week'
+      ORDER BY ah.created_at DESC
+      LIMIT 1
+    ) last_action ON true
+    GROUP BY w.week, 2
+    ORDER BY w.week
+  `, params);
+
+  // Pivot rows into one entry per week
+  const byWeek = new Map();
+  rows.forEach(row => {
+    const key = new Date(row.week).toISOString();
+    if (!byWeek.has(key)) {
+      byWeek.set(key, { week: row.week, counts: {} });
+    }
+    byWeek.get(key).counts[row.approval_status] = parseInt(row.count) || 0;
+  });
+
+  return Array.from(byWeek.values());
+}
+
+/**
+ * At-risk ratio per team.
+ * Considers objectives attached to a team and counts those whose progress
+ * status is at-risk or off-track.
+ */
+export async function getTeamRiskRatios(pool, filters = {}) {
+  const params = [];
+  const scope = buildAnalyticsScope(filters, params);
+
+  const { rows } = await pool.query(`
+    SELECT t.id AS team_id,
+           t.name AS team_name,
+           COUNT(*) AS total,
+           COUNT(*) FILTER (WHERE o.status IN ('at-risk', 'off-track')) AS at_risk
+    FROM objectives o
+    JOIN users u ON o.owner_id = u.id
+    JOIN teams t ON o.team_id = t.id
+    WHERE o.approval_status NOT IN ('archived', 'stopped') ${scope}
+    GROUP BY t.id, t.name
+    ORDER BY t.name
+  `, params);
+
+  return rows.map(row => {
+    const total = parseInt(row.total) || 0;
+    const atRisk = parseInt(row.at_risk) || 0;
+    return {
+      teamId: row.team_id,
+      teamName: row.team_name,
+      total,
+      atRisk,
+      atRiskRatio: total > 0 ? Math.round((atRisk / total) * 100) : 0
+    };
+  });
+}
+
 // === ADMIN FUNCTIONS ===
 
 /**
@@ -1019,12 +1816,12 @@ export async function getObjectiveChildren(pool, parentId) {
             u.name as owner_name,
             parent.title as parent_objective_title,
             t.name as team_name,
-            (SELECT COUNT(*) FROM objectives child WHERE child.parent_objective_id = o.id) as children_count
+            (SELECT COUNT(*) FROM objectives child WHERE child.parent_objective_id = o.id AND child.deleted_at IS NULL) as children_count
      FROM objectives o
      JOIN users u ON o.owner_id = u.id
      LEFT JOIN objectives parent ON o.parent_objective_id = parent.id
      LEFT JOIN teams t ON o.team_id = t.id
-     WHERE o.parent_objective_id = $1
+     WHERE o.parent_objective_id = $1 AND o.deleted_at IS NULL
      ORDER BY o.level, o.created_at DESC`,
     [parentId]
   );
@@ -1033,7 +1830,7 @@ export async function getObjectiveChildren(pool, parentId) {
   const objectives = await Promise.all(
     rows.map(async (row) => {
       const krResult = await pool.query(
-        'SELECT * FROM key_results WHERE objective_id = $1 ORDER BY created_at',
+        'SELECT * FROM key_results WHERE objective_id = $1 AND deleted_at IS NULL ORDER BY created_at',
         [row.id]
       );
       return transformObjective(row, krResult.rows);
@@ -1050,7 +1847,7 @@ export async function getObjectiveChildren(pool, parentId) {
  * - Team: KRs from company objectives
  * - Individual: KRs from team objectives
  */
-export async function getAvailableParents(pool, level, excludeId = null) {
+export async function getAvailableParents(pool, level, excludeId = null, teamId = null) {
   const levelHierarchy = {
     'company': [],           // Company can't have parents
     'team': ['company'],     // Team must link to company KRs
@@ -1063,6 +1860,9 @@ export async function getAvailableParents(pool, level, excludeId = null) {
     return [];
   }
 
+  // Team OKRs can also align to the OKRs of the departments containing their team
+  const departmentIds = level === 'team' && teamId ? await getTeamAncestorIds(pool, teamId) : [];
+
   let query = `
     SELECT kr.id, kr.description, kr.objective_id,
            o.title as objective_title, o.level as objective_level, o.period,
@@ -1070,13 +1870,14 @@ export async function getAvailableParents(pool, level, excludeId = null) {
     FROM key_results kr
     JOIN objectives o ON kr.objective_id = o.id
     JOIN users u ON o.owner_id = u.id
-    WHERE o.level = ANY($1)
+    WHERE (o.level = ANY($1) OR (o.level = 'team' AND o.team_id = ANY($2::uuid[])))
       AND o.approval_status NOT IN ('archived', 'closed', 'failed')
+      AND o.deleted_at IS NULL AND kr.deleted_at IS NULL
   `;
-  const params = [validParentLevels];
+  const params = [validParentLevels, departmentIds];
 
   if (excludeId) {
-    query += ` AND o.id != $2`;
+    query += ` AND o.id != $3`;
     params.push(excludeId);
   }
 
@@ -1100,35 +1901,46 @@ export async function getAvailableParents(pool, level, excludeId = null) {
  * Returns nested structure with children
  */
 export async function getObjectiveHierarchy(pool, filters = {}) {
-  const { period, rootLevel = 'company', companyId } = filters;
+  const { period, periodId, teamId, rootLevel = 'company', companyId } = filters;
 
   // Get all objectives
   let query = `
     SELECT o.*,
            u.name as owner_name,
            parent.title as parent_objective_title,
+           parent_kr.description as parent_key_result_description,
            t.name as team_name,
-           (SELECT COUNT(*) FROM objectives child WHERE child.parent_objective_id = o.id) as children_count
+           (SELECT COUNT(*) FROM objectives child WHERE child.parent_objective_id = o.id AND child.deleted_at IS NULL) as children_count
     FROM objectives o
     JOIN users u ON o.owner_id = u.id
     LEFT JOIN objectives parent ON o.parent_objective_id = parent.id
+    LEFT JOIN key_results parent_kr ON o.parent_key_result_id = parent_kr.id
     LEFT JOIN teams t ON o.team_id = t.id
-    WHERE 1=1
+    WHERE o.approval_status != 'archived' AND o.deleted_at IS NULL
   `;
   const params = [];
   let paramIndex = 1;
 
   // Multi-tenant: filter by company_id
   if (companyId) {
-    query += ` AND u.company_id = $${paramIndex++}`;
+    query += ` AND (u.company_id = $${paramIndex} OR u.id = $${paramIndex})`;
+    paramIndex++;
     params.push(companyId);
   }
 
-  if (period) {
+  if (periodId) {
+    query += ` AND o.period_id = $${paramIndex++}`;
+    params.push(periodId);
+  } else if (period) {
     query += ` AND o.period = $${paramIndex++}`;
     params.push(period);
   }
 
+  if (teamId) {
+    query += ` AND o.team_id = $${paramIndex++}`;
+    params.push(teamId);
+  }
+
   query += ` ORDER BY o.level, o.created_at DESC`;
 
   const { rows } = await pool.query(query, params);
@@ -1137,7 +1949,7 @@ export async function getObjectiveHierarchy(pool, filters = {}) {
   const objectiveIds = rows.map(r => r.id);
   const { rows: allKeyResults } = objectiveIds.length > 0
     ? await pool.query(
-        'SELECT * FROM key_results WHERE objective_id = ANY($1) ORDER BY created_at',
+        'SELECT * FROM key_results WHERE objective_id = ANY($1) AND deleted_at IS NULL ORDER BY created_at',
         [objectiveIds]
       )
     : { rows: [] };
@@ -1156,6 +1968,8 @@ export async function getObjectiveHierarchy(pool, filters = {}) {
   rows.forEach(row => {
     objectivesMap[row.id] = {
       ...transformObjective(row, krByObjective[row.id] || []),
+      // Non-company objectives must be aligned to a parent key result
+      isOrphan: row.level !== 'company' && !row.parent_key_result_id && !row.parent_objective_id,
       children: []
     };
   });
@@ -1256,9 +2070,9 @@ export async function submitForReview(pool, objectiveId, userId) {
 
     await client.query('COMMIT');
 
-    // Send real-time SSE notification to all users in the company (admins will see it)
+    // Send real-time SSE notification to the company admins
     if (company_id) {
-      sendToCompany(company_id, NotificationTypes.OKR_SUBMITTED, {
+      sendToAdmins(company_id, NotificationTypes.OKR_SUBMITTED, {
         objectiveId,
         title,
         ownerName: owner_name,
@@ -1341,18 +2155,14 @@ export async function approveObjective(pool, objectiveId, approverId, comment =
  * Reject an objective
  * Changes status from 'pending_review' back to 'draft'
  */
-export async function rejectObjective(pool, objectiveId, rejecterId, comment, options = {}) {
-  const { emailService, frontendUrl } = options;
+export async function rejectObjective(pool, objectiveId, rejecterId, comment) {
   const client = await pool.connect();
   try {
     await client.query('BEGIN');
 
     // Check current approval status and get owner info
     const { rows } = await client.query(
-      `SELECT o.approval_status, o.title, o.owner_id, u.email as owner_email, u.name as owner_name
-       FROM objectives o
-       JOIN users u ON o.owner_id = u.id
-       WHERE o.id = $1`,
+      `SELECT approval_status, title, owner_id FROM objectives WHERE id = $1`,
       [objectiveId]
     );
 
@@ -1364,7 +2174,7 @@ export async function rejectObjective(pool, objectiveId, rejecterId, comment, op
       throw new Error(`Cannot reject: current status is ${rows[0].approval_status}`);
     }
 
-    const { title, owner_email, owner_name } = rows[0];
+    const { title } = rows[0];
 
     // Update approval status back to draft
     await client.query(
@@ -1384,64 +2194,7 @@ export async function rejectObjective(pool, objectiveId, rejecterId, comment, op
 
     await client.query('COMMIT');
 
-    // Send rejection email notification
-    if (emailService && emailService.isConfigured() && owner_email) {
-      try {
-        const okrUrl = `${frontendUrl || 'http://localhost:3000'}`;
-        const subject = `OKR Rifiutato: ${title}`;
-        const html = `
-          <!DOCTYPE html>
-          <html>
-          <head>
-            <meta charset="utf-8">
-            <style>
-              body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
-              .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-              .header { background: linear-gradient(135deg, #ef4444 0%, #dc2626 100%); color: white; padding: 30px; border-radius: 12px 12px 0 0; text-align: center; }
-              .content { background: #f8fafc; padding: 30px; border: 1px solid #e2e8f0; border-top: none; border-radius: 0 0 12px 12px; }
-              .title { font-size: 18px; font-weight: bold; color: #1e293b; margin-bottom: 15px; }
-              .reason-box { background: white; border-left: 4px solid #ef4444; padding: 15px; margin: 20px 0; border-radius: 0 8px 8px 0; }
-              .reason-label { font-size: 12px; font-weight: 600; color: #64748b; text-transform: uppercase; margin-bottom: 8px; }
-              .reason-text { color: #334155; }
-              .cta { display: inline-block; background: #3b82f6; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: 600; margin-top: 20px; }
-              .footer { text-align: center; margin-top: 20px; color: #64748b; font-size: 12px; }
-            </style>
-          </head>
-          <body>
-            <div class="container">
-              <div class="header">
-                <h1 style="margin: 0; font-size: 24px;">OKR Rifiutato</h1>
-              </div>
-              <div class="content">
-                <p>Ciao ${owner_name || 'utente'},</p>
-                <p class="title">Il tuo OKR "${title}" è stato rifiutato.</p>
-
-                <div class="reason-box">
-                  <div class="reason-label">Motivazione</div>
-                  <div class="reason-text">${comment}</div>
-                </div>
-
-                <p>Puoi modificare l'OKR e inviarlo nuovamente per l'approvazione.</p>
-
-                <a href="${okrUrl}" class="cta">Vai a OKR Manager</a>
-
-                <div class="footer">
-                  <p>Questa email è stata inviata automaticamente da OKR Manager.</p>
-                </div>
-              </div>
-            </div>
-          </body>
-          </html>
-        `;
-        await emailService.sendEmail(owner_email, subject, html);
-        console.log(`Rejection email sent to ${owner_email} for objective "${title}"`);
-      } catch (emailError) {
-        console.error('Failed to send rejection email:', emailError);
-        // Don't fail the rejection if email fails
-      }
-    }
-
-    // Send real-time SSE notification to owner
+    // Send real-time SSE notification to owner (also emailed by default, see notification preferences)
     sendToUser(rows[0].owner_id, NotificationTypes.OKR_REJECTED, {
       objectiveId,
       title,
@@ -1930,7 +2683,7 @@ export async function revertToDraft(pool, objectiveId, userId, comment = null) {
 
 /**
  * Auto-fail objectives that have passed their due date without being completed
- * Called periodically or on objective load
+ * (and close the completed ones). Run by the deadline-expiry background job.
  */
 export async function autoFailExpiredObjectives(pool) {
   const { rows } = await pool.query(
@@ -1941,6 +2694,7 @@ export async function autoFailExpiredObjectives(pool) {
        AND due_date IS NOT NULL
        AND due_date < CURRENT_DATE
        AND progress < 100
+       AND deleted_at IS NULL
      RETURNING id`
   );
 
@@ -1954,7 +2708,29 @@ export async function autoFailExpiredObjectives(pool) {
     );
   }
 
-  return rows.length;
+  // Objectives held open by range KRs close once the deadline passes within target
+  const { rows: closedRows } = await pool.query(
+    `UPDATE objectives
+     SET approval_status = 'closed',
+         updated_at = NOW()
+     WHERE approval_status = 'active'
+       AND due_date IS NOT NULL
+       AND due_date < CURRENT_DATE
+       AND progress >= 100
+       AND deleted_at IS NULL
+     RETURNING id`
+  );
+
+  for (const row of closedRows) {
+    await pool.query(
+      `INSERT INTO approval_history (objective_id, action, performed_by, comment)
+       SELECT $1, 'closed', owner_id, 'Obiettivo raggiunto - chiuso alla scadenza'
+       FROM objectives WHERE id = $1`,
+      [row.id]
+    );
+  }
+
+  return { failed: rows.length, closed: closedRows.length };
 }
 
 /**
@@ -1992,12 +2768,12 @@ export async function getPendingApprovals(pool, userId, isAdmin) {
            u.name as owner_name,
            parent.title as parent_objective_title,
            t.name as team_name,
-           (SELECT COUNT(*) FROM objectives child WHERE child.parent_objective_id = o.id) as children_count
+           (SELECT COUNT(*) FROM objectives child WHERE child.parent_objective_id = o.id AND child.deleted_at IS NULL) as children_count
     FROM objectives o
     JOIN users u ON o.owner_id = u.id
     LEFT JOIN objectives parent ON o.parent_objective_id = parent.id
     LEFT JOIN teams t ON o.team_id = t.id
-    WHERE o.approval_status = 'pending_review'
+    WHERE o.approval_status = 'pending_review' AND o.deleted_at IS NULL
   `;
 
   // If not admin, only show OKRs they can approve
@@ -2016,7 +2792,7 @@ export async function getPendingApprovals(pool, userId, isAdmin) {
   const objectives = await Promise.all(
     rows.map(async (row) => {
       const krResult = await pool.query(
-        'SELECT * FROM key_results WHERE objective_id = $1 ORDER BY created_at',
+        'SELECT * FROM key_results WHERE objective_id = $1 AND deleted_at IS NULL ORDER BY created_at',
         [row.id]
       );
       return transformObjective(row, krResult.rows);
@@ -2171,7 +2947,7 @@ export async function getMyContributions(pool, userId) {
      JOIN users u ON o.owner_id = u.id
      LEFT JOIN objectives parent ON o.parent_objective_id = parent.id
      LEFT JOIN teams t ON o.team_id = t.id
-     WHERE oc.user_id = $1
+     WHERE oc.user_id = $1 AND o.deleted_at IS NULL
      ORDER BY o.created_at DESC`,
     [userId]
   );
@@ -2180,7 +2956,7 @@ export async function getMyContributions(pool, userId) {
   const objectives = await Promise.all(
     rows.map(async (row) => {
       const krResult = await pool.query(
-        'SELECT * FROM key_results WHERE objective_id = $1 ORDER BY created_at',
+        'SELECT * FROM key_results WHERE objective_id = $1 AND deleted_at IS NULL ORDER BY created_at',
         [row.id]
       );
       const transformed = transformObjective(row, krResult.rows);
@@ -0,0 +1,268 @@
+/**
+ * OKR service tests - key result metrics, weighted progress, how values reach
+ * the database and when the real-time notifications of a check-in are sent.
+ *
+ * Runs the service functions against a fake pool: each handler answers the
+ * queries matching its pattern, every query is recorded.
+ */
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { addClient, removeClient } from '../notifications/sse.service.js';
+import {
+  autoFailExpiredObjectives,
+  calculateKeyResultProgress,
+  calculateProgress,
+  createCheckIn,
+  normalizeKeyResultInput,
+  updateKeyResult,
+  updateObjectiveProgress
+} from './okr.service.js';
+
+const COMPANY_ID = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+const USER_ID = 'a0000000-0000-4000-8000-000000000001';
+const VIEWER_ID = 'a0000000-0000-4000-8000-000000000002';
+
+function createFakePool(handlers = []) {
+  const queries = [];
+  const query = async (sql, params = []) => {
+    queries.push({ sql, params });
+    const handler = handlers.find(([pattern]) => pattern.test(sql));
+    const rows = handler ? handler[1](params) : [];
+    return { rows, rowCount: rows.length };
+  };
+  return { queries, query, connect: async () => ({ query, release: () => {} }) };
+}
+
+const writes = (pool, pattern) => pool.queries.filter(({ sql }) => pattern.test(sql));
+
+const milestoneRow = (overrides = {}) => ({
+  id: 'kr-1',
+  objective_id: 'obj-1',
+  metric_type: 'milestone',
+  direction: 'increase',
+  start_value: 0,
+  target_value: 3,
+  target_max_value: null,
+  current_value: 1,
+  steps: [
+    { id: 's1', title: 'Analisi', completed: true, completedAt: '2026-01-10T00:00:00.000Z' },
+    { id: 's2', title: 'Sviluppo', completed: false, completedAt: null },
+    { id: 's3', title: 'Rilascio', completed: false, completedAt: null }
+  ],
+  ...overrides
+});
+
+describe('key result metrics', () => {
+  it('stores milestones as completed steps out of total steps', () => {
+    const metrics = normalizeKeyResultInput({
+      metricType: 'milestone',
+      direction: 'decrease',
+      startValue: 50,
+      currentValue: 40,
+      steps: [{ title: ' Analisi ', completed: true }, { title: 'Sviluppo' }, { title: '  ' }]
+    });
+
+    assert.equal(metrics.direction, 'increase');
+    assert.equal(metrics.startValue, 0);
+    assert.equal(metrics.targetValue, 2);
+    assert.equal(metrics.currentValue, 1);
+    assert.deepEqual(metrics.steps.map(step => [step.title, step.completed]), [['Analisi', true], ['Sviluppo', false]]);
+    assert.ok(metrics.steps.every(step => step.id));
+    assert.ok(metrics.steps[0].completedAt);
+    assert.equal(metrics.steps[1].completedAt, null);
+  });
+
+  it('rejects milestones without steps', () => {
+    assert.throws(() => normalizeKeyResultInput({ metricType: 'milestone', steps: [{ title: '' }] }), /almeno uno step/);
+  });
+
+  it('requires a valid band for range key results', () => {
+    const metrics = normalizeKeyResultInput({ metricType: 'number', direction: 'range', startValue: 10, targetValue: 2, targetMaxValue: '4' });
+    assert.equal(metrics.targetValue, 2);
+    assert.equal(metrics.targetMaxValue, 4);
+
+    assert.throws(() => normalizeKeyResultInput({ metricType: 'number', direction: 'range', targetValue: 5, targetMaxValue: 3 }), /intervallo/);
+    assert.throws(() => normalizeKeyResultInput({ metricType: 'number', direction: 'range', targetValue: 5 }), /intervallo/);
+  });
+
+  it('measures milestone progress by completed steps', () => {
+    assert.equal(Math.round(calculateKeyResultProgress(milestoneRow())), 33);
+    assert.equal(calculateKeyResultProgress(milestoneRow({ current_value: 3 })), 100);
+  });
+
+  it('measures range progress by the distance closed towards the band', () => {
+    const range = { direction: 'range', start_value: 10, target_value: 2, target_max_value: 4 };
+    assert.equal(calculateKeyResultProgress({ ...range, current_value: 3 }), 100);
+    assert.equal(calculateKeyResultProgress({ ...range, current_value: 4 }), 100);
+    assert.equal(calculateKeyResultProgress({ ...range, current_value: 7 }), 50);
+    assert.equal(calculateKeyResultProgress({ ...range, current_value: 10 }), 0);
+    assert.equal(calculateKeyResultProgress({ ...range, current_value: 12 }), 0);
+    // Started inside the band: leaving it means no progress
+    assert.equal(calculateKeyResultProgress({ ...range, start_value: 3, current_value: 5 }), 0);
+  });
+});
+
+describe('weighted progress', () => {
+  const numberRow = (currentValue, weight) => ({
+    direction: 'increase', start_value: 0, target_value: 10, current_value: currentValue, weight
+  });
+
+  it('weights key results in the objective progress', () => {
+    assert.equal(calculateProgress([numberRow(10, 3), numberRow(0, 1)]), 75);
+    assert.equal(calculateProgress([numberRow(10, '1.5'), numberRow(0, '0.5')]), 75);
+  });
+
+  it('counts key results without a valid weight once', () => {
+    assert.equal(calculateProgress([numberRow(10, null), numberRow(0, undefined)]), 50);
+    assert.equal(calculateProgress([numberRow(10, 0), numberRow(0, 1)]), 50);
+    assert.equal(calculateProgress([]), 0);
+  });
+
+  it('rejects weights that are not positive', async () => {
+    const pool = createFakePool();
+    await assert.rejects(updateKeyResult(pool, 'kr-1', { weight: 0 }, USER_ID), /Non è possibile impostare il peso/);
+    await assert.rejects(updateKeyResult(pool, 'kr-1', { weight: 'alto' }, USER_ID), /Non è possibile impostare il peso/);
+    assert.deepEqual(pool.queries, []);
+  });
+
+  it('rolls child objectives up into their parent key result by weight', async () => {
+    const pool = createFakePool([
+      [/SELECT \* FROM key_results WHERE objective_id/, () => []],
+      [/SELECT parent_key_result_id FROM objectives/, (params) => (params[0] === 'child-1' ? [{ parent_key_result_id: 'kr-parent' }] : [])],
+      [/WHERE parent_key_result_id = \$1/, () => [
+        { id: 'child-1', progress: 100, weight: 3 },
+        { id: 'child-2', progress: 0, weight: '1' }
+      ]],
+      [/SELECT id, metric_type, start_value/, () => [
+        { id: 'kr-parent', metric_type: 'number', start_value: 0, target_value: 200, objective_id: 'obj-parent' }
+      ]]
+    ]);
+
+    await updateObjectiveProgress(pool, 'child-1');
+
+    const [rollUp] = writes(pool, /UPDATE key_results SET current_value/);
+    assert.deepEqual(rollUp.params, [150, 'kr-parent']);
+    // The parent objective is recalculated from its key results
+    assert.ok(writes(pool, /UPDATE objectives SET progress/).some(({ params }) => params[2] === 'obj-parent'));
+  });
+});
+
+describe('milestone values', () => {
+  const createKeyResultPool = (row, approvalStatus = 'active') => createFakePool([
+    [/SELECT \* FROM key_results WHERE id = \$1/, () => [row]],
+    [/SELECT approval_status FROM objectives/, () => [{ approval_status: approvalStatus }]],
+    [/UPDATE key_results/, (params) => [{ ...row, current_value: params[4] ?? row.current_value }]]
+  ]);
+
+  it('rejects values that do not match the completed steps', async () => {
+    const pool = createKeyResultPool(milestoneRow());
+    await assert.rejects(updateKeyResult(pool, 'kr-1', { currentValue: 3 }, USER_ID), /Non è possibile impostare il valore di una milestone/);
+    assert.deepEqual(writes(pool, /UPDATE key_results|INSERT INTO progress_history/), []);
+  });
+
+  it('accepts the value of the completed steps', async () => {
+    const pool = createKeyResultPool(milestoneRow({ current_value: 0 }));
+    await updateKeyResult(pool, 'kr-1', { currentValue: 1, confidence: 'high' }, USER_ID);
+    const [update] = writes(pool, /UPDATE key_results/);
+    assert.equal(update.params[4], 1);
+  });
+
+  it('derives the value from the steps when they change', async () => {
+    const pool = createKeyResultPool(milestoneRow(), 'draft');
+    const steps = milestoneRow().steps.map(step => ({ ...step, completed: true }));
+    await updateKeyResult(pool, 'kr-1', { steps }, USER_ID);
+    const [update] = writes(pool, /UPDATE key_results/);
+    assert.equal(update.params[4], 3);
+  });
+
+  it('does not roll child objectives up into a milestone key result', async () => {
+    const pool = createFakePool([
+      [/SELECT \* FROM key_results WHERE objective_id/, () => []],
+      [/SELECT due_date, created_at, approval_status/, () => [{ due_date: null, approval_status: 'draft' }]],
+      [/SELECT parent_key_result_id FROM objectives/, (params) => (params[0] === 'child-1' ? [{ parent_key_result_id: 'kr-1' }] : [])],
+      [/WHERE parent_key_result_id = \$1/, () => [{ id: 'child-1', progress: 100, weight: 1 }]],
+      [/SELECT id, metric_type, start_value/, () => [milestoneRow()]]
+    ]);
+
+    await updateObjectiveProgress(pool, 'child-1');
+    assert.deepEqual(writes(pool, /UPDATE key_results/), []);
+  });
+});
+
+describe('expired objectives', () => {
+  it('leaves objectives in the trash alone', async () => {
+    const pool = createFakePool([[/UPDATE objectives/, () => [{ id: 'obj-1' }]]]);
+    const result = await autoFailExpiredObjectives(pool);
+
+    const updates = writes(pool, /UPDATE objectives/);
+    assert.equal(updates.length, 2);
+    for (const { sql } of updates) {
+      assert.match(sql, /deleted_at IS NULL/);
+    }
+    assert.deepEqual(result, { failed: 1, closed: 1 });
+  });
+});
+
+describe('check-ins', () => {
+  const KEY_RESULT = {
+    id: 'kr-1',
+    objective_id: 'obj-1',
+    metric_type: 'number',
+    direction: 'increase',
+    start_value: 0,
+    target_value: 10,
+    current_value: 2,
+    steps: []
+  };
+
+  // Connected client of a colleague: records each event with the queries run before it
+  let pool;
+  let received;
+  const viewer = {
+    write: (message) => received.push({ message, queries: pool.queries.map(({ sql }) => sql) })
+  };
+
+  before(() => addClient(VIEWER_ID, COMPANY_ID, viewer));
+  after(() => removeClient(VIEWER_ID, COMPANY_ID, viewer));
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  const createCheckInPool = (insertCheckIn) => createFakePool([
+    [/FOR UPDATE OF kr/, () => [{ ...KEY_RESULT, approval_status: 'active' }]],
+    [/SELECT \* FROM key_results WHERE id = \$1/, () => [KEY_RESULT]],
+    [/SELECT approval_status FROM objectives/, () => [{ approval_status: 'active' }]],
+    [/UPDATE key_results/, (params) => [{ ...KEY_RESULT, current_value: params[4] }]],
+    [/SELECT due_date, created_at, approval_status/, () => [{ due_date: null, approval_status: 'active' }]],
+    [/SELECT o.title, u.company_id/, () => [{ title: 'OKR', company_id: COMPANY_ID }]],
+    [/INSERT INTO key_result_checkins/, insertCheckIn]
+  ]);
+
+  it('writes the value and the check-in in one transaction and notifies after COMMIT', async () => {
+    pool = createCheckInPool((params) => [{
+      id: 'checkin-1', key_result_id: params[0], previous_value: params[1], new_value: params[2], confidence: 'high'
+    }]);
+
+    const checkIn = await createCheckIn(pool, 'kr-1', { newValue: '6', confidence: 'high', note: 'Bene' }, USER_ID);
+
+    assert.equal(checkIn.newValue, 6);
+    const order = writes(pool, /^(BEGIN|COMMIT|ROLLBACK)$|UPDATE key_results|INSERT INTO key_result_checkins/)
+      .map(({ sql }) => sql.match(/^\s*(\w+( INTO \w+| \w+)?)/)[1]);
+    assert.deepEqual(order, ['BEGIN', 'UPDATE key_results', 'INSERT INTO key_result_checkins', 'COMMIT']);
+
+    const updates = received.filter(({ message }) => message.includes('okr_updated'));
+    assert.equal(updates.length, 1);
+    assert.ok(updates[0].queries.includes('COMMIT'));
+  });
+
+  it('rolls back and notifies nobody when the check-in cannot be stored', async () => {
+    pool = createCheckInPool(() => {
+      throw new Error('connection lost');
+    });
+
+    await assert.rejects(createCheckIn(pool, 'kr-1', { newValue: 6 }, USER_ID), /connection lost/);
+    assert.deepEqual(writes(pool, /^(BEGIN|COMMIT|ROLLBACK)$/).map(({ sql }) => sql), ['BEGIN', 'ROLLBACK']);
+    assert.deepEqual(received, []);
+  });
+});
@@ -0,0 +1,486 @@
+/**
+ * Period Service - Business logic for planning periods (quarters/cycles) and rollover
+ */
+import crypto from 'crypto';
+import { calculateKeyResultProgress, calculateProgress } from './okr.service.js';
+
+// DATE columns come back as local-midnight Date objects: keep them as YYYY-MM-DD
+function formatDate(value) {
+  if (!(value instanceof Date)) return value;
+  const month = String(value.getMonth() + 1).padStart(2, '0');
+  const day = String(value.getDate()).padStart(2, '0');
+  return `${value.getFullYear()}-${month}-${day}`;
+}
+
+// Transform DB row to API format
+function transformPeriod(row) {
+  return {
+    id: row.id,
+    companyId: row.company_id,
+    name: row.name,
+    startDate: formatDate(row.start_date),
+    endDate: formatDate(row.end_date),
+    status: row.status,
+    closedAt: row.closed_at || null,
+    closedBy: row.closed_by || null,
+    closedByName: row.closed_by_name || null,
+    objectivesCount: parseInt(row.objectives_count) || 0,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+// Format a UTC date as YYYY-MM-DD
+function toDateString(date) {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Infer start/end dates from legacy period names ("Q1 2026", "Annual 2026").
+ * Returns null when the name does not follow a known pattern.
+ */
+function inferPeriodDates(name) {
+  const quarter = /^Q([1-4])\s+(\d{4})$/i.exec(name.trim());
+  if (quarter) {
+    const q = parseInt(quarter[1]);
+    const year = parseInt(quarter[2]);
+    return {
+      startDate: toDateString(new Date(Date.UTC(year, (q - 1) * 3, 1))),
+      endDate: toDateString(new Date(Date.UTC(year, q * 3, 0)))
+    };
+  }
+
+  const annual = /^(?:Annual|Annuale|Anno)?\s*(\d{4})$/i.exec(name.trim());
+  if (annual) {
+    const year = parseInt(annual[1]);
+    return { startDate: `${year}-01-01`, endDate: `${year}-12-31` };
+  }
+
+  return null;
+}
+
+/**
+ * Seed the periods of a company without any: the current year's quarters plus
+ * every legacy free-form period already used by the company's objectives,
+ * which are then linked by name. Does nothing once the company has periods.
+ */
+async function seedCompanyPeriods(pool, companyId) {
+  const { rows: existing } = await pool.query(
+    'SELECT 1 FROM periods WHERE company_id = $1 LIMIT 1',
+    [companyId]
+  );
+  if (existing.length > 0) return;
+
+  const year = new Date().getFullYear();
+  const seeds = new Map();
+  for (const name of [`Q1 ${year}`, `Q2 ${year}`, `Q3 ${year}`, `Q4 ${year}`, `Annual ${year}`]) {
+    seeds.set(name, inferPeriodDates(name));
+  }
+
+  const { rows: legacy } = await pool.query(
+    `SELECT o.period,
+            MIN(o.created_at)::date AS first_created,
+            COALESCE(MAX(o.due_date), MAX(o.created_at)::date) AS last_due
+     FROM objectives o
+     JOIN users u ON o.owner_id = u.id
+     WHERE (u.company_id = $1 OR u.id = $1) AND o.period_id IS NULL AND o.deleted_at IS NULL
+     GROUP BY o.period`,
+    [companyId]
+  );
+  for (const row of legacy) {
+    if (!row.period || seeds.has(row.period)) continue;
+    const dates = inferPeriodDates(row.period);
+    seeds.set(row.period, dates || {
+      startDate: formatDate(row.first_created),
+      endDate: formatDate(row.last_due > row.first_created ? row.last_due : row.first_created)
+    });
+  }
+
+  for (const [name, dates] of seeds) {
+    await pool.query(
+      `INSERT INTO periods (company_id, name, start_date, end_date)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (company_id, name) DO NOTHING`,
+      [companyId, name, dates.startDate, dates.endDate]
+    );
+  }
+
+  // Link existing objectives to the seeded periods
+  await pool.query(
+    `UPDATE objectives o
+     SET period_id = p.id
+     FROM users u, periods p
+     WHERE o.owner_id = u.id
+       AND (u.company_id = $1 OR u.id = $1)
+       AND p.company_id = $1
+       AND p.name = o.period
+       AND o.period_id IS NULL`,
+    [companyId]
+  );
+}
+
+// === PERIODS ===
+
+// Companies get their periods on the first read, however they were created
+export async function getPeriods(pool, companyId) {
+  const listPeriods = () => pool.query(
+    `SELECT p.*,
+            closer.name as closed_by_name,
+            (SELECT COUNT(*) FROM objectives o WHERE o.period_id = p.id AND o.deleted_at IS NULL) as objectives_count
+     FROM periods p
+     LEFT JOIN users closer ON p.closed_by = closer.id
+     WHERE p.company_id = $1
+     ORDER BY p.start_date, p.end_date, p.name`,
+    [companyId]
+  );
+
+  let { rows } = await listPeriods();
+  if (rows.length === 0) {
+    await seedCompanyPeriods(pool, companyId);
+    ({ rows } = await listPeriods());
+  }
+
+  return rows.map(transformPeriod);
+}
+
+export async function getPeriodById(pool, id, companyId) {
+  const { rows } = await pool.query(
+    `SELECT p.*,
+            closer.name as closed_by_name,
+            (SELECT COUNT(*) FROM objectives o WHERE o.period_id = p.id AND o.deleted_at IS NULL) as objectives_count
+     FROM periods p
+     LEFT JOIN users closer ON p.closed_by = closer.id
+     WHERE p.id = $1 AND p.company_id = $2`,
+    [id, companyId]
+  );
+
+  return rows.length > 0 ? transformPeriod(rows[0]) : null;
+}
+
+// Validate name and date range of a period
+function validatePeriodInput({ name, startDate, endDate }) {
+  if (!name || !name.trim()) {
+    throw new Error('Non è possibile salvare il periodo: il nome è obbligatorio');
+  }
+  if (!startDate || !endDate || isNaN(new Date(startDate)) || isNaN(new Date(endDate))) {
+    throw new Error('Non è possibile salvare il periodo: date di inizio e fine obbligatorie');
+  }
+  if (new Date(endDate) < new Date(startDate)) {
+    throw new Error('Non è possibile salvare il periodo: la data di fine precede la data di inizio');
+  }
+}
+
+export async function createPeriod(pool, companyId, data) {
+  const { name, startDate, endDate } = data;
+  validatePeriodInput(data);
+
+  try {
+    const { rows } = await pool.query(
+      `INSERT INTO periods (company_id, name, start_date, end_date)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [companyId, name.trim(), startDate, endDate]
+    );
+    return getPeriodById(pool, rows[0].id, companyId);
+  } catch (error) {
+    if (error.code === '23505') {
+      throw new Error('Non è possibile creare il periodo: esiste già un periodo con questo nome');
+    }
+    throw error;
+  }
+}
+
+export async function updatePeriod(pool, id, companyId, data) {
+  const current = await getPeriodById(pool, id, companyId);
+  if (!current) return null;
+
+  const name = data.name !== undefined ? data.name : current.name;
+  const startDate = data.startDate !== undefined ? data.startDate : current.startDate;
+  const endDate = data.endDate !== undefined ? data.endDate : current.endDate;
+  validatePeriodInput({ name, startDate, endDate });
+
+  try {
+    await pool.query(
+      `UPDATE periods
+       SET name = $1, start_date = $2, end_date = $3, updated_at = NOW()
+       WHERE id = $4 AND company_id = $5`,
+      [name.trim(), startDate, endDate, id, companyId]
+    );
+  } catch (error) {
+    if (error.code === '23505') {
+      throw new Error('Non è possibile rinominare il periodo: esiste già un periodo con questo nome');
+    }
+    throw error;
+  }
+
+  // Keep the denormalized period name on objectives in sync
+  if (name.trim() !== current.name) {
+    await pool.query(
+      'UPDATE objectives SET period = $1 WHERE period_id = $2',
+      [name.trim(), id]
+    );
+  }
+
+  return getPeriodById(pool, id, companyId);
+}
+
+export async function deletePeriod(pool, id, companyId) {
+  const current = await getPeriodById(pool, id, companyId);
+  if (!current) return false;
+
+  if (current.objectivesCount > 0) {
+    throw new Error('Non è possibile eliminare un periodo con OKR associati');
+  }
+
+  await pool.query('DELETE FROM periods WHERE id = $1 AND company_id = $2', [id, companyId]);
+  return true;
+}
+
+/**
+ * Resolve the period of an objective being created or moved.
+ * Accepts a period id or (for older clients) a period name.
+ * Returns null when neither is provided.
+ */
+export async function resolveObjectivePeriod(pool, companyId, { periodId, period }) {
+  if (!periodId && !period) return null;
+
+  const { rows } = periodId
+    ? await pool.query('SELECT * FROM periods WHERE id = $1 AND company_id = $2', [periodId, companyId])
+    : await pool.query('SELECT * FROM periods WHERE name = $1 AND company_id = $2', [period, companyId]);
+
+  if (rows.length === 0) {
+    throw new Error('Non è possibile assegnare l\'OKR: periodo non trovato');
+  }
+  if (rows[0].status === 'closed') {
+    throw new Error('Non è possibile assegnare l\'OKR a un periodo chiuso');
+  }
+
+  return transformPeriod(rows[0]);
+}
+
+// === CLOSING & ROLLOVER ===
+
+/**
+ * Objectives of a period that are not finished and have not been carried over yet
+ */
+export async function getRolloverCandidates(pool, periodId, companyId) {
+  const { rows } = await pool.query(
+    `SELECT o.id, o.title, o.level, o.progress, o.status, o.approval_status,
+            o.owner_id, u.name as owner_name,
+            (SELECT COUNT(*) FROM key_results kr WHERE kr.objective_id = o.id AND kr.deleted_at IS NULL) as key_results_count
+     FROM objectives o
+     JOIN users u ON o.owner_id = u.id
+     JOIN periods p ON o.period_id = p.id
+     WHERE p.id = $1 AND p.company_id = $2
+       AND o.progress < 100
+       AND o.approval_status NOT IN ('closed', 'archived')
+       AND o.deleted_at IS NULL
+       AND NOT EXISTS (SELECT 1 FROM objectives next WHERE next.rolled_over_from_id = o.id AND next.deleted_at IS NULL)
+     ORDER BY CASE o.level WHEN 'company' THEN 1 WHEN 'department' THEN 2 WHEN 'team' THEN 3 ELSE 4 END, o.title`,
+    [periodId, companyId]
+  );
+
+  return rows.map(row => ({
+    id: row.id,
+    title: row.title,
+    level: row.level,
+    progress: row.progress,
+    status: row.status,
+    approvalStatus: row.approval_status,
+    ownerId: row.owner_id,
+    ownerName: row.owner_name,
+    keyResultsCount: parseInt(row.key_results_count) || 0
+  }));
+}
+
+/**
+ * Remaining target of a KR carried into the next cycle.
+ * Returns null for KRs already achieved (range KRs are always carried:
+ * staying within the band is an ongoing goal).
+ */
+function carryOverKeyResult(kr) {
+  if (kr.direction !== 'range' && calculateKeyResultProgress(kr) >= 100) return null;
+
+  if (kr.metric_type === 'milestone') {
+    const remaining = (kr.steps || []).filter(step => !step.completed);
+    if (remaining.length === 0) return null;
+    return {
+      startValue: 0,
+      targetValue: remaining.length,
+      currentValue: 0,
+      steps: remaining.map(step => ({ id: crypto.randomUUID(), title: step.title, completed: false, completedAt: null }))
+    };
+  }
+
+  if (kr.metric_type === 'boolean') {
+    return { startValue: 0, targetValue: 1, currentValue: 0, steps: [] };
+  }
+
+  // Numeric KRs restart from where they stopped, same target
+  return {
+    startValue: kr.current_value,
+    targetValue: kr.target_value,
+    currentValue: kr.current_value,
+    steps: []
+  };
+}
+
+/**
+ * Copy unfinished objectives (with their remaining key results) into another
+ * period as drafts. Parent links are remapped when the parent was carried over too.
+ */
+async function rolloverObjectives(client, objectiveIds, targetPeriod) {
+  const { rows: objectives } = await client.query(
+    'SELECT * FROM objectives WHERE id = ANY($1::uuid[])',
+    [objectiveIds]
+  );
+
+  const objectiveMap = new Map();
+  const keyResultMap = new Map();
+
+  for (const objective of objectives) {
+    const { rows: keyResults } = await client.query(
+      'SELECT * FROM key_results WHERE objective_id = $1 AND deleted_at IS NULL ORDER BY created_at',
+      [objective.id]
+    );
+
+    const { rows: created } = await client.query(
+      `INSERT INTO objectives (title, description, owner_id, level, period, period_id, due_date, status, team_id, approval_status, weight, rolled_over_from_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, 'draft', $8, 'draft', $9, $10)
+       RETURNING id`,
+      [
+        objective.title, objective.description, objective.owner_id, objective.level,
+        targetPeriod.name, targetPeriod.id, formatDate(targetPeriod.end_date), objective.team_id,
+        objective.weight, objective.id
+      ]
+    );
+    const newObjectiveId = created[0].id;
+    objectiveMap.set(objective.id, newObjectiveId);
+
+    const newKeyResults = [];
+    for (const kr of keyResults) {
+      const carried = carryOverKeyResult(kr);
+      if (!carried) continue;
+
+      const { rows: krRows } = await client.query(
+        `INSERT INTO key_results (objective_id, description, metric_type, start_value, target_value, current_value, unit, status, confidence, weight, direction, target_max_value, steps)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, 'draft', $8, $9, $10, $11, $12)
+         RETURNING *`,
+        [
+          newObjectiveId, kr.description, kr.metric_type, carried.startValue, carried.targetValue,
+          carried.currentValue, kr.unit, kr.confidence, kr.weight, kr.direction,
+          kr.target_max_value, JSON.stringify(carried.steps)
+        ]
+      );
+      keyResultMap.set(kr.id, krRows[0].id);
+      newKeyResults.push(krRows[0]);
+    }
+
+    await client.query(
+      'UPDATE objectives SET progress = $1 WHERE id = $2',
+      [calculateProgress(newKeyResults), newObjectiveId]
+    );
+  }
+
+  // Re-link the hierarchy, keeping the parent objective and its key result
+  // together: when the parent objective was carried over, link to the copy
+  // (and to the copy of its key result, or none if that one was finished),
+  // otherwise keep the original pair
+  for (const objective of objectives) {
+    const { parent_key_result_id: parentKeyResultId, parent_objective_id: parentObjectiveId } = objective;
+    if (!parentKeyResultId && !parentObjectiveId) continue;
+
+    const carriedParentId = objectiveMap.get(parentObjectiveId);
+    const link = carriedParentId
+      ? [parentKeyResultId ? keyResultMap.get(parentKeyResultId) || null : null, carriedParentId]
+      : parentObjectiveId
+        ? [parentKeyResultId, parentObjectiveId]
+        : [keyResultMap.get(parentKeyResultId) || parentKeyResultId, null];
+
+    await client.query(
+      `UPDATE objectives
+       SET parent_key_result_id = $1, parent_objective_id = $2
+       WHERE id = $3`,
+      [...link, objectiveMap.get(objective.id)]
+    );
+  }
+
+  return objectiveMap.size;
+}
+
+/**
+ * Close a period, optionally carrying the selected unfinished objectives
+ * into another open period.
+ */
+export async function closePeriod(pool, id, companyId, userId, options = {}) {
+  const { targetPeriodId, objectiveIds = [] } = options;
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const { rows: periodRows } = await client.query(
+      'SELECT * FROM periods WHERE id = $1 AND company_id = $2 FOR UPDATE',
+      [id, companyId]
+    );
+    if (periodRows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+    if (periodRows[0].status === 'closed') {
+      throw new Error('Non è possibile chiudere il periodo: è già chiuso');
+    }
+
+    let rolledOver = 0;
+    if (objectiveIds.length > 0) {
+      if (!targetPeriodId || targetPeriodId === id) {
+        throw new Error('Non è possibile eseguire il rollover: seleziona il periodo di destinazione');
+      }
+      const { rows: targetRows } = await client.query(
+        'SELECT * FROM periods WHERE id = $1 AND company_id = $2',
+        [targetPeriodId, companyId]
+      );
+      if (targetRows.length === 0 || targetRows[0].status === 'closed') {
+        throw new Error('Non è possibile eseguire il rollover: il periodo di destinazione deve essere aperto');
+      }
+
+      // Only unfinished objectives of this period can be carried over
+      const candidates = await getRolloverCandidates(client, id, companyId);
+      const allowedIds = new Set(candidates.map(candidate => candidate.id));
+      const selectedIds = objectiveIds.filter(objectiveId => allowedIds.has(objectiveId));
+
+      rolledOver = await rolloverObjectives(client, selectedIds, targetRows[0]);
+    }
+
+    await client.query(
+      `UPDATE periods
+       SET status = 'closed', closed_at = NOW(), closed_by = $1, updated_at = NOW()
+       WHERE id = $2`,
+      [userId, id]
+    );
+
+    await client.query('COMMIT');
+
+    return {
+      period: await getPeriodById(pool, id, companyId),
+      rolledOver
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function reopenPeriod(pool, id, companyId) {
+  const { rows } = await pool.query(
+    `UPDATE periods
+     SET status = 'open', closed_at = NULL, closed_by = NULL, updated_at = NOW()
+     WHERE id = $1 AND company_id = $2
+     RETURNING id`,
+    [id, companyId]
+  );
+
+  return rows.length > 0 ? getPeriodById(pool, id, companyId) : null;
+}
@@ -0,0 +1,145 @@
+/**
+ * Period service tests - seeding the periods of a company and carrying
+ * unfinished objectives into the next period.
+ *
+ * Runs the service functions against a fake pool: each handler answers the
+ * queries matching its pattern, every query is recorded.
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { closePeriod, getPeriods } from './period.service.js';
+
+const COMPANY_ID = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+const USER_ID = 'a0000000-0000-4000-8000-000000000001';
+
+function createFakePool(handlers = []) {
+  const queries = [];
+  const query = async (sql, params = []) => {
+    queries.push({ sql, params });
+    const handler = handlers.find(([pattern]) => pattern.test(sql));
+    const rows = handler ? handler[1](params) : [];
+    return { rows, rowCount: rows.length };
+  };
+  return { queries, query, connect: async () => ({ query, release: () => {} }) };
+}
+
+const writes = (pool, pattern) => pool.queries.filter(({ sql }) => pattern.test(sql));
+
+describe('company periods', () => {
+  it('seeds the periods of a company on its first read', async () => {
+    const periods = [];
+    const pool = createFakePool([
+      [/LEFT JOIN users closer/, () => periods],
+      [/SELECT 1 FROM periods/, () => periods],
+      [/SELECT o.period/, () => [
+        { period: 'Q1 2025', first_created: new Date(2025, 0, 15), last_due: new Date(2025, 2, 31) },
+        { period: 'Lancio', first_created: new Date(2025, 4, 2), last_due: new Date(2025, 5, 30) }
+      ]],
+      [/INSERT INTO periods/, (params) => {
+        periods.push({ id: `period-${periods.length + 1}`, company_id: params[0], name: params[1], start_date: params[2], end_date: params[3], status: 'open' });
+        return [];
+      }]
+    ]);
+
+    const result = await getPeriods(pool, COMPANY_ID);
+
+    const year = new Date().getFullYear();
+    assert.deepEqual(result.map(period => period.name), [
+      `Q1 ${year}`, `Q2 ${year}`, `Q3 ${year}`, `Q4 ${year}`, `Annual ${year}`, 'Q1 2025', 'Lancio'
+    ]);
+    assert.deepEqual(result.slice(-2).map(period => [period.startDate, period.endDate]), [
+      ['2025-01-01', '2025-03-31'],
+      ['2025-05-02', '2025-06-30']
+    ]);
+    assert.equal(writes(pool, /SET period_id = p.id/).length, 1);
+  });
+
+  it('reads the periods of a seeded company as they are', async () => {
+    const pool = createFakePool([
+      [/LEFT JOIN users closer/, () => [{ id: 'period-1', company_id: COMPANY_ID, name: 'Q1 2026', status: 'open' }]]
+    ]);
+
+    const result = await getPeriods(pool, COMPANY_ID);
+    assert.deepEqual(result.map(period => period.name), ['Q1 2026']);
+    assert.deepEqual(writes(pool, /INSERT INTO periods|UPDATE objectives/), []);
+  });
+});
+
+describe('period rollover', () => {
+  const keyResult = (id, objectiveId, currentValue) => ({
+    id,
+    objective_id: objectiveId,
+    description: id,
+    metric_type: 'number',
+    direction: 'increase',
+    start_value: 0,
+    target_value: 10,
+    current_value: currentValue,
+    steps: []
+  });
+
+  // The parent objective carries only its unfinished key result
+  const KEY_RESULTS = {
+    parent: [keyResult('kr-done', 'parent', 10), keyResult('kr-open', 'parent', 5)]
+  };
+
+  const OBJECTIVES = [
+    { id: 'parent', parent_objective_id: null, parent_key_result_id: null },
+    { id: 'child-open', parent_objective_id: 'parent', parent_key_result_id: 'kr-open' },
+    { id: 'child-done', parent_objective_id: 'parent', parent_key_result_id: 'kr-done' },
+    { id: 'child-parent-only', parent_objective_id: 'parent', parent_key_result_id: null },
+    { id: 'child-staying', parent_objective_id: 'other', parent_key_result_id: 'kr-other' },
+    { id: 'child-kr-only', parent_objective_id: null, parent_key_result_id: 'kr-open' },
+    { id: 'child-kr-staying', parent_objective_id: null, parent_key_result_id: 'kr-other' }
+  ];
+
+  const rollover = async () => {
+    const pool = createFakePool([
+      [/FROM periods WHERE id = \$1 AND company_id = \$2 FOR UPDATE/, () => [{ id: 'period-1', status: 'open' }]],
+      [/FROM periods WHERE id = \$1 AND company_id = \$2/, () => [{ id: 'period-2', name: 'Q2 2026', status: 'open', end_date: '2026-06-30' }]],
+      [/NOT EXISTS \(SELECT 1 FROM objectives next/, () => OBJECTIVES.map(({ id }) => ({ id }))],
+      [/SELECT \* FROM objectives WHERE id = ANY/, () => OBJECTIVES],
+      [/SELECT \* FROM key_results WHERE objective_id = \$1/, (params) => KEY_RESULTS[params[0]] || []],
+      [/INSERT INTO objectives/, (params) => [{ id: `new-${params[9]}` }]],
+      [/INSERT INTO key_results/, (params) => [{ id: `new-${params[1]}`, current_value: params[5], target_value: params[4], start_value: params[3] }]]
+    ]);
+
+    const result = await closePeriod(pool, 'period-1', COMPANY_ID, USER_ID, {
+      targetPeriodId: 'period-2',
+      objectiveIds: OBJECTIVES.map(({ id }) => id)
+    });
+
+    const links = Object.fromEntries(
+      writes(pool, /SET parent_key_result_id = \$1, parent_objective_id = \$2/)
+        .map(({ params: [keyResultId, objectiveId, id] }) => [id, [keyResultId, objectiveId]])
+    );
+    return { pool, result, links };
+  };
+
+  it('links children of a carried parent to the copies of the parent and its key result', async () => {
+    const { result, links } = await rollover();
+    assert.equal(result.rolledOver, OBJECTIVES.length);
+    assert.deepEqual(links['new-child-open'], ['new-kr-open', 'new-parent']);
+    assert.deepEqual(links['new-child-parent-only'], [null, 'new-parent']);
+  });
+
+  it('does not link a carried parent with a key result that was not carried', async () => {
+    const { links } = await rollover();
+    assert.deepEqual(links['new-child-done'], [null, 'new-parent']);
+  });
+
+  it('keeps the original parent when it was not carried over', async () => {
+    const { links } = await rollover();
+    assert.deepEqual(links['new-child-staying'], ['kr-other', 'other']);
+    assert.deepEqual(links['new-child-kr-only'], ['new-kr-open', null]);
+    assert.deepEqual(links['new-child-kr-staying'], ['kr-other', null]);
+    assert.equal(links['new-parent'], undefined);
+  });
+
+  it('closes the period in the same transaction', async () => {
+    const { pool } = await rollover();
+    assert.deepEqual(writes(pool, /^(BEGIN|COMMIT|ROLLBACK)$/).map(({ sql }) => sql), ['BEGIN', 'COMMIT']);
+    const [close] = writes(pool, /SET status = 'closed'/);
+    assert.deepEqual(close.params, [USER_ID, 'period-1']);
+  });
+});
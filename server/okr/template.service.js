@@ -0,0 +1,190 @@
+/**
+ * Template Service - Company-wide OKR templates (objective + key result blueprints)
+ */
+import { normalizeKeyResultInput } from './okr.service.js';
+
+const TEMPLATE_LEVELS = ['company', 'department', 'team', 'individual'];
+const METRIC_TYPES = ['percentage', 'number', 'currency', 'boolean', 'milestone'];
+
+// Transform DB row to API format
+function transformTemplate(row) {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    level: row.level,
+    keyResults: row.key_results || [],
+    sourceObjectiveId: row.source_objective_id || null,
+    usageCount: row.usage_count || 0,
+    createdBy: row.created_by,
+    createdByName: row.created_by_name || null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Validate the key results of a template and keep only the blueprint fields:
+ * no current values, milestone steps reduced to their titles.
+ */
+function normalizeTemplateKeyResults(keyResults) {
+  if (!Array.isArray(keyResults) || keyResults.length === 0) {
+    throw new Error('Non è possibile salvare il template: aggiungi almeno un Key Result');
+  }
+
+  return keyResults.map(kr => {
+    if (!kr.description || !kr.description.trim()) {
+      throw new Error('Non è possibile salvare il template: ogni Key Result richiede una descrizione');
+    }
+    if (!METRIC_TYPES.includes(kr.metricType)) {
+      throw new Error('Non è possibile salvare il template: tipo di metrica non valido');
+    }
+
+    const metrics = normalizeKeyResultInput({
+      ...kr,
+      steps: (kr.steps || []).map(step => ({ title: step.title }))
+    });
+    const weight = parseFloat(kr.weight);
+
+    return {
+      description: kr.description.trim(),
+      metricType: kr.metricType,
+      unit: kr.metricType === 'boolean' ? '' : (kr.unit || ''),
+      direction: metrics.direction,
+      startValue: metrics.startValue,
+      targetValue: metrics.targetValue,
+      targetMaxValue: metrics.targetMaxValue,
+      weight: !isNaN(weight) && weight > 0 ? weight : 1,
+      steps: metrics.steps.map(step => ({ title: step.title }))
+    };
+  });
+}
+
+function validateTemplateInput({ title, level }) {
+  if (!title || !title.trim()) {
+    throw new Error('Non è possibile salvare il template: il titolo è obbligatorio');
+  }
+  if (level && !TEMPLATE_LEVELS.includes(level)) {
+    throw new Error('Non è possibile salvare il template: livello non valido');
+  }
+}
+
+export async function getTemplates(pool, companyId) {
+  const { rows } = await pool.query(
+    `SELECT t.*, u.name as created_by_name
+     FROM okr_templates t
+     LEFT JOIN users u ON t.created_by = u.id
+     WHERE t.company_id = $1
+     ORDER BY t.usage_count DESC, t.title`,
+    [companyId]
+  );
+
+  return rows.map(transformTemplate);
+}
+
+export async function getTemplateById(pool, id, companyId) {
+  const { rows } = await pool.query(
+    `SELECT t.*, u.name as created_by_name
+     FROM okr_templates t
+     LEFT JOIN users u ON t.created_by = u.id
+     WHERE t.id = $1 AND t.company_id = $2`,
+    [id, companyId]
+  );
+
+  return rows.length > 0 ? transformTemplate(rows[0]) : null;
+}
+
+export async function createTemplate(pool, companyId, data, userId) {
+  validateTemplateInput(data);
+  const keyResults = normalizeTemplateKeyResults(data.keyResults);
+
+  const { rows } = await pool.query(
+    `INSERT INTO okr_templates (company_id, title, description, level, key_results, source_objective_id, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING id`,
+    [
+      companyId, data.title.trim(), data.description || null, data.level || 'individual',
+      JSON.stringify(keyResults), data.sourceObjectiveId || null, userId
+    ]
+  );
+
+  return getTemplateById(pool, rows[0].id, companyId);
+}
+
+/**
+ * Curate a template from an existing objective of the company.
+ * Title and description can be overridden to make the blueprint generic.
+ */
+export async function createTemplateFromObjective(pool, companyId, objectiveId, data, userId) {
+  const { rows: objectives } = await pool.query(
+    `SELECT o.* FROM objectives o
+     JOIN users u ON o.owner_id = u.id
+     WHERE o.id = $1 AND o.deleted_at IS NULL AND (u.company_id = $2 OR u.id = $2)`,
+    [objectiveId, companyId]
+  );
+  if (objectives.length === 0) return null;
+  const objective = objectives[0];
+
+  const { rows: keyResults } = await pool.query(
+    'SELECT * FROM key_results WHERE objective_id = $1 AND deleted_at IS NULL ORDER BY created_at',
+    [objectiveId]
+  );
+
+  return createTemplate(pool, companyId, {
+    title: data.title || objective.title,
+    description: data.description !== undefined ? data.description : objective.description,
+    level: objective.level,
+    sourceObjectiveId: objective.id,
+    keyResults: keyResults.map(kr => ({
+      description: kr.description,
+      metricType: kr.metric_type,
+      unit: kr.unit,
+      direction: kr.direction,
+      startValue: kr.start_value,
+      targetValue: kr.target_value,
+      targetMaxValue: kr.target_max_value,
+      weight: kr.weight,
+      steps: kr.steps || []
+    }))
+  }, userId);
+}
+
+export async function updateTemplate(pool, id, companyId, data) {
+  const current = await getTemplateById(pool, id, companyId);
+  if (!current) return null;
+
+  const merged = {
+    title: data.title !== undefined ? data.title : current.title,
+    description: data.description !== undefined ? data.description : current.description,
+    level: data.level !== undefined ? data.level : current.level
+  };
+  validateTemplateInput(merged);
+  const keyResults = data.keyResults !== undefined
+    ? normalizeTemplateKeyResults(data.keyResults)
+    : current.keyResults;
+
+  await pool.query(
+    `UPDATE okr_templates
+     SET title = $1, description = $2, level = $3, key_results = $4, updated_at = NOW()
+     WHERE id = $5 AND company_id = $6`,
+    [merged.title.trim(), merged.description || null, merged.level, JSON.stringify(keyResults), id, companyId]
+  );
+
+  return getTemplateById(pool, id, companyId);
+}
+
+export async function deleteTemplate(pool, id, companyId) {
+  const { rowCount } = await pool.query(
+    'DELETE FROM okr_templates WHERE id = $1 AND company_id = $2',
+    [id, companyId]
+  );
+  return rowCount > 0;
+}
+
+// Count an objective created from the template (used to rank the library)
+export async function recordTemplateUsage(pool, id, companyId) {
+  await pool.query(
+    'UPDATE okr_templates SET usage_count = usage_count + 1 WHERE id = $1 AND company_id = $2',
+    [id, companyId]
+  );
+}
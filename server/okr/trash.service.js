@@ -0,0 +1,265 @@
+/**
+ * Trash Service - Soft-deleted objectives and key results: listing, restore and purge
+ *
+ * deleteObjective and deleteKeyResult (okr.service.js) only mark rows as deleted.
+ * Rows deleted together share the id of the deleted root as deletion_id, so each
+ * trash item is a root (deletion_id = id) restored or purged with its whole batch.
+ */
+import { updateObjectiveProgress } from './okr.service.js';
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const MAX_TRASH_RETENTION_DAYS = 365;
+
+// Transform DB row to API format
+function transformTrashItem(row, retentionDays) {
+  const deletedAt = new Date(row.deleted_at);
+  return {
+    id: row.id,
+    type: row.type,
+    title: row.title,
+    level: row.level || null,
+    objectiveId: row.objective_id || null,
+    objectiveTitle: row.objective_title || null,
+    ownerId: row.owner_id,
+    ownerName: row.owner_name,
+    deletedAt: row.deleted_at,
+    deletedBy: row.deleted_by || null,
+    deletedByName: row.deleted_by_name || null,
+    objectivesCount: parseInt(row.objectives_count) || 0,
+    keyResultsCount: parseInt(row.key_results_count) || 0,
+    purgeAt: new Date(deletedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000).toISOString()
+  };
+}
+
+const TRASH_QUERIES = {
+  objective: `
+    SELECT 'objective' as type, o.id, o.title, o.level, NULL::uuid as objective_id, NULL as objective_title,
+           o.owner_id, u.name as owner_name, o.deleted_at, o.deleted_by, d.name as deleted_by_name,
+           (SELECT COUNT(*) FROM objectives b WHERE b.deletion_id = o.id) as objectives_count,
+           (SELECT COUNT(*) FROM key_results b WHERE b.deletion_id = o.id) as key_results_count
+    FROM objectives o
+    JOIN users u ON o.owner_id = u.id
+    LEFT JOIN users d ON o.deleted_by = d.id
+    WHERE o.deletion_id = o.id AND (u.company_id = $1 OR u.id = $1)`,
+  key_result: `
+    SELECT 'key_result' as type, kr.id, kr.description as title, NULL as level, o.id as objective_id, o.title as objective_title,
+           o.owner_id, u.name as owner_name, kr.deleted_at, kr.deleted_by, d.name as deleted_by_name,
+           0 as objectives_count, 1 as key_results_count
+    FROM key_results kr
+    JOIN objectives o ON kr.objective_id = o.id
+    JOIN users u ON o.owner_id = u.id
+    LEFT JOIN users d ON kr.deleted_by = d.id
+    WHERE kr.deletion_id = kr.id AND (u.company_id = $1 OR u.id = $1)`
+};
+
+export const TRASH_ITEM_TYPES = Object.keys(TRASH_QUERIES);
+
+// === SETTINGS ===
+
+export async function getTrashSettings(pool, companyId) {
+  const { rows } = await pool.query(
+    'SELECT trash_retention_days FROM company_settings WHERE company_id = $1',
+    [companyId]
+  );
+  return {
+    retentionDays: rows[0]?.trash_retention_days || DEFAULT_TRASH_RETENTION_DAYS,
+    maxRetentionDays: MAX_TRASH_RETENTION_DAYS
+  };
+}
+
+// New retention also applies to items already in the trash
+export async function updateTrashSettings(pool, companyId, data) {
+  const retentionDays = Number(data.retentionDays);
+  if (!Number.isInteger(retentionDays) || retentionDays < 1 || retentionDays > MAX_TRASH_RETENTION_DAYS) {
+    throw new Error(`Non è possibile salvare: la conservazione deve essere tra 1 e ${MAX_TRASH_RETENTION_DAYS} giorni`);
+  }
+
+  await pool.query(`
+    INSERT INTO company_settings (company_id, trash_retention_days)
+    VALUES ($1, $2)
+    ON CONFLICT (company_id) DO UPDATE
+    SET trash_retention_days = EXCLUDED.trash_retention_days, updated_at = NOW()
+  `, [companyId, retentionDays]);
+
+  return getTrashSettings(pool, companyId);
+}
+
+// === TRASH ===
+
+/**
+ * Trash of the company, most recently deleted first.
+ * Admins see every item; other users the items they deleted or own.
+ */
+export async function getTrash(pool, companyId, { userId, isAdmin }) {
+  const params = [companyId];
+  let userFilter = '';
+  if (!isAdmin) {
+    params.push(userId);
+    userFilter = ' AND (owner_id = $2 OR deleted_by = $2)';
+  }
+
+  const { rows } = await pool.query(`
+    SELECT * FROM (
+      ${TRASH_QUERIES.objective}
+      UNION ALL
+      ${TRASH_QUERIES.key_result}
+    ) trash
+    WHERE 1=1${userFilter}
+    ORDER BY deleted_at DESC
+  `, params);
+
+  const { retentionDays } = await getTrashSettings(pool, companyId);
+  return rows.map(row => transformTrashItem(row, retentionDays));
+}
+
+// Single trash item of the company, or null
+export async function getTrashItem(pool, type, id, companyId) {
+  const query = TRASH_QUERIES[type];
+  if (!query) return null;
+
+  const prefix = type === 'objective' ? 'o' : 'kr';
+  const { rows } = await pool.query(`${query} AND ${prefix}.id = $2`, [companyId, id]);
+  if (rows.length === 0) return null;
+
+  const { retentionDays } = await getTrashSettings(pool, companyId);
+  return transformTrashItem(rows[0], retentionDays);
+}
+
+/**
+ * Restore an objective with everything deleted along with it.
+ * Links to parent key results are kept while in the trash, so the restored
+ * objectives come back aligned as before.
+ */
+export async function restoreObjective(pool, id) {
+  const { rows } = await pool.query(
+    `SELECT o.id, parent_kr.deleted_at as parent_key_result_deleted_at
+     FROM objectives o
+     LEFT JOIN key_results parent_kr ON o.parent_key_result_id = parent_kr.id
+     WHERE o.id = $1 AND o.deletion_id = o.id`,
+    [id]
+  );
+  if (rows.length === 0) return false;
+
+  if (rows[0].parent_key_result_deleted_at) {
+    throw new Error('Non è possibile ripristinare l\'OKR: il Key Result a cui è allineato è nel cestino, ripristina prima quello');
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      'UPDATE objectives SET deleted_at = NULL, deleted_by = NULL, deletion_id = NULL WHERE deletion_id = $1',
+      [id]
+    );
+    await client.query(
+      'UPDATE key_results SET deleted_at = NULL, deleted_by = NULL, deletion_id = NULL WHERE deletion_id = $1',
+      [id]
+    );
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  // Counts again in the roll-up of its parent key result
+  await updateObjectiveProgress(pool, id);
+  return true;
+}
+
+/**
+ * Restore a key result and link back the objectives that were aligned to it
+ * (unless they have been aligned elsewhere in the meantime).
+ */
+export async function restoreKeyResult(pool, id) {
+  const { rows } = await pool.query(
+    `SELECT kr.id, kr.objective_id, o.approval_status, o.deleted_at as objective_deleted_at
+     FROM key_results kr
+     JOIN objectives o ON kr.objective_id = o.id
+     WHERE kr.id = $1 AND kr.deletion_id = kr.id`,
+    [id]
+  );
+  if (rows.length === 0) return false;
+
+  const { objective_id: objectiveId, approval_status: approvalStatus, objective_deleted_at: objectiveDeletedAt } = rows[0];
+  if (objectiveDeletedAt) {
+    throw new Error('Non è possibile ripristinare il Key Result: l\'OKR è nel cestino, ripristina prima quello');
+  }
+  // Same rule as adding a key result
+  if (approvalStatus !== 'draft') {
+    throw new Error('Non è possibile ripristinare il Key Result: l\'OKR deve essere in stato bozza');
+  }
+
+  const client = await pool.connect();
+  let relinked = [];
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      'UPDATE key_results SET deleted_at = NULL, deleted_by = NULL, deletion_id = NULL WHERE id = $1',
+      [id]
+    );
+    ({ rows: relinked } = await client.query(
+      `UPDATE objectives
+       SET parent_key_result_id = $1, parent_objective_id = $2
+       WHERE detached_key_result_id = $1 AND parent_key_result_id IS NULL
+       RETURNING id`,
+      [id, objectiveId]
+    ));
+    await client.query(
+      'UPDATE objectives SET detached_key_result_id = NULL WHERE detached_key_result_id = $1',
+      [id]
+    );
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  await updateObjectiveProgress(pool, objectiveId);
+  // The relinked objectives count again in the roll-up of the key result
+  for (const objective of relinked) {
+    await updateObjectiveProgress(pool, objective.id);
+  }
+  return true;
+}
+
+/**
+ * Permanently delete a trash item. Related history, contributors and
+ * check-ins go with it through ON DELETE CASCADE.
+ */
+export async function purgeTrashItem(pool, type, id) {
+  const { rowCount } = type === 'objective'
+    ? await pool.query('DELETE FROM objectives WHERE deletion_id = $1', [id])
+    : await pool.query('DELETE FROM key_results WHERE id = $1 AND deletion_id = $1', [id]);
+  return rowCount > 0;
+}
+
+/**
+ * Purge the items that have been in the trash longer than the retention
+ * window of their company. Run by the scheduler.
+ */
+export async function purgeExpiredTrash(pool) {
+  const { rowCount: objectives } = await pool.query(`
+    DELETE FROM objectives o
+    USING users u
+    LEFT JOIN company_settings cs ON cs.company_id = COALESCE(u.company_id, u.id)
+    WHERE o.owner_id = u.id
+      AND o.deleted_at IS NOT NULL
+      AND o.deleted_at < NOW() - make_interval(days => COALESCE(cs.trash_retention_days, $1))
+  `, [DEFAULT_TRASH_RETENTION_DAYS]);
+
+  const { rowCount: keyResults } = await pool.query(`
+    DELETE FROM key_results kr
+    USING objectives o
+    JOIN users u ON o.owner_id = u.id
+    LEFT JOIN company_settings cs ON cs.company_id = COALESCE(u.company_id, u.id)
+    WHERE kr.objective_id = o.id
+      AND kr.deleted_at IS NOT NULL
+      AND kr.deleted_at < NOW() - make_interval(days => COALESCE(cs.trash_retention_days, $1))
+  `, [DEFAULT_TRASH_RETENTION_DAYS]);
+
+  return { objectives, keyResults };
+}
@@ -0,0 +1,179 @@
+/**
+ * Trash tests - restoring deleted objectives and key results, and the
+ * subscription limits the restore routes apply.
+ *
+ * Runs the trash service and the OKR routes against a fake pool: each handler
+ * answers the queries matching its pattern, every query is recorded.
+ */
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { restoreKeyResult, restoreObjective } from './trash.service.js';
+import { createOKRRoutes } from './okr.routes.js';
+import { createContractValidator } from '../contract/validation.js';
+
+const COMPANY_ID = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+const USER_ID = 'a0000000-0000-4000-8000-000000000001';
+const OBJECTIVE_ID = '11111111-1111-4111-8111-111111111111';
+const KEY_RESULT_ID = '22222222-2222-4222-8222-222222222222';
+
+function createFakePool(handlers = []) {
+  const queries = [];
+  const query = async (sql, params = []) => {
+    queries.push({ sql, params });
+    const handler = handlers.find(([pattern]) => pattern.test(sql));
+    const rows = handler ? handler[1](params) : [];
+    return { rows, rowCount: rows.length };
+  };
+  return { queries, query, connect: async () => ({ query, release: () => {} }) };
+}
+
+const writes = (pool, pattern) => pool.queries.filter(({ sql }) => pattern.test(sql));
+
+describe('trash restore', () => {
+  it('restores an objective with everything deleted along with it', async () => {
+    const pool = createFakePool([
+      [/WHERE o.id = \$1 AND o.deletion_id = o.id/, () => [{ id: OBJECTIVE_ID, parent_key_result_deleted_at: null }]]
+    ]);
+
+    assert.equal(await restoreObjective(pool, OBJECTIVE_ID), true);
+    const restores = writes(pool, /SET deleted_at = NULL/);
+    assert.deepEqual(restores.map(({ sql }) => sql.match(/UPDATE (\w+)/)[1]), ['objectives', 'key_results']);
+    assert.ok(restores.every(({ sql, params }) => sql.includes('WHERE deletion_id = $1') && params[0] === OBJECTIVE_ID));
+    assert.deepEqual(writes(pool, /^(BEGIN|COMMIT|ROLLBACK)$/).map(({ sql }) => sql), ['BEGIN', 'COMMIT']);
+  });
+
+  it('keeps an objective aligned to a trashed key result in the trash', async () => {
+    const pool = createFakePool([
+      [/WHERE o.id = \$1 AND o.deletion_id = o.id/, () => [{ id: OBJECTIVE_ID, parent_key_result_deleted_at: new Date() }]]
+    ]);
+
+    await assert.rejects(restoreObjective(pool, OBJECTIVE_ID), /Key Result a cui è allineato è nel cestino/);
+    assert.deepEqual(writes(pool, /SET deleted_at = NULL/), []);
+  });
+
+  it('restores a key result and links back the objectives aligned to it', async () => {
+    const pool = createFakePool([
+      [/WHERE kr.id = \$1 AND kr.deletion_id = kr.id/, () => [{ id: KEY_RESULT_ID, objective_id: OBJECTIVE_ID, approval_status: 'draft', objective_deleted_at: null }]],
+      [/SET parent_key_result_id = \$1/, () => [{ id: 'child-1' }]]
+    ]);
+
+    assert.equal(await restoreKeyResult(pool, KEY_RESULT_ID), true);
+    const [relink] = writes(pool, /SET parent_key_result_id = \$1/);
+    assert.deepEqual(relink.params, [KEY_RESULT_ID, OBJECTIVE_ID]);
+    assert.equal(writes(pool, /SET detached_key_result_id = NULL/).length, 1);
+  });
+
+  it('only restores key results into draft objectives outside the trash', async () => {
+    for (const [row, error] of [
+      [{ approval_status: 'active', objective_deleted_at: null }, /stato bozza/],
+      [{ approval_status: 'draft', objective_deleted_at: new Date() }, /ripristina prima quello/]
+    ]) {
+      const pool = createFakePool([
+        [/WHERE kr.id = \$1 AND kr.deletion_id = kr.id/, () => [{ id: KEY_RESULT_ID, objective_id: OBJECTIVE_ID, ...row }]]
+      ]);
+      await assert.rejects(restoreKeyResult(pool, KEY_RESULT_ID), error);
+      assert.deepEqual(writes(pool, /SET deleted_at = NULL/), []);
+    }
+  });
+});
+
+describe('trash restore limits', () => {
+  const TRASH_ROW = {
+    owner_id: USER_ID,
+    owner_name: 'Admin',
+    deleted_at: new Date(),
+    deleted_by: USER_ID,
+    objectives_count: 1,
+    key_results_count: 1
+  };
+
+  let pool;
+  let limits;
+  let server;
+  let baseUrl;
+
+  before(async () => {
+    pool = createFakePool([
+      [/AND o.id = \$2/, () => [{ ...TRASH_ROW, type: 'objective', id: OBJECTIVE_ID, title: 'OKR' }]],
+      [/AND kr.id = \$2/, () => [{ ...TRASH_ROW, type: 'key_result', id: KEY_RESULT_ID, title: 'KR', objective_id: OBJECTIVE_ID }]],
+      [/SELECT id, role FROM users/, () => [{ id: USER_ID, role: 'admin' }]],
+      [/WHERE kr.id = \$1 AND kr.deletion_id = kr.id/, () => [{ id: KEY_RESULT_ID, objective_id: OBJECTIVE_ID, approval_status: 'draft', objective_deleted_at: null }]]
+    ]);
+
+    const passThrough = (req, res, next) => next();
+    const router = createOKRRoutes({
+      pool,
+      authMiddleware: (req, res, next) => {
+        req.user = { id: USER_ID, company_id: COMPANY_ID, role: 'admin' };
+        next();
+      },
+      requireAdmin: passThrough,
+      audit: () => passThrough,
+      authorize: () => passThrough,
+      validate: createContractValidator({ validateResponses: false }),
+      checkOKRLimit: async (...args) => limits.okr(...args),
+      checkKeyResultLimit: async (...args) => limits.keyResult(...args)
+    });
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/okr', router);
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  after(() => new Promise(resolve => server.close(resolve)));
+
+  beforeEach(() => {
+    pool.queries.length = 0;
+  });
+
+  const restore = async (path) => {
+    const response = await fetch(`${baseUrl}/api/okr/trash/${path}/restore`, { method: 'POST' });
+    return { status: response.status, body: await response.json() };
+  };
+
+  const denied = { allowed: false, error: 'Limite raggiunto', usage: {}, limits: {} };
+
+  it('refuses to restore an objective over the OKR limit of its owner', async () => {
+    const calls = [];
+    limits = {
+      okr: async (db, ...args) => {
+        calls.push(args);
+        return denied;
+      }
+    };
+
+    const { status, body } = await restore(`objectives/${OBJECTIVE_ID}`);
+    assert.equal(status, 403);
+    assert.equal(body.error, 'Limite raggiunto');
+    assert.deepEqual(calls, [[COMPANY_ID, USER_ID, 'admin']]);
+    assert.deepEqual(writes(pool, /SET deleted_at = NULL/), []);
+  });
+
+  it('refuses to restore a key result over the KR limit of its objective', async () => {
+    const calls = [];
+    limits = {
+      keyResult: async (db, ...args) => {
+        calls.push(args);
+        return denied;
+      }
+    };
+
+    const { status, body } = await restore(`key-results/${KEY_RESULT_ID}`);
+    assert.equal(status, 403);
+    assert.equal(body.error, 'Limite raggiunto');
+    assert.deepEqual(calls, [[COMPANY_ID, OBJECTIVE_ID]]);
+    assert.deepEqual(writes(pool, /SET deleted_at = NULL/), []);
+  });
+
+  it('restores a key result within the limit', async () => {
+    limits = { keyResult: async () => ({ allowed: true }) };
+
+    const { status } = await restore(`key-results/${KEY_RESULT_ID}`);
+    assert.equal(status, 200);
+    assert.equal(writes(pool, /UPDATE key_results SET deleted_at = NULL/).length, 1);
+  });
+});
@@ -39,7 +39,7 @@ export async function getCompanyUsage(pool, companyId) {
   const okrsResult = await pool.query(`
     SELECT u.role, COUNT(o.id) as count
     FROM users u
-    LEFT JOIN objectives o ON o.owner_id = u.id
+    LEFT JOIN objectives o ON o.owner_id = u.id AND o.deleted_at IS NULL
     WHERE u.company_id = $1 OR u.id = $1
     GROUP BY u.role
   `, [companyId]);
@@ -56,8 +56,8 @@ export async function getCompanyUsage(pool, companyId) {
       COUNT(kr.id) as total_krs
     FROM objectives o
     JOIN users u ON o.owner_id = u.id
-    LEFT JOIN key_results kr ON kr.objective_id = o.id
-    WHERE u.company_id = $1 OR u.id = $1
+    LEFT JOIN key_results kr ON kr.objective_id = o.id AND kr.deleted_at IS NULL
+    WHERE o.deleted_at IS NULL AND (u.company_id = $1 OR u.id = $1)
   `, [companyId]);
 
   return {
@@ -86,7 +86,7 @@ export async function getCompanyUsage(pool, companyId) {
  */
 export async function getUserOKRCount(pool, userId) {
   const result = await pool.query(`
-    SELECT COUNT(*) as count FROM objectives WHERE owner_id = $1
+    SELECT COUNT(*) as count FROM objectives WHERE owner_id = $1 AND deleted_at IS NULL
   `, [userId]);
   return parseInt(result.rows[0].count) || 0;
 }
@@ -99,7 +99,7 @@ export async function getUserOKRCount(pool, userId) {
  */
 export async function getOKRKeyResultCount(pool, objectiveId) {
   const result = await pool.query(`
-    SELECT COUNT(*) as count FROM key_results WHERE objective_id = $1
+    SELECT COUNT(*) as count FROM key_results WHERE objective_id = $1 AND deleted_at IS NULL
   `, [objectiveId]);
   return parseInt(result.rows[0].count) || 0;
 }
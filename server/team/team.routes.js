@@ -8,30 +8,53 @@ import {
   createTeam,
   updateTeam,
   deleteTeam,
+  getTeamTree,
+  getTeamDashboard,
   getTeamMembers,
   updateMemberRole,
   removeMember,
   createInvitation,
+  previewBulkInvitations,
+  createBulkInvitations,
   getTeamInvitations,
   getPendingInvitationsForUser,
   acceptInvitation,
   declineInvitation,
   cancelInvitation,
   resendInvitation,
+  getCompanyInvitations,
+  bulkResendInvitations,
+  bulkCancelInvitations,
+  getInvitationSettings,
+  updateInvitationSettings,
   searchUsers,
   addMemberDirectly,
   getInvitationByToken,
   registerFromInvitation
 } from './team.service.js';
+import { createBodyAccessMiddleware } from '../access/access.middleware.js';
 
 export function createTeamRoutes(config) {
   const router = Router();
-  const { pool, authMiddleware, emailService, frontendUrl, hashPassword, generateJWT } = config;
+  const {
+    pool,
+    authMiddleware,
+    requireAdmin,
+    audit,
+    authorize,
+    validate,
+    checkSubscriptionLimit,
+    emailService,
+    frontendUrl,
+    hashPassword,
+    generateJWT
+  } = config;
+  const authorizeBody = createBodyAccessMiddleware(pool);
 
   // === PUBLIC ROUTES (no auth required) ===
 
   // Get invitation details by token (public)
-  router.get('/invitations/:token/details', async (req, res, next) => {
+  router.get('/invitations/:token/details', validate('getInvitationDetails'), async (req, res, next) => {
     try {
       const invitation = await getInvitationByToken(pool, req.params.token);
       if (!invitation) {
@@ -44,7 +67,12 @@ export function createTeamRoutes(config) {
   });
 
   // Register from invitation (public)
-  router.post('/invitations/:token/register', async (req, res, next) => {
+  router.post('/invitations/:token/register', validate('registerFromInvitation'), audit('invitation.register', {
+    entity: 'invitation',
+    id: (req) => req.params.token,
+    by: 'token',
+    metadata: (req, body) => ({ userId: body?.user?.id, name: req.body.name })
+  }), async (req, res, next) => {
     try {
       const { name, password } = req.body;
 
@@ -81,10 +109,20 @@ export function createTeamRoutes(config) {
   // === PROTECTED ROUTES (auth required) ===
   router.use(authMiddleware);
 
+  // Resource ids in paths must belong to the caller's company (404 otherwise).
+  // Invitation tokens are secrets and are not checked here.
+  router.param('id', authorize('team'));
+  router.param('teamId', authorize('team'));
+  router.param('memberId', authorize('team_member'));
+  router.param('invitationId', authorize('invitation'));
+
+  // Users and teams referenced in request bodies too (400 otherwise)
+  const authorizeTeamLinks = authorizeBody({ leadId: 'user', parentTeamId: 'team' });
+
   // === TEAMS ===
 
   // Get all teams for current user (admin sees all teams)
-  router.get('/', async (req, res, next) => {
+  router.get('/', validate('listTeams'), async (req, res, next) => {
     try {
       const teams = await getTeams(pool, req.user.id, req.user.role);
       res.json(teams);
@@ -93,8 +131,19 @@ export function createTeamRoutes(config) {
     }
   });
 
+  // Org tree of the company: departments, the teams they contain and OKR progress
+  router.get('/tree', validate('getTeamTree'), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const tree = await getTeamTree(pool, companyId);
+      res.json(tree);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Get single team (admin can view any team)
-  router.get('/:id', async (req, res, next) => {
+  router.get('/:id', validate('getTeam'), async (req, res, next) => {
     try {
       const team = await getTeamById(pool, req.params.id, req.user.id, req.user.role);
       if (!team) {
@@ -107,7 +156,7 @@ export function createTeamRoutes(config) {
   });
 
   // Create team (admin or lead only)
-  router.post('/', async (req, res, next) => {
+  router.post('/', validate('createTeam'), authorizeTeamLinks, audit('team.create', { entity: 'team', id: (req, body) => body?.id }), async (req, res, next) => {
     try {
       // Only admin and lead can create teams
       if (!['admin', 'lead'].includes(req.user.role)) {
@@ -134,12 +183,15 @@ export function createTeamRoutes(config) {
       const team = await createTeam(pool, req.body, leadId, req.user.role);
       res.status(201).json(team);
     } catch (error) {
+      if (error.message.includes('department')) {
+        return res.status(400).json({ error: error.message });
+      }
       next(error);
     }
   });
 
   // Update team (admin can update any team)
-  router.put('/:id', async (req, res, next) => {
+  router.put('/:id', validate('updateTeam'), authorizeTeamLinks, audit('team.update', { entity: 'team' }), async (req, res, next) => {
     try {
       const team = await updateTeam(pool, req.params.id, req.body, req.user.id, req.user.role);
       res.json(team);
@@ -147,12 +199,18 @@ export function createTeamRoutes(config) {
       if (error.message.includes('Not authorized')) {
         return res.status(403).json({ error: error.message });
       }
+      if (error.message.includes('Team not found')) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error.message.includes('department')) {
+        return res.status(400).json({ error: error.message });
+      }
       next(error);
     }
   });
 
   // Delete team (admin can delete any team)
-  router.delete('/:id', async (req, res, next) => {
+  router.delete('/:id', validate('deleteTeam'), audit('team.delete', { entity: 'team' }), async (req, res, next) => {
     try {
       const deleted = await deleteTeam(pool, req.params.id, req.user.id, req.user.role);
       if (!deleted) {
@@ -167,10 +225,26 @@ export function createTeamRoutes(config) {
     }
   });
 
+  // Team dashboard: objectives, contributions, risks and check-in cadence
+  router.get('/:id/dashboard', validate('getTeamDashboard'), async (req, res, next) => {
+    try {
+      const dashboard = await getTeamDashboard(pool, req.params.id, req.user.id, req.user.role);
+      res.json(dashboard);
+    } catch (error) {
+      if (error.message.includes('Not a member')) {
+        return res.status(403).json({ error: error.message });
+      }
+      if (error.message.includes('Team not found')) {
+        return res.status(404).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
   // === TEAM MEMBERS ===
 
   // Get team members (admin can view any team's members)
-  router.get('/:id/members', async (req, res, next) => {
+  router.get('/:id/members', validate('listTeamMembers'), async (req, res, next) => {
     try {
       const members = await getTeamMembers(pool, req.params.id, req.user.id, req.user.role);
       res.json(members);
@@ -183,7 +257,10 @@ export function createTeamRoutes(config) {
   });
 
   // Update member role (admin can update any team's members)
-  router.put('/:teamId/members/:memberId', async (req, res, next) => {
+  router.put('/:teamId/members/:memberId', validate('updateTeamMember'), audit('team_member.update', {
+    entity: 'team_member',
+    id: (req) => req.params.memberId
+  }), async (req, res, next) => {
     try {
       const result = await updateMemberRole(
         pool,
@@ -203,7 +280,10 @@ export function createTeamRoutes(config) {
   });
 
   // Remove member (admin can remove from any team)
-  router.delete('/:teamId/members/:memberId', async (req, res, next) => {
+  router.delete('/:teamId/members/:memberId', validate('removeTeamMember'), audit('team_member.remove', {
+    entity: 'team_member',
+    id: (req) => req.params.memberId
+  }), async (req, res, next) => {
     try {
       const deleted = await removeMember(
         pool,
@@ -225,7 +305,7 @@ export function createTeamRoutes(config) {
   });
 
   // Search users to add to team (admin can search for any team)
-  router.get('/:id/users/search', async (req, res, next) => {
+  router.get('/:id/users/search', validate('searchTeamUsers'), async (req, res, next) => {
     try {
       const query = req.query.q || '';
       if (query.length < 2) {
@@ -242,7 +322,7 @@ export function createTeamRoutes(config) {
   });
 
   // Add member directly (admin can add to any team)
-  router.post('/:id/members', async (req, res, next) => {
+  router.post('/:id/members', validate('addTeamMember'), authorizeBody({ userId: 'user' }), audit('team_member.add', { entity: 'team_member', id: (req, body) => body?.id }), async (req, res, next) => {
     try {
       const member = await addMemberDirectly(
         pool,
@@ -270,7 +350,7 @@ export function createTeamRoutes(config) {
   // === INVITATIONS ===
 
   // Get pending invitations for a team (admin can view any team's invitations)
-  router.get('/:id/invitations', async (req, res, next) => {
+  router.get('/:id/invitations', validate('listTeamInvitations'), async (req, res, next) => {
     try {
       const invitations = await getTeamInvitations(pool, req.params.id, req.user.id, req.user.role);
       res.json(invitations);
@@ -283,7 +363,7 @@ export function createTeamRoutes(config) {
   });
 
   // Create invitation (admin can invite to any team)
-  router.post('/:id/invitations', async (req, res, next) => {
+  router.post('/:id/invitations', validate('createInvitation'), audit('invitation.create', { entity: 'invitation', id: (req, body) => body?.id }), async (req, res, next) => {
     try {
       const invitation = await createInvitation(
         pool,
@@ -305,8 +385,55 @@ export function createTeamRoutes(config) {
     }
   });
 
+  // Validate a CSV of invitations (email, role, name) without sending them
+  router.post('/:id/invitations/bulk/preview', validate('previewBulkInvitations'), async (req, res, next) => {
+    try {
+      const preview = await previewBulkInvitations(pool, req.params.id, req.body.csv, req.user.id, req.user.role, {
+        companyId: req.user.company_id || req.user.id,
+        checkSubscriptionLimit
+      });
+      res.json(preview);
+    } catch (error) {
+      if (error.message.includes('Not authorized')) {
+        return res.status(403).json({ error: error.message });
+      }
+      if (error.message.includes('CSV')) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Send the valid invitations of a CSV, with the outcome of each row
+  router.post('/:id/invitations/bulk', validate('createBulkInvitations'), audit('invitation.bulk_create', {
+    metadata: (req, body) => ({ teamId: req.params.id, ...body?.summary })
+  }), async (req, res, next) => {
+    try {
+      const result = await createBulkInvitations(
+        pool,
+        req.params.id,
+        req.body.csv,
+        req.user.id,
+        { emailService, frontendUrl, companyId: req.user.company_id || req.user.id, checkSubscriptionLimit },
+        req.user.role
+      );
+      res.json(result);
+    } catch (error) {
+      if (error.message.includes('Not authorized') || error.message.includes('Premium')) {
+        return res.status(403).json({ error: error.message });
+      }
+      if (error.message.includes('CSV')) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
   // Cancel invitation (admin can cancel any invitation)
-  router.delete('/invitations/:invitationId', async (req, res, next) => {
+  router.delete('/invitations/:invitationId', validate('cancelInvitation'), audit('invitation.cancel', {
+    entity: 'invitation',
+    id: (req) => req.params.invitationId
+  }), async (req, res, next) => {
     try {
       const cancelled = await cancelInvitation(pool, req.params.invitationId, req.user.id, req.user.role);
       if (!cancelled) {
@@ -322,7 +449,10 @@ export function createTeamRoutes(config) {
   });
 
   // Resend invitation (admin can resend any invitation)
-  router.post('/invitations/:invitationId/resend', async (req, res, next) => {
+  router.post('/invitations/:invitationId/resend', validate('resendInvitation'), audit('invitation.resend', {
+    entity: 'invitation',
+    id: (req) => req.params.invitationId
+  }), async (req, res, next) => {
     try {
       const result = await resendInvitation(
         pool,
@@ -343,8 +473,89 @@ export function createTeamRoutes(config) {
     }
   });
 
+  // === COMPANY INVITATIONS (admin only) ===
+
+  // List all invitations of the company's teams (?status=pending|accepted|declined|expired)
+  router.get('/invitations/company', requireAdmin, validate('listCompanyInvitations'), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const result = await getCompanyInvitations(pool, companyId, { status: req.query.status });
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Resend several invitations, extending their expiry
+  router.post('/invitations/bulk-resend', requireAdmin, validate('bulkResendInvitations'), audit('invitation.bulk_resend', {
+    metadata: (req, body) => ({ invitationIds: req.body.ids, ...body })
+  }), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const result = await bulkResendInvitations(
+        pool,
+        companyId,
+        req.body.ids,
+        req.user.id,
+        { emailService, frontendUrl },
+        req.user.role
+      );
+      res.json(result);
+    } catch (error) {
+      if (error.message.includes('Select') || error.message.includes('at most') || error.message.includes('not configured')) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Cancel several invitations
+  router.post('/invitations/bulk-cancel', requireAdmin, validate('bulkCancelInvitations'), audit('invitation.bulk_cancel', {
+    metadata: (req, body) => ({ invitationIds: req.body.ids, ...body })
+  }), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const result = await bulkCancelInvitations(pool, companyId, req.body.ids, req.user.id, req.user.role);
+      res.json(result);
+    } catch (error) {
+      if (error.message.includes('Select') || error.message.includes('at most')) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Get invitation settings of the company
+  router.get('/invitations/settings', requireAdmin, validate('getInvitationSettings'), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const settings = await getInvitationSettings(pool, companyId);
+      res.json(settings);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Update invitation settings of the company
+  router.put('/invitations/settings', requireAdmin, validate('updateInvitationSettings'), audit('invitation_settings.update', {
+    entity: 'invitation_settings',
+    id: (req) => req.user.company_id || req.user.id,
+    by: 'company_id'
+  }), async (req, res, next) => {
+    try {
+      const companyId = req.user.company_id || req.user.id;
+      const settings = await updateInvitationSettings(pool, companyId, req.body);
+      res.json(settings);
+    } catch (error) {
+      if (error.message.includes('must be between')) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
   // Get my pending invitations
-  router.get('/invitations/pending', async (req, res, next) => {
+  router.get('/invitations/pending', validate('listMyInvitations'), async (req, res, next) => {
     try {
       const invitations = await getPendingInvitationsForUser(pool, req.user.email);
       res.json(invitations);
@@ -354,7 +565,11 @@ export function createTeamRoutes(config) {
   });
 
   // Accept invitation
-  router.post('/invitations/:token/accept', async (req, res, next) => {
+  router.post('/invitations/:token/accept', validate('acceptInvitation'), audit('invitation.accept', {
+    entity: 'invitation',
+    id: (req) => req.params.token,
+    by: 'token'
+  }), async (req, res, next) => {
     try {
       const result = await acceptInvitation(pool, req.params.token, req.user.id);
       res.json(result);
@@ -367,7 +582,11 @@ export function createTeamRoutes(config) {
   });
 
   // Decline invitation
-  router.post('/invitations/:token/decline', async (req, res, next) => {
+  router.post('/invitations/:token/decline', validate('declineInvitation'), audit('invitation.decline', {
+    entity: 'invitation',
+    id: (req) => req.params.token,
+    by: 'token'
+  }), async (req, res, next) => {
     try {
       const result = await declineInvitation(pool, req.params.token, req.user.id);
       res.json(result);
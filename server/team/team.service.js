@@ -3,13 +3,18 @@
  */
 import crypto from 'crypto';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_INVITATION_EXPIRY_DAYS = 7;
+const MAX_INVITATION_EXPIRY_DAYS = 90;
+const TEAM_TYPES = ['department', 'team'];
+
 // Generate a secure random token
 function generateToken() {
   return crypto.randomBytes(32).toString('hex');
 }
 
 // Generate invitation email HTML
-function getInvitationEmailHtml(inviterName, teamName, role, inviteUrl) {
+function getInvitationEmailHtml(inviterName, teamName, role, inviteUrl, expiryDays) {
   return `
     <!DOCTYPE html>
     <html>
@@ -54,7 +59,7 @@ function getInvitationEmailHtml(inviterName, teamName, role, inviteUrl) {
         </p>
         <p>Or copy and paste this link in your browser:</p>
         <p style="word-break: break-all; color: #666;">${inviteUrl}</p>
-        <p><strong>This invitation will expire in 7 days.</strong></p>
+        <p><strong>This invitation will expire in ${expiryDays} ${expiryDays === 1 ? 'day' : 'days'}.</strong></p>
         <div class="footer">
           <p>If you don't want to join this team, you can safely ignore this email.</p>
           <p>&copy; ${new Date().getFullYear()} OKR Manager. All rights reserved.</p>
@@ -71,6 +76,8 @@ function transformTeam(row) {
     id: row.id,
     name: row.name,
     description: row.description,
+    type: row.type || 'team',
+    parentTeamId: row.parent_team_id || null,
     ownerId: row.owner_id,
     ownerName: row.owner_name,
     ownerEmail: row.owner_email,
@@ -94,20 +101,36 @@ function transformMember(row) {
 }
 
 function transformInvitation(row) {
+  // Past their expiry date, pending invitations are expired even before the sweeper runs
+  const isExpired = row.status === 'pending' && new Date(row.expires_at) <= new Date();
   return {
     id: row.id,
     teamId: row.team_id,
     teamName: row.team_name,
     email: row.email,
+    name: row.invitee_name || null,
     role: row.role,
-    status: row.status,
+    status: isExpired ? 'expired' : row.status,
     invitedBy: row.invited_by,
     invitedByName: row.invited_by_name,
     expiresAt: row.expires_at,
-    createdAt: row.created_at
+    createdAt: row.created_at,
+    acceptedAt: row.accepted_at || null
   };
 }
 
+// Invitation lifetime in days, as configured by the company owning the team
+async function getTeamInvitationExpiryDays(pool, teamId) {
+  const { rows } = await pool.query(`
+    SELECT cs.invitation_expiry_days
+    FROM teams t
+    JOIN users o ON t.owner_id = o.id
+    LEFT JOIN company_settings cs ON cs.company_id = COALESCE(o.company_id, o.id)
+    WHERE t.id = $1
+  `, [teamId]);
+  return rows[0]?.invitation_expiry_days || DEFAULT_INVITATION_EXPIRY_DAYS;
+}
+
 // === TEAMS ===
 
 export async function getTeams(pool, userId, userRole) {
@@ -176,18 +199,23 @@ export async function getTeamById(pool, teamId, userId, userRole) {
 }
 
 export async function createTeam(pool, data, userId, userRole) {
-  const { name, description } = data;
+  const { name, description, parentTeamId = null } = data;
+  const type = TEAM_TYPES.includes(data.type) ? data.type : 'team';
   const client = await pool.connect();
 
   try {
     await client.query('BEGIN');
 
+    if (parentTeamId) {
+      await validateParentTeam(client, null, parentTeamId, userId);
+    }
+
     // Create team
     const { rows } = await client.query(
-      `INSERT INTO teams (name, description, owner_id)
-       VALUES ($1, $2, $3)
+      `INSERT INTO teams (name, description, owner_id, type, parent_team_id)
+       VALUES ($1, $2, $3, $4, $5)
        RETURNING *`,
-      [name, description, userId]
+      [name, description, userId, type, parentTeamId]
     );
 
     const team = rows[0];
@@ -211,7 +239,7 @@ export async function createTeam(pool, data, userId, userRole) {
 }
 
 export async function updateTeam(pool, teamId, data, userId, userRole) {
-  const { name, description } = data;
+  const { name, description, type, parentTeamId } = data;
 
   // System admin can update any team
   if (userRole !== 'admin') {
@@ -226,10 +254,37 @@ export async function updateTeam(pool, teamId, data, userId, userRole) {
     }
   }
 
+  if (type !== undefined && !TEAM_TYPES.includes(type)) {
+    throw new Error('Team type must be department or team');
+  }
+
+  const { rows: current } = await pool.query('SELECT owner_id, type FROM teams WHERE id = $1', [teamId]);
+  if (current.length === 0) {
+    throw new Error('Team not found');
+  }
+
+  if (parentTeamId) {
+    await validateParentTeam(pool, teamId, parentTeamId, current[0].owner_id);
+  }
+
+  // A department keeps its type while it still contains teams
+  if (type === 'team' && current[0].type === 'department') {
+    const { rows: children } = await pool.query('SELECT 1 FROM teams WHERE parent_team_id = $1 LIMIT 1', [teamId]);
+    if (children.length > 0) {
+      throw new Error('A department that contains teams cannot become a team');
+    }
+  }
+
+  // parentTeamId: undefined keeps the current parent, null detaches the team
   await pool.query(
-    `UPDATE teams SET name = COALESCE($1, name), description = COALESCE($2, description), updated_at = NOW()
+    `UPDATE teams
+     SET name = COALESCE($1, name),
+         description = COALESCE($2, description),
+         type = COALESCE($4, type),
+         parent_team_id = CASE WHEN $6 THEN $5::uuid ELSE parent_team_id END,
+         updated_at = NOW()
      WHERE id = $3`,
-    [name, description, teamId]
+    [name, description, teamId, type || null, parentTeamId || null, parentTeamId !== undefined]
   );
 
   return getTeamById(pool, teamId, userId, userRole);
@@ -254,6 +309,295 @@ export async function deleteTeam(pool, teamId, userId, userRole) {
   return result.rowCount > 0;
 }
 
+// === HIERARCHY (departments containing teams) ===
+
+/**
+ * Check that parentTeamId can contain the team: it must be a department of
+ * the same company and must not be the team itself or one of its sub-teams.
+ * teamId is null for a team being created.
+ */
+async function validateParentTeam(client, teamId, parentTeamId, ownerId) {
+  const { rows } = await client.query(`
+    SELECT t.type,
+           COALESCE(o.company_id, o.id) = (SELECT COALESCE(company_id, id) FROM users WHERE id = $2) as same_company
+    FROM teams t
+    JOIN users o ON t.owner_id = o.id
+    WHERE t.id = $1
+  `, [parentTeamId, ownerId]);
+
+  if (rows.length === 0 || !rows[0].same_company) {
+    throw new Error('Parent department not found');
+  }
+  if (rows[0].type !== 'department') {
+    throw new Error('The parent team must be a department');
+  }
+
+  if (teamId) {
+    // UNION (not UNION ALL) stops on rows already seen, so even a corrupted cycle terminates
+    const { rows: cycleRows } = await client.query(`
+      WITH RECURSIVE ancestors AS (
+        SELECT id, parent_team_id FROM teams WHERE id = $1
+        UNION
+        SELECT t.id, t.parent_team_id FROM teams t JOIN ancestors a ON t.id = a.parent_team_id
+      )
+      SELECT 1 FROM ancestors WHERE id = $2
+    `, [parentTeamId, teamId]);
+
+    if (cycleRows.length > 0) {
+      throw new Error('A department cannot be nested under itself or one of its sub-teams');
+    }
+  }
+}
+
+/**
+ * Ids of the departments containing a team, nearest first
+ */
+export async function getTeamAncestorIds(db, teamId) {
+  const { rows } = await db.query(`
+    WITH RECURSIVE ancestors AS (
+      SELECT parent_team_id as id, 1 as depth FROM teams WHERE id = $1
+      UNION
+      SELECT t.parent_team_id, a.depth + 1 FROM teams t JOIN ancestors a ON t.id = a.id
+      WHERE a.depth < 50
+    )
+    SELECT id FROM ancestors WHERE id IS NOT NULL ORDER BY depth
+  `, [teamId]);
+  return rows.map(row => row.id);
+}
+
+/**
+ * Org tree of the company: departments and teams with their OKR progress.
+ * progress covers the team's own objectives, rollupProgress also includes
+ * the objectives of every team beneath it (both weighted by objective weight).
+ */
+export async function getTeamTree(pool, companyId) {
+  const { rows } = await pool.query(`
+    SELECT t.id, t.name, t.description, t.type, t.parent_team_id, t.owner_id,
+           u.name as owner_name,
+           (SELECT COUNT(*) FROM team_members WHERE team_id = t.id) as member_count,
+           COALESCE(stats.objective_count, 0) as objective_count,
+           COALESCE(stats.weighted_progress, 0) as weighted_progress,
+           COALESCE(stats.total_weight, 0) as total_weight
+    FROM teams t
+    JOIN users u ON t.owner_id = u.id
+    LEFT JOIN (
+      SELECT team_id, COUNT(*) as objective_count,
+             SUM(progress * weight) as weighted_progress, SUM(weight) as total_weight
+      FROM objectives
+      WHERE team_id IS NOT NULL AND approval_status NOT IN ('archived', 'draft') AND deleted_at IS NULL
+      GROUP BY team_id
+    ) stats ON stats.team_id = t.id
+    WHERE u.company_id = $1 OR u.id = $1
+    ORDER BY t.type, t.name
+  `, [companyId]);
+
+  const nodes = new Map(rows.map(row => [row.id, {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    type: row.type || 'team',
+    parentTeamId: row.parent_team_id || null,
+    ownerId: row.owner_id,
+    ownerName: row.owner_name,
+    memberCount: parseInt(row.member_count) || 0,
+    objectiveCount: parseInt(row.objective_count) || 0,
+    weightedProgress: parseFloat(row.weighted_progress) || 0,
+    totalWeight: parseFloat(row.total_weight) || 0,
+    children: []
+  }]));
+
+  const roots = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentTeamId && nodes.get(node.parentTeamId);
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  // Bottom-up sums; parents are validated against cycles, so this walks a tree
+  const rollups = new Map();
+  const rollUp = (node) => {
+    const sums = { weighted: node.weightedProgress, weight: node.totalWeight, objectives: node.objectiveCount };
+    for (const child of node.children) {
+      const childSums = rollUp(child);
+      sums.weighted += childSums.weighted;
+      sums.weight += childSums.weight;
+      sums.objectives += childSums.objectives;
+    }
+    rollups.set(node.id, sums);
+    return sums;
+  };
+  roots.forEach(rollUp);
+
+  const toApi = ({ weightedProgress, totalWeight, children, ...node }) => {
+    const sums = rollups.get(node.id);
+    return {
+      ...node,
+      progress: totalWeight > 0 ? Math.round(weightedProgress / totalWeight) : null,
+      rollupProgress: sums.weight > 0 ? Math.round(sums.weighted / sums.weight) : null,
+      rollupObjectiveCount: sums.objectives,
+      children: children.map(toApi)
+    };
+  };
+
+  return roots.map(toApi);
+}
+
+// === TEAM DASHBOARD ===
+
+const TEAM_DASHBOARD_WEEKS = 12;
+
+/**
+ * Dashboard of a single team: its objectives (objectives.team_id), what each
+ * member contributes, key results at risk, check-in cadence per member over
+ * the last TEAM_DASHBOARD_WEEKS weeks and the weekly progress trend.
+ */
+export async function getTeamDashboard(pool, teamId, userId, userRole) {
+  // getTeamById only returns teams the user belongs to (any team for admins)
+  const team = await getTeamById(pool, teamId, userId, userRole);
+  if (!team) {
+    throw new Error(userRole === 'admin' ? 'Team not found' : 'Not a member of this team');
+  }
+
+  const { rows: objectiveRows } = await pool.query(`
+    SELECT o.id, o.title, o.level, o.status, o.approval_status, o.progress, o.weight,
+           o.due_date, o.owner_id, u.name as owner_name,
+           (SELECT COUNT(*) FROM key_results WHERE objective_id = o.id AND deleted_at IS NULL) as key_result_count
+    FROM objectives o
+    JOIN users u ON o.owner_id = u.id
+    WHERE o.team_id = $1 AND o.approval_status != 'archived' AND o.deleted_at IS NULL
+    ORDER BY o.due_date ASC NULLS LAST, o.created_at DESC
+  `, [teamId]);
+
+  const { rows: memberRows } = await pool.query(`
+    SELECT tm.user_id, tm.role, u.name, u.email,
+           (SELECT COUNT(*) FROM objectives o
+            WHERE o.team_id = $1 AND o.owner_id = tm.user_id AND o.approval_status != 'archived'
+              AND o.deleted_at IS NULL) as owned_count,
+           (SELECT COUNT(*) FROM objective_contributors oc
+            JOIN objectives o ON oc.objective_id = o.id
+            WHERE o.team_id = $1 AND oc.user_id = tm.user_id AND o.approval_status != 'archived'
+              AND o.deleted_at IS NULL) as contributed_count,
+           cadence.check_in_count, cadence.active_weeks, cadence.last_check_in_at
+    FROM team_members tm
+    JOIN users u ON tm.user_id = u.id
+    LEFT JOIN LATERAL (
+      SELECT COUNT(*) as check_in_count,
+             COUNT(DISTINCT date_trunc('week', c.created_at)) as active_weeks,
+             MAX(c.created_at) as last_check_in_at
+      FROM key_result_checkins c
+      JOIN key_results kr ON c.key_result_id = kr.id
+      JOIN objectives o ON kr.objective_id = o.id
+      WHERE o.team_id = $1 AND c.created_by = tm.user_id AND kr.deleted_at IS NULL
+        AND c.created_at >= date_trunc('week', NOW()) - ($2::int - 1) * INTERVAL '1 week'
+    ) cadence ON true
+    ORDER BY u.name
+  `, [teamId, TEAM_DASHBOARD_WEEKS]);
+
+  // Key results of active objectives that are behind or that their owners doubt
+  const { rows: atRiskRows } = await pool.query(`
+    SELECT kr.id, kr.description, kr.status, kr.confidence, kr.metric_type,
+           kr.start_value, kr.target_value, kr.current_value, kr.unit,
+           o.id as objective_id, o.title as objective_title, u.name as owner_name,
+           (SELECT MAX(c.created_at) FROM key_result_checkins c WHERE c.key_result_id = kr.id) as last_check_in_at
+    FROM key_results kr
+    JOIN objectives o ON kr.objective_id = o.id
+    JOIN users u ON o.owner_id = u.id
+    WHERE o.team_id = $1 AND o.approval_status = 'active' AND kr.deleted_at IS NULL
+      AND (kr.status IN ('at-risk', 'off-track') OR kr.confidence = 'low')
+    ORDER BY CASE kr.status WHEN 'off-track' THEN 1 WHEN 'at-risk' THEN 2 ELSE 3 END, o.title
+  `, [teamId]);
+
+  // Same weekly computation as getProgressTrend, restricted to the team's objectives
+  const { rows: trendRows } = await pool.query(`
+    WITH weekly AS (
+      SELECT DISTINCT ON (kr.id, date_trunc('week', ph.created_at))
+             date_trunc('week', ph.created_at) AS week,
+             CASE
+               WHEN kr.target_value = kr.start_value
+                 THEN CASE WHEN ph.new_value >= kr.target_value THEN 100 ELSE 0 END
+               ELSE LEAST(GREATEST((ph.new_value - kr.start_value) / (kr.target_value - kr.start_value) * 100, 0), 100)
+             END AS kr_progress
+      FROM progress_history ph
+      JOIN key_results kr ON ph.key_result_id = kr.id
+      JOIN objectives o ON kr.objective_id = o.id
+      WHERE o.team_id = $1 AND ph.new_value IS NOT NULL AND kr.deleted_at IS NULL
+        AND ph.created_at >= date_trunc('week', NOW()) - ($2::int - 1) * INTERVAL '1 week'
+      ORDER BY kr.id, date_trunc('week', ph.created_at), ph.created_at DESC
+    )
+    SELECT week, ROUND(AVG(kr_progress)) AS avg_progress, COUNT(*) AS updates
+    FROM weekly
+    GROUP BY week
+    ORDER BY week
+  `, [teamId, TEAM_DASHBOARD_WEEKS]);
+
+  const objectives = objectiveRows.map(row => ({
+    id: row.id,
+    title: row.title,
+    level: row.level,
+    status: row.status,
+    approvalStatus: row.approval_status,
+    progress: row.progress,
+    weight: parseFloat(row.weight) || 1,
+    dueDate: row.due_date,
+    ownerId: row.owner_id,
+    ownerName: row.owner_name,
+    keyResultCount: parseInt(row.key_result_count) || 0
+  }));
+
+  // Drafts are not committed yet, so they stay out of the summary
+  const committed = objectives.filter(obj => obj.approvalStatus !== 'draft');
+  const totalWeight = committed.reduce((sum, obj) => sum + obj.weight, 0);
+
+  return {
+    team,
+    weeks: TEAM_DASHBOARD_WEEKS,
+    summary: {
+      totalObjectives: objectives.length,
+      activeObjectives: objectives.filter(obj => obj.approvalStatus === 'active').length,
+      avgProgress: totalWeight > 0
+        ? Math.round(committed.reduce((sum, obj) => sum + obj.progress * obj.weight, 0) / totalWeight)
+        : 0,
+      atRiskCount: committed.filter(obj => ['at-risk', 'off-track'].includes(obj.status)).length,
+      completedCount: objectives.filter(obj => obj.status === 'completed' || obj.approvalStatus === 'closed').length
+    },
+    objectives,
+    members: memberRows.map(row => ({
+      userId: row.user_id,
+      name: row.name,
+      email: row.email,
+      role: row.role,
+      ownedObjectives: parseInt(row.owned_count) || 0,
+      contributedObjectives: parseInt(row.contributed_count) || 0,
+      checkInCount: parseInt(row.check_in_count) || 0,
+      activeWeeks: parseInt(row.active_weeks) || 0,
+      lastCheckInAt: row.last_check_in_at || null
+    })),
+    atRiskKeyResults: atRiskRows.map(row => ({
+      id: row.id,
+      description: row.description,
+      status: row.status,
+      confidence: row.confidence,
+      metricType: row.metric_type,
+      startValue: parseFloat(row.start_value),
+      targetValue: parseFloat(row.target_value),
+      currentValue: parseFloat(row.current_value),
+      unit: row.unit,
+      objectiveId: row.objective_id,
+      objectiveTitle: row.objective_title,
+      ownerName: row.owner_name,
+      lastCheckInAt: row.last_check_in_at || null
+    })),
+    trend: trendRows.map(row => ({
+      week: row.week,
+      avgProgress: parseInt(row.avg_progress) || 0,
+      updates: parseInt(row.updates) || 0
+    }))
+  };
+}
+
 // === TEAM MEMBERS ===
 
 export async function getTeamMembers(pool, teamId, userId, userRole) {
@@ -362,7 +706,7 @@ export async function removeMember(pool, teamId, memberId, userId, userRole) {
 // === INVITATIONS ===
 
 export async function createInvitation(pool, teamId, data, userId, options = {}, userRole) {
-  const { email, role = 'member' } = data;
+  const { email, role = 'member', name = null } = data;
   const { emailService, frontendUrl } = options;
 
   // System admin can invite to any team
@@ -400,13 +744,14 @@ export async function createInvitation(pool, teamId, data, userId, options = {},
   }
 
   const token = generateToken();
-  const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
+  const expiryDays = await getTeamInvitationExpiryDays(pool, teamId);
+  const expiresAt = new Date(Date.now() + expiryDays * DAY_MS);
 
   const { rows } = await pool.query(`
-    INSERT INTO team_invitations (team_id, email, invited_by, role, token, expires_at)
-    VALUES ($1, $2, $3, $4, $5, $6)
+    INSERT INTO team_invitations (team_id, email, invited_by, invitee_name, role, token, expires_at)
+    VALUES ($1, $2, $3, $4, $5, $6, $7)
     RETURNING *
-  `, [teamId, email, userId, role, token, expiresAt]);
+  `, [teamId, email, userId, name, role, token, expiresAt]);
 
   // Get team name and inviter name for response and email
   const team = await pool.query('SELECT name FROM teams WHERE id = $1', [teamId]);
@@ -421,7 +766,7 @@ export async function createInvitation(pool, teamId, data, userId, options = {},
     try {
       const inviteUrl = `${frontendUrl}${inviteLink}`;
       const subject = `You've been invited to join ${teamName} on OKR Manager`;
-      const html = getInvitationEmailHtml(inviterName, teamName, role, inviteUrl);
+      const html = getInvitationEmailHtml(inviterName, teamName, role, inviteUrl, expiryDays);
       await emailService.sendEmail(email, subject, html);
       console.log(`Invitation email sent to ${email}`);
     } catch (err) {
@@ -479,13 +824,13 @@ export async function getPendingInvitationsForUser(pool, email) {
 export async function resendInvitation(pool, invitationId, userId, options = {}, userRole) {
   const { emailService, frontendUrl } = options;
 
-  // Get invitation details
+  // Get invitation details (expired invitations can be revived by resending them)
   const { rows } = await pool.query(`
     SELECT ti.*, t.name as team_name, u.name as inviter_name
     FROM team_invitations ti
     JOIN teams t ON ti.team_id = t.id
     JOIN users u ON ti.invited_by = u.id
-    WHERE ti.id = $1 AND ti.status = 'pending'
+    WHERE ti.id = $1 AND ti.status IN ('pending', 'expired')
   `, [invitationId]);
 
   if (rows.length === 0) {
@@ -507,10 +852,11 @@ export async function resendInvitation(pool, invitationId, userId, options = {},
     }
   }
 
-  // Update expiration date (extend by 7 more days)
-  const newExpiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+  // Restart the expiry window from now
+  const expiryDays = await getTeamInvitationExpiryDays(pool, invitation.team_id);
+  const newExpiresAt = new Date(Date.now() + expiryDays * DAY_MS);
   await pool.query(
-    `UPDATE team_invitations SET expires_at = $1 WHERE id = $2`,
+    `UPDATE team_invitations SET expires_at = $1, status = 'pending' WHERE id = $2`,
     [newExpiresAt, invitationId]
   );
 
@@ -519,7 +865,7 @@ export async function resendInvitation(pool, invitationId, userId, options = {},
     try {
       const inviteUrl = `${frontendUrl}/invite/${invitation.token}`;
       const subject = `Reminder: You've been invited to join ${invitation.team_name} on OKR Manager`;
-      const html = getInvitationEmailHtml(invitation.inviter_name, invitation.team_name, invitation.role, inviteUrl);
+      const html = getInvitationEmailHtml(invitation.inviter_name, invitation.team_name, invitation.role, inviteUrl, expiryDays);
       await emailService.sendEmail(invitation.email, subject, html);
       console.log(`Invitation email resent to ${invitation.email}`);
     } catch (err) {
@@ -606,6 +952,15 @@ export async function declineInvitation(pool, token, userId) {
   return { success: true };
 }
 
+// Mark pending invitations past their expiry date as expired (background job)
+export async function expireInvitations(pool) {
+  const { rowCount } = await pool.query(`
+    UPDATE team_invitations SET status = 'expired'
+    WHERE status = 'pending' AND expires_at <= NOW()
+  `);
+  return rowCount;
+}
+
 // Get invitation details by token (public - no auth required)
 export async function getInvitationByToken(pool, token) {
   const { rows } = await pool.query(`
@@ -624,6 +979,7 @@ export async function getInvitationByToken(pool, token) {
   return {
     id: inv.id,
     email: inv.email,
+    name: inv.invitee_name || null,
     teamName: inv.team_name,
     teamId: inv.team_id,
     inviterName: inv.inviter_name,
@@ -752,6 +1108,348 @@ export async function cancelInvitation(pool, invitationId, userId, userRole) {
   return result.rowCount > 0;
 }
 
+// === BULK INVITATIONS (CSV) ===
+
+const MAX_CSV_ROWS = 200;
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Header names accepted for each column (English and Italian)
+const CSV_COLUMNS = {
+  email: ['email', 'e-mail', 'mail'],
+  role: ['role', 'ruolo'],
+  name: ['name', 'nome', 'full name', 'nome completo']
+};
+
+// Split one CSV line, honouring double-quoted fields
+function splitCsvLine(line, separator) {
+  const fields = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+/**
+ * Parse "email, role, name" rows. A header row is optional; spreadsheets
+ * exported with Italian settings use ';' as separator.
+ */
+function parseInvitationCsv(text) {
+  const lines = String(text || '')
+    .replace(/^\uFEFF/, '') // byte order mark added by Excel
+    .split(/\r?\n/)
+    .map((content, index) => ({ content, line: index + 1 }))
+    .filter(({ content }) => content.trim() !== '');
+
+  if (lines.length === 0) {
+    throw new Error('The CSV file is empty');
+  }
+
+  const separator = lines[0].content.includes(';') && !lines[0].content.includes(',') ? ';' : ',';
+  let columns = { email: 0, role: 1, name: 2 };
+
+  const header = splitCsvLine(lines[0].content, separator).map(field => field.toLowerCase());
+  if (header.some(field => CSV_COLUMNS.email.includes(field))) {
+    columns = Object.fromEntries(Object.entries(CSV_COLUMNS).map(([key, names]) =>
+      [key, header.findIndex(field => names.includes(field))]
+    ));
+    lines.shift();
+  }
+
+  if (lines.length > MAX_CSV_ROWS) {
+    throw new Error(`The CSV file can contain at most ${MAX_CSV_ROWS} rows`);
+  }
+
+  return lines.map(({ content, line }) => {
+    const fields = splitCsvLine(content, separator);
+    const field = (index) => (index >= 0 ? fields[index] || '' : '');
+    return {
+      line,
+      email: field(columns.email).toLowerCase(),
+      role: field(columns.role).toLowerCase(),
+      name: field(columns.name) || null
+    };
+  });
+}
+
+/**
+ * Validate the CSV rows of a bulk invite without sending anything.
+ * Each row gets a status: valid, invalid, duplicate (repeated in the file),
+ * member (already in the team) or pending (invitation already pending).
+ */
+export async function previewBulkInvitations(pool, teamId, csv, userId, userRole, options = {}) {
+  const { companyId, checkSubscriptionLimit } = options;
+
+  // System admin can invite to any team
+  if (userRole !== 'admin') {
+    const memberCheck = await pool.query(
+      `SELECT role FROM team_members WHERE team_id = $1 AND user_id = $2`,
+      [teamId, userId]
+    );
+
+    if (memberCheck.rows.length === 0 || !['owner', 'admin'].includes(memberCheck.rows[0].role)) {
+      throw new Error('Not authorized to invite members');
+    }
+  }
+
+  const rows = parseInvitationCsv(csv);
+  const emails = [...new Set(rows.map(row => row.email).filter(Boolean))];
+
+  const [{ rows: memberRows }, { rows: pendingRows }, { rows: userRows }] = await Promise.all([
+    pool.query(`
+      SELECT LOWER(u.email) as email FROM team_members tm
+      JOIN users u ON tm.user_id = u.id
+      WHERE tm.team_id = $1 AND LOWER(u.email) = ANY($2::text[])
+    `, [teamId, emails]),
+    pool.query(`
+      SELECT LOWER(email) as email FROM team_invitations
+      WHERE team_id = $1 AND status = 'pending' AND expires_at > NOW() AND LOWER(email) = ANY($2::text[])
+    `, [teamId, emails]),
+    pool.query('SELECT LOWER(email) as email FROM users WHERE LOWER(email) = ANY($1::text[])', [emails])
+  ]);
+
+  const members = new Set(memberRows.map(row => row.email));
+  const pending = new Set(pendingRows.map(row => row.email));
+  const existingUsers = new Set(userRows.map(row => row.email));
+  const seen = new Set();
+
+  const previewRows = rows.map(row => {
+    const result = { ...row, role: row.role || 'member', isNewUser: false, status: 'valid', reason: null };
+
+    if (!EMAIL_REGEX.test(row.email)) {
+      return { ...result, status: 'invalid', reason: 'Invalid email address' };
+    }
+    if (!['admin', 'member'].includes(result.role)) {
+      return { ...result, status: 'invalid', reason: 'Role must be admin or member' };
+    }
+    if (seen.has(row.email)) {
+      return { ...result, status: 'duplicate', reason: 'Repeated in the file' };
+    }
+    seen.add(row.email);
+    if (members.has(row.email)) {
+      return { ...result, status: 'member', reason: 'Already a team member' };
+    }
+    if (pending.has(row.email)) {
+      return { ...result, status: 'pending', reason: 'An invitation is already pending' };
+    }
+    return { ...result, isNewUser: !existingUsers.has(row.email) };
+  });
+
+  const validRows = previewRows.filter(row => row.status === 'valid');
+  const newUsers = validRows.filter(row => row.isNewUser).length;
+
+  // Invitees without an account become new users of the company when they accept
+  let limitError = null;
+  if (newUsers > 0 && checkSubscriptionLimit) {
+    const check = await checkSubscriptionLimit(pool, companyId, 'user');
+    if (!check.allowed) {
+      limitError = check.error;
+    } else if (check.limits) {
+      const remaining = check.limits.users.users - check.usage.users.users;
+      if (newUsers > remaining) {
+        limitError = `Il piano Free consente ancora ${remaining} nuovi utenti, ma ${newUsers} invitati non hanno un account. Passa a Premium per invitarli tutti.`;
+      }
+    }
+  }
+
+  return {
+    rows: previewRows,
+    summary: {
+      total: previewRows.length,
+      valid: validRows.length,
+      skipped: previewRows.length - validRows.length,
+      newUsers
+    },
+    limitError
+  };
+}
+
+/**
+ * Send the valid invitations of a CSV, returning the outcome of every row.
+ * Nothing is sent when the subscription limits would be exceeded.
+ */
+export async function createBulkInvitations(pool, teamId, csv, userId, options = {}, userRole) {
+  const preview = await previewBulkInvitations(pool, teamId, csv, userId, userRole, options);
+  if (preview.limitError) {
+    throw new Error(preview.limitError);
+  }
+
+  const results = [];
+  for (const row of preview.rows) {
+    if (row.status !== 'valid') {
+      results.push({ line: row.line, email: row.email, status: 'skipped', reason: row.reason });
+      continue;
+    }
+    try {
+      await createInvitation(pool, teamId, { email: row.email, role: row.role, name: row.name }, userId, options, userRole);
+      results.push({ line: row.line, email: row.email, status: 'sent', reason: null });
+    } catch (error) {
+      results.push({ line: row.line, email: row.email, status: 'failed', reason: error.message });
+    }
+  }
+
+  return {
+    results,
+    summary: {
+      sent: results.filter(r => r.status === 'sent').length,
+      skipped: results.filter(r => r.status === 'skipped').length,
+      failed: results.filter(r => r.status === 'failed').length
+    }
+  };
+}
+
+// === COMPANY INVITATIONS (company admins) ===
+
+// Invitation status as shown to users: pending invitations past their expiry date count as expired
+const EFFECTIVE_STATUS_SQL = `CASE WHEN ti.status = 'pending' AND ti.expires_at <= NOW() THEN 'expired' ELSE ti.status END`;
+
+const INVITATION_STATUSES = ['pending', 'accepted', 'declined', 'expired'];
+const MAX_BULK_INVITATIONS = 100;
+
+export async function getCompanyInvitations(pool, companyId, filters = {}) {
+  const status = INVITATION_STATUSES.includes(filters.status) ? filters.status : null;
+
+  const { rows } = await pool.query(`
+    SELECT ti.*, t.name as team_name, u.name as invited_by_name
+    FROM team_invitations ti
+    JOIN teams t ON ti.team_id = t.id
+    JOIN users o ON t.owner_id = o.id
+    JOIN users u ON ti.invited_by = u.id
+    WHERE (o.company_id = $1 OR o.id = $1)
+      AND ($2::text IS NULL OR ${EFFECTIVE_STATUS_SQL} = $2)
+    ORDER BY ti.created_at DESC
+    LIMIT 500
+  `, [companyId, status]);
+
+  const { rows: countRows } = await pool.query(`
+    SELECT ${EFFECTIVE_STATUS_SQL} as status, COUNT(*)::int as count
+    FROM team_invitations ti
+    JOIN teams t ON ti.team_id = t.id
+    JOIN users o ON t.owner_id = o.id
+    WHERE o.company_id = $1 OR o.id = $1
+    GROUP BY 1
+  `, [companyId]);
+
+  const counts = Object.fromEntries(INVITATION_STATUSES.map(s => [s, 0]));
+  for (const row of countRows) {
+    counts[row.status] = row.count;
+  }
+
+  return { invitations: rows.map(transformInvitation), counts };
+}
+
+// Keep only the ids of invitations sent for teams of the company
+async function getCompanyInvitationIds(pool, companyId, invitationIds) {
+  const { rows } = await pool.query(`
+    SELECT ti.id
+    FROM team_invitations ti
+    JOIN teams t ON ti.team_id = t.id
+    JOIN users o ON t.owner_id = o.id
+    WHERE ti.id::text = ANY($2::text[]) AND (o.company_id = $1 OR o.id = $1)
+  `, [companyId, invitationIds]);
+  return new Set(rows.map(row => row.id));
+}
+
+function validateBulkIds(invitationIds) {
+  if (!Array.isArray(invitationIds) || invitationIds.length === 0) {
+    throw new Error('Select at least one invitation');
+  }
+  if (invitationIds.length > MAX_BULK_INVITATIONS) {
+    throw new Error(`You can select at most ${MAX_BULK_INVITATIONS} invitations`);
+  }
+}
+
+// Run an action on each invitation, collecting per-invitation outcomes
+async function runBulkInvitationAction(pool, companyId, invitationIds, action) {
+  validateBulkIds(invitationIds);
+  const companyIds = await getCompanyInvitationIds(pool, companyId, invitationIds);
+  const result = { succeeded: [], failed: [] };
+
+  for (const id of invitationIds) {
+    if (!companyIds.has(id)) {
+      result.failed.push({ id, error: 'Invitation not found' });
+      continue;
+    }
+    try {
+      await action(id);
+      result.succeeded.push(id);
+    } catch (error) {
+      result.failed.push({ id, error: error.message });
+    }
+  }
+
+  return result;
+}
+
+export async function bulkResendInvitations(pool, companyId, invitationIds, userId, options = {}, userRole) {
+  const { emailService } = options;
+  // Fail once up front rather than once per invitation
+  if (!emailService || !emailService.isConfigured()) {
+    throw new Error('Email service not configured');
+  }
+
+  return runBulkInvitationAction(pool, companyId, invitationIds, (id) =>
+    resendInvitation(pool, id, userId, options, userRole)
+  );
+}
+
+export async function bulkCancelInvitations(pool, companyId, invitationIds, userId, userRole) {
+  return runBulkInvitationAction(pool, companyId, invitationIds, async (id) => {
+    const cancelled = await cancelInvitation(pool, id, userId, userRole);
+    if (!cancelled) {
+      throw new Error('Invitation not found');
+    }
+  });
+}
+
+export async function getInvitationSettings(pool, companyId) {
+  const { rows } = await pool.query(
+    'SELECT invitation_expiry_days FROM company_settings WHERE company_id = $1',
+    [companyId]
+  );
+  return {
+    expiryDays: rows[0]?.invitation_expiry_days || DEFAULT_INVITATION_EXPIRY_DAYS,
+    maxExpiryDays: MAX_INVITATION_EXPIRY_DAYS
+  };
+}
+
+// New expiry applies to invitations sent or resent from now on
+export async function updateInvitationSettings(pool, companyId, data) {
+  const expiryDays = Number(data.expiryDays);
+  if (!Number.isInteger(expiryDays) || expiryDays < 1 || expiryDays > MAX_INVITATION_EXPIRY_DAYS) {
+    throw new Error(`Invitation expiry must be between 1 and ${MAX_INVITATION_EXPIRY_DAYS} days`);
+  }
+
+  await pool.query(`
+    INSERT INTO company_settings (company_id, invitation_expiry_days)
+    VALUES ($1, $2)
+    ON CONFLICT (company_id) DO UPDATE
+    SET invitation_expiry_days = EXCLUDED.invitation_expiry_days, updated_at = NOW()
+  `, [companyId, expiryDays]);
+
+  return getInvitationSettings(pool, companyId);
+}
+
 // === SEARCH USERS ===
 
 export async function searchUsers(pool, query, teamId, userId, userRole) {
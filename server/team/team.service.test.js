@@ -0,0 +1,141 @@
+/**
+ * Team service tests - bulk invitations from CSV files and the seats left
+ * by the subscription.
+ *
+ * Runs the service functions against a fake pool: each handler answers the
+ * queries matching its pattern, every query is recorded.
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createBulkInvitations, previewBulkInvitations } from './team.service.js';
+
+const COMPANY_ID = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+const USER_ID = 'a0000000-0000-4000-8000-000000000001';
+const TEAM_ID = 'cccccccc-cccc-4ccc-8ccc-cccccccccccc';
+
+function createFakePool(handlers = []) {
+  const queries = [];
+  const query = async (sql, params = []) => {
+    queries.push({ sql, params });
+    const handler = handlers.find(([pattern]) => pattern.test(sql));
+    const rows = handler ? handler[1](params) : [];
+    return { rows, rowCount: rows.length };
+  };
+  return { queries, query, connect: async () => ({ query, release: () => {} }) };
+}
+
+const writes = (pool, pattern) => pool.queries.filter(({ sql }) => pattern.test(sql));
+
+// Lowercase emails of team members, pending invitations and existing users
+const createTeamPool = ({ members = [], pending = [], users = [] } = {}) => createFakePool([
+  [/FROM team_members tm/, () => members.map(email => ({ email }))],
+  [/FROM team_invitations/, () => pending.map(email => ({ email }))],
+  [/FROM users WHERE LOWER\(email\)/, () => users.map(email => ({ email }))]
+]);
+
+const preview = (pool, csv, options = {}) => previewBulkInvitations(pool, TEAM_ID, csv, USER_ID, 'admin', options);
+
+describe('bulk invitation CSV', () => {
+  it('reads email, role and name rows without a header', async () => {
+    const { rows } = await preview(createTeamPool(), 'Anna@Example.com,admin,Anna Rossi\nluca@example.com\n\n');
+
+    assert.deepEqual(rows.map(row => [row.line, row.email, row.role, row.name]), [
+      [1, 'anna@example.com', 'admin', 'Anna Rossi'],
+      [2, 'luca@example.com', 'member', null]
+    ]);
+  });
+
+  it('reads Italian spreadsheets: byte order mark, ";" separator and header', async () => {
+    const csv = '\uFEFFNome;E-mail;Ruolo\r\n"Rossi; Anna";anna@example.com;Admin\r\nLuca;luca@example.com;';
+    const { rows } = await preview(createTeamPool(), csv);
+
+    assert.deepEqual(rows.map(row => [row.line, row.email, row.role, row.name]), [
+      [2, 'anna@example.com', 'admin', 'Rossi; Anna'],
+      [3, 'luca@example.com', 'member', 'Luca']
+    ]);
+  });
+
+  it('flags the rows that cannot be invited', async () => {
+    const pool = createTeamPool({ members: ['member@example.com'], pending: ['pending@example.com'] });
+    const csv = [
+      'email,role',
+      'valid@example.com,member',
+      'not-an-email,member',
+      'owner@example.com,owner',
+      'VALID@example.com,admin',
+      'member@example.com,member',
+      'pending@example.com,member'
+    ].join('\n');
+
+    const { rows, summary } = await preview(pool, csv);
+    assert.deepEqual(rows.map(row => row.status), ['valid', 'invalid', 'invalid', 'duplicate', 'member', 'pending']);
+    assert.deepEqual(summary, { total: 6, valid: 1, skipped: 5, newUsers: 1 });
+  });
+
+  it('refuses empty files and files over the row limit', async () => {
+    await assert.rejects(preview(createTeamPool(), ' \n\n'), /The CSV file is empty/);
+
+    const rows = Array.from({ length: 201 }, (_, i) => `user${i}@example.com`);
+    await assert.rejects(preview(createTeamPool(), rows.join('\n')), /at most 200 rows/);
+    // The header does not count towards the limit
+    const { summary } = await preview(createTeamPool(), ['email', ...rows.slice(1)].join('\n'));
+    assert.equal(summary.total, 200);
+  });
+
+  it('only lets team owners and admins invite', async () => {
+    const pool = createFakePool([[/SELECT role FROM team_members/, () => [{ role: 'member' }]]]);
+    await assert.rejects(
+      previewBulkInvitations(pool, TEAM_ID, 'anna@example.com', USER_ID, 'user'),
+      /Not authorized to invite members/
+    );
+  });
+});
+
+describe('bulk invitation seats', () => {
+  const CSV = 'new1@example.com\nnew2@example.com\nnew3@example.com\nknown@example.com';
+
+  const seatLimit = (used, total) => {
+    const calls = [];
+    const checkSubscriptionLimit = async (db, ...args) => {
+      calls.push(args);
+      return { allowed: used < total, error: 'Limite utenti raggiunto', usage: { users: { users: used } }, limits: { users: { users: total } } };
+    };
+    return { calls, options: { companyId: COMPANY_ID, checkSubscriptionLimit } };
+  };
+
+  it('counts only invitees without an account against the remaining seats', async () => {
+    const { calls, options } = seatLimit(2, 5);
+    const { summary, limitError } = await preview(createTeamPool({ users: ['known@example.com'] }), CSV, options);
+
+    assert.equal(summary.newUsers, 3);
+    assert.equal(limitError, null);
+    assert.deepEqual(calls, [[COMPANY_ID, 'user']]);
+  });
+
+  it('reports how many seats are left when the new users do not fit', async () => {
+    const { options } = seatLimit(3, 5);
+    const { limitError } = await preview(createTeamPool({ users: ['known@example.com'] }), CSV, options);
+    assert.match(limitError, /ancora 2 nuovi utenti, ma 3 invitati/);
+  });
+
+  it('uses the error of the limit check when no seat is left', async () => {
+    const { options } = seatLimit(5, 5);
+    const { limitError } = await preview(createTeamPool(), CSV, options);
+    assert.equal(limitError, 'Limite utenti raggiunto');
+  });
+
+  it('does not check the seats when every invitee has an account', async () => {
+    const { calls, options } = seatLimit(5, 5);
+    const { limitError } = await preview(createTeamPool({ users: ['known@example.com'] }), 'known@example.com', options);
+    assert.equal(limitError, null);
+    assert.deepEqual(calls, []);
+  });
+
+  it('sends nothing when the new users do not fit', async () => {
+    const { options } = seatLimit(3, 5);
+    const pool = createTeamPool({ users: ['known@example.com'] });
+
+    await assert.rejects(createBulkInvitations(pool, TEAM_ID, CSV, USER_ID, options, 'admin'), /ancora 2 nuovi utenti/);
+    assert.deepEqual(writes(pool, /INSERT INTO team_invitations/), []);
+  });
+});
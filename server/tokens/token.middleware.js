@@ -0,0 +1,39 @@
+/**
+ * API Token Middleware - Accepts personal API tokens alongside session JWTs
+ */
+import { isApiToken, authenticateApiToken, isAllowedByScopes } from './token.service.js';
+
+/**
+ * Wrap the JWT auth middleware: `Authorization: Bearer okr_pat_...` requests
+ * are authenticated as the token's user (req.apiToken holds its id and
+ * scopes) and rejected with 403 outside the token's scopes. Any other
+ * request goes to jwtMiddleware.
+ */
+export function createTokenAuthMiddleware(pool, jwtMiddleware) {
+  return async function authMiddleware(req, res, next) {
+    const [scheme, token] = (req.headers.authorization || '').split(' ');
+    if (scheme !== 'Bearer' || !isApiToken(token)) {
+      return jwtMiddleware(req, res, next);
+    }
+
+    try {
+      const authenticated = await authenticateApiToken(pool, token);
+      if (!authenticated) {
+        return res.status(401).json({ error: 'Invalid or expired API token' });
+      }
+
+      const path = req.originalUrl.split('?')[0];
+      if (!isAllowedByScopes(authenticated.token.scopes, req.method, path, req.body)) {
+        return res.status(403).json({ error: `API token scopes do not allow ${req.method} ${path}` });
+      }
+
+      req.user = authenticated.user;
+      req.apiToken = authenticated.token;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+export default createTokenAuthMiddleware;
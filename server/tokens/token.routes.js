@@ -0,0 +1,53 @@
+/**
+ * API Token Routes - Personal API tokens of the current user
+ */
+import { Router } from 'express';
+import { API_TOKEN_SCOPES, listApiTokens, createApiToken, revokeApiToken } from './token.service.js';
+
+export function createTokenRoutes(config) {
+  const router = Router();
+  const { pool, authMiddleware, audit, validate } = config;
+
+  // Tokens are managed from a session: no scope opens these routes to API tokens
+  router.use(authMiddleware);
+
+  // List active tokens (never the tokens themselves) and the available scopes
+  router.get('/', validate('listApiTokens'), async (req, res, next) => {
+    try {
+      const tokens = await listApiTokens(pool, req.user.id);
+      res.json({ tokens, scopes: Object.keys(API_TOKEN_SCOPES) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Create a token; the response is the only time the plain token is shown
+  router.post('/', validate('createApiToken'), audit('api_token.create', { entity: 'api_token', id: (req, body) => body?.id }), async (req, res, next) => {
+    try {
+      const token = await createApiToken(pool, req.user.id, req.body);
+      res.status(201).json(token);
+    } catch (error) {
+      if (error.message.includes('Non è possibile')) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Revoke a token
+  router.delete('/:id', validate('revokeApiToken'), audit('api_token.revoke', { entity: 'api_token' }), async (req, res, next) => {
+    try {
+      const revoked = await revokeApiToken(pool, req.params.id, req.user.id);
+      if (!revoked) {
+        return res.status(404).json({ error: 'API token not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
+
+export default createTokenRoutes;
@@ -0,0 +1,155 @@
+/**
+ * API Token Service - Personal access tokens for scripts and integrations
+ * A token acts as its user, limited to the routes of its scopes. Only the
+ * SHA-256 hash is stored: the plain token is returned once, at creation.
+ */
+import { createHash, randomBytes } from 'node:crypto';
+
+export const TOKEN_PREFIX = 'okr_pat_';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_TOKENS_PER_USER = 20;
+const MAX_EXPIRY_DAYS = 365;
+// last_used_at is refreshed at most this often, not on every request
+const LAST_USED_RESOLUTION = '1 minute';
+
+// Routes each scope opens, as [method (or '*'), path pattern, allowed body fields (optional)].
+// Scope names are listed in the API contract too (ApiTokenScope)
+export const API_TOKEN_SCOPES = {
+  'okr:read': [
+    ['GET', /^\/api\/okr(\/|$)/]
+  ],
+  'okr:write': [
+    ['*', /^\/api\/okr(\/|$)/]
+  ],
+  'key_results:update': [
+    ['PUT', /^\/api\/okr\/key-results\/[^/]+$/, ['currentValue', 'confidence']],
+    ['POST', /^\/api\/okr\/key-results\/[^/]+\/check-ins$/]
+  ]
+};
+
+const TOKEN_COLUMNS = 'id, name, token_prefix, scopes, expires_at, last_used_at, created_at';
+
+function formatToken(row) {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.token_prefix,
+    scopes: row.scopes,
+    expiresAt: row.expires_at,
+    lastUsedAt: row.last_used_at,
+    createdAt: row.created_at
+  };
+}
+
+export function hashToken(token) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function isApiToken(token) {
+  return typeof token === 'string' && token.startsWith(TOKEN_PREFIX);
+}
+
+/**
+ * Whether the scopes of a token allow a request (path without query string)
+ */
+export function isAllowedByScopes(scopes, method, path, body = {}) {
+  return scopes.some(scope => (API_TOKEN_SCOPES[scope] || []).some(
+    ([allowedMethod, pattern, fields]) => (allowedMethod === '*' || allowedMethod === method)
+      && pattern.test(path)
+      && (!fields || Object.keys(body || {}).every(field => fields.includes(field)))
+  ));
+}
+
+export async function listApiTokens(db, userId) {
+  const result = await db.query(
+    `SELECT ${TOKEN_COLUMNS}
+     FROM api_tokens
+     WHERE user_id = $1 AND revoked_at IS NULL
+     ORDER BY created_at DESC`,
+    [userId]
+  );
+  return result.rows.map(formatToken);
+}
+
+/**
+ * Create a token. The returned object carries the plain token, which
+ * cannot be read again.
+ */
+export async function createApiToken(db, userId, data) {
+  const name = typeof data?.name === 'string' ? data.name.trim() : '';
+  if (!name || name.length > 100) {
+    throw new Error('Non è possibile creare il token: il nome è obbligatorio (massimo 100 caratteri)');
+  }
+
+  const scopes = [...new Set(Array.isArray(data.scopes) ? data.scopes : [])];
+  if (scopes.length === 0) {
+    throw new Error('Non è possibile creare il token: scegli almeno un permesso');
+  }
+  const unknown = scopes.find(scope => !API_TOKEN_SCOPES[scope]);
+  if (unknown) {
+    throw new Error(`Non è possibile creare il token: permesso "${unknown}" non valido`);
+  }
+
+  const expiresInDays = data.expiresInDays ?? null;
+  if (expiresInDays !== null && (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS)) {
+    throw new Error(`Non è possibile creare il token: la scadenza deve essere tra 1 e ${MAX_EXPIRY_DAYS} giorni`);
+  }
+
+  const count = await db.query(
+    'SELECT COUNT(*)::int as count FROM api_tokens WHERE user_id = $1 AND revoked_at IS NULL',
+    [userId]
+  );
+  if (count.rows[0].count >= MAX_TOKENS_PER_USER) {
+    throw new Error(`Non è possibile creare il token: massimo ${MAX_TOKENS_PER_USER} token attivi`);
+  }
+
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const result = await db.query(
+    `INSERT INTO api_tokens (user_id, name, token_hash, token_prefix, scopes, expires_at)
+     VALUES ($1, $2, $3, $4, $5, CASE WHEN $6::int IS NULL THEN NULL ELSE NOW() + make_interval(days => $6::int) END)
+     RETURNING ${TOKEN_COLUMNS}`,
+    [userId, name, hashToken(token), token.slice(0, TOKEN_PREFIX.length + 4), scopes, expiresInDays]
+  );
+
+  return { ...formatToken(result.rows[0]), token };
+}
+
+/**
+ * Revoke a token of the user. Returns false when there is no such active token.
+ */
+export async function revokeApiToken(db, tokenId, userId) {
+  if (!UUID_PATTERN.test(tokenId)) return false;
+
+  const result = await db.query(
+    `UPDATE api_tokens SET revoked_at = NOW()
+     WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL`,
+    [tokenId, userId]
+  );
+  return result.rowCount > 0;
+}
+
+/**
+ * Resolve a plain token to its user and scopes, or null when it is unknown,
+ * revoked or expired. Records the use.
+ */
+export async function authenticateApiToken(db, token) {
+  const result = await db.query(
+    `SELECT t.id as token_id, t.scopes, u.id, u.email, u.name, u.role, u.company_id
+     FROM api_tokens t
+     JOIN users u ON t.user_id = u.id
+     WHERE t.token_hash = $1 AND t.revoked_at IS NULL
+       AND (t.expires_at IS NULL OR t.expires_at > NOW())`,
+    [hashToken(token)]
+  );
+  if (result.rows.length === 0) return null;
+
+  const { token_id: tokenId, scopes, ...user } = result.rows[0];
+  await db.query(
+    `UPDATE api_tokens SET last_used_at = NOW()
+     WHERE id = $1 AND (last_used_at IS NULL OR last_used_at < NOW() - INTERVAL '${LAST_USED_RESOLUTION}')`,
+    [tokenId]
+  );
+
+  return { user, token: { id: tokenId, scopes } };
+}
@@ -0,0 +1,124 @@
+/**
+ * API token tests - tokens are stored hashed, authenticate as their user and
+ * only reach the routes of their scopes.
+ */
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { API_TOKEN_SCOPES, createApiToken, hashToken, isAllowedByScopes, TOKEN_PREFIX } from './token.service.js';
+import { createTokenAuthMiddleware } from './token.middleware.js';
+import { definitions } from '../contract/contract.js';
+
+const USER = { id: 'a0000000-0000-4000-8000-000000000001', email: 'bi@a.test', name: 'BI', role: 'user', company_id: null };
+
+// Fake pool holding api_tokens rows by hash
+function createFakePool() {
+  const state = { tokens: {}, queries: [] };
+
+  const query = async (sql, params = []) => {
+    state.queries.push({ sql, params });
+    if (sql.includes('COUNT(*)')) {
+      return { rows: [{ count: Object.keys(state.tokens).length }] };
+    }
+    if (sql.includes('INSERT INTO api_tokens')) {
+      const [, name, tokenHash, prefix, scopes] = params;
+      const row = { id: 't1', name, token_prefix: prefix, scopes, expires_at: null, last_used_at: null, created_at: new Date() };
+      state.tokens[tokenHash] = row;
+      return { rows: [row], rowCount: 1 };
+    }
+    if (sql.includes('WHERE t.token_hash = $1')) {
+      const row = state.tokens[params[0]];
+      return row ? { rows: [{ token_id: row.id, scopes: row.scopes, ...USER }], rowCount: 1 } : { rows: [], rowCount: 0 };
+    }
+    return { rows: [], rowCount: 0 };
+  };
+
+  return { state, query };
+}
+
+describe('API tokens', () => {
+  let pool;
+  let server;
+  let baseUrl;
+
+  before(async () => {
+    pool = createFakePool();
+    const jwtMiddleware = (req, res) => res.status(401).json({ error: 'jwt' });
+    const authMiddleware = createTokenAuthMiddleware(pool, jwtMiddleware);
+
+    const app = express();
+    app.use('/api', authMiddleware, (req, res) => res.json({ userId: req.user.id, scopes: req.apiToken.scopes }));
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  after(() => new Promise(resolve => server.close(resolve)));
+
+  beforeEach(() => {
+    pool.state.tokens = {};
+    pool.state.queries = [];
+  });
+
+  const request = async (method, path, token) => {
+    const response = await fetch(`${baseUrl}${path}`, { method, headers: token ? { Authorization: `Bearer ${token}` } : {} });
+    return { status: response.status, body: await response.json() };
+  };
+
+  it('stores only the hash of a new token', async () => {
+    const created = await createApiToken(pool, USER.id, { name: 'Report BI', scopes: ['okr:read'] });
+
+    assert.ok(created.token.startsWith(TOKEN_PREFIX));
+    assert.ok(created.token.startsWith(created.prefix));
+    assert.deepEqual(Object.keys(pool.state.tokens), [hashToken(created.token)]);
+    const insert = pool.state.queries.find(query => query.sql.includes('INSERT'));
+    assert.ok(!insert.params.includes(created.token));
+  });
+
+  it('rejects invalid names, scopes and expiries', async () => {
+    await assert.rejects(createApiToken(pool, USER.id, { name: ' ', scopes: ['okr:read'] }), /nome/);
+    await assert.rejects(createApiToken(pool, USER.id, { name: 'CI', scopes: [] }), /almeno un permesso/);
+    await assert.rejects(createApiToken(pool, USER.id, { name: 'CI', scopes: ['admin'] }), /"admin" non valido/);
+    await assert.rejects(createApiToken(pool, USER.id, { name: 'CI', scopes: ['okr:read'], expiresInDays: 0 }), /scadenza/);
+  });
+
+  it('authenticates as the token user and records the use', async () => {
+    const { token } = await createApiToken(pool, USER.id, { name: 'Report BI', scopes: ['okr:read'] });
+
+    const { status, body } = await request('GET', '/api/okr/objectives?period=Q1', token);
+    assert.equal(status, 200);
+    assert.deepEqual(body, { userId: USER.id, scopes: ['okr:read'] });
+    assert.ok(pool.state.queries.some(query => query.sql.includes('SET last_used_at = NOW()')));
+  });
+
+  it('answers 403 outside the token scopes', async () => {
+    const { token } = await createApiToken(pool, USER.id, { name: 'Report BI', scopes: ['okr:read'] });
+
+    assert.equal((await request('POST', '/api/okr/objectives', token)).status, 403);
+    assert.equal((await request('GET', '/api/teams', token)).status, 403);
+    assert.equal((await request('GET', '/api/tokens', token)).status, 403);
+  });
+
+  it('answers 401 for unknown tokens and leaves other bearers to the JWT middleware', async () => {
+    const unknown = await request('GET', '/api/okr/objectives', `${TOKEN_PREFIX}unknown`);
+    assert.equal(unknown.status, 401);
+    assert.match(unknown.body.error, /API token/);
+
+    const jwt = await request('GET', '/api/okr/objectives', 'eyJhbGciOiJIUzI1NiJ9.e30.signature');
+    assert.deepEqual(jwt.body, { error: 'jwt' });
+  });
+
+  it('limits key result tokens to value updates and check-ins', () => {
+    const scopes = ['key_results:update'];
+    assert.ok(isAllowedByScopes(scopes, 'PUT', '/api/okr/key-results/kr-1', { currentValue: 42 }));
+    assert.ok(!isAllowedByScopes(scopes, 'PUT', '/api/okr/key-results/kr-1', { currentValue: 42, targetValue: 10 }));
+    assert.ok(!isAllowedByScopes(scopes, 'PUT', '/api/okr/key-results/kr-1', { steps: [] }));
+    assert.ok(isAllowedByScopes(scopes, 'POST', '/api/okr/key-results/kr-1/check-ins'));
+    assert.ok(!isAllowedByScopes(scopes, 'DELETE', '/api/okr/key-results/kr-1'));
+    assert.ok(!isAllowedByScopes(scopes, 'PUT', '/api/okr/objectives/o-1'));
+  });
+
+  it('lists the same scopes as the API contract', () => {
+    assert.deepEqual(Object.keys(API_TOKEN_SCOPES).sort(), [...definitions.ApiTokenScope.enum].sort());
+  });
+});
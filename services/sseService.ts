@@ -11,11 +11,15 @@ export type SSEEventType =
   | 'okr_submitted'
   | 'okr_activated'
   | 'okr_updated'
-  | 'okr_deleted';
+  | 'okr_deleted'
+  | 'comment_mention'
+  | 'refresh_notifications';
 
 let eventSource: EventSource | null = null;
 let reconnectTimeout: NodeJS.Timeout | null = null;
 let isConnecting = false;
+// Id of the last received event, sent back on reconnect so the server replays what we missed
+let lastEventId: string | null = null;
 
 export function connectSSE() {
   if (isConnecting || eventSource?.readyState === EventSource.OPEN) {
@@ -36,7 +40,8 @@ export function connectSSE() {
     eventSource = null;
   }
 
-  const url = `${API_BASE_URL}/notifications/stream?token=${encodeURIComponent(token)}`;
+  const replayParam = lastEventId ? `&lastEventId=${encodeURIComponent(lastEventId)}` : '';
+  const url = `${API_BASE_URL}/notifications/stream?token=${encodeURIComponent(token)}${replayParam}`;
 
   try {
     eventSource = new EventSource(url);
@@ -69,15 +74,27 @@ export function connectSSE() {
       'okr_submitted',
       'okr_activated',
       'okr_updated',
-      'okr_deleted'
+      'okr_deleted',
+      'comment_mention',
+      'refresh_notifications'
     ];
 
     eventTypes.forEach(type => {
       eventSource!.addEventListener(type, (event) => {
         try {
-          const data = JSON.parse((event as MessageEvent).data);
+          const message = event as MessageEvent;
+          if (message.lastEventId) {
+            lastEventId = message.lastEventId;
+          }
+          const data = JSON.parse(message.data);
           console.log('[SSE] Event received:', type, data);
 
+          // The inbox changed: only the notification center needs to reload
+          if (type === 'refresh_notifications') {
+            window.dispatchEvent(new CustomEvent('notifications-refresh'));
+            return;
+          }
+
           // Dispatch custom window event that components can listen to
           window.dispatchEvent(new CustomEvent('sse-notification', {
             detail: { type, data }
@@ -104,6 +121,7 @@ export function disconnectSSE() {
     eventSource = null;
   }
   isConnecting = false;
+  lastEventId = null;
 }
 
 // Auto-connect when token changes
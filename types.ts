@@ -1,11 +1,10 @@
 import React from 'react';
+import type { OKRLevel, ProgressStatus } from './api/contract.generated';
 
-export type Status = 'on-track' | 'at-risk' | 'off-track' | 'completed' | 'draft' | 'approved';
-export type Confidence = 'high' | 'medium' | 'low';
-export type MetricType = 'percentage' | 'number' | 'currency' | 'boolean';
-export type ViewMode = 'dashboard' | 'okrs' | 'team' | 'reports' | 'settings' | 'admin' | 'superadmin' | 'profile' | 'billing';
-export type ApprovalStatus = 'draft' | 'pending_review' | 'approved' | 'active';
-export type OKRLevel = 'company' | 'department' | 'team' | 'individual';
+// OKR shapes are defined by the API contract (server/contract/contract.js)
+export type { Objective, KeyResult, ApprovalStatus, OKRLevel, Confidence, MetricType } from './api/contract.generated';
+export type Status = ProgressStatus;
+export type ViewMode = 'dashboard' | 'okrs' | 'team' | 'reports' | 'settings' | 'admin' | 'superadmin' | 'profile' | 'billing' | 'periods' | 'invitations' | 'audit' | 'trash';
 
 export interface User {
   id: string;
@@ -14,47 +13,6 @@ export interface User {
   role: string;
 }
 
-export interface KeyResult {
-  id: string;
-  description: string;
-  metricType: MetricType;
-  startValue: number;
-  targetValue: number;
-  currentValue: number;
-  unit?: string;
-  status: Status;
-  confidence: Confidence;
-}
-
-export interface Objective {
-  id: string;
-  title: string;
-  description: string;
-  ownerId: string;
-  ownerName?: string;
-  level: OKRLevel;
-  period: string; // e.g. "Q1 2026"
-  status: Status;
-  progress: number;
-  keyResults: KeyResult[];
-  dueDate: string;
-  createdAt?: string;
-  updatedAt?: string;
-  // Hierarchy fields
-  parentObjectiveId?: string | null;
-  parentObjectiveTitle?: string | null;
-  teamId?: string | null;
-  teamName?: string | null;
-  childrenCount?: number;
-  children?: Objective[];
-  ancestors?: { id: string; title: string; level: OKRLevel }[];
-  // Approval workflow
-  approvalStatus?: ApprovalStatus;
-  approvedBy?: string | null;
-  approvedByName?: string | null;
-  approvedAt?: string | null;
-}
-
 export interface ParentObjective {
   id: string;
   title: string;